@@ -0,0 +1,82 @@
+import { matchAllergenTerm, ontologyEntry, userAllergenMatches } from '../app/utils/allergenOntology';
+import { buildDishViewModel } from '../app/utils/dishViewModel';
+import { AnalyzeDishResponse } from '../api/api';
+
+describe('ontologyEntry', () => {
+  it('should resolve codes, display names and synonyms', () => {
+    expect(ontologyEntry('tree_nut')?.code).toBe('tree_nut');
+    expect(ontologyEntry('Tree Nuts')?.code).toBe('tree_nut');
+    expect(ontologyEntry('dairy')?.code).toBe('milk');
+    expect(ontologyEntry('Wheat')?.code).toBe('gluten');
+    expect(ontologyEntry('mustard')).toBeNull();
+  });
+});
+
+describe('matchAllergenTerm', () => {
+  const milk = ontologyEntry('milk')!;
+
+  it('should explain terms, derivatives and hidden sources', () => {
+    expect(matchAllergenTerm('Roasted cashews', ontologyEntry('tree_nut')!)?.explanation).toBe(
+      'Cashew: counts as tree nuts.'
+    );
+    expect(matchAllergenTerm('ghee', milk)).toEqual(
+      expect.objectContaining({ term: 'ghee', kind: 'derivative', explanation: 'Ghee: made from milk.' })
+    );
+    expect(matchAllergenTerm('2 tbsp soy sauce', ontologyEntry('gluten')!)).toEqual(
+      expect.objectContaining({ kind: 'hidden_source', explanation: 'Soy sauce: often contains gluten.' })
+    );
+    expect(matchAllergenTerm('whole milk', milk)?.explanation).toBe('Milk: one of your allergens.');
+  });
+
+  it('should match whole words only', () => {
+    expect(matchAllergenTerm('eggplant', ontologyEntry('egg')!)).toBeNull();
+    expect(matchAllergenTerm('shellfish stock', ontologyEntry('fish')!)).toBeNull();
+    expect(matchAllergenTerm('grilled shrimp', ontologyEntry('shellfish')!)?.term).toBe('shrimp');
+  });
+
+  it('should skip phrases that only look like the allergen', () => {
+    expect(matchAllergenTerm('peanut butter', milk)).toBeNull();
+    expect(matchAllergenTerm('coconut milk', milk)).toBeNull();
+    expect(matchAllergenTerm('peanut butter and butter', milk)?.term).toBe('butter');
+  });
+});
+
+describe('userAllergenMatches', () => {
+  it('should carry the severity of each matching allergen', () => {
+    const matches = userAllergenMatches('Pesto with parmesan', [
+      { name: 'tree nut', severity: 'avoid' },
+      { name: 'Dairy', severity: 'monitor' },
+      { name: 'soy', severity: 'avoid' },
+    ]);
+
+    expect(matches.map((m) => [m.allergen, m.severity, m.explanation])).toEqual([
+      ['tree nut', 'avoid', 'Pesto: often contains tree nuts.'],
+      ['Dairy', 'monitor', 'Parmesan: made from milk.'],
+    ]);
+  });
+
+  it('should fall back to the name for allergens outside the ontology', () => {
+    expect(userAllergenMatches('Dijon mustard', ['mustard'])).toEqual([
+      expect.objectContaining({ allergen: 'mustard', severity: 'avoid', explanation: 'Mustard: one of your allergens.' }),
+    ]);
+  });
+});
+
+describe('buildDishViewModel with the ontology', () => {
+  const dish = {
+    ok: true,
+    allergen_flags: [
+      { kind: 'wheat', present: 'yes', message: 'Flour', source: 'recipe' },
+      { kind: 'shrimp', present: 'maybe', message: 'Stock', source: 'recipe' },
+    ],
+  } as AnalyzeDishResponse;
+
+  it('should match flags the user named differently, and say why', () => {
+    const pills = buildDishViewModel(dish, ['gluten', { name: 'shellfish', severity: 'limit' }]).allergens;
+
+    expect(pills.map((p) => [p.isUserAllergen, p.severity, p.matchReason])).toEqual([
+      [true, 'avoid', 'Wheat: counts as gluten.'],
+      [true, 'limit', 'Shrimp: counts as shellfish.'],
+    ]);
+  });
+});
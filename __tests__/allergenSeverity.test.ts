@@ -0,0 +1,97 @@
+import { allergenRisk, allergenRiskFlags, maxAllergenRisk, userAllergenPrefs } from '../app/utils/allergenSeverity';
+import { buildDishViewModel } from '../app/utils/dishViewModel';
+import { buildMealLog } from '../app/utils/mealLog';
+import { AnalyzeDishResponse } from '../api/api';
+
+const satay = {
+  ok: true,
+  allergen_flags: [
+    { kind: 'peanut', present: 'maybe', message: 'Satay sauce', source: 'recipe' },
+    { kind: 'soy', present: 'yes', message: 'Soy sauce', source: 'recipe' },
+    { kind: 'milk', present: 'yes', message: 'Coconut cream blend', source: 'recipe' },
+  ],
+} as AnalyzeDishResponse;
+
+describe('allergenRisk', () => {
+  it('should rank an avoided "maybe" above a monitored "yes"', () => {
+    expect(allergenRisk('maybe', 'avoid')).toBe('high');
+    expect(allergenRisk('yes', 'limit')).toBe('medium');
+    expect(allergenRisk('maybe', 'limit')).toBe('low');
+    expect(allergenRisk('yes', 'monitor')).toBe('low');
+    expect(allergenRisk('no', 'avoid')).toBeNull();
+  });
+
+  it('should pick the highest risk', () => {
+    expect(maxAllergenRisk(['low', null, 'medium'])).toBe('medium');
+    expect(maxAllergenRisk([null])).toBeNull();
+  });
+});
+
+describe('userAllergenPrefs', () => {
+  it('should name allergens by display name, falling back to the code', () => {
+    expect(
+      userAllergenPrefs([
+        { user_id: 'u', allergen_code: 'tree_nut', severity: 'limit' },
+        { user_id: 'u', allergen_code: 'milk', severity: 'monitor', display_name: 'Milk' },
+      ])
+    ).toEqual([
+      { name: 'tree nut', severity: 'limit' },
+      { name: 'Milk', severity: 'monitor' },
+    ]);
+  });
+});
+
+describe('buildDishViewModel with severities', () => {
+  const prefs = [
+    { name: 'peanut', severity: 'avoid' as const },
+    { name: 'soy', severity: 'limit' as const },
+    { name: 'dairy', severity: 'monitor' as const },
+  ];
+
+  it('should carry severity and risk on each pill', () => {
+    const pills = buildDishViewModel(satay, prefs).allergens;
+
+    expect(pills.map((p) => [p.name, p.severity, p.risk])).toEqual([
+      ['peanut', 'avoid', 'high'],
+      ['soy', 'limit', 'medium'],
+      ['milk', 'monitor', 'low'],
+    ]);
+  });
+
+  it('should word the alert by severity', () => {
+    expect(buildDishViewModel(satay, prefs).allergenAlert).toEqual({
+      risk: 'high',
+      message: 'May contain peanut, which you avoid. Contains soy, which you limit. Contains milk, which you monitor.',
+    });
+    expect(buildDishViewModel(satay, []).allergenAlert).toBeNull();
+  });
+
+  it('should treat bare names as avoided', () => {
+    expect(buildDishViewModel(satay, ['soy']).allergens[1]).toEqual(
+      expect.objectContaining({ isUserAllergen: true, severity: 'avoid', risk: 'high' })
+    );
+  });
+});
+
+describe('allergenRiskFlags', () => {
+  it('should add avoid and limit flags on top of the contains flags', () => {
+    const pills = buildDishViewModel(satay, [
+      { name: 'peanut', severity: 'avoid' },
+      { name: 'soy', severity: 'limit' },
+      { name: 'milk', severity: 'monitor' },
+    ]).allergens;
+
+    expect(allergenRiskFlags(pills)).toEqual([
+      'avoid_allergen_peanut',
+      'allergen_soy',
+      'limit_allergen_soy',
+      'allergen_milk',
+    ]);
+  });
+
+  it('should reach the logged meal', () => {
+    const meal = buildMealLog(satay, { dishName: 'Satay', userAllergens: [{ name: 'peanut', severity: 'avoid' }] });
+
+    expect(meal.risk_flags).toEqual(['avoid_allergen_peanut', 'allergen_soy', 'allergen_milk']);
+  });
+});
@@ -0,0 +1,45 @@
+import { describeAnalysisChange, diffAnalyses } from '../utils/analysisDiff';
+import { AnalyzeDishResponse } from '../api/api';
+import { analysis, fodmap, nutrition } from './fixtures';
+
+const padThai = analysis({
+  dishName: 'Pad Thai',
+  allergen_flags: [{ kind: 'peanut', present: 'yes', message: 'Peanuts', source: 'recipe' }],
+  fodmap_flags: fodmap('medium', 'Garlic'),
+  nutrition_summary: nutrition(600),
+});
+
+describe('diffAnalyses', () => {
+  it('should report nothing for equivalent analyses', () => {
+    const after = { ...padThai, nutrition_summary: nutrition(620) };
+    expect(diffAnalyses(padThai, after)).toEqual([]);
+  });
+
+  it('should report allergen, FODMAP and calorie changes', () => {
+    const after: AnalyzeDishResponse = {
+      ...padThai,
+      allergen_flags: [
+        { kind: 'peanut', present: 'maybe', message: 'Peanut sauce', source: 'recipe' },
+        { kind: 'shellfish', present: 'yes', message: 'Shrimp', source: 'recipe' },
+        { kind: 'milk', present: 'no', message: '', source: 'recipe' },
+      ],
+      fodmap_flags: fodmap('high', 'Garlic and onion'),
+      nutrition_summary: nutrition(800),
+    };
+
+    const changes = diffAnalyses(padThai, after);
+
+    expect(changes).toEqual([
+      { kind: 'allergen_changed', allergen: 'peanut', from: 'yes', to: 'maybe' },
+      { kind: 'allergen_added', allergen: 'shellfish', present: 'yes' },
+      { kind: 'fodmap_level', from: 'medium', to: 'high' },
+      { kind: 'calories', from: 600, to: 800 },
+    ]);
+    expect(changes.map(describeAnalysisChange)).toContain('Now contains Shellfish');
+  });
+
+  it('should report allergens that are no longer flagged', () => {
+    const changes = diffAnalyses(padThai, { ...padThai, allergen_flags: [] });
+    expect(changes).toEqual([{ kind: 'allergen_removed', allergen: 'peanut' }]);
+  });
+});
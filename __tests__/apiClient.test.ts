@@ -0,0 +1,150 @@
+import { apiRequest, unwrap, ApiRequestError } from '../api/client';
+
+// Minimal Response stand-in: the client only reads ok, status and text()
+const mockResponse = (status: number, body: string) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  text: () => Promise.resolve(body),
+});
+
+// fetch that never settles until its signal aborts
+const hangingFetch = (_url: string, init: { signal: AbortSignal }) =>
+  new Promise((_resolve, reject) => {
+    init.signal.addEventListener('abort', () => reject(new Error('Aborted')));
+  });
+
+describe('apiRequest', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('should return parsed data on success', async () => {
+    fetchMock.mockResolvedValue(mockResponse(200, '{"ok":true,"value":42}'));
+
+    const result = await apiRequest<{ ok: boolean; value: number }>('https://x.test/a');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.data.value).toBe(42);
+  });
+
+  it('should send JSON bodies with a content type', async () => {
+    fetchMock.mockResolvedValue(mockResponse(200, '{"ok":true}'));
+
+    await apiRequest('https://x.test/a', { method: 'POST', body: { a: 1 } });
+
+    const init = fetchMock.mock.calls[0][1];
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe('{"a":1}');
+    expect(init.headers['Content-Type']).toBe('application/json');
+  });
+
+  it('should report HTTP errors with the backend message when available', async () => {
+    fetchMock.mockResolvedValue(mockResponse(404, '{"error":"Not here"}'));
+
+    const result = await apiRequest('https://x.test/a', { retries: 0 });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.kind).toBe('http');
+      expect(result.error.message).toBe('Not here');
+      if (result.error.kind === 'http') expect(result.error.status).toBe(404);
+    }
+  });
+
+  it('should report invalid JSON', async () => {
+    fetchMock.mockResolvedValue(mockResponse(200, '<html>oops</html>'));
+
+    const result = await apiRequest('https://x.test/a');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.kind).toBe('invalid_json');
+  });
+
+  it('should treat ok:false bodies as backend errors unless disabled', async () => {
+    fetchMock.mockResolvedValue(mockResponse(200, '{"ok":false,"error":"No items"}'));
+
+    const checked = await apiRequest('https://x.test/a');
+    const unchecked = await apiRequest('https://x.test/a', { checkOk: false });
+
+    expect(checked.ok).toBe(false);
+    if (!checked.ok) {
+      expect(checked.error.kind).toBe('backend');
+      expect(checked.error.message).toBe('No items');
+    }
+    expect(unchecked.ok).toBe(true);
+  });
+
+  it('should time out slow requests', async () => {
+    fetchMock.mockImplementation(hangingFetch);
+
+    const result = await apiRequest('https://x.test/a', { timeoutMs: 20, retries: 0 });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.kind).toBe('timeout');
+  });
+
+  it('should report caller cancellation as aborted without retrying', async () => {
+    fetchMock.mockImplementation(hangingFetch);
+    const controller = new AbortController();
+
+    const pending = apiRequest('https://x.test/a', { signal: controller.signal, retries: 3 });
+    controller.abort();
+    const result = await pending;
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.kind).toBe('aborted');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry GET requests on server errors', async () => {
+    fetchMock
+      .mockResolvedValueOnce(mockResponse(503, 'busy'))
+      .mockResolvedValueOnce(mockResponse(200, '{"ok":true}'));
+
+    const result = await apiRequest('https://x.test/a', { retryDelayMs: 1 });
+
+    expect(result.ok).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry POST requests by default', async () => {
+    fetchMock.mockResolvedValue(mockResponse(503, 'busy'));
+
+    const result = await apiRequest('https://x.test/a', { method: 'POST', body: {} });
+
+    expect(result.ok).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry client errors', async () => {
+    fetchMock.mockResolvedValue(mockResponse(400, '{"error":"Bad input"}'));
+
+    await apiRequest('https://x.test/a', { retries: 3, retryDelayMs: 1 });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw a typed error from unwrap', async () => {
+    fetchMock.mockResolvedValue(mockResponse(500, 'down'));
+
+    const result = await apiRequest('https://x.test/a', { retries: 0 });
+
+    expect(() => unwrap(result)).toThrow(ApiRequestError);
+    try {
+      unwrap(result);
+    } catch (e) {
+      expect((e as ApiRequestError).kind).toBe('http');
+    }
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  createBatchJobIndex,
+  describeBatchJobMismatch,
+  resolveBatchJob,
+} from '../app/utils/batchJobMatching';
+import { MOCK_BASE_URL } from '../api/environment';
+import { handleMockRequest, resetMockServer } from '../api/mock/mockServer';
+
+const dishes = [
+  { dishName: 'Pad Thai', clientKey: 'noodles-0' },
+  { dishName: 'Pad Thai', clientKey: 'specials-3' },
+  { dishName: 'Green Curry', clientKey: 'curries-1' },
+];
+
+describe('resolveBatchJob', () => {
+  it('should match jobs by clientKey regardless of order', () => {
+    const index = createBatchJobIndex(dishes);
+
+    expect(resolveBatchJob(index, { jobId: 'j3', dishName: 'Green Curry', clientKey: 'curries-1' })).toEqual({
+      itemId: 'curries-1',
+    });
+    expect(resolveBatchJob(index, { jobId: 'j2', dishName: 'pad  thai', clientKey: 'specials-3' })).toEqual({
+      itemId: 'specials-3',
+    });
+    expect(index.jobIdByItemId).toEqual({ 'curries-1': 'j3', 'specials-3': 'j2' });
+    // Later deltas carrying only the jobId still resolve
+    expect(resolveBatchJob(index, { jobId: 'j2', dishName: '' })).toEqual({ itemId: 'specials-3' });
+  });
+
+  it('should reject unknown keys, renamed dishes and repeated keys', () => {
+    const index = createBatchJobIndex(dishes);
+
+    const unknown = resolveBatchJob(index, { jobId: 'j1', dishName: 'Pad Thai', clientKey: 'noodles-9' });
+    const renamed = resolveBatchJob(index, { jobId: 'j2', dishName: 'Red Curry', clientKey: 'curries-1' });
+    resolveBatchJob(index, { jobId: 'j3', dishName: 'Pad Thai', clientKey: 'noodles-0' });
+    const repeated = resolveBatchJob(index, { jobId: 'j4', dishName: 'Pad Thai', clientKey: 'noodles-0' });
+
+    expect(unknown).toEqual({ mismatch: expect.objectContaining({ kind: 'unknown_key' }) });
+    expect(renamed).toEqual({ mismatch: expect.objectContaining({ kind: 'name_mismatch', expected: 'Green Curry' }) });
+    expect(repeated).toEqual({ mismatch: expect.objectContaining({ kind: 'duplicate_key', otherJobId: 'j3' }) });
+    expect(index.jobIdByItemId['curries-1']).toBeUndefined();
+    if ('mismatch' in renamed) {
+      expect(describeBatchJobMismatch(renamed.mismatch)).toContain('Red Curry');
+    }
+  });
+
+  it('should only fall back to names when the match is unambiguous', () => {
+    const index = createBatchJobIndex(dishes);
+
+    expect(resolveBatchJob(index, { jobId: 'j1', dishName: 'Green Curry' })).toEqual({ itemId: 'curries-1' });
+    expect(resolveBatchJob(index, { jobId: 'j2', dishName: 'Pad Thai' })).toEqual({
+      mismatch: expect.objectContaining({ kind: 'missing_key' }),
+    });
+  });
+
+  it('should resolve every job the mock backend returns', () => {
+    resetMockServer();
+    const requested = [...dishes, { dishName: 'Spring Rolls', clientKey: 'starters-0' }];
+    const start = handleMockRequest(`${MOCK_BASE_URL}/api/analyze/batch`, {
+      method: 'POST',
+      body: JSON.stringify({ restaurantName: 'Test', dishes: requested }),
+    })?.body as { jobs: { jobId: string; dishName: string; clientKey?: string }[] };
+    const index = createBatchJobIndex(requested);
+
+    const itemIds = [...start.jobs].reverse().map((job) => resolveBatchJob(index, job));
+
+    expect(itemIds.map((r) => ('itemId' in r ? r.itemId : null)).sort()).toEqual(
+      requested.map((d) => d.clientKey).sort()
+    );
+  });
+});
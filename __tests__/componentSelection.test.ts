@@ -0,0 +1,129 @@
+import {
+  applySelection,
+  breakdownComponents,
+  isDefaultSelection,
+  mergeAllergenFlags,
+  recomputeSelection,
+  selectableComponents,
+} from '../app/utils/componentSelection';
+import { AnalyzeDishResponse } from '../api/api';
+import { buildDishViewModel } from '../app/utils/dishViewModel';
+import { component, curry, nutrition } from './fixtures';
+
+describe('selectableComponents', () => {
+  it('should list the plate components that have an id', () => {
+    expect(selectableComponents(curry).map((c) => c.name)).toEqual(['Chicken curry', 'Rice', 'Garlic naan']);
+  });
+});
+
+describe('recomputeSelection', () => {
+  it('should return the server default for the whole plate, in any order', () => {
+    expect(isDefaultSelection(curry, ['c3', 'c1', 'c2'])).toBe(true);
+    expect(recomputeSelection(curry, ['c3', 'c1', 'c2'])).toBe(curry.selection_default);
+  });
+
+  it('should sum nutrition and merge flags for a subset', () => {
+    const selection = recomputeSelection(curry, ['c1', 'c2'])!;
+
+    expect(selection.componentIds).toEqual(['c1', 'c2']);
+    expect(selection.combined_nutrition).toEqual(
+      expect.objectContaining({ energyKcal: 750, protein_g: 45, sodium_mg: 910 })
+    );
+    expect(selection.combined_allergens!.map((a) => a.kind)).toEqual(['milk']);
+    expect(selection.combined_fodmap).toEqual(expect.objectContaining({ level: 'medium', reason: 'Onion' }));
+    expect(selection.combined_lactose?.level).toBe('medium');
+    expect(selection.components!.map((c) => c.component_id)).toEqual(['c1', 'c2']);
+  });
+
+  it('should leave a nutrient unknown when a component lacks it', () => {
+    const selection = recomputeSelection(curry, ['c2', 'c3'])!;
+
+    expect(selection.combined_nutrition?.energyKcal).toBe(600);
+    expect(selection.combined_nutrition?.sodium_mg).toBeNull();
+    expect(selection.combined_fodmap?.level).toBe('high');
+  });
+
+  it('should fall back to the older breakdown arrays', () => {
+    const legacy = {
+      ok: true,
+      plate_components: curry.plate_components,
+      nutrition_breakdown: [
+        { component_id: 'c1', ...nutrition(500, { protein_g: 40 }) },
+        { component_id: 'c2', ...nutrition(250, { protein_g: 5 }) },
+      ],
+      allergen_breakdown: [
+        { component_id: 'c1', allergen_flags: [{ kind: 'milk', present: 'yes', message: '', source: 'recipe' }] },
+        { component_id: 'c2', allergen_flags: [] },
+      ],
+    } as AnalyzeDishResponse;
+
+    expect(recomputeSelection(legacy, ['c1', 'c2'])?.combined_nutrition?.energyKcal).toBe(750);
+  });
+
+  it('should return null when a component has no data, so the server can be asked', () => {
+    const partial = { ...curry, selection_components: { c1: curry.selection_components!.c1 } } as AnalyzeDishResponse;
+
+    expect(recomputeSelection(partial, ['c1', 'c2'])).toBeNull();
+  });
+
+  it('should reuse a matching selection_custom from the server', () => {
+    const custom = component('c2');
+    const withCustom = { ...curry, selection_components: null, selection_custom: { ...custom, componentIds: ['c2', 'c1'] } };
+
+    expect(recomputeSelection(withCustom as AnalyzeDishResponse, ['c1', 'c2'])).toBe(withCustom.selection_custom);
+  });
+});
+
+describe('mergeAllergenFlags', () => {
+  it('should keep the strongest presence per allergen', () => {
+    const merged = mergeAllergenFlags([
+      [{ kind: 'Milk', present: 'maybe', message: 'Ghee.', source: 'recipe' }],
+      [{ kind: 'milk', present: 'yes', message: 'Cream.', source: 'recipe' }],
+    ]);
+
+    expect(merged).toEqual([{ kind: 'milk', present: 'yes', message: 'Cream.', source: 'recipe' }]);
+  });
+});
+
+describe('applySelection', () => {
+  it('should make the view model show the selected components only', () => {
+    const selected = applySelection(curry, recomputeSelection(curry, ['c1', 'c2'])!);
+    const viewModel = buildDishViewModel(selected, ['gluten']);
+
+    expect(viewModel.nutrition?.calories).toBe(750);
+    expect(viewModel.allergens.map((a) => a.name)).toEqual(['milk']);
+    expect(viewModel.fodmapLevel).toBe('medium');
+    expect(selected.nutrition_summary?.energyKcal).toBe(750);
+  });
+});
+
+describe('breakdownComponents', () => {
+  it('should describe each component for the breakdown sheet', () => {
+    const [chicken, rice, naan] = breakdownComponents(curry, ['milk']);
+
+    expect(chicken).toEqual(
+      expect.objectContaining({ id: 'c1', name: 'Chicken curry', calories: 500, allergens: ['milk'], isSafe: false })
+    );
+    expect(rice).toEqual(expect.objectContaining({ allergens: [], fodmapLevel: 'low', isSafe: true }));
+    // "maybe" milk from the ghee still rules it out
+    expect(naan.isSafe).toBe(false);
+  });
+
+  it('should match allergens through the ontology', () => {
+    const thali = {
+      ok: true,
+      plate_components: [
+        { component_id: 'p1', label: 'Paneer tikka' },
+        { component_id: 'p2', label: 'Roti' },
+      ],
+      selection_components: {
+        p2: component('p2', { combined_allergens: [{ kind: 'wheat', present: 'yes', message: 'Flour.', source: 'recipe' }] }),
+      },
+    } as AnalyzeDishResponse;
+
+    const [paneer, roti] = breakdownComponents(thali, ['dairy', 'gluten']);
+
+    expect(paneer.isSafe).toBe(false);
+    expect(roti.isSafe).toBe(false);
+  });
+});
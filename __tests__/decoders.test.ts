@@ -0,0 +1,248 @@
+import {
+  decodeAnalyzeDishResponse,
+  decodeBatchDelta,
+  decodeBatchStatusResponse,
+  decodeMenuResponse,
+  decodeOrgansStatusResponse,
+} from '../api/decoders';
+
+describe('decodeAnalyzeDishResponse', () => {
+  it('should keep a well-formed payload intact', () => {
+    const payload = {
+      ok: true,
+      dishName: 'Pad Thai',
+      allergen_flags: [{ kind: 'peanut', present: 'yes', message: 'Peanuts', source: 'llm' }],
+      fodmap_flags: { level: 'high', reason: 'Garlic', source: 'llm' },
+      nutrition_summary: {
+        energyKcal: 600,
+        protein_g: 20,
+        fat_g: 25,
+        carbs_g: 70,
+        sugar_g: 12,
+        fiber_g: 4,
+        sodium_mg: 1200,
+      },
+      organs: { ok: true, organs: [{ organ: 'gut', score: -10, level: 'mild', reasons: ['Garlic'] }] },
+    };
+
+    const { value, issues } = decodeAnalyzeDishResponse(payload);
+
+    expect(value).toEqual(payload);
+    expect(issues).toEqual([]);
+  });
+
+  it('should drop and report fields with the wrong type', () => {
+    const { value, issues } = decodeAnalyzeDishResponse({
+      ok: true,
+      allergen_flags: 'gluten',
+      nutrition_summary: { energyKcal: 'lots', protein_g: '12' },
+      organs_pending: true,
+    });
+
+    expect(value.allergen_flags).toBeUndefined();
+    expect(value.nutrition_summary?.energyKcal).toBeNull();
+    expect(value.nutrition_summary?.protein_g).toBe(12);
+    expect(issues.map((i) => `${i.kind}:${i.path}`)).toEqual(
+      expect.arrayContaining([
+        'invalid:allergen_flags',
+        'invalid:nutrition_summary.energyKcal',
+        'coerced:nutrition_summary.protein_g',
+      ])
+    );
+  });
+
+  it('should report unknown top-level keys', () => {
+    const { value, issues } = decodeAnalyzeDishResponse({ ok: true, organs_pending: true, surprise: 1 });
+
+    expect(value).not.toHaveProperty('surprise');
+    expect(issues).toContainEqual(expect.objectContaining({ kind: 'unknown', path: 'surprise' }));
+  });
+
+  it('should map flag level aliases onto the known enums', () => {
+    const { value } = decodeAnalyzeDishResponse({
+      ok: true,
+      allergen_flags: [{ kind: 'soy', present: 'likely' }],
+      fodmap_flags: { level: 'Moderate' },
+    });
+
+    expect(value.allergen_flags?.[0].present).toBe('maybe');
+    expect(value.fodmap_flags?.level).toBe('medium');
+  });
+
+  it('should coerce legacy keyFlags and nested portion blocks', () => {
+    const { value, issues } = decodeAnalyzeDishResponse({
+      ok: true,
+      summary: {
+        tummyBarometer: { score: 70, label: 'OK' },
+        organs: [],
+        keyFlags: { allergens: ['milk'], fodmapLevel: 'low', lactoseLevel: 'high' },
+      },
+      organs: { flags: { allergens: [{ kind: 'milk', message: 'Cream sauce' }] } },
+      analysis: { portion: { manual_factor: 1, ai_factor: 1.5, effective_factor: 1.5 } },
+    });
+
+    expect(value.allergen_flags).toEqual([
+      { kind: 'milk', present: 'yes', message: 'Cream sauce', source: 'legacy' },
+    ]);
+    expect(value.fodmap_flags?.level).toBe('low');
+    expect(value.lactose_flags?.level).toBe('high');
+    expect(value.portion?.effective_factor).toBe(1.5);
+    expect(issues.some((i) => i.kind === 'unknown')).toBe(false);
+  });
+
+  it('should accept Edamam labels as strings or label objects', () => {
+    const { value, issues } = decodeAnalyzeDishResponse({
+      ok: true,
+      summary: {
+        tummyBarometer: { score: 70, label: 'OK' },
+        organs: [],
+        edamamLabels: ['Vegetarian', { label: 'Gluten-Free' }, { label: ['Vegan'] }],
+      },
+    });
+
+    expect(value.summary?.edamamLabels).toEqual(['Vegetarian', 'Gluten-Free']);
+    expect(issues).toContainEqual(expect.objectContaining({ kind: 'invalid', path: 'summary.edamamLabels[2].label' }));
+  });
+
+  it('should infer ok and report missing key fields', () => {
+    const { value, issues } = decodeAnalyzeDishResponse({ dishName: 'Soup' });
+
+    expect(value.ok).toBe(true);
+    expect(issues.filter((i) => i.kind === 'missing').map((i) => i.path)).toEqual([
+      'ok',
+      'allergen_flags',
+      'nutrition_summary',
+      'organs',
+    ]);
+  });
+});
+
+describe('decodeOrgansStatusResponse', () => {
+  it('should default missing flags and flag ready responses without organs', () => {
+    const { value, issues } = decodeOrgansStatusResponse({ ok: true, ready: true });
+
+    expect(value).toEqual({ ok: true, ready: true, organs: undefined, error: undefined });
+    expect(issues).toContainEqual(expect.objectContaining({ kind: 'missing', path: 'organs' }));
+  });
+});
+
+describe('decodeBatchStatusResponse', () => {
+  it('should decode nested job results and drop jobs without ids', () => {
+    const { value, issues } = decodeBatchStatusResponse({
+      ok: true,
+      batch: {
+        id: 'b1',
+        status: 'processing',
+        total: 2,
+        completed: 1,
+        failed: 0,
+        jobs: [
+          {
+            jobId: 'j1',
+            dishName: 'Tacos',
+            status: 'completed',
+            data: { id: 'j1', status: 'completed', result: { ok: true, fodmap_flags: { level: 'med' } } },
+          },
+          { dishName: 'Mystery' },
+        ],
+      },
+    });
+
+    expect(value.batch?.jobs).toHaveLength(1);
+    expect(value.batch?.jobs[0].data?.result?.fodmap_flags?.level).toBe('medium');
+    expect(issues).toContainEqual(expect.objectContaining({ path: 'batch.jobs[1]', kind: 'invalid' }));
+  });
+});
+
+describe('decodeBatchDelta', () => {
+  it('should accept single-job messages with numeric cursors', () => {
+    const { value, issues } = decodeBatchDelta({
+      job: { jobId: 'j7', dishName: 'Pho', status: 'completed', data: { result: { ok: true } } },
+      cursor: 7,
+    });
+
+    expect(value.jobs.map((j) => j.jobId)).toEqual(['j7']);
+    expect(value.jobs[0].data?.id).toBe('j7');
+    expect(value.cursor).toBe('7');
+    expect(value.batch).toBeUndefined();
+    expect(issues.filter((i) => i.kind === 'invalid')).toEqual([]);
+  });
+});
+
+describe('decodeMenuResponse', () => {
+  it('should coalesce item descriptions and drop unnamed items', () => {
+    const { value } = decodeMenuResponse({
+      ok: true,
+      sections: [
+        {
+          id: 's1',
+          name: 'Mains',
+          items: [{ id: 1, name: 'Burger', subtitle: 'Beef patty' }, { id: 2 }],
+        },
+      ],
+    });
+
+    expect(value.sections[0].items).toHaveLength(1);
+    expect(value.sections[0].items[0].description).toBe('Beef patty');
+    expect(value.sections[0].items[0].imageUrl).toBeNull();
+  });
+
+  it('should parse prices, calories and modifiers', () => {
+    const { value } = decodeMenuResponse({
+      ok: true,
+      sections: [
+        {
+          name: 'Mains',
+          items: [
+            {
+              name: 'Burger',
+              priceText: '$12.50',
+              restaurantCalories: '850 Cal',
+              modifiers: [{ title: 'Add-ons', min: 0, max: 2, options: [{ name: 'Bacon', price: '+$2' }] }],
+            },
+            { name: 'Soup of the day', price: 'Market price' },
+          ],
+        },
+      ],
+    });
+    const [burger, soup] = value.sections[0].items;
+
+    expect(burger.price).toEqual({ amount: 12.5, currency: 'USD', text: '$12.50' });
+    expect(burger.calories).toBe(850);
+    expect(burger.modifiers).toEqual([
+      {
+        name: 'Add-ons',
+        required: false,
+        minSelections: 0,
+        maxSelections: 2,
+        options: [{ name: 'Bacon', price: { amount: 2, currency: 'USD', text: '+$2' } }],
+      },
+    ]);
+    expect(soup.price).toEqual({ amount: null, currency: null, text: 'Market price' });
+  });
+
+  it('should derive the same item ids on every decode, whatever the source ids', () => {
+    const payload = (ids: number[]) => ({
+      ok: true,
+      sections: [
+        {
+          id: ids[0],
+          name: 'Tacos',
+          items: [
+            { id: ids[1], name: 'Al Pastor' },
+            { id: ids[2], name: 'Al Pastor' },
+          ],
+        },
+        { name: 'Tacos', items: [{ name: 'Carnitas' }] },
+      ],
+    });
+
+    const first = decodeMenuResponse(payload([1, 2, 3])).value;
+    const second = decodeMenuResponse(payload([7, 8, 9])).value;
+    const ids = (menu: typeof first) => menu.sections.flatMap((s) => s.items.map((i) => i.id));
+
+    expect(ids(first)).toEqual(['tacos/al_pastor', 'tacos/al_pastor~2', 'tacos~2/carnitas']);
+    expect(ids(second)).toEqual(ids(first));
+    expect(first.sections[0].items[0].sourceId).toBe('2');
+  });
+});
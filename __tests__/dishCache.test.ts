@@ -6,7 +6,13 @@ import {
   searchCachedDishes,
   addToRecentDishSearches,
   getRecentDishSearches,
+  searchRecentDishSearches,
   clearDishCache,
+  configureDishCache,
+  getCachedDishes,
+  getDishCacheStats,
+  migrateCachedDish,
+  sweepExpiredDishes,
 } from '../utils/dishCache';
 import { AnalyzeDishResponse } from '../api/api';
 
@@ -195,6 +201,17 @@ describe('dishCache', () => {
       const results = await searchCachedDishes('chicken');
       expect(results[0].dishName).toBe('Spicy Chicken Wings');
     });
+
+    it('should tolerate typos and rank closer matches first', async () => {
+      const results = await searchCachedDishes('chiken tika');
+      expect(results.map((r) => r.dishName)).toEqual(['Chicken Tikka Masala']);
+    });
+
+    it('should match accented names without the accents', async () => {
+      await cacheDishAnalysis('Phở Bò', createMockAnalysis('Phở Bò'));
+      const results = await searchCachedDishes('pho');
+      expect(results.map((r) => r.dishName)).toEqual(['Phở Bò']);
+    });
   });
 
   describe('Recent Dish Searches', () => {
@@ -254,6 +271,15 @@ describe('dishCache', () => {
       expect(recent[0].restaurantName).toBe('Test Restaurant');
       expect(recent[0].restaurantAddress).toBe('123 Main St');
     });
+
+    it('should find recent searches with accents or typos', async () => {
+      await addToRecentDishSearches('Crème Brûlée');
+      await addToRecentDishSearches('Beef Steak');
+
+      const matches = await searchRecentDishSearches('creme brulle');
+
+      expect(matches.map((r) => r.dishName)).toEqual(['Crème Brûlée']);
+    });
   });
 
   describe('clearDishCache', () => {
@@ -274,6 +300,150 @@ describe('dishCache', () => {
     });
   });
 
+  describe('Cache index', () => {
+    afterEach(() => {
+      configureDishCache({ maxBytes: 5 * 1024 * 1024 });
+      jest.restoreAllMocks();
+    });
+
+    it('should read several dishes with one batched call', async () => {
+      await cacheDishAnalysis('Dish A', createMockAnalysis('Dish A'), { placeId: 'p1' });
+      await cacheDishAnalysis('Dish B', createMockAnalysis('Dish B'), { placeId: 'p1' });
+      (AsyncStorage.multiGet as jest.Mock).mockClear();
+      (AsyncStorage.getItem as jest.Mock).mockClear();
+
+      const results = await getCachedDishes([
+        { dishName: 'Dish A', placeId: 'p1' },
+        { dishName: 'Dish C', placeId: 'p1' },
+        { dishName: 'Dish B', placeId: 'p1' },
+      ]);
+
+      expect(results.map((r) => r?.dishName ?? null)).toEqual(['Dish A', null, 'Dish B']);
+      expect(AsyncStorage.multiGet).toHaveBeenCalledTimes(1);
+      // Only the index document is read individually
+      expect(AsyncStorage.getItem).toHaveBeenCalledTimes(1);
+    });
+
+    it('should search the index and only load matching entries', async () => {
+      await cacheDishAnalysis('Grilled Chicken', createMockAnalysis('Grilled Chicken'));
+      await cacheDishAnalysis('Beef Steak', createMockAnalysis('Beef Steak'));
+      (AsyncStorage.multiGet as jest.Mock).mockClear();
+
+      const results = await searchCachedDishes('chicken');
+
+      expect(results.map((r) => r.dishName)).toEqual(['Grilled Chicken']);
+      expect(AsyncStorage.multiGet).toHaveBeenCalledWith(['@dish_cache_grilled_chicken']);
+    });
+
+    it('should evict the least recently used entries over the byte budget', async () => {
+      let clock = Date.now();
+      jest.spyOn(Date, 'now').mockImplementation(() => (clock += 1000));
+      await cacheDishAnalysis('Dish 1', createMockAnalysis('Dish 1'));
+      const { bytes } = await getDishCacheStats();
+      configureDishCache({ maxBytes: bytes * 2.5 });
+
+      await cacheDishAnalysis('Dish 2', createMockAnalysis('Dish 2'));
+      await getCachedDish('Dish 1'); // Dish 2 is now least recently used
+      await cacheDishAnalysis('Dish 3', createMockAnalysis('Dish 3'));
+
+      expect(await getCachedDish('Dish 2')).toBeNull();
+      expect(await getCachedDish('Dish 1')).not.toBeNull();
+      expect((await getDishCacheStats()).dishNames).toHaveLength(2);
+    });
+
+    it('should sweep expired entries', async () => {
+      await cacheDishAnalysis('Old Dish', createMockAnalysis('Old Dish'));
+      const eightDaysLater = Date.now() + 8 * 24 * 60 * 60 * 1000;
+      await cacheDishAnalysis('New Dish', createMockAnalysis('New Dish'));
+      jest.spyOn(Date, 'now').mockReturnValue(eightDaysLater);
+
+      expect(await sweepExpiredDishes()).toBe(2);
+      expect(await AsyncStorage.getItem('@dish_cache_old_dish')).toBeNull();
+    });
+
+    it('should index entries written before the index existed', async () => {
+      const legacy = {
+        dishName: 'Legacy Dish',
+        normalizedName: 'legacy_dish',
+        analysis: createMockAnalysis('Legacy Dish'),
+        source: 'standalone',
+        cachedAt: Date.now(),
+      };
+      await AsyncStorage.setItem('@dish_cache_legacy_dish', JSON.stringify(legacy));
+
+      const results = await searchCachedDishes('legacy');
+
+      expect(results.map((r) => r.dishName)).toEqual(['Legacy Dish']);
+      expect((await getDishCacheStats()).entries).toBe(1);
+    });
+
+    it('should move entries keyed before accent folding to their new keys', async () => {
+      const legacy = {
+        dishName: 'Crème Brûlée',
+        normalizedName: 'crme_brle',
+        analysis: createMockAnalysis('Crème Brûlée'),
+        source: 'standalone',
+        cachedAt: Date.now(),
+      };
+      await AsyncStorage.setItem('@dish_cache_crme_brle', JSON.stringify(legacy));
+
+      const cached = await getCachedDish('Creme Brulee');
+
+      expect(cached?.dishName).toBe('Crème Brûlée');
+      expect(cached?.normalizedName).toBe('creme_brulee');
+      expect(await AsyncStorage.getItem('@dish_cache_crme_brle')).toBeNull();
+      expect((await getDishCacheStats()).entries).toBe(1);
+    });
+  });
+
+  describe('Cache versioning', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should serve fresh entries as not stale', async () => {
+      await cacheDishAnalysis('Fresh Dish', { ...createMockAnalysis('Fresh Dish'), apiVersion: 'v2' });
+
+      const cached = await getCachedDish('Fresh Dish');
+
+      expect(cached?.stale).toBe(false);
+      expect(cached?.apiVersion).toBe('v2');
+    });
+
+    it('should mark old entries and entries from another backend version as stale', async () => {
+      await cacheDishAnalysis('Old Dish', { ...createMockAnalysis('Old Dish'), apiVersion: 'v1' });
+      await cacheDishAnalysis('Other Dish', { ...createMockAnalysis('Other Dish'), apiVersion: 'v2' });
+
+      expect((await getCachedDish('Old Dish'))?.stale).toBe(true);
+
+      const twoDaysLater = Date.now() + 2 * 24 * 60 * 60 * 1000;
+      jest.spyOn(Date, 'now').mockReturnValue(twoDaysLater);
+      expect((await getCachedDish('Other Dish'))?.stale).toBe(true);
+    });
+
+    it('should upgrade unversioned entries in place', async () => {
+      await cacheDishAnalysis('Index Seed', createMockAnalysis('Index Seed'));
+      const legacy = {
+        dishName: 'Legacy Dish',
+        analysis: { ...createMockAnalysis('Legacy Dish'), apiVersion: 'v1' },
+        cachedAt: Date.now(),
+      };
+      await AsyncStorage.setItem('@dish_cache_legacy_dish', JSON.stringify(legacy));
+      await AsyncStorage.removeItem('@dish_cache:index');
+
+      const cached = await getCachedDish('Legacy Dish');
+      const stored = JSON.parse((await AsyncStorage.getItem('@dish_cache_legacy_dish')) || '{}');
+
+      expect(cached).toEqual(expect.objectContaining({ stale: true, source: 'standalone', apiVersion: 'v1' }));
+      expect(stored).toEqual(expect.objectContaining({ schemaVersion: 2, normalizedName: 'legacy_dish' }));
+    });
+
+    it('should reject records from a newer schema', () => {
+      const record = { dishName: 'X', analysis: createMockAnalysis('X'), cachedAt: 1, schemaVersion: 99 };
+      expect(migrateCachedDish(record)).toBeNull();
+    });
+  });
+
   describe('Cache Performance', () => {
     it('should expedite subsequent lookups (cache hit is faster than miss)', async () => {
       const dishName = 'Performance Test Dish';
@@ -378,6 +548,9 @@ describe('Cache Metrics', () => {
     getCacheMetrics,
     getCacheHitRate,
     resetMetrics,
+    recordLatency,
+    getLatencyStats,
+    loadPersistedMetrics,
   } = require('../utils/cacheMetrics');
 
   beforeEach(() => {
@@ -427,4 +600,63 @@ describe('Cache Metrics', () => {
     expect(metrics.misses).toBe(0);
     expect(metrics.totalTimesSavedMs).toBe(0);
   });
+
+  it('should report latency percentiles per endpoint', () => {
+    for (let ms = 100; ms <= 1000; ms += 100) recordLatency('fetchMenuFast', ms, true);
+    recordLatency('fetchMenuFast', 60000, false);
+
+    const [stats] = getLatencyStats();
+
+    expect(stats).toEqual(
+      expect.objectContaining({ endpoint: 'fetchMenuFast', count: 11, errors: 1, p50Ms: 500, p90Ms: 900, avgMs: 550 })
+    );
+  });
+
+  it('should credit cache hits with the measured analysis latency', () => {
+    recordLatency('analyzeDish', 3000, true);
+    recordLatency('analyzeDish', 5000, true);
+    recordCacheHit('Dish 1');
+
+    expect(getCacheMetrics().avgApiCallTimeMs).toBe(4000);
+    expect(getCacheMetrics().totalTimesSavedMs).toBe(4000);
+  });
+
+  it('should not overwrite stored metrics before they are loaded', async () => {
+    const stored = { version: 1, hits: 5, misses: 2, totalTimesSavedMs: 10000, latency: {} };
+    await AsyncStorage.setItem('@cache_metrics', JSON.stringify(stored));
+    // A fresh module, as at app start: nothing loaded yet
+    let fresh!: typeof import('../utils/cacheMetrics');
+    jest.isolateModules(() => {
+      fresh = require('../utils/cacheMetrics');
+    });
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+    const saved = async () => JSON.parse((await AsyncStorage.getItem('@cache_metrics')) || '{}');
+
+    fresh.recordCacheHit('Dish 1', 1000);
+    await flush();
+    expect(await saved()).toEqual(stored);
+
+    await fresh.loadPersistedMetrics();
+    await flush();
+    expect(await saved()).toEqual(expect.objectContaining({ hits: 6, misses: 2, totalTimesSavedMs: 11000 }));
+  });
+
+  it('should restore persisted metrics', async () => {
+    // Nothing stored yet; writes start once this has run
+    await loadPersistedMetrics();
+    recordCacheHit('Dish 1', 1000);
+    recordLatency('startBatchAnalysis', 800, true);
+    // Writes are queued; let them land
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+    await flush();
+    const stored = await AsyncStorage.getItem('@cache_metrics');
+
+    resetMetrics();
+    await flush();
+    await AsyncStorage.setItem('@cache_metrics', stored || '');
+    await loadPersistedMetrics();
+
+    expect(getCacheMetrics().hits).toBe(1);
+    expect(getLatencyStats()[0]).toEqual(expect.objectContaining({ endpoint: 'startBatchAnalysis', p50Ms: 800 }));
+  });
 });
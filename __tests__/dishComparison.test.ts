@@ -0,0 +1,69 @@
+import { compareDishes } from '../app/utils/dishComparison';
+import { AnalyzeDishResponse } from '../api/api';
+import { analysis, contains, fodmap, nutrition } from './fixtures';
+
+const dish = (
+  name: string,
+  { kcal, protein, sodium }: { kcal: number; protein: number; sodium: number },
+  extra: Partial<AnalyzeDishResponse> = {}
+) => ({
+  key: name,
+  name,
+  analysis: analysis({ nutrition_summary: nutrition(kcal, { protein_g: protein, sodium_mg: sodium }), ...extra }),
+});
+
+const grilledChicken = dish('Grilled Chicken', { kcal: 450, protein: 45, sodium: 700 });
+const macAndCheese = dish(
+  'Mac and Cheese',
+  { kcal: 950, protein: 30, sodium: 1500 },
+  {
+    allergen_flags: contains('milk'),
+    fodmap_flags: fodmap('high', 'Lactose'),
+    lactose_flags: { level: 'high', reason: 'Cheese', source: 'recipe' },
+  }
+);
+const caesarSalad = dish('Caesar Salad', { kcal: 400, protein: 20, sodium: 900 });
+
+describe('compareDishes', () => {
+  it('should line up one cell per dish and mark the best value in each row', () => {
+    const { rows } = compareDishes([grilledChicken, macAndCheese], { avoidAllergens: [] });
+    const row = (key: string) => rows.find((r) => r.key === key)!;
+
+    expect(row('calories').cells).toEqual(['450 kcal', '950 kcal']);
+    expect(row('calories').bestIndexes).toEqual([0]);
+    expect(row('protein').bestIndexes).toEqual([0]);
+    expect(row('fodmap').cells).toEqual(['Low', 'High']);
+    expect(row('lactose').cells).toEqual(['—', 'High']);
+    expect(row('allergens').cells).toEqual(['None found', 'milk']);
+    // Same values everywhere: nothing to highlight or prefer
+    expect(row('carbs')).toEqual(expect.objectContaining({ spread: 0, highlighted: false, bestIndexes: [] }));
+  });
+
+  it('should highlight the rows that differ most', () => {
+    const { rows } = compareDishes([grilledChicken, macAndCheese], { avoidAllergens: [] });
+
+    expect(rows.filter((r) => r.highlighted).map((r) => r.key)).toEqual(['calories', 'protein', 'sodium', 'fodmap']);
+    expect(rows.find((r) => r.key === 'fiber')?.highlighted).toBe(false);
+  });
+
+  it('should never pick a dish with an avoided allergen', () => {
+    const result = compareDishes([macAndCheese, caesarSalad], { avoidAllergens: ['milk'], goals: ['build_muscle'] });
+
+    expect(result.ruledOut).toEqual([0]);
+    expect(result.best?.index).toBe(1);
+    expect(result.best?.reasons).toContain('None of your avoided allergens');
+  });
+
+  it('should pick the best dish for the user goals', () => {
+    const dishes = [grilledChicken, caesarSalad];
+
+    expect(compareDishes(dishes, { avoidAllergens: [], goals: ['lose_weight'] }).best).toEqual({
+      index: 1,
+      reasons: ['Fewest calories'],
+    });
+    expect(compareDishes(dishes, { avoidAllergens: [], goals: ['build_muscle'] }).best).toEqual({
+      index: 0,
+      reasons: ['Most protein per calorie', 'Most protein'],
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  foldDishName,
+  normalizeDishName,
+  dishNameSimilarity,
+  rankByDishName,
+} from '../utils/dishNames';
+
+describe('foldDishName', () => {
+  it('should strip accents', () => {
+    expect(foldDishName('Crème Brûlée')).toBe('creme brulee');
+    expect(foldDishName('Phở Bò')).toBe('pho bo');
+    expect(foldDishName('Jalapeño Poppers')).toBe('jalapeno poppers');
+  });
+
+  it('should transliterate letters without a decomposition', () => {
+    expect(foldDishName('Straße Æbleskiver')).toBe('strasse aebleskiver');
+    expect(foldDishName('Smørrebrød')).toBe('smorrebrod');
+  });
+
+  it('should keep non-Latin scripts', () => {
+    expect(normalizeDishName('拉面 Ramen')).toBe('拉面_ramen');
+  });
+
+  it('should keep Hangul syllables, so Korean dishes get their own keys', () => {
+    expect(foldDishName('비빔밥')).toBe('비빔밥');
+    expect(normalizeDishName('김치찌개')).toBe('김치찌개');
+    expect(normalizeDishName('김치찌개')).not.toBe(normalizeDishName('된장찌개'));
+  });
+});
+
+describe('dishNameSimilarity', () => {
+  it('should rank exact and prefix matches above typos', () => {
+    expect(dishNameSimilarity('chicken', 'Grilled Chicken')).toBe(1);
+    expect(dishNameSimilarity('chick', 'Grilled Chicken')).toBeGreaterThan(dishNameSimilarity('chiken', 'Grilled Chicken'));
+    expect(dishNameSimilarity('chiken', 'Grilled Chicken')).toBeGreaterThan(0.6);
+  });
+
+  it('should require every query word to match', () => {
+    expect(dishNameSimilarity('chicken sushi', 'Grilled Chicken')).toBe(0);
+    expect(dishNameSimilarity('sushi', 'Beef Steak')).toBe(0);
+  });
+
+  it('should not fuzz short words', () => {
+    expect(dishNameSimilarity('pho', 'Pie')).toBe(0);
+  });
+});
+
+describe('rankByDishName', () => {
+  it('should order by similarity and keep input order for ties', () => {
+    const names = ['Chicken Tikka Masala', 'Tikka Chicken', 'Chickpea Curry', 'Beef Stew'];
+    const ranked = rankByDishName('chicken tikka', names, (n) => n).map((r) => r.item);
+
+    expect(ranked).toEqual(['Chicken Tikka Masala', 'Tikka Chicken']);
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  AllergenFlag,
+  AnalyzeDishResponse,
+  FodmapFlag,
+  MenuItem,
+  NutritionSummary,
+  SelectionResult,
+} from '../api/api';
+
+// Shared by the util tests; not a test file itself (jest only runs *.test.ts)
+
+export const nutrition = (kcal: number, overrides: Partial<NutritionSummary> = {}): NutritionSummary => ({
+  energyKcal: kcal,
+  protein_g: 10,
+  fat_g: 5,
+  carbs_g: 20,
+  sugar_g: 1,
+  fiber_g: 2,
+  sodium_mg: 100,
+  ...overrides,
+});
+
+export const fodmap = (level: FodmapFlag['level'], reason = ''): FodmapFlag => ({ level, reason, source: 'recipe' });
+
+/** Flags for allergens the dish definitely contains */
+export const contains = (...kinds: string[]): AllergenFlag[] =>
+  kinds.map((kind) => ({ kind, present: 'yes', message: '', source: 'recipe' }));
+
+/** An allergen-free, low-FODMAP 500 kcal dish; tests override what they're about */
+export const analysis = (overrides: Partial<AnalyzeDishResponse> = {}): AnalyzeDishResponse => ({
+  ok: true,
+  allergen_flags: [],
+  fodmap_flags: fodmap('low'),
+  nutrition_summary: nutrition(500),
+  ...overrides,
+});
+
+/** A menu item named after its id */
+export const menuItem = (id: string, overrides: Partial<MenuItem> = {}): MenuItem => ({
+  id,
+  name: id,
+  description: '',
+  price: null,
+  calories: null,
+  imageUrl: null,
+  modifiers: [],
+  ...overrides,
+});
+
+/** Per-component data for one plate component, as in `selection_components` */
+export const component = (id: string, extra: Partial<SelectionResult> = {}): SelectionResult => ({
+  componentIds: [id],
+  combined_nutrition: nutrition(100),
+  combined_allergens: [],
+  combined_fodmap: { level: 'low', reason: '', source: 'recipe' },
+  combined_lactose: { level: 'none', reason: '', source: 'recipe' },
+  ...extra,
+});
+
+/**
+ * A three-component plate with data for every component: chicken curry (milk),
+ * rice, and garlic naan (gluten, maybe milk, no sodium figure). The garnish has
+ * no id, so it can't be selected.
+ */
+export const curry = {
+  ok: true,
+  dishName: 'Chicken Curry Plate',
+  plate_components: [
+    { component_id: 'c1', label: 'Chicken curry', role: 'main', area_ratio: 0.4 },
+    { component_id: 'c2', label: 'Rice', role: 'side', area_ratio: 0.4 },
+    { component_id: 'c3', label: 'Garlic naan', role: 'side', area_ratio: 0.2 },
+    { label: 'Garnish' },
+  ],
+  allergen_flags: [
+    { kind: 'milk', present: 'yes', message: 'Cream sauce.', source: 'recipe' },
+    { kind: 'gluten', present: 'yes', message: 'Naan.', source: 'recipe' },
+  ],
+  fodmap_flags: { level: 'high', reason: 'Garlic in the naan', source: 'recipe' },
+  selection_default: {
+    componentIds: ['c1', 'c2', 'c3'],
+    combined_nutrition: nutrition(1100, { protein_g: 50, sodium_mg: 1500 }),
+    combined_allergens: [
+      { kind: 'milk', present: 'yes', message: 'Cream sauce.', source: 'recipe' },
+      { kind: 'gluten', present: 'yes', message: 'Naan.', source: 'recipe' },
+    ],
+    combined_fodmap: { level: 'high', reason: 'Garlic in the naan', source: 'recipe' },
+  },
+  selection_components: {
+    c1: component('c1', {
+      combined_nutrition: nutrition(500, { protein_g: 40, sodium_mg: 900 }),
+      combined_allergens: [{ kind: 'milk', present: 'yes', message: 'Cream sauce.', source: 'recipe' }],
+      combined_fodmap: { level: 'medium', reason: 'Onion', source: 'recipe' },
+      combined_lactose: { level: 'medium', reason: 'Cream', source: 'recipe' },
+    }),
+    c2: component('c2', { combined_nutrition: nutrition(250, { protein_g: 5, sodium_mg: 10 }) }),
+    c3: component('c3', {
+      combined_nutrition: nutrition(350, { protein_g: 5, sodium_mg: null }),
+      combined_allergens: [
+        { kind: 'gluten', present: 'yes', message: 'Naan.', source: 'recipe' },
+        { kind: 'milk', present: 'maybe', message: 'Ghee.', source: 'recipe' },
+      ],
+      combined_fodmap: { level: 'high', reason: 'Garlic', source: 'recipe' },
+    }),
+  },
+  organs: {
+    organs: [
+      { organ: 'Gut', score: -44, level: 'high' },
+      { organ: 'heart', score: -22, level: 'moderate' },
+    ],
+  },
+} as AnalyzeDishResponse;
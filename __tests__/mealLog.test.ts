@@ -0,0 +1,61 @@
+import { buildMealLog, eatenShare } from '../app/utils/mealLog';
+import { recomputeSelection } from '../app/utils/componentSelection';
+import { SelectionResult } from '../api/api';
+import { curry } from './fixtures';
+
+describe('buildMealLog', () => {
+  it('should log the whole plate without a component list', () => {
+    const meal = buildMealLog(curry, { dishName: 'Chicken Curry Plate', restaurantName: 'Curry House' });
+
+    expect(meal).toEqual(
+      expect.objectContaining({
+        dish_name: 'Chicken Curry Plate',
+        restaurant_name: 'Curry House',
+        calories: 1100,
+        organ_impacts: { gut: -44, heart: -22 },
+        risk_flags: ['allergen_milk', 'allergen_gluten', 'high_fodmap', 'high_sodium'],
+        components_eaten: undefined,
+        components_skipped: undefined,
+      })
+    );
+  });
+
+  it('should log only the selected components, with organ impacts scaled to what was eaten', () => {
+    const selection = recomputeSelection(curry, ['c1', 'c2']);
+    const meal = buildMealLog(curry, { dishName: 'Chicken Curry Plate', selection });
+
+    expect(meal.calories).toBe(750);
+    expect(meal.sodium_mg).toBe(910);
+    // 750 of 1100 kcal eaten
+    expect(meal.organ_impacts).toEqual({ gut: -30, heart: -15 });
+    expect(meal.risk_flags).toEqual(['allergen_milk']);
+    expect(meal.components_eaten).toEqual(['Chicken curry', 'Rice']);
+    expect(meal.components_skipped).toEqual(['Garlic naan']);
+    expect(meal.full_analysis.selection_default).toBe(selection);
+  });
+
+  it('should treat a selection of every component as the whole plate', () => {
+    const meal = buildMealLog(curry, { dishName: 'Plate', selection: recomputeSelection(curry, ['c3', 'c2', 'c1']) });
+
+    expect(meal.components_eaten).toBeUndefined();
+    expect(meal.full_analysis).toBe(curry);
+  });
+
+  it('should log the chosen portion, scaling nutrition and organ impacts', () => {
+    const meal = buildMealLog(curry, { dishName: 'Plate', portionFactor: 0.5 });
+
+    expect(meal.portion_factor).toBe(0.5);
+    expect(meal.calories).toBe(550);
+    expect(meal.organ_impacts).toEqual({ gut: -22, heart: -11 });
+    // 750 mg of sodium is no longer a high-sodium meal
+    expect(meal.risk_flags).toEqual(['allergen_milk', 'allergen_gluten', 'high_fodmap']);
+  });
+});
+
+describe('eatenShare', () => {
+  it('should fall back to plate area when calories are unknown', () => {
+    const selection = { componentIds: ['c1'], combined_nutrition: null } as SelectionResult;
+
+    expect(eatenShare(curry, selection)).toBeCloseTo(0.4);
+  });
+});
@@ -0,0 +1,41 @@
+import { adaptApifyMenu, adaptUberTestMenu } from '../api/menuAdapters';
+import { MOCK_MENU_ITEMS } from '../api/mock/fixtures';
+
+const context = { restaurantName: 'Casa Verde', address: '1 Main St' };
+
+describe('menu adapters', () => {
+  it('should group uber-test rows into sections of the Menu model', () => {
+    const menu = adaptUberTestMenu({ data: { query: 'casa', items: MOCK_MENU_ITEMS } }, context);
+    const fries = menu.sections[0].items[0];
+
+    expect(menu.ok).toBe(true);
+    expect(menu.restaurant?.name).toBe('Casa Verde');
+    expect(menu.sections.map((s) => s.name)).toEqual(Array.from(new Set(MOCK_MENU_ITEMS.map((i) => i.section))));
+    expect(fries).toEqual(
+      expect.objectContaining({
+        id: 'starters/garlic_parmesan_fries',
+        sourceId: 'item-1',
+        price: { amount: 8.5, currency: 'USD', text: '$8.50' },
+        calories: 640,
+      })
+    );
+  });
+
+  it('should give Apify prefetch results the same ids as the uber-test menu', () => {
+    const fromUber = adaptUberTestMenu({ data: { items: MOCK_MENU_ITEMS } }, context);
+    const fromApify = adaptApifyMenu(MOCK_MENU_ITEMS, context);
+    const ids = (menu: typeof fromUber) => menu.sections.flatMap((s) => s.items.map((i) => i.id));
+
+    expect(fromApify.source).toBe('apify');
+    expect(ids(fromApify)).toEqual(ids(fromUber));
+  });
+
+  it('should report payloads without items as failures', () => {
+    expect(adaptUberTestMenu({ error: 'No restaurant found' }, context)).toEqual({
+      ok: false,
+      error: 'No restaurant found',
+      sections: [],
+    });
+    expect(adaptApifyMenu([], context).ok).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  cacheMenu,
+  clearMenuCache,
+  diffMenus,
+  getCachedMenu,
+  summarizeMenuDiff,
+} from '../utils/menuCache';
+import { MenuResponse, MenuSection } from '../api/api';
+import { decodeMenuResponse } from '../api/decoders';
+
+const sections = (items: { name: string; priceText?: string }[]): MenuSection[] =>
+  decodeMenuResponse({ ok: true, sections: [{ name: 'Mains', items }] }).value.sections;
+
+const menu = (items: { name: string; priceText?: string }[]): MenuResponse => ({
+  ok: true,
+  source: 'test',
+  restaurant: { name: 'Casa Verde' },
+  sections: items.length > 0 ? sections(items) : [{ id: 'mains', name: 'Mains', items: [] }],
+});
+
+describe('menuCache', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('should store and restore a menu by placeId', async () => {
+    await cacheMenu('place-1', menu([{ name: 'Tacos', priceText: '$9' }]));
+
+    const cached = await getCachedMenu('place-1');
+
+    expect(cached?.restaurant?.name).toBe('Casa Verde');
+    expect(cached?.sections[0].items[0].name).toBe('Tacos');
+    expect(cached?.fetchedAt).toBeLessThanOrEqual(Date.now());
+    expect(await getCachedMenu('place-2')).toBeNull();
+  });
+
+  it('should never replace a good menu with a failed or empty one', async () => {
+    await cacheMenu('place-1', menu([{ name: 'Tacos' }]));
+    await cacheMenu('place-1', { ok: false, sections: [], error: 'timeout' });
+    await cacheMenu('place-1', menu([]));
+
+    expect((await getCachedMenu('place-1'))?.sections[0].items).toHaveLength(1);
+  });
+
+  it('should drop the oldest menus past the limit', async () => {
+    let clock = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => (clock += 1000));
+    for (let i = 0; i < 26; i++) {
+      await cacheMenu(`place-${i}`, menu([{ name: 'Tacos' }]));
+    }
+    jest.restoreAllMocks();
+
+    expect(await getCachedMenu('place-0')).toBeNull();
+    expect(await getCachedMenu('place-25')).not.toBeNull();
+  });
+
+  it('should upgrade menus stored before the Menu model', async () => {
+    await AsyncStorage.setItem(
+      '@menu_cache_place-1',
+      JSON.stringify({
+        placeId: 'place-1',
+        sections: [{ id: 's1', name: 'Mains', items: [{ id: 1, name: 'Tacos', priceText: '$9', restaurantCalories: 480 }] }],
+        fetchedAt: 1,
+      })
+    );
+
+    const item = (await getCachedMenu('place-1'))?.sections[0].items[0];
+
+    expect(item).toEqual(
+      expect.objectContaining({ id: 'mains/tacos', calories: 480, price: expect.objectContaining({ amount: 9 }) })
+    );
+  });
+
+  it('should clear every stored menu', async () => {
+    await cacheMenu('place-1', menu([{ name: 'Tacos' }]));
+    await clearMenuCache();
+
+    expect(await getCachedMenu('place-1')).toBeNull();
+  });
+});
+
+describe('diffMenus', () => {
+  it('should report new, removed and re-priced items', () => {
+    const before = sections([
+      { name: 'Tacos', priceText: '$9.00' },
+      { name: 'Burrito', priceText: '$11.00' },
+      { name: 'Nachos', priceText: '$7.00' },
+    ]);
+    const after = sections([
+      { name: 'Tacos', priceText: '$9.00' },
+      { name: 'Burrito', priceText: '$12.50' },
+      { name: 'Quesadilla', priceText: '$10.00' },
+    ]);
+
+    const diff = diffMenus(before, after);
+
+    expect(diff.added.map((i) => i.name)).toEqual(['Quesadilla']);
+    expect(diff.removed.map((i) => i.name)).toEqual(['Nachos']);
+    expect(diff.repriced).toEqual([
+      { name: 'Burrito', sectionName: 'Mains', from: '$11.00', to: '$12.50' },
+    ]);
+    expect(summarizeMenuDiff(diff)).toBe('1 new item · 1 price change · 1 removed');
+  });
+
+  it('should match items by folded name and ignore missing prices', () => {
+    const diff = diffMenus(
+      sections([{ name: 'Crème Brûlée', priceText: '$8' }, { name: 'Flan' }]),
+      sections([{ name: 'creme brulee', priceText: ' $8 ' }, { name: 'Flan', priceText: '$6' }])
+    );
+
+    expect(diff).toEqual({ added: [], removed: [], repriced: [] });
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  DEFAULT_MENU_FILTERS,
+  evaluateMenuItem,
+  filterAndSortMenu,
+  menuItemFacts,
+} from '../app/utils/menuFilters';
+import { AnalyzeDishResponse, MenuSection } from '../api/api';
+import { analysis, fodmap, menuItem, nutrition } from './fixtures';
+
+const item = (id: string, calories: number | null = null) => menuItem(id, { calories });
+
+const vegetarian = { contains_red_meat: 'no', red_meat_free: 'yes', vegetarian: 'yes', vegan: 'no' } as const;
+
+const sections: MenuSection[] = [
+  { id: 'mains', name: 'Mains', items: [item('pad_thai'), item('salad'), item('burger', 900), item('soup')] },
+];
+
+const analyses: Record<string, AnalyzeDishResponse> = {
+  pad_thai: analysis({
+    allergen_flags: [{ kind: 'peanut', present: 'yes', message: 'Peanuts', source: 'recipe' }],
+    lifestyle_checks: vegetarian,
+    nutrition_summary: nutrition(700, { protein_g: 35, sodium_mg: 1400 }),
+  }),
+  salad: analysis({
+    lifestyle_checks: { ...vegetarian, vegan: 'yes' },
+    nutrition_summary: nutrition(300, { protein_g: 6, sodium_mg: 300 }),
+  }),
+  burger: analysis({
+    fodmap_flags: fodmap('high', 'Onion'),
+    lifestyle_checks: { contains_red_meat: 'yes', red_meat_free: 'no', vegetarian: 'no', vegan: 'no' },
+    nutrition_summary: nutrition(500, { protein_g: 20, sodium_mg: 800 }),
+  }),
+};
+
+const ids = (result: MenuSection[]) => result.flatMap((s) => s.items.map((i) => i.id));
+
+describe('evaluateMenuItem', () => {
+  it('should mark unanalyzed items unknown instead of safe', () => {
+    const facts = menuItemFacts(item('soup'), undefined, ['peanut']);
+
+    expect(evaluateMenuItem(facts, { ...DEFAULT_MENU_FILTERS, avoidAllergens: true })).toEqual({
+      verdict: 'unknown',
+      reasons: ['Not analyzed yet'],
+    });
+    expect(evaluateMenuItem(facts, DEFAULT_MENU_FILTERS).verdict).toBe('match');
+  });
+
+  it('should exclude unanalyzed items whose menu text names an allergen', () => {
+    const curry = { ...item('curry'), name: 'Prawn curry', description: 'With cashews and ghee' };
+    const facts = menuItemFacts(curry, undefined, [
+      'shellfish',
+      { name: 'dairy', severity: 'limit' },
+      { name: 'tree nut', severity: 'monitor' },
+    ]);
+
+    expect(facts.mentionedAllergens.map((m) => m.explanation)).toEqual([
+      'Prawn: counts as shellfish.',
+      'Ghee: made from milk.',
+    ]);
+    expect(evaluateMenuItem(facts, { ...DEFAULT_MENU_FILTERS, avoidAllergens: true })).toEqual({
+      verdict: 'excluded',
+      reasons: ['Mentions prawn (shellfish)', 'Mentions ghee (milk, limit)'],
+    });
+  });
+
+  it('should exclude avoided allergens, including possible ones', () => {
+    const maybe = analysis({
+      allergen_flags: [{ kind: 'milk', present: 'maybe', message: 'Butter', source: 'recipe' }],
+    });
+    const facts = menuItemFacts(item('risotto'), maybe, ['milk']);
+
+    expect(evaluateMenuItem(facts, { ...DEFAULT_MENU_FILTERS, avoidAllergens: true })).toEqual({
+      verdict: 'excluded',
+      reasons: ['May contain milk'],
+    });
+  });
+
+  it('should weigh allergens by their severity', () => {
+    const flags = analysis({
+      allergen_flags: [
+        { kind: 'soy', present: 'yes', message: 'Soy sauce', source: 'recipe' },
+        { kind: 'sesame', present: 'maybe', message: 'Garnish', source: 'recipe' },
+        { kind: 'milk', present: 'yes', message: 'Cream', source: 'recipe' },
+      ],
+    });
+    const evaluate = (userAllergens: Parameters<typeof menuItemFacts>[2]) =>
+      evaluateMenuItem(menuItemFacts(item('stir_fry'), flags, userAllergens), {
+        ...DEFAULT_MENU_FILTERS,
+        avoidAllergens: true,
+      });
+
+    expect(evaluate([{ name: 'sesame', severity: 'avoid' }]).reasons).toEqual(['May contain sesame']);
+    expect(evaluate([{ name: 'soy', severity: 'limit' }]).reasons).toEqual(['Contains soy (limit)']);
+    // A limited "maybe" and a monitored "yes" don't hide the dish
+    expect(
+      evaluate([
+        { name: 'sesame', severity: 'limit' },
+        { name: 'milk', severity: 'monitor' },
+      ]).verdict
+    ).toBe('match');
+  });
+
+  it('should use listed calories until an analysis arrives', () => {
+    const filters = { ...DEFAULT_MENU_FILTERS, maxCalories: 600 };
+
+    expect(evaluateMenuItem(menuItemFacts(item('burger', 900), undefined, []), filters).verdict).toBe('excluded');
+    expect(evaluateMenuItem(menuItemFacts(item('soup'), undefined, []), filters)).toEqual({
+      verdict: 'unknown',
+      reasons: ['Calories unknown'],
+    });
+  });
+
+  it('should treat a missing lifestyle check as unknown', () => {
+    const facts = menuItemFacts(item('stew'), analysis({ lifestyle_checks: null }), []);
+
+    expect(evaluateMenuItem(facts, { ...DEFAULT_MENU_FILTERS, diet: 'vegan' })).toEqual({
+      verdict: 'unknown',
+      reasons: ['Vegan unconfirmed'],
+    });
+  });
+});
+
+describe('filterAndSortMenu', () => {
+  const run = (filters = DEFAULT_MENU_FILTERS, sort: Parameters<typeof filterAndSortMenu>[1]['sort'] = 'menu') =>
+    filterAndSortMenu(sections, { analysisByItemId: analyses, filters, sort, userAllergens: ['peanut'] });
+
+  it('should hide excluded items and keep unknown ones', () => {
+    const result = run({ ...DEFAULT_MENU_FILTERS, avoidAllergens: true, lowFodmap: true });
+
+    expect(ids(result.sections)).toEqual(['salad', 'soup']);
+    expect(result.hiddenCount).toBe(2);
+    expect(result.evaluationByItemId.soup.verdict).toBe('unknown');
+  });
+
+  it('should keep only confirmed vegetarian and vegan dishes', () => {
+    expect(ids(run({ ...DEFAULT_MENU_FILTERS, diet: 'vegetarian' }).sections)).toEqual(['pad_thai', 'salad', 'soup']);
+    expect(ids(run({ ...DEFAULT_MENU_FILTERS, diet: 'vegan' }).sections)).toEqual(['salad', 'soup']);
+  });
+
+  it('should sort with unknown values last', () => {
+    expect(ids(run(DEFAULT_MENU_FILTERS, 'calories').sections)).toEqual(['salad', 'burger', 'pad_thai', 'soup']);
+    expect(ids(run(DEFAULT_MENU_FILTERS, 'protein_per_calorie').sections)).toEqual([
+      'pad_thai',
+      'burger',
+      'salad',
+      'soup',
+    ]);
+    expect(ids(run(DEFAULT_MENU_FILTERS, 'sodium').sections)).toEqual(['salad', 'burger', 'pad_thai', 'soup']);
+  });
+
+  it('should drop sections left empty', () => {
+    const result = filterAndSortMenu([...sections, { id: 'sides', name: 'Sides', items: [item('fries', 640)] }], {
+      analysisByItemId: analyses,
+      filters: { ...DEFAULT_MENU_FILTERS, maxCalories: 400 },
+      sort: 'menu',
+      userAllergens: [],
+    });
+
+    expect(result.sections.map((s) => s.id)).toEqual(['mains']);
+    expect(ids(result.sections)).toEqual(['salad', 'soup']);
+  });
+});
@@ -0,0 +1,160 @@
+import { MOCK_BASE_URL, resolveBackendConfig } from '../api/environment';
+import { handleMockRequest, resetMockServer } from '../api/mock/mockServer';
+import { decodeAnalyzeDishResponse, decodeMenuResponse } from '../api/decoders';
+
+describe('resolveBackendConfig', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should default to production', () => {
+    expect(resolveBackendConfig(undefined)).toEqual({
+      env: 'production',
+      baseUrl: 'https://api.rrginvestment.com',
+      isMock: false,
+    });
+  });
+
+  it('should select the mock server', () => {
+    const config = resolveBackendConfig({ API_ENV: 'mock' });
+    expect(config.isMock).toBe(true);
+    expect(config.baseUrl).toBe(MOCK_BASE_URL);
+  });
+
+  it('should use configured local and staging URLs', () => {
+    expect(resolveBackendConfig({ API_ENV: 'local', API_LOCAL_URL: 'http://192.168.1.5:8787/' }).baseUrl).toBe(
+      'http://192.168.1.5:8787'
+    );
+    expect(resolveBackendConfig({ API_ENV: 'staging', API_STAGING_URL: 'https://staging.test' }).baseUrl).toBe(
+      'https://staging.test'
+    );
+  });
+
+  it('should fall back to production for unknown or unconfigured environments', () => {
+    expect(resolveBackendConfig({ API_ENV: 'qa' }).env).toBe('production');
+    expect(resolveBackendConfig({ API_ENV: 'staging', API_STAGING_URL: '${EXPO_PUBLIC_API_STAGING_URL}' }).env).toBe(
+      'production'
+    );
+  });
+});
+
+describe('handleMockRequest', () => {
+  beforeEach(() => {
+    resetMockServer();
+  });
+
+  it('should ignore hosts it does not serve', () => {
+    expect(handleMockRequest('https://example.com/api')).toBeNull();
+  });
+
+  it('should serve a menu that passes the menu decoder', () => {
+    const res = handleMockRequest(`${MOCK_BASE_URL}/menu/extract?placeId=mock-place-casa-verde`);
+    const { value, issues } = decodeMenuResponse(res?.body);
+
+    expect(res?.status).toBe(200);
+    expect(value.restaurant?.name).toBe('Casa Verde Taqueria');
+    expect(value.sections.length).toBeGreaterThan(0);
+    expect(issues).toEqual([]);
+  });
+
+  it('should serve analyses without decode problems and resolve pending organs', () => {
+    const res = handleMockRequest(`${MOCK_BASE_URL}/pipeline/analyze-dish`, {
+      method: 'POST',
+      body: JSON.stringify({ dishName: 'Chicken Alfredo', skip_organs: true }),
+    });
+    const { value, issues } = decodeAnalyzeDishResponse(res?.body);
+
+    expect(issues.filter((i) => i.kind !== 'coerced')).toEqual([]);
+    expect(value.allergen_flags?.map((f) => f.kind)).toContain('milk');
+    expect(value.organs_pending).toBe(true);
+
+    const organs = handleMockRequest(
+      `${MOCK_BASE_URL}/pipeline/organs-status?key=${encodeURIComponent(value.organs_poll_key || '')}`
+    );
+    expect(organs?.body).toEqual(expect.objectContaining({ ok: true, ready: true }));
+  });
+
+  it('should stream every analysis stage before done', () => {
+    const res = handleMockRequest(`${MOCK_BASE_URL}/pipeline/analyze-dish/stream`, {
+      method: 'POST',
+      body: JSON.stringify({ dishName: 'Chicken Alfredo' }),
+    });
+    const lines = String(res?.body).trim().split('\n').map((line) => JSON.parse(line));
+
+    expect(res?.contentType).toBe('application/x-ndjson');
+    expect(lines.map((l) => l.stage || l.type)).toEqual([
+      'allergens',
+      'nutrition',
+      'likely_recipe',
+      'full_recipe',
+      'organs',
+      'done',
+    ]);
+  });
+
+  it('should complete batches over successive status polls', () => {
+    const dishes = Array.from({ length: 6 }, (_, i) => ({ dishName: `Dish ${i}` }));
+    const start = handleMockRequest(`${MOCK_BASE_URL}/api/analyze/batch`, {
+      method: 'POST',
+      body: JSON.stringify({ restaurantName: 'Test', dishes }),
+    })?.body as { batchId: string; cached: number };
+
+    expect(start.cached).toBe(2);
+
+    const statusUrl = `${MOCK_BASE_URL}/api/analyze/batch/status?batchId=${start.batchId}&results=1`;
+    const first = handleMockRequest(statusUrl)?.body as { batch: { status: string; completed: number } };
+    const second = handleMockRequest(statusUrl)?.body as { batch: { status: string; completed: number } };
+
+    expect(first.batch).toEqual(expect.objectContaining({ status: 'processing', completed: 5 }));
+    expect(second.batch).toEqual(expect.objectContaining({ status: 'completed', completed: 6 }));
+  });
+
+  it('should finish prioritized jobs inside their batch', () => {
+    const dishes = Array.from({ length: 4 }, (_, i) => ({ dishName: `Dish ${i}` }));
+    const start = handleMockRequest(`${MOCK_BASE_URL}/api/analyze/batch`, {
+      method: 'POST',
+      body: JSON.stringify({ restaurantName: 'Test', dishes }),
+    })?.body as { batchId: string; cursor: string; jobs: { jobId: string; status: string }[] };
+    const queued = start.jobs[3];
+
+    const priority = handleMockRequest(`${MOCK_BASE_URL}/api/analyze/batch/priority`, {
+      method: 'POST',
+      body: JSON.stringify({ jobId: queued.jobId, dish: { dishName: 'Dish 3' } }),
+    })?.body as { result: { full_recipe?: unknown } };
+    const changes = handleMockRequest(
+      `${MOCK_BASE_URL}/api/analyze/batch/status?batchId=${start.batchId}&since=${start.cursor}`
+    )?.body as { batch: { jobs: { jobId: string }[] } };
+
+    expect(queued.status).toBe('pending');
+    expect(priority.result.full_recipe).toBeDefined();
+    expect(changes.batch.jobs.map((j) => j.jobId)).toContain(queued.jobId);
+  });
+
+  it('should reflect logged meals in the daily tracker', () => {
+    handleMockRequest(`${MOCK_BASE_URL}/api/meals/log`, {
+      method: 'POST',
+      body: JSON.stringify({ user_id: 'u1', dish_name: 'Tacos', calories: 650 }),
+    });
+    const tracker = handleMockRequest(`${MOCK_BASE_URL}/api/tracker/daily?user_id=u1`)?.body as {
+      summary: { total_calories: number; meal_count: number };
+    };
+
+    expect(tracker.summary.meal_count).toBe(1);
+    expect(tracker.summary.total_calories).toBe(650);
+  });
+
+  it('should answer Google Places lookups', () => {
+    const res = handleMockRequest(
+      'https://maps.googleapis.com/maps/api/place/autocomplete/json?input=lotus&key=x'
+    );
+    expect(res?.body).toEqual(
+      expect.objectContaining({
+        predictions: [expect.objectContaining({ place_id: 'mock-place-golden-lotus' })],
+      })
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  mealsByOrder,
+  mealTypeForTime,
+  orderIdFromDishId,
+  orderMealPayloads,
+  summarizeOrder,
+} from '../app/utils/orderTray';
+import { AnalyzeDishResponse, DailySummary, UserDailyTargets } from '../api/api';
+import { analysis, contains, fodmap, nutrition } from './fixtures';
+
+const dish = (
+  { kcal, protein, sodium }: { kcal: number; protein: number; sodium: number },
+  extra: Partial<AnalyzeDishResponse> = {}
+) => analysis({ nutrition_summary: nutrition(kcal, { protein_g: protein, sodium_mg: sodium }), ...extra });
+
+const burger = {
+  itemId: 'mains/burger',
+  name: 'Burger',
+  portionFactor: 1,
+  analysis: dish(
+    { kcal: 700, protein: 35, sodium: 1200 },
+    {
+      allergen_flags: [
+        { kind: 'gluten', present: 'yes', message: '', source: 'recipe' },
+        { kind: 'milk', present: 'maybe', message: '', source: 'recipe' },
+      ],
+      fodmap_flags: fodmap('medium', 'Bun'),
+    }
+  ),
+};
+const fries = {
+  itemId: 'sides/fries',
+  name: 'Fries',
+  portionFactor: 0.5,
+  analysis: dish(
+    { kcal: 400, protein: 4, sodium: 600 },
+    { organs: { ok: true, organs: [{ organ: 'heart', score: -20, level: 'medium' }] } }
+  ),
+};
+const shake = {
+  itemId: 'drinks/shake',
+  name: 'Shake',
+  portionFactor: 1,
+  analysis: dish(
+    { kcal: 500, protein: 10, sodium: 200 },
+    {
+      allergen_flags: contains('milk'),
+      fodmap_flags: fodmap('high', 'Lactose'),
+    }
+  ),
+};
+
+const targets = { calories: 2000, protein_g: 100, carbs_g: 250, fat_g: 70, fiber_g: 30, sugar_g: 50, sodium_mg: 2300 } as UserDailyTargets;
+
+describe('summarizeOrder', () => {
+  it('should add up nutrition scaled by each portion', () => {
+    const { nutrition, incompleteItemNames } = summarizeOrder([burger, fries], { userAllergens: [] });
+
+    expect(nutrition.calories).toBe(900);
+    expect(nutrition.protein).toBe(37);
+    expect(nutrition.sodium).toBe(1500);
+    expect(incompleteItemNames).toEqual([]);
+  });
+
+  it('should take the union of allergens and the worst FODMAP level', () => {
+    const summary = summarizeOrder([burger, fries, shake], { userAllergens: ['milk'] });
+
+    expect(summary.fodmapLevel).toBe('high');
+    // The shake turns the burger's "maybe" milk into a "yes"; avoided allergens come first
+    expect(summary.allergens).toEqual([
+      { name: 'milk', isUserAllergen: true, present: 'yes', severity: 'avoid', risk: 'high', itemNames: ['Burger', 'Shake'] },
+      { name: 'gluten', isUserAllergen: false, present: 'yes', severity: null, risk: null, itemNames: ['Burger'] },
+    ]);
+  });
+
+  it('should keep limited and monitored allergens, ordered by risk', () => {
+    const summary = summarizeOrder([burger, shake], {
+      userAllergens: [
+        { name: 'gluten', severity: 'monitor' },
+        { name: 'milk', severity: 'limit' },
+      ],
+    });
+
+    expect(summary.allergens.map((a) => [a.name, a.severity, a.risk])).toEqual([
+      ['milk', 'limit', 'medium'],
+      ['gluten', 'monitor', 'low'],
+    ]);
+  });
+
+  it('should measure the order against what is left of today\'s targets', () => {
+    const loggedToday = { total_calories: 1100, total_protein_g: 20, total_sodium_mg: 2500 } as DailySummary;
+    const { targetShares } = summarizeOrder([burger, fries], { userAllergens: [], targets, loggedToday });
+    const share = (key: string) => targetShares.find((t) => t.key === key)!;
+
+    expect(share('calories')).toEqual(expect.objectContaining({ amount: 900, remaining: 900, share: 1 }));
+    expect(share('protein').share).toBeCloseTo(37 / 80);
+    // Nothing left to spend
+    expect(share('sodium')).toEqual(expect.objectContaining({ remaining: 0, share: null }));
+  });
+
+  it('should skip target shares without targets and flag items missing nutrition', () => {
+    const bare = { itemId: 'x/water', name: 'Water', portionFactor: 1, analysis: { ok: true } as AnalyzeDishResponse };
+    const summary = summarizeOrder([bare], { userAllergens: [] });
+
+    expect(summary.targetShares).toEqual([]);
+    expect(summary.incompleteItemNames).toEqual(['Water']);
+    expect(summary.fodmapLevel).toBeNull();
+  });
+});
+
+describe('orderMealPayloads', () => {
+  it('should link every item of the order under one meal type', () => {
+    const payloads = orderMealPayloads([burger, fries], { orderId: 'abc', mealType: 'dinner', restaurantName: 'Diner' });
+
+    expect(payloads.map((p) => p.meal_type)).toEqual(['dinner', 'dinner']);
+    expect(payloads.map((p) => orderIdFromDishId(p.dish_id))).toEqual(['abc', 'abc']);
+    expect(payloads[1]).toEqual(
+      expect.objectContaining({ dish_name: 'Fries', portion_factor: 0.5, calories: 200, sodium_mg: 300 })
+    );
+    expect(payloads[0].risk_flags).toEqual(['allergen_gluten', 'high_sodium']);
+    // Organ scores follow the portion, like a dish logged on its own
+    expect(payloads[1].organ_impacts).toEqual({ heart: -10 });
+  });
+
+  it('should not treat other dish ids as orders', () => {
+    expect(orderIdFromDishId('Burger-1700000000000')).toBeNull();
+    expect(orderIdFromDishId(null)).toBeNull();
+  });
+});
+
+describe('mealsByOrder', () => {
+  it('should group logged meals by order, even when two share a name', () => {
+    const payloads = orderMealPayloads([burger, { ...burger, itemId: 'mains/burger-2' }, fries], {
+      orderId: 'abc',
+      mealType: 'lunch',
+    });
+    const meals = [...payloads, { dish_id: 'Soup-1700000000000', dish_name: 'Soup' }].map((p, i) => ({ ...p, id: i }));
+
+    const orders = mealsByOrder(meals);
+
+    expect(Array.from(orders.keys())).toEqual(['abc']);
+    expect(orders.get('abc')!.map((m) => m.id)).toEqual([0, 1, 2]);
+  });
+});
+
+describe('mealTypeForTime', () => {
+  it('should follow the time of day', () => {
+    expect(mealTypeForTime(new Date(2024, 0, 1, 8))).toBe('breakfast');
+    expect(mealTypeForTime(new Date(2024, 0, 1, 13))).toBe('lunch');
+    expect(mealTypeForTime(new Date(2024, 0, 1, 19))).toBe('dinner');
+    expect(mealTypeForTime(new Date(2024, 0, 1, 23))).toBe('snack');
+  });
+});
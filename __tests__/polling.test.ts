@@ -0,0 +1,95 @@
+import { computePollDelay, pollJob, PollStep } from '../api/polling';
+
+describe('computePollDelay', () => {
+  const noJitter = { intervalMs: 1000, maxIntervalMs: 4000, backoffFactor: 2, jitterRatio: 0 };
+
+  it('should back off exponentially up to the cap', () => {
+    expect([1, 2, 3, 4, 5].map((attempt) => computePollDelay(attempt, noJitter))).toEqual([
+      1000, 2000, 4000, 4000, 4000,
+    ]);
+  });
+
+  it('should prefer the server retry hint over backoff', () => {
+    expect(computePollDelay(5, noJitter, 30000)).toBe(30000);
+  });
+
+  it('should spread waits by the jitter ratio', () => {
+    const options = { ...noJitter, jitterRatio: 0.5 };
+    expect(computePollDelay(1, options, undefined, () => 0)).toBe(500);
+    expect(computePollDelay(1, options, undefined, () => 1)).toBe(1500);
+  });
+});
+
+describe('pollJob', () => {
+  const fast = { intervalMs: 1, maxIntervalMs: 1, jitterRatio: 0 };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should resolve once the check reports done', async () => {
+    const onProgress = jest.fn();
+    const check = jest.fn(
+      async (attempt: number): Promise<PollStep<number>> =>
+        attempt < 3 ? { done: false, value: attempt } : { done: true, value: attempt }
+    );
+
+    const outcome = await pollJob(check, { ...fast, onProgress });
+
+    expect(outcome).toEqual(expect.objectContaining({ status: 'done', value: 3, attempts: 3 }));
+    expect(onProgress).toHaveBeenCalledTimes(3);
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ attempt: 3, nextDelayMs: null }));
+  });
+
+  it('should treat thrown errors as pending', async () => {
+    let calls = 0;
+    const outcome = await pollJob(async (): Promise<PollStep<string>> => {
+      calls++;
+      if (calls === 1) throw new Error('network down');
+      return { done: true, value: 'ok' };
+    }, fast);
+
+    expect(outcome).toEqual(expect.objectContaining({ status: 'done', value: 'ok', attempts: 2 }));
+  });
+
+  it('should time out after maxAttempts with the last value', async () => {
+    const outcome = await pollJob(async () => ({ done: false, value: 'pending' }), { ...fast, maxAttempts: 4 });
+
+    expect(outcome).toEqual(expect.objectContaining({ status: 'timeout', lastValue: 'pending', attempts: 4 }));
+  });
+
+  it('should stop before a wait that would pass the deadline', async () => {
+    const check = jest.fn(async (): Promise<PollStep<never>> => ({ done: false }));
+    const outcome = await pollJob(check, { intervalMs: 5000, deadlineMs: 1000 });
+
+    expect(outcome.status).toBe('timeout');
+    expect(check).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop when the signal aborts during a check', async () => {
+    const controller = new AbortController();
+    const check = jest.fn(async (attempt: number): Promise<PollStep<never>> => {
+      if (attempt === 2) controller.abort();
+      return { done: false };
+    });
+
+    const outcome = await pollJob(check, { ...fast, signal: controller.signal });
+
+    expect(outcome).toEqual(expect.objectContaining({ status: 'cancelled', attempts: 2 }));
+  });
+
+  it('should not check at all when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const check = jest.fn(async () => ({ done: true, value: 1 }));
+
+    const outcome = await pollJob(check, { signal: controller.signal });
+
+    expect(outcome.status).toBe('cancelled');
+    expect(check).not.toHaveBeenCalled();
+  });
+});
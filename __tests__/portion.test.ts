@@ -0,0 +1,86 @@
+import {
+  applyPortion,
+  formatPortionFactor,
+  parsePortionFactor,
+  portionEstimate,
+} from '../app/utils/portion';
+import { breakdownComponents } from '../app/utils/componentSelection';
+import { AnalyzeDishResponse } from '../api/api';
+import { buildDishViewModel } from '../app/utils/dishViewModel';
+import { component, nutrition } from './fixtures';
+
+const burger = {
+  ok: true,
+  plate_components: [
+    { component_id: 'c1', label: 'Burger' },
+    { component_id: 'c2', label: 'Fries' },
+  ],
+  nutrition_summary: nutrition(1000),
+  selection_default: component('c1', { componentIds: ['c1', 'c2'], combined_nutrition: nutrition(1000) }),
+  selection_components: {
+    c1: component('c1', { combined_nutrition: nutrition(600) }),
+    c2: component('c2', { combined_nutrition: nutrition(400, { protein_g: null }) }),
+  },
+  portion: { manual_factor: null, ai_factor: 1.25, effective_factor: 1.25 },
+  debug: { portion_vision: { ok: true, portionFactor: 1.25, confidence: 0.8, input: { hasImage: true } } },
+} as unknown as AnalyzeDishResponse;
+
+describe('parsePortionFactor', () => {
+  it('should read decimals, commas and fractions', () => {
+    expect(parsePortionFactor('0.75')).toBe(0.75);
+    expect(parsePortionFactor(' 1,5x ')).toBe(1.5);
+    expect(parsePortionFactor('3/4')).toBe(0.75);
+    expect(parsePortionFactor('½')).toBe(0.5);
+  });
+
+  it('should reject anything outside the allowed range or not a number', () => {
+    expect(parsePortionFactor('0')).toBeNull();
+    expect(parsePortionFactor('12')).toBeNull();
+    expect(parsePortionFactor('1/0')).toBeNull();
+    expect(parsePortionFactor('lots')).toBeNull();
+    expect(parsePortionFactor('')).toBeNull();
+  });
+});
+
+describe('formatPortionFactor', () => {
+  it('should show common fractions as glyphs', () => {
+    expect(formatPortionFactor(0.25)).toBe('¼');
+    expect(formatPortionFactor(1.5)).toBe('1.5');
+    expect(formatPortionFactor(1.333)).toBe('1.33');
+  });
+});
+
+describe('applyPortion', () => {
+  it('should rescale from the analyzed portion, not from 1', () => {
+    // Analyzed at 1.25x, so a standard portion is 800 kcal
+    const standard = applyPortion(burger, 1);
+
+    expect(standard.nutrition_summary?.energyKcal).toBe(800);
+    expect(buildDishViewModel(standard, []).nutrition?.calories).toBe(800);
+  });
+
+  it('should rescale the component breakdown too, leaving unknown nutrients unknown', () => {
+    const [patty, fries] = breakdownComponents(applyPortion(burger, 0.625), []);
+
+    expect(patty.calories).toBe(300);
+    expect(fries.calories).toBe(200);
+    expect(fries.protein).toBeNull();
+  });
+
+  it('should return the analysis untouched at the analyzed portion', () => {
+    expect(applyPortion(burger, 1.25)).toBe(burger);
+  });
+});
+
+describe('portionEstimate', () => {
+  it('should prefer the vision estimate with its confidence', () => {
+    expect(portionEstimate(burger)).toEqual({ factor: 1.25, confidence: 0.8, fromPhoto: true });
+  });
+
+  it('should fall back to the backend AI factor, and to nothing for a standard portion', () => {
+    const noVision = { ...burger, debug: null } as unknown as AnalyzeDishResponse;
+
+    expect(portionEstimate(noVision)).toEqual({ factor: 1.25, confidence: null, fromPhoto: false });
+    expect(portionEstimate({ ...noVision, portion: { ai_factor: 1 } } as AnalyzeDishResponse)).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  PREFETCH_PRIORITY,
+  PrefetchQueueEntry,
+  carouselPriorities,
+  nextPrefetches,
+  overflowPrefetches,
+  queuePosition,
+} from '../utils/prefetchQueue';
+
+const entry = (placeId: string, status: PrefetchQueueEntry['status'], priority: number, enqueuedAt = 0) => ({
+  placeId,
+  status,
+  priority,
+  enqueuedAt,
+});
+
+describe('prefetchQueue', () => {
+  it('should start the best queued entries that fit in the free slots', () => {
+    const entries = [
+      entry('running', 'running', 0),
+      entry('far', 'queued', PREFETCH_PRIORITY.nearby),
+      entry('next', 'queued', PREFETCH_PRIORITY.neighbour, 2),
+      entry('prev', 'queued', PREFETCH_PRIORITY.neighbour, 1),
+    ];
+
+    expect(nextPrefetches(entries, 2).map((e) => e.placeId)).toEqual(['prev']);
+    expect(nextPrefetches(entries, 1)).toEqual([]);
+    expect(queuePosition(entries, 'far')).toBe(3);
+    expect(queuePosition(entries, 'running')).toBeNull();
+  });
+
+  it('should drop the lowest priority queued entries but never started ones', () => {
+    const entries = [
+      entry('a', 'running', PREFETCH_PRIORITY.background),
+      entry('b', 'queued', PREFETCH_PRIORITY.selected),
+      entry('c', 'queued', PREFETCH_PRIORITY.background),
+      entry('d', 'queued', PREFETCH_PRIORITY.neighbour),
+    ];
+
+    expect(overflowPrefetches(entries, 1).map((e) => e.placeId)).toEqual(['c', 'd']);
+  });
+
+  it('should rank the selected card first, then its neighbours', () => {
+    const ids = ['p0', 'p1', 'p2', 'p3', 'p4', 'p5'];
+
+    expect(carouselPriorities(ids, 1)).toEqual([
+      { placeId: 'p1', priority: PREFETCH_PRIORITY.selected },
+      { placeId: 'p0', priority: PREFETCH_PRIORITY.neighbour },
+      { placeId: 'p2', priority: PREFETCH_PRIORITY.neighbour },
+      { placeId: 'p3', priority: PREFETCH_PRIORITY.nearby },
+    ]);
+  });
+});
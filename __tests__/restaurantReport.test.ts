@@ -0,0 +1,88 @@
+import { analysesFromBatchJobs, buildRestaurantReport } from '../app/utils/restaurantReport';
+import { AnalyzeDishResponse, BatchStatusJob, MenuSection } from '../api/api';
+import { analysis, contains, fodmap, menuItem, nutrition } from './fixtures';
+
+const item = (id: string, name: string) => menuItem(id, { name });
+
+const dish = (
+  allergens: string[],
+  { kcal, protein, sodium }: { kcal: number; protein: number; sodium: number },
+  level: 'low' | 'medium' | 'high' = 'low'
+) =>
+  analysis({
+    allergen_flags: contains(...allergens),
+    fodmap_flags: fodmap(level),
+    nutrition_summary: nutrition(kcal, { protein_g: protein, sodium_mg: sodium }),
+  });
+
+const sections: MenuSection[] = [
+  {
+    id: 'starters',
+    name: 'Starters',
+    items: [item('starters/salad', 'Salad'), item('starters/calamari', 'Calamari')],
+  },
+  {
+    id: 'pasta',
+    name: 'Pasta',
+    items: [item('pasta/carbonara', 'Carbonara'), item('pasta/alfredo', 'Alfredo'), item('pasta/pesto', 'Pesto')],
+  },
+];
+
+const analyses: Record<string, AnalyzeDishResponse> = {
+  'starters/salad': dish([], { kcal: 250, protein: 8, sodium: 300 }),
+  'starters/calamari': dish(['shellfish', 'wheat'], { kcal: 600, protein: 25, sodium: 1200 }, 'medium'),
+  'pasta/carbonara': dish(['wheat', 'milk', 'egg'], { kcal: 900, protein: 35, sodium: 1500 }, 'high'),
+  'pasta/alfredo': dish(['wheat', 'milk'], { kcal: 1100, protein: 30, sodium: 1300 }, 'high'),
+};
+
+describe('buildRestaurantReport', () => {
+  const report = buildRestaurantReport(sections, analyses, ['milk']);
+
+  it('should count safe and low-FODMAP dishes among the analyzed ones', () => {
+    expect(report.totalCount).toBe(5);
+    expect(report.analyzedCount).toBe(4);
+    expect(report.safeCount).toBe(2);
+    expect(report.lowFodmapCount).toBe(1);
+  });
+
+  it('should pick the best safe dishes per goal', () => {
+    const protein = report.bestPicks.find((g) => g.goal === 'high_protein');
+    const sodium = report.bestPicks.find((g) => g.goal === 'low_sodium');
+
+    expect(protein?.picks.map((p) => p.name)).toEqual(['Calamari', 'Salad']);
+    expect(sodium?.picks[0]).toEqual({ itemId: 'starters/salad', name: 'Salad', sectionName: 'Starters', value: 300 });
+    // No tummy scores in these analyses
+    expect(report.bestPicks.some((g) => g.goal === 'gentle')).toBe(false);
+  });
+
+  it('should rank allergens by how many dishes contain them', () => {
+    expect(report.commonAllergens[0]).toEqual({ name: 'wheat', count: 3, sectionNames: ['Starters', 'Pasta'] });
+    expect(report.commonAllergens[1]).toEqual({ name: 'milk', count: 2, sectionNames: ['Pasta'] });
+  });
+
+  it('should flag sections where most analyzed dishes contain an avoided allergen', () => {
+    expect(report.sectionsToAvoid).toEqual([
+      { sectionId: 'pasta', sectionName: 'Pasta', analyzedCount: 2, unsafeCount: 2, allergens: ['milk'] },
+    ]);
+  });
+});
+
+describe('analysesFromBatchJobs', () => {
+  it('should attach finished jobs to menu items by clientKey', () => {
+    const done = (jobId: string, result: AnalyzeDishResponse) => ({ id: jobId, status: 'completed', result });
+    const jobs: BatchStatusJob[] = [
+      {
+        jobId: 'j1',
+        dishName: 'Salad',
+        clientKey: 'starters/salad',
+        status: 'completed',
+        data: done('j1', analyses['starters/salad']),
+      },
+      { jobId: 'j2', dishName: 'Pesto', clientKey: 'pasta/pesto', status: 'processing' },
+      // Older backends don't echo clientKey; the unique name still matches
+      { jobId: 'j3', dishName: 'Alfredo', status: 'completed', data: done('j3', analyses['pasta/alfredo']) },
+    ];
+
+    expect(Object.keys(analysesFromBatchJobs(sections, jobs))).toEqual(['starters/salad', 'pasta/alfredo']);
+  });
+});
@@ -0,0 +1,226 @@
+import { createStreamParser, StreamMessage } from '../api/stream';
+import { analyzeDishStream, AnalysisStageUpdate, API_BASE_URL, BatchDelta, subscribeBatch } from '../api/api';
+import { MOCK_BASE_URL } from '../api/environment';
+import { handleMockRequest, resetMockServer } from '../api/mock/mockServer';
+
+const collect = (chunks: string[]) => {
+  const messages: StreamMessage[] = [];
+  const parser = createStreamParser((m) => messages.push(m));
+  chunks.forEach((chunk) => parser.push(chunk));
+  parser.end();
+  return messages;
+};
+
+// Response stand-in whose body is read chunk by chunk
+const streamingResponse = (status: number, chunks: string[]) => {
+  const encoder = new TextEncoder();
+  let index = 0;
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    text: () => Promise.resolve(chunks.join('')),
+    body: {
+      getReader: () => ({
+        read: () =>
+          Promise.resolve(
+            index < chunks.length
+              ? { done: false, value: encoder.encode(chunks[index++]) }
+              : { done: true, value: undefined }
+          ),
+      }),
+    },
+  };
+};
+
+describe('createStreamParser', () => {
+  it('should split NDJSON lines across arbitrary chunks', () => {
+    expect(collect(['{"a":', '1}\n{"b"', ':2}\r\n{"c":3}'])).toEqual([
+      { event: null, data: '{"a":1}' },
+      { event: null, data: '{"b":2}' },
+      { event: null, data: '{"c":3}' },
+    ]);
+  });
+
+  it('should group SSE fields into events and skip comments', () => {
+    const messages = collect([': keep-alive\n', 'event: stage\ndata: {"x":', '1}\n\n', 'data: line1\ndata: line2\n']);
+
+    expect(messages).toEqual([
+      { event: 'stage', data: '{"x":1}' },
+      { event: null, data: 'line1\nline2' },
+    ]);
+  });
+});
+
+describe('analyzeDishStream', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('should report merged partial results per stage', async () => {
+    fetchMock.mockResolvedValue(
+      streamingResponse(200, [
+        '{"type":"stage","stage":"allergens","data":{"allergen_flags":[{"kind":"milk","present":"yes","message":"cheese"}]}}\n',
+        '{"type":"stage","stage":"nutrition","data":{"nutrition_summary":{"energyKcal":640}}}\n',
+        '{"type":"done","data":{"dishName":"Alfredo"}}\n',
+      ])
+    );
+    const updates: AnalysisStageUpdate[] = [];
+
+    const result = await analyzeDishStream({ dishName: 'Alfredo' }, { onStage: (u) => updates.push(u) });
+
+    expect(updates.map((u) => u.stage)).toEqual(['allergens', 'nutrition']);
+    expect(updates[0].partial.nutrition_summary).toBeUndefined();
+    expect(updates[1].partial.allergen_flags?.[0].kind).toBe('milk');
+    expect(updates[1].stages).toEqual(['allergens', 'nutrition']);
+    expect(result).toEqual(expect.objectContaining({ ok: true, dishName: 'Alfredo' }));
+    expect(result.nutrition_summary?.energyKcal).toBe(640);
+  });
+
+  it('should fall back to the blocking endpoint when streaming is unsupported', async () => {
+    fetchMock
+      .mockResolvedValueOnce(streamingResponse(404, ['Not found']))
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve('{"ok":true,"dishName":"Tacos"}'),
+      });
+
+    const result = await analyzeDishStream({ dishName: 'Tacos', skip_organs: true });
+
+    expect(result).toEqual(expect.objectContaining({ ok: true, dishName: 'Tacos' }));
+    expect(fetchMock.mock.calls[1][0]).toMatch(/\/pipeline\/analyze-dish$/);
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body).skip_organs).toBe(true);
+  });
+
+  it('should fail on error events and on streams that end early', async () => {
+    fetchMock.mockResolvedValueOnce(streamingResponse(200, ['{"type":"error","error":"pipeline crashed"}\n']));
+    const errored = await analyzeDishStream({ dishName: 'Soup' });
+    expect(errored).toEqual(expect.objectContaining({ ok: false, error: 'pipeline crashed' }));
+
+    fetchMock.mockResolvedValueOnce(
+      streamingResponse(200, ['{"type":"stage","stage":"allergens","data":{}}\n'])
+    );
+    const truncated = await analyzeDishStream({ dishName: 'Soup' });
+    expect(truncated.ok).toBe(false);
+    expect(truncated.apiError?.kind).toBe('network');
+  });
+});
+
+describe('subscribeBatch', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  // Serve requests from the mock backend, optionally refusing the push channel
+  const serveFromMock = (options: { pushChannel: boolean }) => async (url: string, init: RequestInit) => {
+    if (!options.pushChannel && url.includes('/batch/stream')) {
+      return streamingResponse(404, ['{"ok":false,"error":"Not found"}']);
+    }
+    const res = handleMockRequest(url.replace(API_BASE_URL, MOCK_BASE_URL), {
+      method: init?.method,
+      body: init?.body as string | undefined,
+    });
+    const body = typeof res?.body === 'string' ? res.body : JSON.stringify(res?.body);
+    return streamingResponse(res?.status ?? 500, [body]);
+  };
+
+  const startBatch = (dishCount: number) => {
+    const dishes = Array.from({ length: dishCount }, (_, i) => ({ dishName: `Dish ${i}` }));
+    return handleMockRequest(`${MOCK_BASE_URL}/api/analyze/batch`, {
+      method: 'POST',
+      body: JSON.stringify({ restaurantName: 'Test', dishes }),
+    })?.body as { batchId: string; cursor: string };
+  };
+
+  beforeEach(() => {
+    resetMockServer();
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('should receive only jobs after the cursor over the push channel', async () => {
+    fetchMock.mockImplementation(serveFromMock({ pushChannel: true }));
+    const { batchId, cursor } = startBatch(5);
+    const deltas: BatchDelta[] = [];
+
+    const result = await subscribeBatch(batchId, (d) => deltas.push(d), { since: cursor });
+
+    const jobIds = deltas.flatMap((d) => d.jobs.map((j) => j.jobId));
+    expect(jobIds).toHaveLength(3);
+    expect(deltas.every((d) => d.jobs.every((j) => j.data?.result?.ok))).toBe(true);
+    expect(result).toEqual(expect.objectContaining({ ok: true, status: 'completed', transport: 'push', cursor: '5' }));
+  });
+
+  it('should fall back to incremental status calls from the cursor', async () => {
+    fetchMock.mockImplementation(serveFromMock({ pushChannel: false }));
+    const { batchId, cursor } = startBatch(4);
+    const deltas: BatchDelta[] = [];
+
+    const result = await subscribeBatch(batchId, (d) => deltas.push(d), { since: cursor });
+
+    expect(fetchMock.mock.calls[1][0]).toContain(`since=${cursor}`);
+    expect(deltas.flatMap((d) => d.jobs)).toHaveLength(2);
+    expect(result).toEqual(expect.objectContaining({ ok: true, status: 'completed', transport: 'poll' }));
+  });
+
+  it('should keep polling through a transient server error', async () => {
+    const serve = serveFromMock({ pushChannel: false });
+    let statusCalls = 0;
+    fetchMock.mockImplementation((url: string, init: RequestInit) =>
+      url.includes('/batch/status') && ++statusCalls <= 2
+        ? Promise.resolve(streamingResponse(503, ['Service unavailable']))
+        : serve(url, init)
+    );
+    const { batchId, cursor } = startBatch(4);
+    const deltas: BatchDelta[] = [];
+
+    const result = await subscribeBatch(batchId, (d) => deltas.push(d), { since: cursor });
+
+    expect(statusCalls).toBeGreaterThan(2);
+    expect(deltas.flatMap((d) => d.jobs)).toHaveLength(2);
+    expect(result).toEqual(expect.objectContaining({ ok: true, status: 'completed', transport: 'poll' }));
+  }, 10000); // one real poll interval
+
+  it('should close a push channel that only sends keep-alives at the deadline', async () => {
+    // Sends a comment line every 10ms until the request is aborted
+    fetchMock.mockImplementation((_url: string, init: RequestInit) =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        body: {
+          getReader: () => ({
+            read: () =>
+              new Promise((resolve, reject) => {
+                if (init.signal?.aborted) return reject(new Error('aborted'));
+                setTimeout(() => resolve({ done: false, value: new TextEncoder().encode(': keep-alive\n\n') }), 10);
+              }),
+          }),
+        },
+      })
+    );
+
+    const result = await subscribeBatch('b1', () => {}, { deadlineMs: 100 });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result).toEqual(expect.objectContaining({ ok: false, transport: 'push' }));
+    expect(result.error).toMatch(/timed out/);
+  });
+});
@@ -1,4 +1,23 @@
-export const API_BASE_URL = 'https://api.rrginvestment.com';
+import { ApiError, ApiRequestError, apiRequest, failure, isRetryable, unwrap } from './client';
+import {
+  decodeAnalyzeDishResponse,
+  decodeBatchAnalyzeResponse,
+  decodeBatchDelta,
+  decodeBatchStatusResponse,
+  decodeOrgansStatusResponse,
+  logDecodeIssues,
+} from './decoders';
+import { BACKEND } from './environment';
+import { adaptExtractMenu, adaptUberTestMenu } from './menuAdapters';
+import { PollerOptions, pollJob } from './polling';
+import { StreamMessage, streamRequest } from './stream';
+import { recordLatency } from '../utils/cacheMetrics';
+
+export type { ApiError, ApiErrorKind } from './client';
+export { ApiRequestError } from './client';
+export type { PollerOptions, PollProgress } from './polling';
+
+export const API_BASE_URL = BACKEND.baseUrl;
 
 const RESTAURANT_API_BASE = API_BASE_URL;
 
@@ -6,6 +25,25 @@ const DISH_API_BASE = API_BASE_URL;
 
 const GATEWAY_BASE_URL = API_BASE_URL;
 
+// Per-request timeouts for the slow endpoints (everything else uses the client default)
+const MENU_TIMEOUT_MS = 60000;
+const ANALYZE_TIMEOUT_MS = 120000;
+const UPLOAD_TIMEOUT_MS = 60000;
+
+// Measure one request for the cache metrics; thrown errors and ok:false results count as failures.
+// Wrap the request itself, never a polling loop, so waits between attempts aren't counted.
+async function timed<T>(endpoint: string, call: () => Promise<T>): Promise<T> {
+  const startedAt = Date.now();
+  let ok = false;
+  try {
+    const result = await call();
+    ok = !!(result as { ok?: boolean })?.ok;
+    return result;
+  } finally {
+    recordLatency(endpoint, Date.now() - startedAt, ok);
+  }
+}
+
 export interface DishTummyBarometer {
   score: number | null | undefined;
   label: string | null | undefined;
@@ -95,10 +133,17 @@ export interface DishOrganFlags {
   alcohol?: boolean;
 }
 
+export interface DishOrganEntry {
+  organ?: string;
+  score?: number;
+  level?: string;
+  reasons?: string[];
+}
+
 export interface DishOrgansBlock {
   ok?: boolean;
   tummy_barometer?: DishTummyBarometer;
-  organs?: { organ?: string; score?: number; level?: string }[];
+  organs?: DishOrganEntry[];
   flags?: DishOrganFlags;
   debug?: any;
 }
@@ -117,6 +162,9 @@ export interface PlateComponent {
   role?: string | null;
   category?: string | null;
   label?: string | null;
+  // Older payloads name the component here instead of `label`
+  component?: string | null;
+  name?: string | null;
   confidence?: number | null;
   area_ratio?: number | null;
 }
@@ -124,6 +172,7 @@ export interface PlateComponent {
 export interface SelectionNutritionRow {
   component_id?: string;
   component?: string;
+  name?: string;
   role?: string;
   category?: string;
   share_ratio?: number | null;
@@ -262,6 +311,39 @@ export interface FullRecipeResponse {
   reason?: string;
 }
 
+// Per-ingredient lexicon hits used to build FODMAP trigger pills
+export interface LexIngredientHit {
+  allergen?: string | null;
+  fodmap?: string | boolean | null;
+  lactose?: string | boolean | null;
+}
+
+export interface LexPerIngredientEntry {
+  ingredient: string;
+  hits: LexIngredientHit[];
+}
+
+export interface PortionVisionDebug {
+  ok: boolean;
+  portionFactor?: number;
+  confidence?: number;
+  source?: string;
+  reason?: string;
+  input?: { hasImage?: boolean };
+}
+
+export interface AnalysisDebug {
+  lex_per_ingredient?: { perIngredient: LexPerIngredientEntry[] } | null;
+  portion_vision?: PortionVisionDebug | null;
+  [key: string]: unknown;
+}
+
+export interface PortionBlock {
+  manual_factor?: number;
+  ai_factor?: number;
+  effective_factor?: number;
+}
+
 export interface SpellCorrection {
   original: string;
   corrected: string;
@@ -280,8 +362,12 @@ export interface AnalyzeDishResponse {
   recipe?: any;
   normalized?: DishNormalizedBlock;
   organs?: DishOrgansBlock;
-  debug?: any;
+  debug?: AnalysisDebug | null;
   error?: string;
+  apiError?: ApiError;
+
+  // Portion scaling applied by the backend (manual x AI vision estimate)
+  portion?: PortionBlock | null;
 
   // Whole-dish level flags / nutrition
   allergen_flags?: AllergenFlag[];
@@ -326,30 +412,20 @@ export interface DishImageResponse {
   image?: string;
   provider?: string;
   error?: string;
+  apiError?: ApiError;
 }
 
 /**
  * Fetch dish image from providers (Spoonacular/Edamam)
  * This is a lightweight endpoint that only returns an image URL
  */
-export async function fetchDishImage(dishName: string): Promise<DishImageResponse> {
+export async function fetchDishImage(
+  dishName: string,
+  signal?: AbortSignal
+): Promise<DishImageResponse> {
   const url = `${API_BASE_URL}/api/dish-image?dish=${encodeURIComponent(dishName)}`;
-  console.log('TB fetchDishImage calling:', url);
-
-  try {
-    const res = await fetch(url);
-    const text = await res.text();
-
-    try {
-      const data = JSON.parse(text);
-      return data as DishImageResponse;
-    } catch {
-      return { ok: false, error: 'Invalid response' };
-    }
-  } catch (e: any) {
-    console.error('fetchDishImage error:', e?.message || e);
-    return { ok: false, error: e?.message || 'Failed to fetch image' };
-  }
+  const result = await apiRequest<DishImageResponse>(url, { tag: 'fetchDishImage', signal });
+  return result.ok ? result.data : failure(result.error);
 }
 
 export interface AnalyzeDishCardResponse {
@@ -359,60 +435,89 @@ export interface AnalyzeDishCardResponse {
   summary: DishSummary | null;
 }
 
-async function apiGet(fullUrl: string) {
-  console.log('Calling API GET:', fullUrl);
+async function apiGet(fullUrl: string, signal?: AbortSignal) {
+  return unwrap(await apiRequest(fullUrl, { tag: 'apiGet', signal }));
+}
 
-  const res = await fetch(fullUrl, {
-    method: 'GET',
-  });
+async function apiPostDish(path: string, body: any, signal?: AbortSignal) {
+  const url = `${DISH_API_BASE}${path}`;
+  return unwrap(await apiRequest(url, { method: 'POST', body, tag: 'apiPostDish', signal }));
+}
 
-  const raw = await res.text();
-  console.log('apiGet raw snippet:', raw.slice(0, 200));
+// ============================================
+// Menu model
+// ============================================
+//
+// Every menu source (/menu/extract, /menu/uber-test, the Apify prefetch) is
+// adapted into this one shape by api/menuAdapters.ts.
 
-  if (!res.ok) {
-    throw new Error(`API GET error ${res.status}: ${raw.slice(0, 200)}`);
-  }
+/** A listed price; `amount` is null when the text has no number ("Market price") */
+export interface MenuPrice {
+  amount: number | null;
+  /** ISO code when the source says so, e.g. "USD" */
+  currency: string | null;
+  /** As displayed by the source */
+  text: string;
+}
 
-  try {
-    return JSON.parse(raw);
-  } catch (error) {
-    console.error('apiGet JSON.parse failed:', error);
-    throw new Error(
-      `API GET returned non-JSON or unexpected shape. Status: ${
-        res.status
-      }, body starts with: ${raw.slice(0, 40)}`
-    );
-  }
+export interface MenuModifierOption {
+  name: string;
+  price: MenuPrice | null;
 }
 
-async function apiPostDish(path: string, body: any) {
-  const url = `${DISH_API_BASE}${path}`;
-  console.log('Calling Dish API POST:', url, 'with body:', body);
+export interface MenuModifierGroup {
+  name: string;
+  required: boolean;
+  minSelections: number;
+  maxSelections: number | null;
+  options: MenuModifierOption[];
+}
 
-  try {
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
-
-    const text = await res.text();
-
-    if (!res.ok) {
-      throw new Error(`Dish API error ${res.status}: ${text.slice(0, 200)}`);
-    }
+export interface MenuItem {
+  /** Derived from the section and item names, so it is the same on every fetch */
+  id: string;
+  /** The source's own id, when it has one */
+  sourceId?: string;
+  name: string;
+  description: string;
+  price: MenuPrice | null;
+  /** Calories listed by the restaurant */
+  calories: number | null;
+  imageUrl: string | null;
+  modifiers: MenuModifierGroup[];
+}
 
-    try {
-      return JSON.parse(text);
-    } catch (parseErr) {
-      throw new Error(`Dish API returned invalid JSON: ${text.slice(0, 200)}`);
-    }
-  } catch (error) {
-    console.error('Dish API error:', error);
-    throw error;
-  }
+export interface MenuSection {
+  id: string;
+  name: string;
+  items: MenuItem[];
+}
+
+export interface MenuRestaurant {
+  id?: string | number;
+  name?: string;
+  address?: string;
+  imageUrl?: string | null;
+  imageRef?: string | null;
+}
+
+export interface Menu {
+  source?: string;
+  restaurant?: MenuRestaurant;
+  sections: MenuSection[];
+}
+
+export interface MenuResponse extends Menu {
+  ok: boolean;
+  error?: string;
+  apiError?: ApiError;
+  uberDebug?: { error?: string };
+}
+
+/** /menu/extract also answers while its scrape is still running */
+export interface MenuExtractResponse extends MenuResponse {
+  status?: 'processing' | 'failed';
+  retryIn?: number;
 }
 
 // Existing: menu extraction from restaurant-core
@@ -421,39 +526,37 @@ export function getMenuExtract(placeId: string) {
   return apiGet(url);
 }
 
-export async function fetchMenu(placeId: string) {
+export async function fetchMenu(placeId: string, signal?: AbortSignal): Promise<MenuExtractResponse> {
   const url = `${RESTAURANT_API_BASE}/menu/extract?placeId=${placeId}`;
-  console.log('TB fetchMenu calling:', url);
-
-  const res = await fetch(url);
-
-  const raw = await res.text();
-  console.log('fetchMenu raw snippet:', raw.slice(0, 200));
 
-  // For 202 responses (processing), parse and return the JSON body
-  if (res.status === 202) {
-    try {
-      return JSON.parse(raw);
-    } catch {
-      return { ok: false, status: 'processing', retryIn: 5 };
-    }
+  // 202 (processing) bodies carry `ok: false` plus status/retryIn, so the
+  // ok check is left to fetchMenuWithRetry.
+  const result = await timed('fetchMenu', () => apiRequest(url, {
+    tag: 'fetchMenu',
+    timeoutMs: MENU_TIMEOUT_MS,
+    checkOk: false,
+    signal,
+  }));
+
+  if (!result.ok && result.error.kind === 'invalid_json' && result.error.status === 202) {
+    return { ok: false, status: 'processing', retryIn: 5, sections: [] };
   }
 
-  if (!res.ok) {
-    throw new Error(`fetchMenu HTTP ${res.status} – body starts with: ${raw.slice(0, 40)}`);
-  }
-
-  try {
-    const data = JSON.parse(raw);
-    console.log(
-      'fetchMenu JSON top-level keys:',
-      data && typeof data === 'object' ? Object.keys(data) : typeof data
-    );
-    return data;
-  } catch (e) {
-    console.error('fetchMenu JSON.parse failed:', e);
-    throw new Error(`fetchMenu got non-JSON body starting with: ${raw.slice(0, 40)}`);
+  const data = unwrap(result);
+  console.log(
+    'fetchMenu JSON top-level keys:',
+    data && typeof data === 'object' ? Object.keys(data) : typeof data
+  );
+  if (data?.ok) {
+    return adaptExtractMenu(data);
   }
+  return {
+    ok: false,
+    status: data?.status === 'processing' || data?.status === 'failed' ? data.status : undefined,
+    retryIn: typeof data?.retryIn === 'number' ? data.retryIn : undefined,
+    error: data?.error,
+    sections: [],
+  };
 }
 
 // Fast menu fetch using /menu/uber-test (no strict Google filter)
@@ -461,142 +564,80 @@ export async function fetchMenu(placeId: string) {
 export async function fetchMenuFast(
   restaurantName: string,
   address: string,
-  maxRows: number = 50
-): Promise<any> {
+  maxRows: number = 50,
+  signal?: AbortSignal
+): Promise<MenuResponse> {
   const params = new URLSearchParams({
     query: restaurantName,
     address,
     maxRows: String(maxRows),
   });
   const url = `${RESTAURANT_API_BASE}/menu/uber-test?${params.toString()}`;
-  console.log('TB fetchMenuFast calling:', url);
-
-  try {
-    const res = await fetch(url);
-    const raw = await res.text();
-    console.log('fetchMenuFast raw snippet:', raw.slice(0, 200));
 
-    if (!res.ok) {
-      console.error('fetchMenuFast HTTP error:', res.status);
-      return { ok: false, error: `HTTP ${res.status}` };
-    }
-
-    const data = JSON.parse(raw);
-
-    // Transform /menu/uber-test response to match /menu/extract format
-    if (data.ok && data.data?.items) {
-      const items = data.data.items;
-
-      // Group items by section
-      const sectionMap: Record<string, any[]> = {};
-      let firstImageUrl: string | null = null;
-
-      for (const item of items) {
-        const sectionName = item.section || 'Menu';
-        if (!sectionMap[sectionName]) {
-          sectionMap[sectionName] = [];
-        }
-
-        // Capture first item's image as potential hero
-        const itemImage = item.imageUrl || item.image_url || item.image || null;
-        if (!firstImageUrl && itemImage) {
-          firstImageUrl = itemImage;
-        }
-
-        sectionMap[sectionName].push({
-          id: item.id || `item-${sectionMap[sectionName].length}`,
-          name: item.name,
-          description: item.description,
-          menuDescription: item.description,
-          priceText: item.price_display,
-          restaurantCalories: item.restaurantCalories,
-          imageUrl: itemImage,
-        });
-      }
+  const result = await timed('fetchMenuFast', () => apiRequest(url, {
+    tag: 'fetchMenuFast',
+    timeoutMs: MENU_TIMEOUT_MS,
+    signal,
+  }));
 
-      const sections = Object.entries(sectionMap).map(([name, sectionItems], idx) => ({
-        id: `section-${idx}`,
-        name,
-        items: sectionItems,
-      }));
-
-      return {
-        ok: true,
-        source: 'uber-test-fast',
-        restaurant: {
-          id: data.data.query,
-          name: restaurantName,
-          address: address,
-          imageUrl: firstImageUrl, // Use first item image as hero fallback
-        },
-        sections,
-      };
-    }
-
-    return { ok: false, error: data.error || 'No items found' };
-  } catch (e: any) {
-    console.error('fetchMenuFast error:', e?.message || e);
-    return { ok: false, error: e?.message || 'Failed to fetch menu' };
+  if (!result.ok) {
+    return { ...failure(result.error), sections: [] };
   }
+  return adaptUberTestMenu(result.data, { restaurantName, address });
 }
 
-// Async menu fetch with polling for background job completion
+// Async menu fetch with polling for background job completion.
+// Throws ApiRequestError ('timeout' / 'aborted') if the menu never becomes ready.
 export async function fetchMenuWithRetry(
   placeId: string,
-  maxRetries: number = 24, // 24 * 5s = 2 minutes max wait
-  retryDelay: number = 5000
-): Promise<any> {
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      const response = await fetchMenu(placeId);
+  options: PollerOptions<MenuResponse> = {}
+): Promise<MenuResponse> {
+  const deadlineMs = options.deadlineMs ?? 120000;
 
-      // Success - menu is ready
+  const outcome = await pollJob<MenuResponse>(
+    async (attempt, signal) => {
+      const response = await fetchMenu(placeId, signal);
+
+      // Success - menu is ready (already adapted to the Menu model)
       if (response.ok) {
-        return response;
+        return { done: true, value: response };
       }
 
-      // Job is processing - wait and retry
+      // Job is processing - wait for the server-suggested interval
       if (response.status === 'processing') {
-        console.log(
-          `TB fetchMenuWithRetry: processing, attempt ${attempt + 1}/${maxRetries}, retrying in ${
-            response.retryIn || 5
-          }s`
-        );
-        const waitTime = (response.retryIn || 5) * 1000;
-        await new Promise((resolve) => setTimeout(resolve, waitTime));
-        continue;
+        console.log(`TB fetchMenuWithRetry: processing, attempt ${attempt}`);
+        return { done: false, retryInMs: (response.retryIn || 5) * 1000 };
       }
 
-      // Job failed recently - wait longer before retry
+      // Job failed recently - the server asks us to wait longer
       if (response.status === 'failed') {
-        console.log(
-          `TB fetchMenuWithRetry: failed, attempt ${attempt + 1}/${maxRetries}, retrying in ${
-            response.retryIn || 30
-          }s`
-        );
-        const waitTime = (response.retryIn || 30) * 1000;
-        await new Promise((resolve) => setTimeout(resolve, waitTime));
-        continue;
+        console.log(`TB fetchMenuWithRetry: failed, attempt ${attempt}`);
+        return { done: false, retryInMs: (response.retryIn || 30) * 1000 };
       }
 
-      // Other error - throw
+      // Other errors back off and retry until the deadline
       throw new Error(response.error || 'Menu fetch failed');
-    } catch (err: any) {
-      // Network error on last attempt - throw
-      if (attempt === maxRetries - 1) {
-        throw err;
-      }
-      // Network error - wait and retry
-      console.log(
-        `TB fetchMenuWithRetry: network error, attempt ${attempt + 1}/${maxRetries}, retrying...`
-      );
-      await new Promise((resolve) => setTimeout(resolve, retryDelay));
+    },
+    {
+      tag: 'fetchMenuWithRetry',
+      intervalMs: 5000,
+      maxIntervalMs: 15000,
+      ...options,
+      deadlineMs,
     }
-  }
-
-  throw new Error(
-    'Menu loading timed out after ' + Math.floor((maxRetries * retryDelay) / 1000) + ' seconds'
   );
+
+  if (outcome.status === 'done') {
+    return outcome.value;
+  }
+  if (outcome.status === 'cancelled') {
+    throw new ApiRequestError({ kind: 'aborted', message: 'Menu loading cancelled' });
+  }
+  throw new ApiRequestError({
+    kind: 'timeout',
+    message: `Menu loading timed out after ${Math.floor(deadlineMs / 1000)} seconds`,
+    timeoutMs: deadlineMs,
+  });
 }
 
 // NEW: dish analysis from dish-processor
@@ -627,81 +668,164 @@ export interface AnalyzeDishPayload {
   skip_organs?: boolean;
 }
 
-export async function analyzeDish(payload: AnalyzeDishPayload): Promise<AnalyzeDishResponse> {
+export async function analyzeDish(
+  payload: AnalyzeDishPayload,
+  signal?: AbortSignal
+): Promise<AnalyzeDishResponse> {
   const url = `${GATEWAY_BASE_URL}/pipeline/analyze-dish`;
-  console.log('TB analyzeDish calling:', url, 'with', payload);
+  console.log('TB analyzeDish payload:', payload);
 
-  const res = await fetch(url, {
+  const result = await timed('analyzeDish', () => apiRequest<unknown>(url, {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(payload),
-  });
-
-  const raw = await res.text();
-  console.log('TB analyzeDish raw snippet:', raw.slice(0, 200));
-
-  if (!res.ok) {
-    console.error('analyzeDish HTTP error:', res.status, raw.slice(0, 80));
-    return {
-      ok: false,
-      tummy_score: 82,
-      organs: {},
-      allergens: [],
-      fodmap: {},
-      insights: ['Analysis temporarily unavailable.'],
-      _raw: raw,
-    } as unknown as AnalyzeDishResponse;
+    body: payload,
+    tag: 'analyzeDish',
+    timeoutMs: ANALYZE_TIMEOUT_MS,
+    signal,
+  }));
+
+  if (!result.ok) {
+    return failure(result.error);
   }
 
-  try {
-    const data = JSON.parse(raw);
-    console.log(
-      'TB analyzeDish JSON keys:',
-      data && typeof data === 'object' ? Object.keys(data) : typeof data
-    );
-    return data as AnalyzeDishResponse;
-  } catch (e: any) {
-    console.error('TB analyzeDish JSON.parse failed:', e?.message || String(e));
-    return {
-      ok: false,
-      tummy_score: 82,
-      organs: {},
-      allergens: [],
-      fodmap: {},
-      insights: ['Analysis response was not valid JSON.'],
-      _raw: raw,
-    } as unknown as AnalyzeDishResponse;
-  }
+  console.log(
+    'TB analyzeDish JSON keys:',
+    result.data && typeof result.data === 'object' ? Object.keys(result.data) : typeof result.data
+  );
+  const decoded = decodeAnalyzeDishResponse(result.data);
+  logDecodeIssues('analyzeDish', decoded.issues);
+  return decoded.value;
 }
 
-export async function analyzeDishCard(payload: any): Promise<AnalyzeDishCardResponse> {
+export async function analyzeDishCard(
+  payload: any,
+  signal?: AbortSignal
+): Promise<AnalyzeDishCardResponse> {
   const url = `${GATEWAY_BASE_URL}/pipeline/analyze-dish/card`;
-  console.log('TB analyzeDishCard calling:', url, 'with', payload);
-
-  const res = await fetch(url, {
+  const result = await apiRequest<AnalyzeDishCardResponse>(url, {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(payload),
+    body: payload,
+    tag: 'analyzeDishCard',
+    timeoutMs: ANALYZE_TIMEOUT_MS,
+    signal,
   });
+  return unwrap(result);
+}
 
-  const raw = await res.text();
-  console.log('TB analyzeDishCard raw snippet:', raw.slice(0, 200));
+// ============================================================
+// Streaming dish analysis
+// ============================================================
 
-  if (!res.ok) {
-    throw new Error(`analyzeDishCard HTTP error: ${res.status} ${raw.slice(0, 120)}`);
-  }
+/** Pipeline stages emitted by /pipeline/analyze-dish/stream, in typical arrival order */
+export type AnalysisStage = 'allergens' | 'nutrition' | 'likely_recipe' | 'full_recipe' | 'organs';
 
-  try {
-    const data = JSON.parse(raw);
-    return data as AnalyzeDishCardResponse;
-  } catch (e: any) {
-    console.error('TB analyzeDishCard JSON.parse failed:', e?.message || String(e));
-    throw e;
+export const ANALYSIS_STAGES: AnalysisStage[] = [
+  'allergens',
+  'nutrition',
+  'likely_recipe',
+  'full_recipe',
+  'organs',
+];
+
+export interface AnalysisStageUpdate {
+  stage: AnalysisStage;
+  /** Everything received so far, decoded like a full response */
+  partial: AnalyzeDishResponse;
+  /** Stages received so far, including this one */
+  stages: AnalysisStage[];
+}
+
+export interface AnalyzeDishStreamOptions {
+  signal?: AbortSignal;
+  onStage?: (update: AnalysisStageUpdate) => void;
+}
+
+// Stream endpoint not deployed on this backend: use the blocking endpoint instead
+const STREAM_UNSUPPORTED_STATUSES = [404, 405, 406, 501];
+
+function isAnalysisStage(value: unknown): value is AnalysisStage {
+  return ANALYSIS_STAGES.includes(value as AnalysisStage);
+}
+
+/**
+ * Run the analyze-dish pipeline as a stream so each section can be shown as
+ * soon as its stage finishes. Messages are SSE events or NDJSON lines:
+ *
+ *   { "type": "stage", "stage": "allergens", "data": { ...response fields } }
+ *   { "type": "done", "data": { ...full response } }
+ *   { "type": "error", "error": "message" }
+ *
+ * (with SSE the type may be given as the event name instead). Stage data is
+ * merged into one response, so `onStage` always sees every field so far.
+ * Falls back to analyzeDish() when the backend has no stream endpoint; in
+ * that case the result may still have organs_pending set.
+ */
+export async function analyzeDishStream(
+  payload: AnalyzeDishPayload,
+  options: AnalyzeDishStreamOptions = {}
+): Promise<AnalyzeDishResponse> {
+  const url = `${GATEWAY_BASE_URL}/pipeline/analyze-dish/stream`;
+  const merged: Record<string, unknown> = {};
+  const stages: AnalysisStage[] = [];
+  let finished = false;
+  let streamError: string | null = null;
+
+  const onMessage = (message: StreamMessage) => {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(message.data);
+    } catch {
+      console.log('TB analyzeDishStream: skipping non-JSON message:', message.data.slice(0, 100));
+      return;
+    }
+    const type = message.event || parsed?.type;
+
+    if (type === 'error') {
+      streamError = parsed?.error || parsed?.message || 'Analysis failed';
+      return;
+    }
+    if (parsed?.data && typeof parsed.data === 'object') {
+      Object.assign(merged, parsed.data);
+    }
+    if (type === 'done') {
+      finished = true;
+      return;
+    }
+    if (type === 'stage' && isAnalysisStage(parsed?.stage)) {
+      if (!stages.includes(parsed.stage)) stages.push(parsed.stage);
+      const partial = decodeAnalyzeDishResponse({ ok: true, ...merged }).value;
+      options.onStage?.({ stage: parsed.stage, partial, stages: [...stages] });
+    }
+  };
+
+  // Organs are just another stage on the stream, so don't ask for them to be deferred
+  const result = await timed('analyzeDishStream', () => streamRequest(url, onMessage, {
+    method: 'POST',
+    body: { ...payload, skip_organs: undefined },
+    signal: options.signal,
+    tag: 'analyzeDishStream',
+    // The mock server only intercepts fetch
+    transport: BACKEND.isMock ? 'fetch' : 'auto',
+  }));
+
+  if (!result.ok) {
+    const unsupported =
+      result.error.kind === 'http' && STREAM_UNSUPPORTED_STATUSES.includes(result.error.status);
+    if (unsupported && stages.length === 0) {
+      console.log('TB analyzeDishStream: stream endpoint unavailable, falling back to analyzeDish');
+      return analyzeDish(payload, options.signal);
+    }
+    return failure(result.error);
+  }
+  if (streamError) {
+    return failure({ kind: 'backend', message: streamError, status: result.data.status, payload: merged });
+  }
+  if (!finished) {
+    return failure({ kind: 'network', message: 'Analysis stream ended before the result was complete' });
   }
+
+  const decoded = decodeAnalyzeDishResponse({ ok: true, ...merged });
+  logDecodeIssues('analyzeDishStream', decoded.issues);
+  return decoded.value;
 }
 
 // ============================================================
@@ -713,6 +837,7 @@ export interface OrgansStatusResponse {
   ready: boolean;
   organs?: DishOrgansBlock;
   error?: string;
+  apiError?: ApiError;
 }
 
 /**
@@ -721,83 +846,53 @@ export interface OrgansStatusResponse {
  * @param pollKey - The organs_poll_key from the analyze-dish response
  * @returns Status with organs data when ready
  */
-export async function getOrgansStatus(pollKey: string): Promise<OrgansStatusResponse> {
+export async function getOrgansStatus(
+  pollKey: string,
+  signal?: AbortSignal
+): Promise<OrgansStatusResponse> {
   const url = `${GATEWAY_BASE_URL}/pipeline/organs-status?key=${encodeURIComponent(pollKey)}`;
-  console.log('TB getOrgansStatus calling:', url);
-
-  try {
-    const res = await fetch(url, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' },
-    });
-
-    const text = await res.text();
-
-    if (!res.ok) {
-      console.error('TB getOrgansStatus HTTP error:', res.status, text.slice(0, 200));
-      return {
-        ok: false,
-        ready: false,
-        error: `HTTP ${res.status}: ${text.slice(0, 100)}`,
-      };
-    }
-
-    let data;
-    try {
-      data = JSON.parse(text);
-    } catch (parseErr: any) {
-      console.error('TB getOrgansStatus JSON parse error:', parseErr?.message, text.slice(0, 200));
-      return {
-        ok: false,
-        ready: false,
-        error: `Invalid JSON response: ${text.slice(0, 100)}`,
-      };
-    }
+  const result = await apiRequest<unknown>(url, { tag: 'getOrgansStatus', signal });
 
-    console.log('TB getOrgansStatus response:', JSON.stringify(data).slice(0, 200));
-    return data as OrgansStatusResponse;
-  } catch (e: any) {
-    console.error('TB getOrgansStatus error:', e?.message || String(e));
-    return {
-      ok: false,
-      ready: false,
-      error: e?.message || 'Failed to get organs status',
-    };
+  if (!result.ok) {
+    return { ...failure(result.error), ready: false };
   }
+  const decoded = decodeOrgansStatusResponse(result.data);
+  logDecodeIssues('getOrgansStatus', decoded.issues);
+  return decoded.value;
 }
 
 /**
- * Poll for organs computation until ready or timeout.
+ * Poll for organs computation until ready, failed, timed out or cancelled.
  *
  * @param pollKey - The organs_poll_key from the analyze-dish response
  * @param onUpdate - Optional callback when status is checked
- * @param pollIntervalMs - Poll interval in ms (default 2000 = 2s)
- * @param maxAttempts - Maximum poll attempts (default 30 = 60s timeout)
+ * @param options - Polling intervals, deadline (default 60s) and abort signal
  * @returns Final organs data when ready, or error
  */
 export async function pollOrgansStatus(
   pollKey: string,
   onUpdate?: (attempt: number, ready: boolean) => void,
-  pollIntervalMs: number = 2000,
-  maxAttempts: number = 30
+  options: PollerOptions<OrgansStatusResponse> = {}
 ): Promise<OrgansStatusResponse> {
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    const result = await getOrgansStatus(pollKey);
-
-    onUpdate?.(attempt, result.ready);
-
-    if (result.ready || !result.ok) {
-      return result;
-    }
+  const outcome = await pollJob<OrgansStatusResponse>(
+    async (attempt, signal) => {
+      const result = await getOrgansStatus(pollKey, signal);
+      onUpdate?.(attempt, result.ready);
+      return { done: result.ready || !result.ok, value: result } as const;
+    },
+    { tag: 'pollOrgansStatus', intervalMs: 2000, maxIntervalMs: 5000, deadlineMs: 60000, ...options }
+  );
 
-    // Wait before next poll
-    await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+  if (outcome.status === 'done') {
+    return outcome.value;
+  }
+  if (outcome.status === 'cancelled') {
+    return { ...failure({ kind: 'aborted', message: 'Organs polling cancelled' }), ready: false };
   }
-
   return {
     ok: false,
     ready: false,
-    error: `Organs polling timed out after ${maxAttempts} attempts`,
+    error: `Organs polling timed out after ${Math.round(outcome.elapsedMs / 1000)}s`,
   };
 }
 
@@ -812,6 +907,7 @@ export interface ApifyJobStartResponse {
   runId?: string;
   message?: string;
   data?: any[]; // Present if already cached
+  apiError?: ApiError;
 }
 
 export interface ApifyJobStatusResponse {
@@ -823,6 +919,7 @@ export interface ApifyJobStatusResponse {
   resultCount?: number;
   data?: any[];
   error?: string;
+  apiError?: ApiError;
 }
 
 /**
@@ -836,7 +933,8 @@ export interface ApifyJobStatusResponse {
 export async function startApifyScrape(
   restaurantName: string,
   address: string,
-  maxRows: number = 5
+  maxRows: number = 5,
+  signal?: AbortSignal
 ): Promise<ApifyJobStartResponse> {
   const params = new URLSearchParams({
     query: restaurantName,
@@ -845,47 +943,18 @@ export async function startApifyScrape(
   });
 
   const url = `${API_BASE_URL}/api/apify-start?${params.toString()}`;
-  console.log('TB startApifyScrape calling:', url);
-
-  try {
-    const res = await fetch(url);
-    const text = await res.text();
-
-    // Guard against non-JSON responses (HTML error pages, etc.)
-    if (!res.ok) {
-      console.error('TB startApifyScrape HTTP error:', res.status, text.slice(0, 200));
-      return {
-        ok: false,
-        jobId: '',
-        status: 'started',
-        message: `HTTP ${res.status}: ${text.slice(0, 100)}`,
-      };
-    }
-
-    let data;
-    try {
-      data = JSON.parse(text);
-    } catch (parseErr: any) {
-      console.error('TB startApifyScrape JSON parse error:', parseErr?.message, text.slice(0, 200));
-      return {
-        ok: false,
-        jobId: '',
-        status: 'started',
-        message: `Invalid JSON response: ${text.slice(0, 100)}`,
-      };
-    }
+  const result = await apiRequest<ApifyJobStartResponse>(url, { tag: 'startApifyScrape', signal });
 
-    console.log('TB startApifyScrape response:', data);
-    return data as ApifyJobStartResponse;
-  } catch (e: any) {
-    console.error('TB startApifyScrape error:', e?.message || String(e));
+  if (!result.ok) {
     return {
       ok: false,
       jobId: '',
       status: 'started',
-      message: e?.message || 'Failed to start scrape',
+      message: result.error.message,
+      apiError: result.error,
     };
   }
+  return result.data;
 }
 
 /**
@@ -893,80 +962,61 @@ export async function startApifyScrape(
  *
  * @param jobId - The job ID returned from startApifyScrape
  */
-export async function getApifyJobStatus(jobId: string): Promise<ApifyJobStatusResponse> {
+export async function getApifyJobStatus(
+  jobId: string,
+  signal?: AbortSignal
+): Promise<ApifyJobStatusResponse> {
   const url = `${API_BASE_URL}/api/apify-job/${encodeURIComponent(jobId)}`;
-  console.log('TB getApifyJobStatus calling:', url);
 
-  try {
-    const res = await fetch(url);
-    const text = await res.text();
-
-    // Guard against non-JSON responses (HTML error pages, etc.)
-    if (!res.ok) {
-      console.error('TB getApifyJobStatus HTTP error:', res.status, text.slice(0, 200));
-      return {
-        ok: false,
-        status: 'failed',
-        error: `HTTP ${res.status}: ${text.slice(0, 100)}`,
-      };
-    }
-
-    let data;
-    try {
-      data = JSON.parse(text);
-    } catch (parseErr: any) {
-      console.error('TB getApifyJobStatus JSON parse error:', parseErr?.message, text.slice(0, 200));
-      return {
-        ok: false,
-        status: 'failed',
-        error: `Invalid JSON response: ${text.slice(0, 100)}`,
-      };
-    }
+  // `ok: false` bodies still carry a meaningful status (e.g. not_found)
+  const result = await apiRequest<ApifyJobStatusResponse>(url, {
+    tag: 'getApifyJobStatus',
+    checkOk: false,
+    signal,
+  });
 
-    console.log('TB getApifyJobStatus response:', JSON.stringify(data).slice(0, 200));
-    return data as ApifyJobStatusResponse;
-  } catch (e: any) {
-    console.error('TB getApifyJobStatus error:', e?.message || String(e));
-    return {
-      ok: false,
-      status: 'failed',
-      error: e?.message || 'Failed to get job status',
-    };
+  if (!result.ok) {
+    return { ...failure(result.error), status: 'failed' };
   }
+  return result.data;
 }
 
 /**
- * Poll for Apify job completion with configurable intervals.
+ * Poll for Apify job completion with backoff.
  *
  * @param jobId - The job ID to poll
  * @param onStatusChange - Optional callback when status changes
- * @param maxWaitMs - Maximum wait time in ms (default 60s)
- * @param pollIntervalMs - Poll interval in ms (default 3s)
+ * @param options - Polling intervals, deadline (default 60s) and abort signal
  */
 export async function pollApifyJob(
   jobId: string,
   onStatusChange?: (status: ApifyJobStatusResponse) => void,
-  maxWaitMs: number = 60000,
-  pollIntervalMs: number = 3000
+  options: PollerOptions<ApifyJobStatusResponse> = {}
 ): Promise<ApifyJobStatusResponse> {
-  const startTime = Date.now();
   let lastStatus = '';
 
-  while (Date.now() - startTime < maxWaitMs) {
-    const result = await getApifyJobStatus(jobId);
+  const outcome = await pollJob<ApifyJobStatusResponse>(
+    async (_attempt, signal) => {
+      const result = await getApifyJobStatus(jobId, signal);
 
-    if (result.status !== lastStatus) {
-      lastStatus = result.status;
-      onStatusChange?.(result);
-    }
+      if (result.status !== lastStatus) {
+        lastStatus = result.status;
+        onStatusChange?.(result);
+      }
 
-    if (result.status === 'completed' || result.status === 'failed' || result.status === 'not_found') {
-      return result;
-    }
+      const finished =
+        result.status === 'completed' || result.status === 'failed' || result.status === 'not_found';
+      return { done: finished, value: result } as const;
+    },
+    { tag: 'pollApifyJob', intervalMs: 3000, maxIntervalMs: 10000, deadlineMs: 60000, ...options }
+  );
 
-    await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+  if (outcome.status === 'done') {
+    return outcome.value;
+  }
+  if (outcome.status === 'cancelled') {
+    return { ...failure({ kind: 'aborted', message: 'Polling cancelled' }), status: 'failed' };
   }
-
   return {
     ok: false,
     status: 'failed',
@@ -985,6 +1035,7 @@ export interface UploadImageResponse {
   size?: number;
   mimeType?: string;
   error?: string;
+  apiError?: ApiError;
 }
 
 /**
@@ -1003,39 +1054,18 @@ export interface UploadImageResponse {
  */
 export async function uploadDishImage(
   base64Image: string,
-  mimeType: string = 'image/jpeg'
+  mimeType: string = 'image/jpeg',
+  signal?: AbortSignal
 ): Promise<UploadImageResponse> {
   const url = `${API_BASE_URL}/api/upload-image`;
-  console.log('uploadDishImage calling:', url);
-
-  try {
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        image: base64Image,
-        mimeType,
-      }),
-    });
-
-    const data = await res.json();
-
-    if (!res.ok) {
-      console.error('uploadDishImage HTTP error:', res.status);
-      return {
-        ok: false,
-        error: data?.error || `HTTP ${res.status}`,
-      };
-    }
-
-    return data as UploadImageResponse;
-  } catch (e: any) {
-    console.error('uploadDishImage error:', e?.message || e);
-    return {
-      ok: false,
-      error: e?.message || 'Network error',
-    };
-  }
+  const result = await apiRequest<UploadImageResponse>(url, {
+    method: 'POST',
+    body: { image: base64Image, mimeType },
+    tag: 'uploadDishImage',
+    timeoutMs: UPLOAD_TIMEOUT_MS,
+    signal,
+  });
+  return result.ok ? result.data : failure(result.error);
 }
 
 // ============================================================
@@ -1058,6 +1088,7 @@ export interface DishSuggestResponse {
   count: number;
   message?: string;
   error?: string;
+  apiError?: ApiError;
 }
 
 /**
@@ -1074,7 +1105,7 @@ export interface DishSuggestResponse {
  */
 export async function getDishSuggestions(
   query: string,
-  options?: { limit?: number; cuisine?: string }
+  options?: { limit?: number; cuisine?: string; signal?: AbortSignal }
 ): Promise<DishSuggestResponse> {
   const params = new URLSearchParams();
   params.set('q', query);
@@ -1082,38 +1113,15 @@ export async function getDishSuggestions(
   if (options?.cuisine) params.set('cuisine', options.cuisine);
 
   const url = `${API_BASE_URL}/api/dish-suggest?${params.toString()}`;
-  console.log('getDishSuggestions calling:', url);
-
-  try {
-    const res = await fetch(url, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' },
-    });
-
-    const data = await res.json();
-
-    if (!res.ok) {
-      console.error('getDishSuggestions HTTP error:', res.status);
-      return {
-        ok: false,
-        query,
-        suggestions: [],
-        count: 0,
-        error: data?.error || `HTTP ${res.status}`,
-      };
-    }
+  const result = await apiRequest<DishSuggestResponse>(url, {
+    tag: 'getDishSuggestions',
+    signal: options?.signal,
+  });
 
-    return data as DishSuggestResponse;
-  } catch (e: any) {
-    console.error('getDishSuggestions error:', e?.message || e);
-    return {
-      ok: false,
-      query,
-      suggestions: [],
-      count: 0,
-      error: e?.message || 'Network error',
-    };
+  if (!result.ok) {
+    return { ...failure(result.error), query, suggestions: [], count: 0 };
   }
+  return result.data;
 }
 
 // ============================================================
@@ -1195,6 +1203,9 @@ export interface LoggedMeal {
   sodium_mg?: number | null;
   organ_impacts?: Record<string, number> | null;
   risk_flags?: string[] | null;
+  // Plate components eaten and skipped, by name; absent when the whole plate was logged
+  components_eaten?: string[] | null;
+  components_skipped?: string[] | null;
   logged_at: string;
 }
 
@@ -1245,6 +1256,7 @@ interface UserProfileResponse {
   allergens?: UserAllergen[];
   organPriorities?: UserOrganPriority[];
   error?: string;
+  apiError?: ApiError;
 }
 
 interface UpdateProfileResponse {
@@ -1252,6 +1264,7 @@ interface UpdateProfileResponse {
   profile?: UserProfile | null;
   targets?: UserDailyTargets | null;
   error?: string;
+  apiError?: ApiError;
 }
 
 interface AllergensResponse {
@@ -1259,12 +1272,14 @@ interface AllergensResponse {
   allergens?: UserAllergen[];
   targets?: UserDailyTargets | null;
   error?: string;
+  apiError?: ApiError;
 }
 
 interface OrganPrioritiesResponse {
   ok: boolean;
   organPriorities?: UserOrganPriority[];
   error?: string;
+  apiError?: ApiError;
 }
 
 interface WeightResponse {
@@ -1272,6 +1287,7 @@ interface WeightResponse {
   entry?: WeightEntry | null;
   profile?: UserProfile | null;
   error?: string;
+  apiError?: ApiError;
 }
 
 interface LogMealResponse {
@@ -1279,17 +1295,20 @@ interface LogMealResponse {
   meal?: LoggedMeal | null;
   duplicate?: boolean;
   error?: string;
+  apiError?: ApiError;
 }
 
 interface MealsResponse {
   ok: boolean;
   meals?: LoggedMeal[];
   error?: string;
+  apiError?: ApiError;
 }
 
 interface DeleteMealResponse {
   ok: boolean;
   error?: string;
+  apiError?: ApiError;
 }
 
 interface DailyTrackerResponse {
@@ -1299,6 +1318,7 @@ interface DailyTrackerResponse {
   meals?: LoggedMeal[];
   targets?: UserDailyTargets | null;
   error?: string;
+  apiError?: ApiError;
 }
 
 interface WeeklyTrackerResponse {
@@ -1312,12 +1332,14 @@ interface WeeklyTrackerResponse {
     days_logged: number;
   } | null;
   error?: string;
+  apiError?: ApiError;
 }
 
 interface AllergenDefinitionsResponse {
   ok: boolean;
   allergens?: AllergenDefinition[];
   error?: string;
+  apiError?: ApiError;
 }
 
 // ============================================================
@@ -1329,26 +1351,8 @@ interface AllergenDefinitionsResponse {
  */
 export async function getUserProfile(userId: string): Promise<UserProfileResponse> {
   const url = `${API_BASE_URL}/api/profile?user_id=${encodeURIComponent(userId)}`;
-  console.log('getUserProfile calling:', url);
-
-  try {
-    const res = await fetch(url, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' },
-    });
-
-    const data = await res.json();
-
-    if (!res.ok) {
-      console.error('getUserProfile HTTP error:', res.status);
-      return { ok: false, error: data?.error || `HTTP ${res.status}` };
-    }
-
-    return data as UserProfileResponse;
-  } catch (e: any) {
-    console.error('getUserProfile error:', e?.message || e);
-    return { ok: false, error: e?.message || 'Network error' };
-  }
+  const result = await apiRequest<UserProfileResponse>(url, { tag: 'getUserProfile' });
+  return result.ok ? result.data : failure(result.error);
 }
 
 /**
@@ -1359,30 +1363,12 @@ export async function updateUserProfile(
   profileData: Partial<UserProfile>
 ): Promise<UpdateProfileResponse> {
   const url = `${API_BASE_URL}/api/profile`;
-  console.log('updateUserProfile calling:', url, profileData);
-
-  try {
-    const res = await fetch(url, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify({ ...profileData, user_id: userId }),
-    });
-
-    const data = await res.json();
-
-    if (!res.ok) {
-      console.error('updateUserProfile HTTP error:', res.status);
-      return { ok: false, error: data?.error || `HTTP ${res.status}` };
-    }
-
-    return data as UpdateProfileResponse;
-  } catch (e: any) {
-    console.error('updateUserProfile error:', e?.message || e);
-    return { ok: false, error: e?.message || 'Network error' };
-  }
+  const result = await apiRequest<UpdateProfileResponse>(url, {
+    method: 'PUT',
+    body: { ...profileData, user_id: userId },
+    tag: 'updateUserProfile',
+  });
+  return result.ok ? result.data : failure(result.error);
 }
 
 /**
@@ -1393,30 +1379,12 @@ export async function setUserAllergens(
   allergens: Array<{ allergen_code: string; severity: 'avoid' | 'limit' | 'monitor' }>
 ): Promise<AllergensResponse> {
   const url = `${API_BASE_URL}/api/profile/allergens`;
-  console.log('setUserAllergens calling:', url, allergens);
-
-  try {
-    const res = await fetch(url, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify({ user_id: userId, allergens }),
-    });
-
-    const data = await res.json();
-
-    if (!res.ok) {
-      console.error('setUserAllergens HTTP error:', res.status);
-      return { ok: false, error: data?.error || `HTTP ${res.status}` };
-    }
-
-    return data as AllergensResponse;
-  } catch (e: any) {
-    console.error('setUserAllergens error:', e?.message || e);
-    return { ok: false, error: e?.message || 'Network error' };
-  }
+  const result = await apiRequest<AllergensResponse>(url, {
+    method: 'PUT',
+    body: { user_id: userId, allergens },
+    tag: 'setUserAllergens',
+  });
+  return result.ok ? result.data : failure(result.error);
 }
 
 /**
@@ -1427,30 +1395,12 @@ export async function setUserOrganPriorities(
   organs: Array<{ organ_code: string; priority_rank?: number; is_starred?: boolean }>
 ): Promise<OrganPrioritiesResponse> {
   const url = `${API_BASE_URL}/api/profile/organs`;
-  console.log('setUserOrganPriorities calling:', url, organs);
-
-  try {
-    const res = await fetch(url, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify({ user_id: userId, organs }),
-    });
-
-    const data = await res.json();
-
-    if (!res.ok) {
-      console.error('setUserOrganPriorities HTTP error:', res.status);
-      return { ok: false, error: data?.error || `HTTP ${res.status}` };
-    }
-
-    return data as OrganPrioritiesResponse;
-  } catch (e: any) {
-    console.error('setUserOrganPriorities error:', e?.message || e);
-    return { ok: false, error: e?.message || 'Network error' };
-  }
+  const result = await apiRequest<OrganPrioritiesResponse>(url, {
+    method: 'PUT',
+    body: { user_id: userId, organs },
+    tag: 'setUserOrganPriorities',
+  });
+  return result.ok ? result.data : failure(result.error);
 }
 
 /**
@@ -1461,84 +1411,52 @@ export async function addWeightEntry(
   weightKg: number
 ): Promise<WeightResponse> {
   const url = `${API_BASE_URL}/api/profile/weight`;
-  console.log('addWeightEntry calling:', url, { weight_kg: weightKg });
-
-  try {
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify({ user_id: userId, weight_kg: weightKg }),
-    });
-
-    const data = await res.json();
-
-    if (!res.ok) {
-      console.error('addWeightEntry HTTP error:', res.status);
-      return { ok: false, error: data?.error || `HTTP ${res.status}` };
-    }
-
-    return data as WeightResponse;
-  } catch (e: any) {
-    console.error('addWeightEntry error:', e?.message || e);
-    return { ok: false, error: e?.message || 'Network error' };
-  }
+  const result = await apiRequest<WeightResponse>(url, {
+    method: 'POST',
+    body: { user_id: userId, weight_kg: weightKg },
+    tag: 'addWeightEntry',
+  });
+  return result.ok ? result.data : failure(result.error);
 }
 
 // ============================================================
 // Meal Logging API Functions
 // ============================================================
 
+export interface LogMealInput {
+  dish_name: string;
+  dish_id?: string;
+  restaurant_name?: string;
+  meal_type?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  portion_factor?: number;
+  calories?: number;
+  protein_g?: number;
+  carbs_g?: number;
+  fat_g?: number;
+  fiber_g?: number;
+  sugar_g?: number;
+  sodium_mg?: number;
+  organ_impacts?: Record<string, number>;
+  risk_flags?: string[];
+  components_eaten?: string[];
+  components_skipped?: string[];
+  full_analysis?: any;
+}
+
 /**
  * Log a meal for the user
  */
-export async function logMeal(
-  userId: string,
-  mealData: {
-    dish_name: string;
-    dish_id?: string;
-    restaurant_name?: string;
-    meal_type?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-    portion_factor?: number;
-    calories?: number;
-    protein_g?: number;
-    carbs_g?: number;
-    fat_g?: number;
-    fiber_g?: number;
-    sugar_g?: number;
-    sodium_mg?: number;
-    organ_impacts?: Record<string, number>;
-    risk_flags?: string[];
-    full_analysis?: any;
-  }
-): Promise<LogMealResponse> {
+export async function logMeal(userId: string, mealData: LogMealInput): Promise<LogMealResponse> {
   const url = `${API_BASE_URL}/api/meals/log`;
-  console.log('logMeal calling:', url, mealData);
-
-  try {
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify({ ...mealData, user_id: userId }),
-    });
-
-    const data = await res.json();
-
-    if (!res.ok) {
-      console.error('logMeal HTTP error:', res.status);
-      return { ok: false, error: data?.error || `HTTP ${res.status}` };
-    }
 
-    return data as LogMealResponse;
-  } catch (e: any) {
-    console.error('logMeal error:', e?.message || e);
-    return { ok: false, error: e?.message || 'Network error' };
-  }
+  // Never retried: a replayed POST could log the same meal twice
+  const result = await apiRequest<LogMealResponse>(url, {
+    method: 'POST',
+    body: { ...mealData, user_id: userId },
+    tag: 'logMeal',
+    retries: 0,
+  });
+  return result.ok ? result.data : failure(result.error);
 }
 
 /**
@@ -1550,26 +1468,8 @@ export async function getMeals(
 ): Promise<MealsResponse> {
   const targetDate = date || getTodayDate();
   const url = `${API_BASE_URL}/api/meals?user_id=${encodeURIComponent(userId)}&date=${targetDate}`;
-  console.log('getMeals calling:', url);
-
-  try {
-    const res = await fetch(url, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' },
-    });
-
-    const data = await res.json();
-
-    if (!res.ok) {
-      console.error('getMeals HTTP error:', res.status);
-      return { ok: false, error: data?.error || `HTTP ${res.status}` };
-    }
-
-    return data as MealsResponse;
-  } catch (e: any) {
-    console.error('getMeals error:', e?.message || e);
-    return { ok: false, error: e?.message || 'Network error' };
-  }
+  const result = await apiRequest<MealsResponse>(url, { tag: 'getMeals' });
+  return result.ok ? result.data : failure(result.error);
 }
 
 /**
@@ -1580,26 +1480,8 @@ export async function deleteMeal(
   mealId: number
 ): Promise<DeleteMealResponse> {
   const url = `${API_BASE_URL}/api/meals/${mealId}?user_id=${encodeURIComponent(userId)}`;
-  console.log('deleteMeal calling:', url);
-
-  try {
-    const res = await fetch(url, {
-      method: 'DELETE',
-      headers: { 'Accept': 'application/json' },
-    });
-
-    const data = await res.json();
-
-    if (!res.ok) {
-      console.error('deleteMeal HTTP error:', res.status);
-      return { ok: false, error: data?.error || `HTTP ${res.status}` };
-    }
-
-    return data as DeleteMealResponse;
-  } catch (e: any) {
-    console.error('deleteMeal error:', e?.message || e);
-    return { ok: false, error: e?.message || 'Network error' };
-  }
+  const result = await apiRequest<DeleteMealResponse>(url, { method: 'DELETE', tag: 'deleteMeal' });
+  return result.ok ? result.data : failure(result.error);
 }
 
 // ============================================================
@@ -1615,26 +1497,12 @@ export async function getDailyTracker(
 ): Promise<DailyTrackerResponse> {
   const targetDate = date || getTodayDate();
   const url = `${API_BASE_URL}/api/tracker/daily?user_id=${encodeURIComponent(userId)}&date=${targetDate}`;
-  console.log('getDailyTracker calling:', url);
-
-  try {
-    const res = await fetch(url, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' },
-    });
+  const result = await apiRequest<DailyTrackerResponse>(url, { tag: 'getDailyTracker' });
 
-    const data = await res.json();
-
-    if (!res.ok) {
-      console.error('getDailyTracker HTTP error:', res.status);
-      return { ok: false, date: targetDate, error: data?.error || `HTTP ${res.status}` };
-    }
-
-    return { ...data, date: targetDate } as DailyTrackerResponse;
-  } catch (e: any) {
-    console.error('getDailyTracker error:', e?.message || e);
-    return { ok: false, date: targetDate, error: e?.message || 'Network error' };
+  if (!result.ok) {
+    return { ...failure(result.error), date: targetDate };
   }
+  return { ...result.data, date: targetDate };
 }
 
 /**
@@ -1642,26 +1510,8 @@ export async function getDailyTracker(
  */
 export async function getWeeklyTracker(userId: string): Promise<WeeklyTrackerResponse> {
   const url = `${API_BASE_URL}/api/tracker/weekly?user_id=${encodeURIComponent(userId)}`;
-  console.log('getWeeklyTracker calling:', url);
-
-  try {
-    const res = await fetch(url, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' },
-    });
-
-    const data = await res.json();
-
-    if (!res.ok) {
-      console.error('getWeeklyTracker HTTP error:', res.status);
-      return { ok: false, error: data?.error || `HTTP ${res.status}` };
-    }
-
-    return data as WeeklyTrackerResponse;
-  } catch (e: any) {
-    console.error('getWeeklyTracker error:', e?.message || e);
-    return { ok: false, error: e?.message || 'Network error' };
-  }
+  const result = await apiRequest<WeeklyTrackerResponse>(url, { tag: 'getWeeklyTracker' });
+  return result.ok ? result.data : failure(result.error);
 }
 
 // ============================================================
@@ -1673,26 +1523,10 @@ export async function getWeeklyTracker(userId: string): Promise<WeeklyTrackerRes
  */
 export async function getAllergenDefinitions(): Promise<AllergenDefinitionsResponse> {
   const url = `${API_BASE_URL}/api/allergens`;
-  console.log('getAllergenDefinitions calling:', url);
-
-  try {
-    const res = await fetch(url, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' },
-    });
-
-    const data = await res.json();
-
-    if (!res.ok) {
-      console.error('getAllergenDefinitions HTTP error:', res.status);
-      return { ok: false, error: data?.error || `HTTP ${res.status}` };
-    }
-
-    return data as AllergenDefinitionsResponse;
-  } catch (e: any) {
-    console.error('getAllergenDefinitions error:', e?.message || e);
-    return { ok: false, error: e?.message || 'Network error' };
-  }
+  const result = await apiRequest<AllergenDefinitionsResponse>(url, {
+    tag: 'getAllergenDefinitions',
+  });
+  return result.ok ? result.data : failure(result.error);
 }
 
 // ============================================================
@@ -1710,32 +1544,14 @@ export async function saveDish(
     restaurant_name?: string;
     full_analysis?: any;
   }
-): Promise<{ ok: boolean; dish?: SavedDish; error?: string }> {
+): Promise<{ ok: boolean; dish?: SavedDish; error?: string; apiError?: ApiError }> {
   const url = `${API_BASE_URL}/api/user/${encodeURIComponent(userId)}/saved-dishes`;
-  console.log('saveDish calling:', url, dishData);
-
-  try {
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify(dishData),
-    });
-
-    const data = await res.json();
-
-    if (!res.ok) {
-      console.error('saveDish HTTP error:', res.status);
-      return { ok: false, error: data?.error || `HTTP ${res.status}` };
-    }
-
-    return data;
-  } catch (e: any) {
-    console.error('saveDish error:', e?.message || e);
-    return { ok: false, error: e?.message || 'Network error' };
-  }
+  const result = await apiRequest<{ ok: boolean; dish?: SavedDish }>(url, {
+    method: 'POST',
+    body: dishData,
+    tag: 'saveDish',
+  });
+  return result.ok ? result.data : failure(result.error);
 }
 
 /**
@@ -1743,28 +1559,12 @@ export async function saveDish(
  */
 export async function getSavedDishes(
   userId: string
-): Promise<{ ok: boolean; dishes?: SavedDish[]; error?: string }> {
+): Promise<{ ok: boolean; dishes?: SavedDish[]; error?: string; apiError?: ApiError }> {
   const url = `${API_BASE_URL}/api/user/${encodeURIComponent(userId)}/saved-dishes`;
-  console.log('getSavedDishes calling:', url);
-
-  try {
-    const res = await fetch(url, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' },
-    });
-
-    const data = await res.json();
-
-    if (!res.ok) {
-      console.error('getSavedDishes HTTP error:', res.status);
-      return { ok: false, error: data?.error || `HTTP ${res.status}` };
-    }
-
-    return data;
-  } catch (e: any) {
-    console.error('getSavedDishes error:', e?.message || e);
-    return { ok: false, error: e?.message || 'Network error' };
-  }
+  const result = await apiRequest<{ ok: boolean; dishes?: SavedDish[] }>(url, {
+    tag: 'getSavedDishes',
+  });
+  return result.ok ? result.data : failure(result.error);
 }
 
 // ============================================================
@@ -1773,6 +1573,8 @@ export async function getSavedDishes(
 
 export interface BatchDishInput {
   dishName: string;
+  /** Client-chosen id for the menu item, echoed back on every job for this dish */
+  clientKey?: string;
   description?: string;
   section?: string;
   category?: string;
@@ -1782,6 +1584,8 @@ export interface BatchDishInput {
 export interface BatchJobStatus {
   jobId: string;
   dishName: string;
+  /** BatchDishInput.clientKey of the dish this job belongs to (absent on older backends) */
+  clientKey?: string;
   status: 'cached' | 'pending' | 'processing' | 'completed' | 'failed';
   result?: AnalyzeDishResponse | null;
 }
@@ -1793,7 +1597,22 @@ export interface BatchAnalyzeResponse {
   cached?: number;
   processing?: number;
   jobs?: BatchJobStatus[];
+  /** Change-log position after the cached results above (see subscribeBatch) */
+  cursor?: string;
   error?: string;
+  apiError?: ApiError;
+}
+
+export interface BatchStatusJob {
+  jobId: string;
+  dishName: string;
+  clientKey?: string;
+  status: string;
+  data?: {
+    id: string;
+    status: string;
+    result?: AnalyzeDishResponse;
+  };
 }
 
 export interface BatchStatusResponse {
@@ -1804,24 +1623,27 @@ export interface BatchStatusResponse {
     total: number;
     completed: number;
     failed: number;
-    jobs: Array<{
-      jobId: string;
-      dishName: string;
-      status: string;
-      data?: {
-        id: string;
-        status: string;
-        result?: AnalyzeDishResponse;
-      };
-    }>;
+    jobs: BatchStatusJob[];
   };
+  /** Position in the batch's change log; pass back as `since` to get only newer changes */
+  cursor?: string;
   error?: string;
+  apiError?: ApiError;
+}
+
+/** Jobs that changed since the previous cursor, from the push channel or an incremental status call */
+export interface BatchDelta {
+  /** Counters for the whole batch, when the message carried them */
+  batch?: Omit<NonNullable<BatchStatusResponse['batch']>, 'jobs'>;
+  jobs: BatchStatusJob[];
+  cursor?: string;
 }
 
 export interface BatchPriorityResponse {
   ok: boolean;
   result?: AnalyzeDishResponse;
   error?: string;
+  apiError?: ApiError;
 }
 
 /**
@@ -1836,49 +1658,38 @@ export interface BatchPriorityResponse {
 export async function startBatchAnalysis(
   restaurantName: string,
   dishes: BatchDishInput[],
-  concurrency: number = 5
+  concurrency: number = 5,
+  signal?: AbortSignal
 ): Promise<BatchAnalyzeResponse> {
   const url = `${API_BASE_URL}/api/analyze/batch`;
-  console.log('TB startBatchAnalysis calling:', url, { restaurantName, dishCount: dishes.length });
+  console.log('TB startBatchAnalysis dishes:', { restaurantName, dishCount: dishes.length });
 
-  try {
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        restaurantName,
-        dishes,
-        concurrency: Math.min(concurrency, 10),
-      }),
-    });
-
-    const text = await res.text();
-
-    if (!res.ok) {
-      console.error('TB startBatchAnalysis HTTP error:', res.status, text.slice(0, 200));
-      return { ok: false, error: `HTTP ${res.status}: ${text.slice(0, 100)}` };
-    }
-
-    let data;
-    try {
-      data = JSON.parse(text);
-    } catch (parseErr: any) {
-      console.error('TB startBatchAnalysis JSON parse error:', parseErr?.message);
-      return { ok: false, error: 'Invalid JSON response' };
-    }
+  const result = await timed('startBatchAnalysis', () => apiRequest<unknown>(url, {
+    method: 'POST',
+    body: {
+      restaurantName,
+      dishes,
+      concurrency: Math.min(concurrency, 10),
+    },
+    tag: 'startBatchAnalysis',
+    timeoutMs: MENU_TIMEOUT_MS,
+    signal,
+  }));
 
-    console.log('TB startBatchAnalysis response:', {
-      batchId: data.batchId,
-      total: data.total,
-      cached: data.cached,
-      processing: data.processing,
-    });
-
-    return data as BatchAnalyzeResponse;
-  } catch (e: any) {
-    console.error('TB startBatchAnalysis error:', e?.message || String(e));
-    return { ok: false, error: e?.message || 'Network error' };
+  if (!result.ok) {
+    return failure(result.error);
   }
+
+  const decoded = decodeBatchAnalyzeResponse(result.data);
+  logDecodeIssues('startBatchAnalysis', decoded.issues);
+  const data = decoded.value;
+  console.log('TB startBatchAnalysis response:', {
+    batchId: data.batchId,
+    total: data.total,
+    cached: data.cached,
+    processing: data.processing,
+  });
+  return data;
 }
 
 /**
@@ -1889,73 +1700,231 @@ export async function startBatchAnalysis(
  */
 export async function getBatchStatus(
   batchId: string,
-  includeResults: boolean = true
+  includeResults: boolean = true,
+  signal?: AbortSignal
 ): Promise<BatchStatusResponse> {
   const url = `${API_BASE_URL}/api/analyze/batch/status?batchId=${encodeURIComponent(batchId)}&results=${includeResults ? '1' : '0'}`;
-  console.log('TB getBatchStatus calling:', url);
-
-  try {
-    const res = await fetch(url, {
-      method: 'GET',
-      headers: { Accept: 'application/json' },
-    });
-
-    const text = await res.text();
-
-    if (!res.ok) {
-      console.error('TB getBatchStatus HTTP error:', res.status, text.slice(0, 200));
-      return { ok: false, error: `HTTP ${res.status}` };
-    }
-
-    let data;
-    try {
-      data = JSON.parse(text);
-    } catch (parseErr: any) {
-      console.error('TB getBatchStatus JSON parse error:', parseErr?.message);
-      return { ok: false, error: 'Invalid JSON response' };
-    }
-
-    return data as BatchStatusResponse;
-  } catch (e: any) {
-    console.error('TB getBatchStatus error:', e?.message || String(e));
-    return { ok: false, error: e?.message || 'Network error' };
+  const result = await timed('getBatchStatus', () => apiRequest<unknown>(url, { tag: 'getBatchStatus', signal }));
+  if (!result.ok) {
+    return failure(result.error);
   }
+  const decoded = decodeBatchStatusResponse(result.data);
+  logDecodeIssues('getBatchStatus', decoded.issues);
+  return decoded.value;
 }
 
 /**
- * Poll batch status until complete or timeout.
+ * Poll batch status until complete, failed, timed out or cancelled.
  *
  * @param batchId - The batch ID to poll
  * @param onUpdate - Callback when new results arrive
- * @param pollIntervalMs - Poll interval (default 2500ms)
- * @param maxAttempts - Max poll attempts (default 60 = ~2.5 min)
+ * @param options - Polling intervals, deadline (default 2.5 min) and abort signal
  */
 export async function pollBatchStatus(
   batchId: string,
   onUpdate?: (status: BatchStatusResponse) => void,
-  pollIntervalMs: number = 2500,
-  maxAttempts: number = 60
+  options: PollerOptions<BatchStatusResponse> = {}
+): Promise<BatchStatusResponse> {
+  const outcome = await pollJob<BatchStatusResponse>(
+    async (_attempt, signal) => {
+      const result = await getBatchStatus(batchId, true, signal);
+
+      // A cancelled request is not an update worth reporting
+      if (!signal?.aborted) {
+        onUpdate?.(result);
+      }
+
+      const finished =
+        !result.ok || result.batch?.status === 'completed' || result.batch?.status === 'failed';
+      return { done: finished, value: result } as const;
+    },
+    { tag: 'pollBatchStatus', intervalMs: 2500, maxIntervalMs: 10000, deadlineMs: 150000, ...options }
+  );
+
+  if (outcome.status === 'done') {
+    return outcome.value;
+  }
+  if (outcome.status === 'cancelled') {
+    return failure({ kind: 'aborted', message: 'Batch polling cancelled' });
+  }
+  return {
+    ok: false,
+    error: `Batch polling timed out after ${Math.round(outcome.elapsedMs / 1000)}s`,
+  };
+}
+
+/**
+ * Incremental batch status: only jobs that changed after `since` (every job
+ * when omitted), plus the cursor to send next time. Backends without change
+ * tracking ignore `since` and return every job, so callers must de-duplicate.
+ */
+export async function getBatchChanges(
+  batchId: string,
+  since?: string,
+  signal?: AbortSignal
 ): Promise<BatchStatusResponse> {
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    const result = await getBatchStatus(batchId, true);
+  const url = `${API_BASE_URL}/api/analyze/batch/status?batchId=${encodeURIComponent(batchId)}&results=1&since=${encodeURIComponent(since ?? '0')}`;
+  const result = await timed('getBatchChanges', () => apiRequest<unknown>(url, { tag: 'getBatchChanges', signal }));
+  if (!result.ok) {
+    return failure(result.error);
+  }
+  const decoded = decodeBatchStatusResponse(result.data);
+  logDecodeIssues('getBatchChanges', decoded.issues);
+  return decoded.value;
+}
+
+export interface BatchSubscriptionOptions {
+  /** Cursor to resume from, e.g. BatchAnalyzeResponse.cursor */
+  since?: string;
+  signal?: AbortSignal;
+  /** Limit for the whole subscription (default 2.5 min) */
+  deadlineMs?: number;
+}
+
+export interface BatchSubscriptionResult {
+  ok: boolean;
+  status?: 'completed' | 'failed';
+  /** Channel that delivered the final update */
+  transport: 'push' | 'poll';
+  cursor?: string;
+  error?: string;
+  apiError?: ApiError;
+}
 
-    onUpdate?.(result);
+// The server sends a keep-alive at least every 15s on the batch channel
+const BATCH_STREAM_IDLE_MS = 45000;
 
-    if (!result.ok) {
-      return result;
+/**
+ * Follow a batch until it finishes, receiving only per-job deltas.
+ *
+ * Updates are pushed over /api/analyze/batch/stream (SSE or NDJSON; messages
+ * are `job`, `status`, `done` or `error`, each carrying the new cursor). If
+ * the channel is unavailable or drops, polling resumes with getBatchChanges()
+ * from the last cursor, so no job is missed and none is re-downloaded.
+ */
+export async function subscribeBatch(
+  batchId: string,
+  onDelta: (delta: BatchDelta) => void,
+  options: BatchSubscriptionOptions = {}
+): Promise<BatchSubscriptionResult> {
+  const deadlineMs = options.deadlineMs ?? 150000;
+  const startedAt = Date.now();
+  let cursor = options.since;
+  let finalStatus: 'completed' | 'failed' | undefined;
+
+  const deliver = (delta: BatchDelta) => {
+    if (delta.cursor) cursor = delta.cursor;
+    if (delta.batch?.status === 'completed' || delta.batch?.status === 'failed') {
+      finalStatus = delta.batch.status;
     }
+    if (delta.jobs.length > 0 || delta.batch) {
+      onDelta(delta);
+    }
+  };
 
-    if (result.batch?.status === 'completed' || result.batch?.status === 'failed') {
-      return result;
+  // The deadline covers the push channel too: keep-alives alone would hold it open forever.
+  // Linked by hand, as AbortSignal.any is not available on every React Native runtime.
+  const streamController = new AbortController();
+  let streamDeadlineHit = false;
+  const streamDeadline = setTimeout(() => {
+    streamDeadlineHit = true;
+    streamController.abort();
+  }, deadlineMs);
+  const onCallerAbort = () => streamController.abort();
+  options.signal?.addEventListener('abort', onCallerAbort);
+
+  // 1. Push channel
+  const sinceParam = cursor ? `&since=${encodeURIComponent(cursor)}` : '';
+  const streamUrl = `${API_BASE_URL}/api/analyze/batch/stream?batchId=${encodeURIComponent(batchId)}${sinceParam}`;
+  let streamError: string | null = null;
+
+  const pushed = await streamRequest(
+    streamUrl,
+    (message) => {
+      let parsed: any;
+      try {
+        parsed = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+      const type = message.event || parsed?.type;
+      if (type === 'error') {
+        streamError = parsed?.error || parsed?.message || 'Batch stream error';
+        return;
+      }
+      const decoded = decodeBatchDelta(parsed);
+      logDecodeIssues('subscribeBatch', decoded.issues);
+      deliver(decoded.value);
+      if (type === 'done' && !finalStatus) finalStatus = 'completed';
+    },
+    {
+      signal: streamController.signal,
+      tag: 'subscribeBatch',
+      idleTimeoutMs: BATCH_STREAM_IDLE_MS,
+      // The mock server only intercepts fetch
+      transport: BACKEND.isMock ? 'fetch' : 'auto',
     }
+  );
+  clearTimeout(streamDeadline);
+  options.signal?.removeEventListener('abort', onCallerAbort);
 
-    // Wait before next poll
-    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+  if (finalStatus) {
+    return { ok: true, status: finalStatus, transport: 'push', cursor };
   }
+  if (options.signal?.aborted) {
+    return { ...failure({ kind: 'aborted', message: 'Batch subscription cancelled' }), transport: 'push', cursor };
+  }
+  if (streamDeadlineHit) {
+    return {
+      ok: false,
+      error: `Batch updates timed out after ${Math.round((Date.now() - startedAt) / 1000)}s`,
+      transport: 'push',
+      cursor,
+    };
+  }
+  console.log(
+    'TB subscribeBatch: push channel ended early, polling changes since',
+    cursor ?? 'start',
+    '-',
+    streamError || (pushed.ok ? 'stream closed' : pushed.error.message)
+  );
+
+  // 2. Incremental polling from the last cursor
+  const outcome = await pollJob<BatchStatusResponse>(
+    async (_attempt, signal) => {
+      const result = await getBatchChanges(batchId, cursor, signal);
+      if (result.ok && result.batch && !signal?.aborted) {
+        const { jobs, ...summary } = result.batch;
+        deliver({ batch: summary, jobs, cursor: result.cursor });
+      }
+      // A timeout or 5xx is one missed check, not the end of the batch
+      if (!result.ok && result.apiError && isRetryable(result.apiError)) {
+        return { done: false, value: result };
+      }
+      return { done: !result.ok || !!finalStatus, value: result };
+    },
+    {
+      tag: 'subscribeBatch',
+      intervalMs: 2500,
+      maxIntervalMs: 10000,
+      deadlineMs: Math.max(0, deadlineMs - (Date.now() - startedAt)),
+      signal: options.signal,
+    }
+  );
 
+  if (outcome.status === 'done') {
+    return outcome.value.ok
+      ? { ok: true, status: finalStatus, transport: 'poll', cursor }
+      : { ok: false, error: outcome.value.error, apiError: outcome.value.apiError, transport: 'poll', cursor };
+  }
+  if (outcome.status === 'cancelled') {
+    return { ...failure({ kind: 'aborted', message: 'Batch subscription cancelled' }), transport: 'poll', cursor };
+  }
   return {
     ok: false,
-    error: `Batch polling timed out after ${maxAttempts} attempts`,
+    error: `Batch updates timed out after ${Math.round((Date.now() - startedAt) / 1000)}s`,
+    transport: 'poll',
+    cursor,
   };
 }
 
@@ -1972,39 +1941,27 @@ export async function priorityAnalyzeDish(
     dishName: string;
     restaurantName?: string;
     description?: string;
-  }
+  },
+  signal?: AbortSignal
 ): Promise<BatchPriorityResponse> {
   const url = `${API_BASE_URL}/api/analyze/batch/priority`;
-  console.log('TB priorityAnalyzeDish calling:', url, { jobId, dishName: dish.dishName });
-
-  try {
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jobId,
-        dish,
-      }),
-    });
-
-    const text = await res.text();
-
-    if (!res.ok) {
-      console.error('TB priorityAnalyzeDish HTTP error:', res.status, text.slice(0, 200));
-      return { ok: false, error: `HTTP ${res.status}` };
-    }
+  console.log('TB priorityAnalyzeDish job:', { jobId, dishName: dish.dishName });
 
-    let data;
-    try {
-      data = JSON.parse(text);
-    } catch (parseErr: any) {
-      console.error('TB priorityAnalyzeDish JSON parse error:', parseErr?.message);
-      return { ok: false, error: 'Invalid JSON response' };
-    }
-
-    return data as BatchPriorityResponse;
-  } catch (e: any) {
-    console.error('TB priorityAnalyzeDish error:', e?.message || String(e));
-    return { ok: false, error: e?.message || 'Network error' };
+  const result = await timed('priorityAnalyzeDish', () => apiRequest<BatchPriorityResponse>(url, {
+    method: 'POST',
+    body: { jobId, dish },
+    tag: 'priorityAnalyzeDish',
+    timeoutMs: ANALYZE_TIMEOUT_MS,
+    signal,
+  }));
+  if (!result.ok) {
+    return failure(result.error);
+  }
+  const data = result.data;
+  if (data.result) {
+    const decoded = decodeAnalyzeDishResponse(data.result);
+    logDecodeIssues('priorityAnalyzeDish', decoded.issues);
+    return { ...data, result: decoded.value };
   }
+  return data;
 }
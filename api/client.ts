@@ -0,0 +1,265 @@
+// ============================================================
+// Shared HTTP client for the Tummy Buddy backend
+// ============================================================
+//
+// Every endpoint in api/api.ts goes through apiRequest() so that timeouts,
+// cancellation, retries and error reporting behave the same everywhere.
+// Failures are returned (never thrown) as a typed ApiError so screens can
+// branch on `error.kind` instead of parsing message strings.
+
+export type ApiErrorKind = 'network' | 'timeout' | 'aborted' | 'http' | 'invalid_json' | 'backend';
+
+export type ApiError =
+  | { kind: 'network'; message: string }
+  | { kind: 'timeout'; message: string; timeoutMs: number }
+  | { kind: 'aborted'; message: string }
+  | { kind: 'http'; message: string; status: number; bodySnippet: string }
+  | { kind: 'invalid_json'; message: string; status: number; bodySnippet: string }
+  | { kind: 'backend'; message: string; status: number; payload: any };
+
+export type ApiResult<T> =
+  | { ok: true; status: number; data: T }
+  | { ok: false; error: ApiError };
+
+export interface ApiRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Per-attempt timeout in ms (default 15s) */
+  timeoutMs?: number;
+  /** Caller-owned signal; aborting it cancels the request and any pending retry */
+  signal?: AbortSignal;
+  /** Extra attempts after the first one (default 1 for GET, 0 otherwise) */
+  retries?: number;
+  /** Base delay between retries, doubled on each attempt (default 500ms) */
+  retryDelayMs?: number;
+  /** Treat a JSON body with `ok: false` as a backend error (default true) */
+  checkOk?: boolean;
+  /** Label used in log lines, e.g. 'analyzeDish' */
+  tag?: string;
+}
+
+export const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const SNIPPET_LENGTH = 200;
+
+/**
+ * Error thrown by the few endpoints whose callers expect a rejected promise
+ * (e.g. fetchMenu, analyzeDishCard). Carries the same typed ApiError.
+ */
+export class ApiRequestError extends Error {
+  readonly apiError: ApiError;
+
+  constructor(apiError: ApiError) {
+    super(apiError.message);
+    this.name = 'ApiRequestError';
+    this.apiError = apiError;
+  }
+
+  get kind(): ApiErrorKind {
+    return this.apiError.kind;
+  }
+}
+
+/**
+ * Pull a typed ApiError out of anything caught in a try/catch.
+ * Unknown errors are reported as network failures.
+ */
+export function toApiError(e: unknown): ApiError {
+  if (e instanceof ApiRequestError) return e.apiError;
+  const message = (e as any)?.message || String(e);
+  return { kind: 'network', message };
+}
+
+/**
+ * Convenience for endpoints that keep the legacy `{ ok: false, error }` shape:
+ * returns the message plus the typed error for callers that want to branch.
+ */
+export function failure(error: ApiError): { ok: false; error: string; apiError: ApiError } {
+  return { ok: false, error: error.message, apiError: error };
+}
+
+/**
+ * Return the data of a successful result, or throw an ApiRequestError.
+ */
+export function unwrap<T>(result: ApiResult<T>): T {
+  if (!result.ok) {
+    throw new ApiRequestError(result.error);
+  }
+  return result.data;
+}
+
+/** Network failures, timeouts, 5xx and 429 are worth trying again */
+export function isRetryable(error: ApiError): boolean {
+  if (error.kind === 'network' || error.kind === 'timeout') return true;
+  if (error.kind === 'http') return error.status >= 500 || error.status === 429;
+  return false;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+function extractErrorMessage(raw: string): string | null {
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed.error === 'string' && parsed.error) return parsed.error;
+    if (parsed && typeof parsed.message === 'string' && parsed.message) return parsed.message;
+  } catch {
+    // Not JSON - caller falls back to the status line
+  }
+  return null;
+}
+
+async function attempt<T>(
+  url: string,
+  options: ApiRequestOptions,
+  timeoutMs: number
+): Promise<ApiResult<T>> {
+  const { method = 'GET', body, headers, signal, checkOk = true } = options;
+
+  // Link the caller's signal with our own timeout controller. AbortSignal.any
+  // is not available on every React Native runtime, so wire it up by hand.
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onCallerAbort = () => controller.abort();
+  signal?.addEventListener('abort', onCallerAbort);
+
+  try {
+    const res = await fetch(url, {
+      method,
+      headers: {
+        Accept: 'application/json',
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...headers,
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: controller.signal,
+    });
+
+    const raw = await res.text();
+    const bodySnippet = raw.slice(0, SNIPPET_LENGTH);
+
+    if (!res.ok) {
+      return {
+        ok: false,
+        error: {
+          kind: 'http',
+          message: extractErrorMessage(raw) || `HTTP ${res.status}`,
+          status: res.status,
+          bodySnippet,
+        },
+      };
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      return {
+        ok: false,
+        error: {
+          kind: 'invalid_json',
+          message: `Invalid JSON response: ${raw.slice(0, 100)}`,
+          status: res.status,
+          bodySnippet,
+        },
+      };
+    }
+
+    if (checkOk && data && typeof data === 'object' && data.ok === false) {
+      return {
+        ok: false,
+        error: {
+          kind: 'backend',
+          message: data.error || data.message || 'Request failed',
+          status: res.status,
+          payload: data,
+        },
+      };
+    }
+
+    return { ok: true, status: res.status, data: data as T };
+  } catch (e: any) {
+    if (signal?.aborted) {
+      return { ok: false, error: { kind: 'aborted', message: 'Request cancelled' } };
+    }
+    if (timedOut) {
+      return {
+        ok: false,
+        error: {
+          kind: 'timeout',
+          message: `Request timed out after ${Math.round(timeoutMs / 1000)}s`,
+          timeoutMs,
+        },
+      };
+    }
+    return { ok: false, error: { kind: 'network', message: e?.message || 'Network error' } };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onCallerAbort);
+  }
+}
+
+/**
+ * Perform a JSON request against the backend.
+ *
+ * Network errors, timeouts and 5xx/429 responses are retried with exponential
+ * backoff up to `retries` times. Caller aborts, 4xx, invalid JSON and backend
+ * `ok: false` payloads are returned immediately.
+ */
+export async function apiRequest<T = any>(
+  url: string,
+  options: ApiRequestOptions = {}
+): Promise<ApiResult<T>> {
+  const method = options.method || 'GET';
+  const retries = options.retries ?? (method === 'GET' ? 1 : 0);
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const tag = options.tag || 'apiRequest';
+
+  console.log(`TB ${tag} ${method}:`, url);
+
+  let result: ApiResult<T> = {
+    ok: false,
+    error: { kind: 'network', message: 'Request was not sent' },
+  };
+
+  for (let attemptIndex = 0; attemptIndex <= retries; attemptIndex++) {
+    if (options.signal?.aborted) {
+      return { ok: false, error: { kind: 'aborted', message: 'Request cancelled' } };
+    }
+
+    result = await attempt<T>(url, options, timeoutMs);
+    if (result.ok) return result;
+
+    const canRetry = attemptIndex < retries && isRetryable(result.error);
+    console.error(
+      `TB ${tag} failed (${result.error.kind}, attempt ${attemptIndex + 1}/${retries + 1}):`,
+      result.error.message
+    );
+    if (!canRetry) return result;
+
+    await sleep(retryDelayMs * Math.pow(2, attemptIndex), options.signal);
+  }
+
+  return result;
+}
@@ -0,0 +1,1165 @@
+// ============================================================
+// Runtime decoding for backend payloads
+// ============================================================
+//
+// Responses used to be trusted through `data as AnalyzeDishResponse`, so a
+// renamed or re-typed backend field silently produced blank cards. These
+// decoders validate every field we render, coerce the legacy shapes we still
+// receive, drop anything that does not match, and report each decision as a
+// DecodeIssue so the problem shows up in the logs instead of the UI.
+
+import type {
+  AllergenFlag,
+  AnalysisDebug,
+  AnalyzeDishResponse,
+  BatchAnalyzeResponse,
+  BatchDelta,
+  BatchJobStatus,
+  BatchStatusJob,
+  BatchStatusResponse,
+  ComponentAllergenBreakdown,
+  DishKeyFlags,
+  DishOrganEntry,
+  DishOrganFlags,
+  DishOrgansBlock,
+  DishSummary,
+  FodmapFlag,
+  LactoseFlag,
+  LexPerIngredientEntry,
+  LifestyleChecks,
+  MenuItem,
+  MenuModifierGroup,
+  MenuModifierOption,
+  MenuResponse,
+  MenuSection,
+  NutritionInsights,
+  NutritionSummary,
+  OrgansStatusResponse,
+  PlateComponent,
+  PortionBlock,
+  PortionVisionDebug,
+  SelectionNutritionRow,
+  SelectionResult,
+} from './api';
+import { createMenuIdAllocator, parseMenuCalories, parseMenuPrice } from './menuModel';
+
+export type DecodeIssueKind = 'invalid' | 'unknown' | 'missing' | 'coerced';
+
+export interface DecodeIssue {
+  path: string;
+  kind: DecodeIssueKind;
+  message: string;
+}
+
+export interface DecodeResult<T> {
+  value: T;
+  issues: DecodeIssue[];
+}
+
+interface DecodeContext {
+  issues: DecodeIssue[];
+}
+
+type FieldDecoder = (ctx: DecodeContext, value: unknown, path: string) => unknown;
+
+const MAX_LOGGED_ISSUES = 15;
+
+// ------------------------------------------------------------
+// Primitive decoders
+// ------------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function report(ctx: DecodeContext, path: string, kind: DecodeIssueKind, message: string) {
+  ctx.issues.push({ path, kind, message });
+}
+
+function invalid(ctx: DecodeContext, path: string, expected: string, value: unknown) {
+  report(ctx, path, 'invalid', `expected ${expected}, got ${describe(value)} (dropped)`);
+}
+
+function optString(ctx: DecodeContext, value: unknown, path: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  invalid(ctx, path, 'string', value);
+  return undefined;
+}
+
+function nullableString(ctx: DecodeContext, value: unknown, path: string): string | null | undefined {
+  if (value === null) return null;
+  return optString(ctx, value, path);
+}
+
+function optNumber(ctx: DecodeContext, value: unknown, path: string): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    report(ctx, path, 'coerced', 'numeric string converted to number');
+    return Number(value);
+  }
+  invalid(ctx, path, 'number', value);
+  return undefined;
+}
+
+function nullableNumber(ctx: DecodeContext, value: unknown, path: string): number | null | undefined {
+  if (value === null) return null;
+  return optNumber(ctx, value, path);
+}
+
+function optBoolean(ctx: DecodeContext, value: unknown, path: string): boolean | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 1) return true;
+  if (value === 'false' || value === 0) return false;
+  invalid(ctx, path, 'boolean', value);
+  return undefined;
+}
+
+function optRecord(ctx: DecodeContext, value: unknown, path: string): Record<string, unknown> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (isRecord(value)) return value;
+  invalid(ctx, path, 'object', value);
+  return undefined;
+}
+
+function passthrough(_ctx: DecodeContext, value: unknown): unknown {
+  return value === undefined ? undefined : value;
+}
+
+function arrayOf<T>(
+  ctx: DecodeContext,
+  value: unknown,
+  path: string,
+  item: (ctx: DecodeContext, value: unknown, path: string) => T | undefined
+): T[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    invalid(ctx, path, 'array', value);
+    return undefined;
+  }
+  const out: T[] = [];
+  value.forEach((entry, idx) => {
+    const decoded = item(ctx, entry, joinPath(path, idx));
+    if (decoded !== undefined) out.push(decoded);
+  });
+  return out;
+}
+
+function stringArray(ctx: DecodeContext, value: unknown, path: string): string[] | undefined {
+  return arrayOf(ctx, value, path, optString);
+}
+
+// Edamam sends labels as plain strings or as `{ label }` objects; both become strings
+function edamamLabel(ctx: DecodeContext, value: unknown, path: string): string | undefined {
+  if (isRecord(value)) return optString(ctx, value.label, joinPath(path, 'label'));
+  return optString(ctx, value, path);
+}
+
+function enumOf<T extends string>(
+  allowed: readonly T[],
+  aliases: Record<string, T> = {}
+): (ctx: DecodeContext, value: unknown, path: string) => T | undefined {
+  return (ctx, value, path) => {
+    if (value === undefined || value === null) return undefined;
+    const key = typeof value === 'boolean' ? String(value) : typeof value === 'string' ? value.toLowerCase().trim() : null;
+    if (key !== null) {
+      if ((allowed as readonly string[]).includes(key)) return key as T;
+      if (aliases[key]) {
+        report(ctx, path, 'coerced', `"${String(value)}" mapped to "${aliases[key]}"`);
+        return aliases[key];
+      }
+    }
+    invalid(ctx, path, allowed.join(' | '), value);
+    return undefined;
+  };
+}
+
+/**
+ * Decode the known fields of an object. Fields that fail to decode are dropped
+ * (and reported by the field decoder); unknown keys are reported when asked.
+ */
+function decodeFields<T>(
+  ctx: DecodeContext,
+  raw: Record<string, unknown>,
+  path: string,
+  spec: Record<string, FieldDecoder>,
+  reportUnknown: boolean
+): T {
+  const out: Record<string, unknown> = {};
+  for (const key of Object.keys(spec)) {
+    if (!(key in raw)) continue;
+    const decoded = spec[key](ctx, raw[key], joinPath(path, key));
+    if (decoded !== undefined) out[key] = decoded;
+  }
+  if (reportUnknown) {
+    for (const key of Object.keys(raw)) {
+      if (!(key in spec)) {
+        report(ctx, joinPath(path, key), 'unknown', 'unrecognized field (dropped)');
+      }
+    }
+  }
+  return out as T;
+}
+
+// ------------------------------------------------------------
+// Flag / nutrition decoders
+// ------------------------------------------------------------
+
+const decodePresence = enumOf(['yes', 'no', 'maybe'] as const, {
+  true: 'yes',
+  false: 'no',
+  likely: 'maybe',
+  possible: 'maybe',
+  unknown: 'maybe',
+});
+
+const decodeFodmapLevel = enumOf(['low', 'medium', 'high'] as const, {
+  moderate: 'medium',
+  med: 'medium',
+});
+
+const decodeLactoseLevel = enumOf(['none', 'trace', 'low', 'medium', 'high'] as const, {
+  moderate: 'medium',
+  med: 'medium',
+});
+
+const decodeTriState = enumOf(['yes', 'no', 'maybe'] as const, { true: 'yes', false: 'no' });
+
+const decodeClassification = enumOf(['low', 'medium', 'high'] as const, { moderate: 'medium' });
+
+function decodeNutritionSummary(
+  ctx: DecodeContext,
+  value: unknown,
+  path: string
+): NutritionSummary | null | undefined {
+  if (value === null) return null;
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  const n = (key: string) => nullableNumber(ctx, raw[key], joinPath(path, key)) ?? null;
+  return {
+    energyKcal: n('energyKcal'),
+    protein_g: n('protein_g'),
+    fat_g: n('fat_g'),
+    carbs_g: n('carbs_g'),
+    sugar_g: n('sugar_g'),
+    fiber_g: n('fiber_g'),
+    sodium_mg: n('sodium_mg'),
+  };
+}
+
+function decodeAllergenFlag(ctx: DecodeContext, value: unknown, path: string): AllergenFlag | undefined {
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  const kind = optString(ctx, raw.kind, joinPath(path, 'kind'));
+  if (!kind) {
+    report(ctx, path, 'invalid', 'allergen flag without kind (dropped)');
+    return undefined;
+  }
+  return {
+    kind,
+    present: decodePresence(ctx, raw.present, joinPath(path, 'present')) ?? 'maybe',
+    message: optString(ctx, raw.message, joinPath(path, 'message')) ?? '',
+    source: optString(ctx, raw.source, joinPath(path, 'source')) ?? '',
+  };
+}
+
+function decodeFodmapFlag(ctx: DecodeContext, value: unknown, path: string): FodmapFlag | null | undefined {
+  if (value === null) return null;
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  const level = decodeFodmapLevel(ctx, raw.level, joinPath(path, 'level'));
+  if (!level) return undefined;
+  return {
+    level,
+    reason: optString(ctx, raw.reason, joinPath(path, 'reason')) ?? '',
+    source: optString(ctx, raw.source, joinPath(path, 'source')) ?? '',
+  };
+}
+
+function decodeLactoseFlag(ctx: DecodeContext, value: unknown, path: string): LactoseFlag | null | undefined {
+  if (value === null) return null;
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  const level = decodeLactoseLevel(ctx, raw.level, joinPath(path, 'level'));
+  if (!level) return undefined;
+  return {
+    level,
+    reason: optString(ctx, raw.reason, joinPath(path, 'reason')) ?? '',
+    source: optString(ctx, raw.source, joinPath(path, 'source')) ?? '',
+  };
+}
+
+function decodeNutritionInsights(
+  ctx: DecodeContext,
+  value: unknown,
+  path: string
+): NutritionInsights | null | undefined {
+  if (value === null) return null;
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  const classificationsRaw = optRecord(ctx, raw.classifications, joinPath(path, 'classifications')) || {};
+  const c = (key: string) =>
+    decodeClassification(ctx, classificationsRaw[key], joinPath(path, `classifications.${key}`)) ?? 'medium';
+  return {
+    summary: optString(ctx, raw.summary, joinPath(path, 'summary')) ?? '',
+    highlights: stringArray(ctx, raw.highlights, joinPath(path, 'highlights')) ?? [],
+    cautions: stringArray(ctx, raw.cautions, joinPath(path, 'cautions')) ?? [],
+    classifications: {
+      calories: c('calories'),
+      protein: c('protein'),
+      carbs: c('carbs'),
+      sugar: c('sugar'),
+      fiber: c('fiber'),
+      fat: c('fat'),
+      sodium: c('sodium'),
+    },
+  };
+}
+
+function decodeLifestyleChecks(
+  ctx: DecodeContext,
+  value: unknown,
+  path: string
+): LifestyleChecks | null | undefined {
+  if (value === null) return null;
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  const t = (key: string) => decodeTriState(ctx, raw[key], joinPath(path, key)) ?? 'maybe';
+  return {
+    contains_red_meat: t('contains_red_meat'),
+    red_meat_free: t('red_meat_free'),
+    vegetarian: t('vegetarian'),
+    vegan: t('vegan'),
+  };
+}
+
+// ------------------------------------------------------------
+// Summary / organs decoders
+// ------------------------------------------------------------
+
+function decodeKeyFlags(ctx: DecodeContext, value: unknown, path: string): DishKeyFlags | undefined {
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  return {
+    allergens: stringArray(ctx, raw.allergens, joinPath(path, 'allergens')) ?? [],
+    fodmapLevel: nullableString(ctx, raw.fodmapLevel, joinPath(path, 'fodmapLevel')) ?? null,
+    lactoseLevel: nullableString(ctx, raw.lactoseLevel, joinPath(path, 'lactoseLevel')) ?? null,
+    onionGarlic: optBoolean(ctx, raw.onionGarlic, joinPath(path, 'onionGarlic')) ?? false,
+    spicy: optBoolean(ctx, raw.spicy, joinPath(path, 'spicy')) ?? false,
+    alcohol: optBoolean(ctx, raw.alcohol, joinPath(path, 'alcohol')) ?? false,
+  };
+}
+
+function decodeSummary(ctx: DecodeContext, value: unknown, path: string): DishSummary | null | undefined {
+  if (value === null) return null;
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  const barometer = optRecord(ctx, raw.tummyBarometer, joinPath(path, 'tummyBarometer')) || {};
+  return {
+    tummyBarometer: {
+      score: nullableNumber(ctx, barometer.score, joinPath(path, 'tummyBarometer.score')),
+      label: nullableString(ctx, barometer.label, joinPath(path, 'tummyBarometer.label')),
+    },
+    organs:
+      arrayOf(ctx, raw.organs, joinPath(path, 'organs'), (c, v, p) => {
+        const o = optRecord(c, v, p);
+        if (!o) return undefined;
+        return {
+          organ: nullableString(c, o.organ, joinPath(p, 'organ')) ?? null,
+          score: nullableNumber(c, o.score, joinPath(p, 'score')) ?? null,
+          level: nullableString(c, o.level, joinPath(p, 'level')) ?? null,
+        };
+      }) ?? [],
+    keyFlags: decodeKeyFlags(ctx, raw.keyFlags, joinPath(path, 'keyFlags')) ?? {
+      allergens: [],
+      fodmapLevel: null,
+      lactoseLevel: null,
+      onionGarlic: false,
+      spicy: false,
+      alcohol: false,
+    },
+    edamamLabels: arrayOf(ctx, raw.edamamLabels, joinPath(path, 'edamamLabels'), edamamLabel),
+  };
+}
+
+function decodeOrganEntry(ctx: DecodeContext, value: unknown, path: string): DishOrganEntry | undefined {
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  return decodeFields<DishOrganEntry>(
+    ctx,
+    raw,
+    path,
+    {
+      organ: optString,
+      score: optNumber,
+      level: optString,
+      reasons: stringArray,
+    },
+    false
+  );
+}
+
+function decodeOrganFlags(ctx: DecodeContext, value: unknown, path: string): DishOrganFlags | undefined {
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  return decodeFields<DishOrganFlags>(
+    ctx,
+    raw,
+    path,
+    {
+      allergens: (c, v, p) =>
+        arrayOf(c, v, p, (c2, v2, p2) => {
+          const a = optRecord(c2, v2, p2);
+          if (!a) return undefined;
+          return decodeFields(c2, a, p2, { kind: optString, message: optString, source: optString }, false);
+        }),
+      fodmap: (c, v, p) => {
+        const f = optRecord(c, v, p);
+        return f ? decodeFields(c, f, p, { level: optString, reason: optString, source: optString }, false) : undefined;
+      },
+      lactose: (c, v, p) => {
+        const l = optRecord(c, v, p);
+        return l
+          ? decodeFields(c, l, p, { level: optString, reason: optString, milk_source: nullableString }, false)
+          : undefined;
+      },
+      onion_garlic: optBoolean,
+      spicy: optBoolean,
+      alcohol: optBoolean,
+    },
+    false
+  );
+}
+
+function decodeOrgansBlock(ctx: DecodeContext, value: unknown, path: string): DishOrgansBlock | undefined {
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  return decodeFields<DishOrgansBlock>(
+    ctx,
+    raw,
+    path,
+    {
+      ok: optBoolean,
+      tummy_barometer: (c, v, p) => {
+        const b = optRecord(c, v, p);
+        return b ? decodeFields(c, b, p, { score: nullableNumber, label: nullableString }, false) : undefined;
+      },
+      organs: (c, v, p) => arrayOf(c, v, p, decodeOrganEntry),
+      flags: decodeOrganFlags,
+      debug: passthrough,
+    },
+    false
+  );
+}
+
+// ------------------------------------------------------------
+// Plate / selection decoders
+// ------------------------------------------------------------
+
+function decodePlateComponent(ctx: DecodeContext, value: unknown, path: string): PlateComponent | undefined {
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  return decodeFields<PlateComponent>(
+    ctx,
+    raw,
+    path,
+    {
+      component_id: optString,
+      role: nullableString,
+      category: nullableString,
+      label: nullableString,
+      component: nullableString,
+      name: nullableString,
+      confidence: nullableNumber,
+      area_ratio: nullableNumber,
+    },
+    false
+  );
+}
+
+function decodeSelectionRow(ctx: DecodeContext, value: unknown, path: string): SelectionNutritionRow | undefined {
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  return decodeFields<SelectionNutritionRow>(
+    ctx,
+    raw,
+    path,
+    {
+      component_id: optString,
+      component: optString,
+      name: optString,
+      role: optString,
+      category: optString,
+      share_ratio: nullableNumber,
+      energyKcal: nullableNumber,
+      protein_g: nullableNumber,
+      fat_g: nullableNumber,
+      carbs_g: nullableNumber,
+      sugar_g: nullableNumber,
+      fiber_g: nullableNumber,
+      sodium_mg: nullableNumber,
+    },
+    false
+  );
+}
+
+function decodeSelectionResult(
+  ctx: DecodeContext,
+  value: unknown,
+  path: string
+): SelectionResult | null | undefined {
+  if (value === null) return null;
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  return {
+    componentIds: stringArray(ctx, raw.componentIds, joinPath(path, 'componentIds')) ?? [],
+    components: arrayOf(ctx, raw.components, joinPath(path, 'components'), decodePlateComponent),
+    nutrition: arrayOf(ctx, raw.nutrition, joinPath(path, 'nutrition'), decodeSelectionRow),
+    combined_nutrition: decodeNutritionSummary(ctx, raw.combined_nutrition, joinPath(path, 'combined_nutrition')),
+    combined_allergens: arrayOf(ctx, raw.combined_allergens, joinPath(path, 'combined_allergens'), decodeAllergenFlag),
+    combined_fodmap: decodeFodmapFlag(ctx, raw.combined_fodmap, joinPath(path, 'combined_fodmap')),
+    combined_lactose: decodeLactoseFlag(ctx, raw.combined_lactose, joinPath(path, 'combined_lactose')),
+  };
+}
+
+function decodeSelectionComponents(
+  ctx: DecodeContext,
+  value: unknown,
+  path: string
+): Record<string, SelectionResult> | null | undefined {
+  if (value === null) return null;
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  const out: Record<string, SelectionResult> = {};
+  for (const [id, entry] of Object.entries(raw)) {
+    const decoded = decodeSelectionResult(ctx, entry, joinPath(path, id));
+    if (decoded) out[id] = decoded;
+  }
+  return out;
+}
+
+function decodeAllergenBreakdown(
+  ctx: DecodeContext,
+  value: unknown,
+  path: string
+): ComponentAllergenBreakdown | undefined {
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  return decodeFields<ComponentAllergenBreakdown>(
+    ctx,
+    raw,
+    path,
+    {
+      component_id: optString,
+      component: optString,
+      role: optString,
+      category: optString,
+      allergen_flags: (c, v, p) => arrayOf(c, v, p, decodeAllergenFlag),
+      fodmap_flags: decodeFodmapFlag,
+      lactose_flags: decodeLactoseFlag,
+    },
+    false
+  );
+}
+
+// ------------------------------------------------------------
+// Debug / portion decoders
+// ------------------------------------------------------------
+
+function decodeLexEntry(ctx: DecodeContext, value: unknown, path: string): LexPerIngredientEntry | undefined {
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  const ingredient = optString(ctx, raw.ingredient, joinPath(path, 'ingredient'));
+  if (!ingredient) return undefined;
+  const hits =
+    arrayOf(ctx, raw.hits, joinPath(path, 'hits'), (c, v, p) => {
+      const h = optRecord(c, v, p);
+      if (!h) return undefined;
+      return {
+        allergen: typeof h.allergen === 'string' ? h.allergen : null,
+        fodmap: typeof h.fodmap === 'string' || typeof h.fodmap === 'boolean' ? h.fodmap : null,
+        lactose: typeof h.lactose === 'string' || typeof h.lactose === 'boolean' ? h.lactose : null,
+      };
+    }) ?? [];
+  return { ingredient, hits };
+}
+
+function decodePortionVision(
+  ctx: DecodeContext,
+  value: unknown,
+  path: string
+): PortionVisionDebug | null | undefined {
+  if (value === null) return null;
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  const input = isRecord(raw.input) ? raw.input : {};
+  return {
+    ok: raw.ok === true,
+    portionFactor: optNumber(ctx, raw.portionFactor, joinPath(path, 'portionFactor')),
+    confidence: optNumber(ctx, raw.confidence, joinPath(path, 'confidence')),
+    source: optString(ctx, raw.source, joinPath(path, 'source')),
+    reason: optString(ctx, raw.reason, joinPath(path, 'reason')),
+    input: { hasImage: input.hasImage === true },
+  };
+}
+
+function decodeDebug(ctx: DecodeContext, value: unknown, path: string): AnalysisDebug | null | undefined {
+  if (value === null) return null;
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+
+  // Debug blobs carry plenty of backend-only keys; keep them but type the two we read.
+  const out: AnalysisDebug = { ...raw };
+  if ('lex_per_ingredient' in raw) {
+    const lex = optRecord(ctx, raw.lex_per_ingredient, joinPath(path, 'lex_per_ingredient'));
+    out.lex_per_ingredient = lex
+      ? {
+          perIngredient:
+            arrayOf(ctx, lex.perIngredient, joinPath(path, 'lex_per_ingredient.perIngredient'), decodeLexEntry) ??
+            [],
+        }
+      : null;
+  }
+  if ('portion_vision' in raw) {
+    out.portion_vision = decodePortionVision(ctx, raw.portion_vision, joinPath(path, 'portion_vision')) ?? null;
+  }
+  return out;
+}
+
+function decodePortion(ctx: DecodeContext, value: unknown, path: string): PortionBlock | null | undefined {
+  if (value === null) return null;
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  return decodeFields<PortionBlock>(
+    ctx,
+    raw,
+    path,
+    { manual_factor: optNumber, ai_factor: optNumber, effective_factor: optNumber },
+    false
+  );
+}
+
+function optObject(ctx: DecodeContext, value: unknown, path: string): unknown {
+  if (value === null) return null;
+  return optRecord(ctx, value, path);
+}
+
+// ------------------------------------------------------------
+// AnalyzeDishResponse
+// ------------------------------------------------------------
+
+const ANALYZE_DISH_FIELDS: Record<string, FieldDecoder> = {
+  ok: optBoolean,
+  apiVersion: optString,
+  source: optString,
+  dishName: optString,
+  dishNameOriginal: optString,
+  spell_correction: (c, v, p) => {
+    if (v === null) return null;
+    const r = optRecord(c, v, p);
+    if (!r) return undefined;
+    const original = optString(c, r.original, joinPath(p, 'original'));
+    const corrected = optString(c, r.corrected, joinPath(p, 'corrected'));
+    if (!original || !corrected) return undefined;
+    return { original, corrected, confidence: nullableNumber(c, r.confidence, joinPath(p, 'confidence')) };
+  },
+  restaurantName: optString,
+  summary: decodeSummary,
+  recipe: passthrough,
+  normalized: optObject,
+  organs: decodeOrgansBlock,
+  debug: decodeDebug,
+  error: optString,
+  apiError: passthrough,
+  portion: decodePortion,
+
+  allergen_flags: (c, v, p) => arrayOf(c, v, p, decodeAllergenFlag),
+  allergen_summary: nullableString,
+  fodmap_flags: decodeFodmapFlag,
+  fodmap_summary: nullableString,
+  lactose_flags: decodeLactoseFlag,
+  nutrition_summary: decodeNutritionSummary,
+  nutrition_badges: (c, v, p) => (v === null ? null : stringArray(c, v, p)),
+  nutrition_insights: decodeNutritionInsights,
+  lifestyle_tags: stringArray,
+  lifestyle_checks: decodeLifestyleChecks,
+  nutrition_source: nullableString,
+
+  plate_components: (c, v, p) => (v === null ? null : arrayOf(c, v, p, decodePlateComponent)),
+  nutrition_breakdown: (c, v, p) => (v === null ? null : arrayOf(c, v, p, decodeSelectionRow)),
+  allergen_breakdown: (c, v, p) => (v === null ? null : arrayOf(c, v, p, decodeAllergenBreakdown)),
+
+  selection_default: decodeSelectionResult,
+  selection_components: decodeSelectionComponents,
+  selection_custom: decodeSelectionResult,
+
+  likely_recipe: optObject,
+  full_recipe: optObject,
+  recipe_image: nullableString,
+
+  organs_pending: optBoolean,
+  organs_poll_key: optString,
+};
+
+// Wrapper keys some older pipeline versions nested the analysis under
+const LEGACY_WRAPPER_KEYS = ['analysis', 'result'];
+
+function coerceLegacyShapes(
+  ctx: DecodeContext,
+  raw: Record<string, unknown>,
+  out: AnalyzeDishResponse
+) {
+  // Portion block used to live under `analysis.portion` / `result.portion`
+  if (!out.portion) {
+    for (const key of LEGACY_WRAPPER_KEYS) {
+      const wrapper = raw[key];
+      if (isRecord(wrapper) && 'portion' in wrapper) {
+        const portion = decodePortion(ctx, wrapper.portion, `${key}.portion`);
+        if (portion) {
+          out.portion = portion;
+          report(ctx, `${key}.portion`, 'coerced', 'moved to portion');
+        }
+        break;
+      }
+    }
+  }
+
+  const keyFlags = out.summary?.keyFlags;
+  const organFlags = out.organs?.flags;
+
+  // summary.keyFlags.allergens (+ organs.flags messages) -> allergen_flags
+  if ((!out.allergen_flags || out.allergen_flags.length === 0) && keyFlags?.allergens.length) {
+    const message = (organFlags?.allergens || [])
+      .map((a) => a?.message)
+      .filter((m): m is string => !!m)
+      .join(' ');
+    out.allergen_flags = keyFlags.allergens.map((name) => ({
+      kind: name,
+      present: 'yes',
+      message,
+      source: 'legacy',
+    }));
+    report(ctx, 'summary.keyFlags.allergens', 'coerced', 'converted to allergen_flags');
+  }
+
+  // organs.flags.fodmap / summary.keyFlags.fodmapLevel -> fodmap_flags
+  if (!out.fodmap_flags) {
+    const legacyLevel = organFlags?.fodmap?.level ?? keyFlags?.fodmapLevel ?? null;
+    const level = legacyLevel ? decodeFodmapLevel(ctx, legacyLevel, 'summary.keyFlags.fodmapLevel') : undefined;
+    if (level) {
+      out.fodmap_flags = { level, reason: organFlags?.fodmap?.reason ?? '', source: 'legacy' };
+      report(ctx, 'fodmap_flags', 'coerced', 'built from legacy FODMAP level');
+    }
+  }
+
+  // organs.flags.lactose / summary.keyFlags.lactoseLevel -> lactose_flags
+  if (!out.lactose_flags) {
+    const legacyLevel = organFlags?.lactose?.level ?? keyFlags?.lactoseLevel ?? null;
+    const level = legacyLevel ? decodeLactoseLevel(ctx, legacyLevel, 'summary.keyFlags.lactoseLevel') : undefined;
+    if (level) {
+      out.lactose_flags = { level, reason: organFlags?.lactose?.reason ?? '', source: 'legacy' };
+      report(ctx, 'lactose_flags', 'coerced', 'built from legacy lactose level');
+    }
+  }
+}
+
+function decodeAnalyzeDishInto(ctx: DecodeContext, value: unknown, path: string): AnalyzeDishResponse {
+  const raw = optRecord(ctx, value, path);
+  if (!raw) {
+    return { ok: false, error: 'Invalid analysis payload' };
+  }
+
+  const spec = { ...ANALYZE_DISH_FIELDS };
+  for (const key of LEGACY_WRAPPER_KEYS) spec[key] = () => undefined;
+  const out = decodeFields<AnalyzeDishResponse>(ctx, raw, path, spec, true);
+
+  if (typeof out.ok !== 'boolean') {
+    out.ok = !out.error;
+    report(ctx, joinPath(path, 'ok'), 'missing', `missing ok flag, assumed ${out.ok}`);
+  }
+
+  coerceLegacyShapes(ctx, raw, out);
+
+  // Fields every successful analysis should carry; their absence means a blank card
+  if (out.ok) {
+    if (!out.allergen_flags) report(ctx, joinPath(path, 'allergen_flags'), 'missing', 'no allergen data');
+    if (!out.nutrition_summary && !out.selection_default?.combined_nutrition) {
+      report(ctx, joinPath(path, 'nutrition_summary'), 'missing', 'no nutrition data');
+    }
+    if (!out.organs && !out.organs_pending) {
+      report(ctx, joinPath(path, 'organs'), 'missing', 'no organ data');
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Validate and normalize an /pipeline/analyze-dish payload.
+ */
+export function decodeAnalyzeDishResponse(value: unknown): DecodeResult<AnalyzeDishResponse> {
+  const ctx: DecodeContext = { issues: [] };
+  const decoded = decodeAnalyzeDishInto(ctx, value, '');
+  return { value: decoded, issues: ctx.issues };
+}
+
+// ------------------------------------------------------------
+// Organs status / batch payloads
+// ------------------------------------------------------------
+
+/**
+ * Validate an /pipeline/organs-status payload.
+ */
+export function decodeOrgansStatusResponse(value: unknown): DecodeResult<OrgansStatusResponse> {
+  const ctx: DecodeContext = { issues: [] };
+  const raw = optRecord(ctx, value, '') || {};
+  const organs = decodeOrgansBlock(ctx, raw.organs, 'organs');
+  const ready = optBoolean(ctx, raw.ready, 'ready') ?? false;
+  if (ready && !organs) {
+    report(ctx, 'organs', 'missing', 'status is ready but no organs block was returned');
+  }
+  return {
+    value: {
+      ok: optBoolean(ctx, raw.ok, 'ok') ?? false,
+      ready,
+      organs,
+      error: optString(ctx, raw.error, 'error'),
+    },
+    issues: ctx.issues,
+  };
+}
+
+const decodeBatchJobState = enumOf(['cached', 'pending', 'processing', 'completed', 'failed'] as const, {
+  queued: 'pending',
+  running: 'processing',
+  done: 'completed',
+  error: 'failed',
+});
+
+/**
+ * Validate a /api/analyze/batch start payload, decoding every cached result.
+ */
+export function decodeBatchAnalyzeResponse(value: unknown): DecodeResult<BatchAnalyzeResponse> {
+  const ctx: DecodeContext = { issues: [] };
+  const raw = optRecord(ctx, value, '') || {};
+  const jobs = arrayOf<BatchJobStatus>(ctx, raw.jobs, 'jobs', (c, v, p) => {
+    const job = optRecord(c, v, p);
+    if (!job) return undefined;
+    const jobId = optString(c, job.jobId, joinPath(p, 'jobId'));
+    if (!jobId) {
+      report(c, p, 'invalid', 'job without jobId (dropped)');
+      return undefined;
+    }
+    return {
+      jobId,
+      dishName: optString(c, job.dishName, joinPath(p, 'dishName')) ?? '',
+      clientKey: optString(c, job.clientKey, joinPath(p, 'clientKey')),
+      status: decodeBatchJobState(c, job.status, joinPath(p, 'status')) ?? 'pending',
+      result:
+        job.result === undefined || job.result === null
+          ? (job.result as null | undefined)
+          : decodeAnalyzeDishInto(c, job.result, joinPath(p, 'result')),
+    };
+  });
+  return {
+    value: {
+      ok: optBoolean(ctx, raw.ok, 'ok') ?? false,
+      batchId: optString(ctx, raw.batchId, 'batchId'),
+      total: optNumber(ctx, raw.total, 'total'),
+      cached: optNumber(ctx, raw.cached, 'cached'),
+      processing: optNumber(ctx, raw.processing, 'processing'),
+      jobs,
+      cursor: decodeCursor(ctx, raw.cursor, 'cursor'),
+      error: optString(ctx, raw.error, 'error'),
+    },
+    issues: ctx.issues,
+  };
+}
+
+const decodeBatchState = enumOf(['processing', 'completed', 'failed'] as const, {
+  pending: 'processing',
+  running: 'processing',
+  done: 'completed',
+});
+
+type BatchStatusBlock = NonNullable<BatchStatusResponse['batch']>;
+
+// Cursors are opaque to the client; accept numeric ones and keep them as strings
+function decodeCursor(ctx: DecodeContext, value: unknown, path: string): string | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return optString(ctx, value, path);
+}
+
+function decodeBatchStatusJob(ctx: DecodeContext, value: unknown, path: string): BatchStatusJob | undefined {
+  const job = optRecord(ctx, value, path);
+  if (!job) return undefined;
+  const jobId = optString(ctx, job.jobId, joinPath(path, 'jobId'));
+  if (!jobId) {
+    report(ctx, path, 'invalid', 'job without jobId (dropped)');
+    return undefined;
+  }
+  const dataRaw = optRecord(ctx, job.data, joinPath(path, 'data'));
+  return {
+    jobId,
+    dishName: optString(ctx, job.dishName, joinPath(path, 'dishName')) ?? '',
+    clientKey: optString(ctx, job.clientKey, joinPath(path, 'clientKey')),
+    status: optString(ctx, job.status, joinPath(path, 'status')) ?? 'pending',
+    data: dataRaw
+      ? {
+          id: optString(ctx, dataRaw.id, joinPath(path, 'data.id')) ?? jobId,
+          status: optString(ctx, dataRaw.status, joinPath(path, 'data.status')) ?? '',
+          result:
+            dataRaw.result === undefined || dataRaw.result === null
+              ? undefined
+              : decodeAnalyzeDishInto(ctx, dataRaw.result, joinPath(path, 'data.result')),
+        }
+      : undefined,
+  };
+}
+
+function decodeBatchSummary(
+  ctx: DecodeContext,
+  raw: Record<string, unknown>,
+  path: string,
+  jobCount: number
+): Omit<BatchStatusBlock, 'jobs'> {
+  return {
+    id: optString(ctx, raw.id, joinPath(path, 'id')) ?? '',
+    status: decodeBatchState(ctx, raw.status, joinPath(path, 'status')) ?? 'processing',
+    total: optNumber(ctx, raw.total, joinPath(path, 'total')) ?? jobCount,
+    completed: optNumber(ctx, raw.completed, joinPath(path, 'completed')) ?? 0,
+    failed: optNumber(ctx, raw.failed, joinPath(path, 'failed')) ?? 0,
+  };
+}
+
+/**
+ * Validate a /api/analyze/batch/status payload, decoding every completed result.
+ */
+export function decodeBatchStatusResponse(value: unknown): DecodeResult<BatchStatusResponse> {
+  const ctx: DecodeContext = { issues: [] };
+  const raw = optRecord(ctx, value, '') || {};
+  const batchRaw = optRecord(ctx, raw.batch, 'batch');
+
+  let batch: BatchStatusResponse['batch'];
+  if (batchRaw) {
+    const jobs = arrayOf<BatchStatusJob>(ctx, batchRaw.jobs, 'batch.jobs', decodeBatchStatusJob) ?? [];
+    batch = { ...decodeBatchSummary(ctx, batchRaw, 'batch', jobs.length), jobs };
+  }
+
+  return {
+    value: {
+      ok: optBoolean(ctx, raw.ok, 'ok') ?? false,
+      batch,
+      cursor: decodeCursor(ctx, raw.cursor, 'cursor'),
+      error: optString(ctx, raw.error, 'error'),
+    },
+    issues: ctx.issues,
+  };
+}
+
+/**
+ * Validate one message from the batch update channel: a single changed job
+ * (`job`), several (`jobs`), the batch counters (`batch`) and the new cursor.
+ */
+export function decodeBatchDelta(value: unknown): DecodeResult<BatchDelta> {
+  const ctx: DecodeContext = { issues: [] };
+  const raw = optRecord(ctx, value, '') || {};
+  const jobs: BatchStatusJob[] = [];
+
+  if (raw.job !== undefined) {
+    const job = decodeBatchStatusJob(ctx, raw.job, 'job');
+    if (job) jobs.push(job);
+  }
+  jobs.push(...(arrayOf<BatchStatusJob>(ctx, raw.jobs, 'jobs', decodeBatchStatusJob) ?? []));
+
+  const batchRaw = optRecord(ctx, raw.batch, 'batch');
+  return {
+    value: {
+      batch: batchRaw ? decodeBatchSummary(ctx, batchRaw, 'batch', 0) : undefined,
+      jobs,
+      cursor: decodeCursor(ctx, raw.cursor, 'cursor'),
+    },
+    issues: ctx.issues,
+  };
+}
+
+// ------------------------------------------------------------
+// Menu payloads (/menu/extract and the shape the other sources are adapted to)
+// ------------------------------------------------------------
+
+// Description fields seen across menu sources, in order of preference
+const MENU_DESCRIPTION_KEYS = ['menuDescription', 'description', 'subtitle', 'shortDescription', 'rawDescription'];
+
+// Items and sections before ids are assigned
+type UnidentifiedMenuItem = Omit<MenuItem, 'id'>;
+type UnidentifiedMenuSection = { name: string; items: UnidentifiedMenuItem[] };
+
+function firstDefined(raw: Record<string, unknown>, keys: string[]): unknown {
+  for (const key of keys) {
+    if (raw[key] !== undefined && raw[key] !== null) return raw[key];
+  }
+  return undefined;
+}
+
+function decodeModifierOption(ctx: DecodeContext, value: unknown, path: string): MenuModifierOption | undefined {
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  const name = optString(ctx, firstDefined(raw, ['name', 'title']), joinPath(path, 'name'));
+  if (!name) {
+    report(ctx, path, 'invalid', 'modifier option without name (dropped)');
+    return undefined;
+  }
+  return { name, price: parseMenuPrice(firstDefined(raw, ['price', 'priceText', 'price_display'])) };
+}
+
+function decodeModifierGroup(ctx: DecodeContext, value: unknown, path: string): MenuModifierGroup | undefined {
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  const options = arrayOf(ctx, firstDefined(raw, ['options', 'items']), joinPath(path, 'options'), decodeModifierOption) ?? [];
+  if (options.length === 0) return undefined;
+
+  const minSelections = optNumber(ctx, firstDefined(raw, ['minSelections', 'min']), joinPath(path, 'minSelections')) ?? 0;
+  return {
+    name: optString(ctx, firstDefined(raw, ['name', 'title']), joinPath(path, 'name')) || 'Options',
+    required: optBoolean(ctx, raw.required, joinPath(path, 'required')) ?? minSelections > 0,
+    minSelections,
+    maxSelections:
+      nullableNumber(ctx, firstDefined(raw, ['maxSelections', 'max']), joinPath(path, 'maxSelections')) ?? null,
+    options,
+  };
+}
+
+function decodeMenuItem(ctx: DecodeContext, value: unknown, path: string): UnidentifiedMenuItem | undefined {
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  const name = optString(ctx, raw.name, joinPath(path, 'name'));
+  if (!name) {
+    report(ctx, path, 'invalid', 'menu item without name (dropped)');
+    return undefined;
+  }
+
+  let description = '';
+  for (const key of MENU_DESCRIPTION_KEYS) {
+    const candidate = optString(ctx, raw[key], joinPath(path, key));
+    if (candidate) {
+      description = candidate;
+      break;
+    }
+  }
+
+  return {
+    sourceId: typeof raw.id === 'number' || typeof raw.id === 'string' ? String(raw.id) : undefined,
+    name,
+    description,
+    price: parseMenuPrice(firstDefined(raw, ['price', 'priceText', 'price_display'])),
+    calories: parseMenuCalories(firstDefined(raw, ['calories', 'restaurantCalories'])),
+    imageUrl: nullableString(ctx, firstDefined(raw, ['imageUrl', 'image_url', 'image']), joinPath(path, 'imageUrl')) ?? null,
+    modifiers:
+      arrayOf(
+        ctx,
+        firstDefined(raw, ['modifiers', 'modifierGroups', 'customizations']),
+        joinPath(path, 'modifiers'),
+        decodeModifierGroup
+      ) ?? [],
+  };
+}
+
+function decodeMenuSection(ctx: DecodeContext, value: unknown, path: string): UnidentifiedMenuSection | undefined {
+  const raw = optRecord(ctx, value, path);
+  if (!raw) return undefined;
+  return {
+    name: optString(ctx, raw.name, joinPath(path, 'name')) || 'Menu',
+    items: arrayOf(ctx, raw.items, joinPath(path, 'items'), decodeMenuItem) ?? [],
+  };
+}
+
+// Ids come from names rather than the source's ids, which change between scrapes
+function identifyMenuSections(sections: UnidentifiedMenuSection[]): MenuSection[] {
+  const ids = createMenuIdAllocator();
+  return sections.map((section) => {
+    const sectionId = ids.sectionId(section.name);
+    return {
+      id: sectionId,
+      name: section.name,
+      items: section.items.map((item) => ({ id: ids.itemId(sectionId, item.name), ...item })),
+    };
+  });
+}
+
+/**
+ * Validate a menu payload into the Menu model: descriptions coalesced, prices
+ * and calories parsed, stable ids assigned.
+ */
+export function decodeMenuResponse(value: unknown): DecodeResult<MenuResponse> {
+  const ctx: DecodeContext = { issues: [] };
+  const raw = optRecord(ctx, value, '') || {};
+  const restaurantRaw = optRecord(ctx, raw.restaurant, 'restaurant');
+  const uberDebug = optRecord(ctx, raw.uberDebug, 'uberDebug');
+
+  const sections = identifyMenuSections(arrayOf(ctx, raw.sections, 'sections', decodeMenuSection) ?? []);
+  const ok = optBoolean(ctx, raw.ok, 'ok') ?? sections.length > 0;
+  if (ok && sections.length === 0) {
+    report(ctx, 'sections', 'missing', 'menu reported ok but has no sections');
+  }
+
+  return {
+    value: {
+      ok,
+      source: optString(ctx, raw.source, 'source'),
+      restaurant: restaurantRaw
+        ? {
+            id:
+              typeof restaurantRaw.id === 'number' || typeof restaurantRaw.id === 'string'
+                ? restaurantRaw.id
+                : undefined,
+            name: optString(ctx, restaurantRaw.name, 'restaurant.name'),
+            address: optString(ctx, restaurantRaw.address, 'restaurant.address'),
+            imageUrl: nullableString(ctx, restaurantRaw.imageUrl, 'restaurant.imageUrl') ?? null,
+            imageRef: nullableString(ctx, restaurantRaw.imageRef, 'restaurant.imageRef') ?? null,
+          }
+        : undefined,
+      sections,
+      error: optString(ctx, raw.error, 'error'),
+      uberDebug: uberDebug ? { error: optString(ctx, uberDebug.error, 'uberDebug.error') } : undefined,
+    },
+    issues: ctx.issues,
+  };
+}
+
+// ------------------------------------------------------------
+// Diagnostics
+// ------------------------------------------------------------
+
+/**
+ * Log decode issues for an endpoint. Coercions are expected and only counted;
+ * dropped, unknown and missing fields are listed so backend drift is visible.
+ */
+export function logDecodeIssues(tag: string, issues: DecodeIssue[]): void {
+  if (issues.length === 0) return;
+  const problems = issues.filter((i) => i.kind !== 'coerced');
+  const coercedCount = issues.length - problems.length;
+
+  if (problems.length === 0) {
+    console.log(`TB ${tag} decode: ${coercedCount} legacy field(s) coerced`);
+    return;
+  }
+
+  console.warn(
+    `TB ${tag} decode: ${problems.length} problem(s), ${coercedCount} coerced`,
+    problems.slice(0, MAX_LOGGED_ISSUES).map((i) => `${i.kind} ${i.path || '(root)'}: ${i.message}`)
+  );
+}
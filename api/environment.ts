@@ -0,0 +1,76 @@
+// ============================================================
+// Backend environment selection
+// ============================================================
+//
+// The backend an app build talks to is chosen at runtime from app config:
+// `extra.API_ENV` (set from EXPO_PUBLIC_API_ENV in app.config.js). Every
+// module that needs a base URL reads it from BACKEND instead of hard-coding
+// production.
+
+import Constants from 'expo-constants';
+
+export type BackendEnvironment = 'production' | 'staging' | 'local' | 'mock';
+
+export interface BackendConfig {
+  env: BackendEnvironment;
+  baseUrl: string;
+  /** True when requests are answered by the in-app mock server (api/mock) */
+  isMock: boolean;
+}
+
+/** Host the mock server answers for; never resolved over the network */
+export const MOCK_BASE_URL = 'https://mock.tummybuddy.local';
+
+const PRODUCTION_BASE_URL = 'https://api.rrginvestment.com';
+// `wrangler dev` default port; override with EXPO_PUBLIC_API_LOCAL_URL to use a LAN IP on device
+const LOCAL_BASE_URL = 'http://localhost:8787';
+
+const ENVIRONMENTS: BackendEnvironment[] = ['production', 'staging', 'local', 'mock'];
+
+function readString(extra: Record<string, unknown>, key: string): string | null {
+  const value = extra[key];
+  // Unset env vars come through app.json as the literal "${VAR}" placeholder
+  if (typeof value !== 'string' || !value.trim() || value.startsWith('${')) return null;
+  return value.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Work out which backend to use from the app config `extra` block.
+ * Unknown or missing values fall back to production.
+ */
+export function resolveBackendConfig(extra: Record<string, unknown> | null | undefined): BackendConfig {
+  const values = extra || {};
+  const requested = (readString(values, 'API_ENV') || 'production').toLowerCase();
+
+  let env: BackendEnvironment = 'production';
+  if ((ENVIRONMENTS as string[]).includes(requested)) {
+    env = requested as BackendEnvironment;
+  } else {
+    console.warn(`TB environment: unknown API_ENV "${requested}", using production`);
+  }
+
+  switch (env) {
+    case 'mock':
+      return { env, baseUrl: MOCK_BASE_URL, isMock: true };
+    case 'local':
+      return { env, baseUrl: readString(values, 'API_LOCAL_URL') || LOCAL_BASE_URL, isMock: false };
+    case 'staging': {
+      const stagingUrl = readString(values, 'API_STAGING_URL');
+      if (!stagingUrl) {
+        console.warn('TB environment: API_STAGING_URL is not set, using production');
+        return { env: 'production', baseUrl: PRODUCTION_BASE_URL, isMock: false };
+      }
+      return { env, baseUrl: stagingUrl, isMock: false };
+    }
+    default:
+      return { env: 'production', baseUrl: PRODUCTION_BASE_URL, isMock: false };
+  }
+}
+
+export const BACKEND: BackendConfig = resolveBackendConfig(
+  Constants.expoConfig?.extra as Record<string, unknown> | undefined
+);
+
+if (BACKEND.env !== 'production') {
+  console.log(`TB environment: ${BACKEND.env} (${BACKEND.baseUrl})`);
+}
@@ -0,0 +1,92 @@
+// ============================================================
+// Menu source adapters
+// ============================================================
+//
+// One adapter per menu source. Each reshapes its payload into the
+// /menu/extract layout and runs it through decodeMenuResponse, so every menu
+// in the app has the same model, parsing and item ids.
+
+import type { MenuResponse } from './api';
+import { decodeMenuResponse, logDecodeIssues } from './decoders';
+
+export interface MenuAdapterContext {
+  restaurantName: string;
+  address: string;
+}
+
+// Flat item rows (uber-test, Apify) carry their section on each item
+function groupRowsBySection(rows: unknown[]): { sections: { name: string; items: unknown[] }[]; firstImageUrl: string | null } {
+  const sectionMap = new Map<string, unknown[]>();
+  let firstImageUrl: string | null = null;
+
+  for (const row of rows) {
+    if (!row || typeof row !== 'object') continue;
+    const item = row as Record<string, any>;
+    const sectionName = item.section || item.category || 'Menu';
+    if (!sectionMap.has(sectionName)) sectionMap.set(sectionName, []);
+
+    // Capture first item's image as potential hero
+    const itemImage = item.imageUrl || item.image_url || item.image || null;
+    if (!firstImageUrl && itemImage) firstImageUrl = itemImage;
+
+    sectionMap.get(sectionName)!.push(item);
+  }
+
+  return {
+    sections: Array.from(sectionMap, ([name, items]) => ({ name, items })),
+    firstImageUrl,
+  };
+}
+
+/**
+ * /menu/extract: already sectioned, only needs decoding
+ */
+export function adaptExtractMenu(body: unknown): MenuResponse {
+  const decoded = decodeMenuResponse(body);
+  logDecodeIssues('menu/extract', decoded.issues);
+  return decoded.value;
+}
+
+/**
+ * /menu/uber-test: `{ data: { query, items: [...] } }` with one row per item
+ */
+export function adaptUberTestMenu(body: any, context: MenuAdapterContext): MenuResponse {
+  const rows = body?.data?.items;
+  if (!Array.isArray(rows)) {
+    return { ok: false, error: body?.error || 'No items found', sections: [] };
+  }
+
+  const { sections, firstImageUrl } = groupRowsBySection(rows);
+  const decoded = decodeMenuResponse({
+    ok: true,
+    source: 'uber-test-fast',
+    restaurant: {
+      id: body.data.query,
+      name: context.restaurantName,
+      address: context.address,
+      imageUrl: firstImageUrl, // Use first item image as hero fallback
+    },
+    sections,
+  });
+  logDecodeIssues('menu/uber-test', decoded.issues);
+  return decoded.value;
+}
+
+/**
+ * Apify prefetch job results: the same item rows as uber-test, unwrapped
+ */
+export function adaptApifyMenu(rows: unknown[] | undefined, context: MenuAdapterContext): MenuResponse {
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return { ok: false, error: 'No items found', sections: [] };
+  }
+
+  const { sections, firstImageUrl } = groupRowsBySection(rows);
+  const decoded = decodeMenuResponse({
+    ok: true,
+    source: 'apify',
+    restaurant: { name: context.restaurantName, address: context.address, imageUrl: firstImageUrl },
+    sections,
+  });
+  logDecodeIssues('apify', decoded.issues);
+  return decoded.value;
+}
@@ -0,0 +1,77 @@
+// ============================================================
+// Menu model helpers
+// ============================================================
+//
+// Price and calorie parsing plus the stable ids menu items are referenced by.
+// Used by the menu decoder; no React or storage here.
+
+import type { MenuPrice } from './api';
+import { normalizeDishName } from '../utils/dishNames';
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+};
+const CURRENCY_CODE = /\b(USD|CAD|AUD|MXN|EUR|GBP|JPY|INR)\b/i;
+// "1,234.50", "12,50", "9"
+const AMOUNT = /\d+(?:[.,]\d{3})*(?:[.,]\d{1,2})?/;
+
+// The last separator is decimal when one or two digits follow it
+function parseAmount(raw: string): number {
+  const decimal = raw.match(/[.,](\d{1,2})$/);
+  const whole = (decimal ? raw.slice(0, -decimal[0].length) : raw).replace(/[.,]/g, '');
+  return Number(decimal ? `${whole}.${decimal[1]}` : whole);
+}
+
+/**
+ * Parse a listed price: "$12.50", "12,50 €", "From $9", 8.5. Text without a
+ * number keeps its text with a null amount.
+ */
+export function parseMenuPrice(value: unknown): MenuPrice | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? { amount: value, currency: null, text: value.toFixed(2) } : null;
+  }
+  if (typeof value !== 'string' || !value.trim()) return null;
+
+  const text = value.trim();
+  const code = text.match(CURRENCY_CODE)?.[1]?.toUpperCase();
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find((s) => text.includes(s));
+  const amount = text.match(AMOUNT)?.[0];
+  return {
+    amount: amount ? parseAmount(amount) : null,
+    currency: code ?? (symbol ? CURRENCY_SYMBOLS[symbol] : null),
+    text,
+  };
+}
+
+/**
+ * Parse listed calories: 640, "640 Cal", "520-700 cal" (lower bound)
+ */
+export function parseMenuCalories(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? Math.round(value) : null;
+  if (typeof value !== 'string') return null;
+  const match = value.match(/\d+(?:\.\d+)?/);
+  return match ? Math.round(Number(match[0])) : null;
+}
+
+/**
+ * Hands out ids built from names. The same menu always produces the same ids;
+ * repeated names get a "~2", "~3" suffix in menu order.
+ */
+export function createMenuIdAllocator() {
+  const taken = new Set<string>();
+  const claim = (base: string): string => {
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}~${n}`;
+    taken.add(id);
+    return id;
+  };
+
+  return {
+    sectionId: (name: string) => claim(normalizeDishName(name) || 'menu'),
+    itemId: (sectionId: string, name: string) => claim(`${sectionId}/${normalizeDishName(name) || 'item'}`),
+  };
+}
@@ -0,0 +1,695 @@
+// ============================================================
+// Fixture data for the mock backend (API_ENV=mock)
+// ============================================================
+//
+// Shapes mirror the production responses closely enough that every screen
+// renders the same way it does online. Dish analyses are generated from a
+// small set of profiles so any dish name gets a plausible result.
+
+import type {
+  AllergenDefinition,
+  AllergenFlag,
+  AnalyzeDishPayload,
+  AnalyzeDishResponse,
+  DailySummary,
+  DishOrganEntry,
+  DishOrgansBlock,
+  DishSuggestion,
+  FodmapFlag,
+  LactoseFlag,
+  LoggedMeal,
+  NutritionSummary,
+  UserDailyTargets,
+  UserProfile,
+} from '../api';
+
+export const MOCK_USER_ID = 'mock-user';
+
+// ------------------------------------------------------------
+// Restaurants & menus
+// ------------------------------------------------------------
+
+export interface MockRestaurant {
+  id: string;
+  placeId: string;
+  name: string;
+  address: string;
+  lat: number;
+  lng: number;
+}
+
+export const MOCK_RESTAURANTS: MockRestaurant[] = [
+  {
+    id: 'mock-harbor',
+    placeId: 'mock-place-harbor-street-kitchen',
+    name: 'Harbor Street Kitchen',
+    address: '120 Harbor St, San Diego, CA 92101',
+    lat: 32.7157,
+    lng: -117.1611,
+  },
+  {
+    id: 'mock-verde',
+    placeId: 'mock-place-casa-verde',
+    name: 'Casa Verde Taqueria',
+    address: '455 Market St, San Diego, CA 92101',
+    lat: 32.7112,
+    lng: -117.1598,
+  },
+  {
+    id: 'mock-lotus',
+    placeId: 'mock-place-golden-lotus',
+    name: 'Golden Lotus Noodle Bar',
+    address: '88 J St, San Diego, CA 92101',
+    lat: 32.7098,
+    lng: -117.1587,
+  },
+  {
+    id: 'mock-trattoria',
+    placeId: 'mock-place-nonna-trattoria',
+    name: "Nonna's Trattoria",
+    address: '301 India St, San Diego, CA 92101',
+    lat: 32.7191,
+    lng: -117.1682,
+  },
+];
+
+/** Raw /menu/uber-test style item (before fetchMenuFast groups it by section) */
+export interface MockMenuItem {
+  id: string;
+  section: string;
+  name: string;
+  description: string;
+  price_display: string;
+  restaurantCalories: number | null;
+  imageUrl: string | null;
+}
+
+export const MOCK_MENU_ITEMS: MockMenuItem[] = [
+  {
+    id: 'item-1',
+    section: 'Starters',
+    name: 'Garlic Parmesan Fries',
+    description: 'Hand-cut fries tossed in garlic butter, parmesan and parsley',
+    price_display: '$8.50',
+    restaurantCalories: 640,
+    imageUrl: null,
+  },
+  {
+    id: 'item-2',
+    section: 'Starters',
+    name: 'Crispy Calamari',
+    description: 'Lightly fried calamari with lemon aioli',
+    price_display: '$13.00',
+    restaurantCalories: 520,
+    imageUrl: null,
+  },
+  {
+    id: 'item-3',
+    section: 'Starters',
+    name: 'Roasted Beet Salad',
+    description: 'Beets, arugula, goat cheese, candied walnuts, citrus vinaigrette',
+    price_display: '$12.00',
+    restaurantCalories: 380,
+    imageUrl: null,
+  },
+  {
+    id: 'item-4',
+    section: 'Mains',
+    name: 'Grilled Salmon',
+    description: 'Atlantic salmon, jasmine rice, charred broccolini, lemon herb sauce',
+    price_display: '$26.00',
+    restaurantCalories: 710,
+    imageUrl: null,
+  },
+  {
+    id: 'item-5',
+    section: 'Mains',
+    name: 'Chicken Alfredo',
+    description: 'Fettuccine in a parmesan cream sauce with grilled chicken',
+    price_display: '$21.00',
+    restaurantCalories: 1180,
+    imageUrl: null,
+  },
+  {
+    id: 'item-6',
+    section: 'Mains',
+    name: 'Shrimp Pad Thai',
+    description: 'Rice noodles, shrimp, egg, bean sprouts, peanuts, tamarind sauce',
+    price_display: '$19.00',
+    restaurantCalories: 890,
+    imageUrl: null,
+  },
+  {
+    id: 'item-7',
+    section: 'Mains',
+    name: 'Carne Asada Tacos',
+    description: 'Three corn tortillas, grilled steak, onion, cilantro, salsa verde',
+    price_display: '$16.00',
+    restaurantCalories: 650,
+    imageUrl: null,
+  },
+  {
+    id: 'item-8',
+    section: 'Mains',
+    name: 'Classic Cheeseburger',
+    description: 'Beef patty, cheddar, lettuce, tomato, pickles, brioche bun, fries',
+    price_display: '$17.00',
+    restaurantCalories: 1250,
+    imageUrl: null,
+  },
+  {
+    id: 'item-9',
+    section: 'Bowls',
+    name: 'Quinoa Power Bowl',
+    description: 'Quinoa, roasted sweet potato, kale, chickpeas, tahini dressing',
+    price_display: '$15.00',
+    restaurantCalories: 560,
+    imageUrl: null,
+  },
+  {
+    id: 'item-10',
+    section: 'Bowls',
+    name: 'Teriyaki Tofu Bowl',
+    description: 'Glazed tofu, brown rice, edamame, carrots, sesame seeds',
+    price_display: '$14.00',
+    restaurantCalories: 610,
+    imageUrl: null,
+  },
+  {
+    id: 'item-11',
+    section: 'Desserts',
+    name: 'Chocolate Lava Cake',
+    description: 'Warm chocolate cake with a molten center and vanilla ice cream',
+    price_display: '$9.00',
+    restaurantCalories: 820,
+    imageUrl: null,
+  },
+  {
+    id: 'item-12',
+    section: 'Desserts',
+    name: 'Mango Sorbet',
+    description: 'Dairy-free mango sorbet with fresh mint',
+    price_display: '$7.00',
+    restaurantCalories: 210,
+    imageUrl: null,
+  },
+];
+
+/** /menu/extract payload: items already grouped into sections */
+export function buildMockMenuExtract(restaurant: MockRestaurant) {
+  const sectionNames = Array.from(new Set(MOCK_MENU_ITEMS.map((i) => i.section)));
+  return {
+    ok: true,
+    source: 'mock',
+    restaurant: {
+      id: restaurant.id,
+      name: restaurant.name,
+      address: restaurant.address,
+      imageUrl: null,
+    },
+    sections: sectionNames.map((name, idx) => ({
+      id: `section-${idx}`,
+      name,
+      items: MOCK_MENU_ITEMS.filter((i) => i.section === name).map((i) => ({
+        id: i.id,
+        name: i.name,
+        description: i.description,
+        menuDescription: i.description,
+        priceText: i.price_display,
+        restaurantCalories: i.restaurantCalories,
+        imageUrl: i.imageUrl,
+      })),
+    })),
+  };
+}
+
+// ------------------------------------------------------------
+// Dish analysis
+// ------------------------------------------------------------
+
+interface MockDishProfile {
+  match: RegExp;
+  allergens: { kind: string; present: AllergenFlag['present']; message: string }[];
+  fodmap: { level: FodmapFlag['level']; reason: string };
+  lactose: { level: LactoseFlag['level']; reason: string };
+  nutrition: NutritionSummary;
+  organs: DishOrganEntry[];
+  ingredients: { name: string; quantity: string; fodmap?: boolean }[];
+  lifestyleTags: string[];
+  vegetarian: 'yes' | 'no' | 'maybe';
+  vegan: 'yes' | 'no' | 'maybe';
+  redMeat: 'yes' | 'no' | 'maybe';
+}
+
+const GENERIC_PROFILE: MockDishProfile = {
+  match: /.*/,
+  allergens: [{ kind: 'gluten', present: 'maybe', message: 'May contain wheat-based ingredients.' }],
+  fodmap: { level: 'medium', reason: 'Contains onion and garlic in typical preparations.' },
+  lactose: { level: 'low', reason: 'Small amounts of butter are common.' },
+  nutrition: {
+    energyKcal: 650,
+    protein_g: 28,
+    fat_g: 26,
+    carbs_g: 70,
+    sugar_g: 8,
+    fiber_g: 5,
+    sodium_mg: 1100,
+  },
+  organs: [
+    { organ: 'gut', score: -8, level: 'mild', reasons: ['Onion and garlic can be hard to digest for sensitive stomachs.'] },
+    { organ: 'heart', score: -5, level: 'mild', reasons: ['Moderate sodium content.'] },
+    { organ: 'metabolic', score: 0, level: 'neutral', reasons: [] },
+  ],
+  ingredients: [
+    { name: 'onion', quantity: '1/2 cup', fodmap: true },
+    { name: 'garlic', quantity: '2 cloves', fodmap: true },
+    { name: 'olive oil', quantity: '2 tbsp' },
+    { name: 'salt', quantity: '1 tsp' },
+  ],
+  lifestyleTags: ['comfort_food'],
+  vegetarian: 'maybe',
+  vegan: 'maybe',
+  redMeat: 'maybe',
+};
+
+const DISH_PROFILES: MockDishProfile[] = [
+  {
+    match: /alfredo|carbonara|mac.*cheese|lasagna|parm/i,
+    allergens: [
+      { kind: 'milk', present: 'yes', message: 'Cream sauce and parmesan contain milk.' },
+      { kind: 'gluten', present: 'yes', message: 'Pasta is made from wheat.' },
+      { kind: 'egg', present: 'maybe', message: 'Fresh pasta is often made with egg.' },
+    ],
+    fodmap: { level: 'high', reason: 'Wheat pasta, garlic and cream are high-FODMAP.' },
+    lactose: { level: 'high', reason: 'Heavy cream and cheese sauce.' },
+    nutrition: { energyKcal: 1180, protein_g: 52, fat_g: 62, carbs_g: 98, sugar_g: 6, fiber_g: 4, sodium_mg: 1650 },
+    organs: [
+      { organ: 'gut', score: -22, level: 'high', reasons: ['Rich cream sauce and garlic are common IBS triggers.'] },
+      { organ: 'heart', score: -18, level: 'moderate', reasons: ['High saturated fat from cream and cheese.'] },
+      { organ: 'liver', score: -10, level: 'mild', reasons: ['Fat-heavy meal increases liver workload.'] },
+      { organ: 'metabolic', score: -15, level: 'moderate', reasons: ['Large refined-carb portion.'] },
+    ],
+    ingredients: [
+      { name: 'fettuccine', quantity: '8 oz', fodmap: true },
+      { name: 'heavy cream', quantity: '1 cup', fodmap: true },
+      { name: 'parmesan cheese', quantity: '3/4 cup' },
+      { name: 'butter', quantity: '4 tbsp' },
+      { name: 'garlic', quantity: '3 cloves', fodmap: true },
+      { name: 'chicken breast', quantity: '8 oz' },
+    ],
+    lifestyleTags: ['comfort_food', 'contains_poultry'],
+    vegetarian: 'no',
+    vegan: 'no',
+    redMeat: 'no',
+  },
+  {
+    match: /shrimp|prawn|calamari|crab|lobster|pad thai/i,
+    allergens: [
+      { kind: 'shellfish', present: 'yes', message: 'Contains shrimp or other shellfish.' },
+      { kind: 'peanut', present: 'maybe', message: 'Often garnished with crushed peanuts.' },
+      { kind: 'egg', present: 'yes', message: 'Scrambled egg is part of the dish.' },
+      { kind: 'soy', present: 'maybe', message: 'Sauce may include soy.' },
+    ],
+    fodmap: { level: 'medium', reason: 'Garlic and shallots in the sauce.' },
+    lactose: { level: 'none', reason: 'No dairy ingredients.' },
+    nutrition: { energyKcal: 890, protein_g: 38, fat_g: 30, carbs_g: 112, sugar_g: 22, fiber_g: 5, sodium_mg: 1900 },
+    organs: [
+      { organ: 'gut', score: -10, level: 'mild', reasons: ['Garlic and shallots may cause bloating.'] },
+      { organ: 'heart', score: -12, level: 'moderate', reasons: ['Very high sodium from fish and soy sauce.'] },
+      { organ: 'immune', score: 6, level: 'mild', reasons: ['Shrimp provides zinc and selenium.'] },
+    ],
+    ingredients: [
+      { name: 'rice noodles', quantity: '8 oz' },
+      { name: 'shrimp', quantity: '6 oz' },
+      { name: 'egg', quantity: '2' },
+      { name: 'bean sprouts', quantity: '1 cup' },
+      { name: 'peanuts', quantity: '1/4 cup' },
+      { name: 'garlic', quantity: '2 cloves', fodmap: true },
+      { name: 'fish sauce', quantity: '2 tbsp' },
+    ],
+    lifestyleTags: ['contains_shellfish'],
+    vegetarian: 'no',
+    vegan: 'no',
+    redMeat: 'no',
+  },
+  {
+    match: /salmon|fish|tuna|cod/i,
+    allergens: [{ kind: 'fish', present: 'yes', message: 'Contains salmon.' }],
+    fodmap: { level: 'low', reason: 'Rice and broccolini are low-FODMAP in normal portions.' },
+    lactose: { level: 'trace', reason: 'Herb sauce may be finished with butter.' },
+    nutrition: { energyKcal: 710, protein_g: 46, fat_g: 28, carbs_g: 62, sugar_g: 4, fiber_g: 5, sodium_mg: 780 },
+    organs: [
+      { organ: 'heart', score: 20, level: 'high', reasons: ['Rich in omega-3 fatty acids.'] },
+      { organ: 'brain', score: 15, level: 'moderate', reasons: ['DHA supports brain health.'] },
+      { organ: 'gut', score: 4, level: 'mild', reasons: ['Gentle on digestion.'] },
+    ],
+    ingredients: [
+      { name: 'salmon fillet', quantity: '7 oz' },
+      { name: 'jasmine rice', quantity: '1 cup' },
+      { name: 'broccolini', quantity: '1 cup' },
+      { name: 'lemon', quantity: '1/2' },
+      { name: 'butter', quantity: '1 tbsp' },
+    ],
+    lifestyleTags: ['contains_fish'],
+    vegetarian: 'no',
+    vegan: 'no',
+    redMeat: 'no',
+  },
+  {
+    match: /burger|steak|asada|beef|brisket/i,
+    allergens: [
+      { kind: 'gluten', present: 'yes', message: 'Bun or tortilla contains wheat.' },
+      { kind: 'milk', present: 'maybe', message: 'Cheese may be added.' },
+      { kind: 'sesame', present: 'maybe', message: 'Buns are often topped with sesame.' },
+    ],
+    fodmap: { level: 'high', reason: 'Onion, garlic and wheat bun.' },
+    lactose: { level: 'low', reason: 'Aged cheddar is low in lactose.' },
+    nutrition: { energyKcal: 1250, protein_g: 48, fat_g: 70, carbs_g: 96, sugar_g: 12, fiber_g: 6, sodium_mg: 2100 },
+    organs: [
+      { organ: 'heart', score: -20, level: 'high', reasons: ['Red meat and fries add saturated fat and sodium.'] },
+      { organ: 'gut', score: -12, level: 'moderate', reasons: ['Fried sides and raw onion can irritate.'] },
+      { organ: 'metabolic', score: -14, level: 'moderate', reasons: ['High calorie density.'] },
+    ],
+    ingredients: [
+      { name: 'ground beef', quantity: '6 oz' },
+      { name: 'cheddar cheese', quantity: '1 slice' },
+      { name: 'brioche bun', quantity: '1', fodmap: true },
+      { name: 'onion', quantity: '2 slices', fodmap: true },
+      { name: 'french fries', quantity: '1 cup' },
+    ],
+    lifestyleTags: ['contains_red_meat', 'comfort_food'],
+    vegetarian: 'no',
+    vegan: 'no',
+    redMeat: 'yes',
+  },
+  {
+    match: /salad|bowl|quinoa|tofu|veg/i,
+    allergens: [
+      { kind: 'tree nut', present: 'maybe', message: 'May be topped with nuts.' },
+      { kind: 'sesame', present: 'maybe', message: 'Tahini or sesame dressing.' },
+      { kind: 'soy', present: 'maybe', message: 'Tofu or soy-based sauce.' },
+    ],
+    fodmap: { level: 'medium', reason: 'Chickpeas and some vegetables contain GOS.' },
+    lactose: { level: 'none', reason: 'No dairy ingredients.' },
+    nutrition: { energyKcal: 560, protein_g: 20, fat_g: 22, carbs_g: 72, sugar_g: 10, fiber_g: 14, sodium_mg: 640 },
+    organs: [
+      { organ: 'gut', score: 12, level: 'moderate', reasons: ['High fiber supports a healthy microbiome.'] },
+      { organ: 'heart', score: 14, level: 'moderate', reasons: ['Plant fats and fiber support heart health.'] },
+      { organ: 'metabolic', score: 10, level: 'mild', reasons: ['Whole grains keep blood sugar steady.'] },
+    ],
+    ingredients: [
+      { name: 'quinoa', quantity: '1 cup' },
+      { name: 'chickpeas', quantity: '1/2 cup', fodmap: true },
+      { name: 'kale', quantity: '2 cups' },
+      { name: 'sweet potato', quantity: '1 cup' },
+      { name: 'tahini', quantity: '2 tbsp' },
+    ],
+    lifestyleTags: ['plant_forward'],
+    vegetarian: 'yes',
+    vegan: 'yes',
+    redMeat: 'no',
+  },
+  {
+    match: /cake|brownie|cookie|ice cream|chocolate|dessert/i,
+    allergens: [
+      { kind: 'milk', present: 'yes', message: 'Butter and ice cream contain milk.' },
+      { kind: 'egg', present: 'yes', message: 'Cake batter contains eggs.' },
+      { kind: 'gluten', present: 'yes', message: 'Made with wheat flour.' },
+    ],
+    fodmap: { level: 'high', reason: 'Wheat flour and lactose from ice cream.' },
+    lactose: { level: 'medium', reason: 'Vanilla ice cream on the side.' },
+    nutrition: { energyKcal: 820, protein_g: 10, fat_g: 46, carbs_g: 94, sugar_g: 70, fiber_g: 4, sodium_mg: 320 },
+    organs: [
+      { organ: 'metabolic', score: -20, level: 'high', reasons: ['Very high added sugar.'] },
+      { organ: 'heart', score: -8, level: 'mild', reasons: ['Saturated fat from butter and chocolate.'] },
+    ],
+    ingredients: [
+      { name: 'dark chocolate', quantity: '4 oz' },
+      { name: 'butter', quantity: '1/2 cup' },
+      { name: 'eggs', quantity: '2' },
+      { name: 'wheat flour', quantity: '1/4 cup', fodmap: true },
+      { name: 'vanilla ice cream', quantity: '1 scoop', fodmap: true },
+    ],
+    lifestyleTags: ['high_sugar_dessert'],
+    vegetarian: 'yes',
+    vegan: 'no',
+    redMeat: 'no',
+  },
+];
+
+function pickProfile(dishName: string): MockDishProfile {
+  return DISH_PROFILES.find((p) => p.match.test(dishName)) || GENERIC_PROFILE;
+}
+
+function scaleNutrition(n: NutritionSummary, factor: number): NutritionSummary {
+  const scale = (v: number | null) => (v == null ? null : Math.round(v * factor));
+  return {
+    energyKcal: scale(n.energyKcal),
+    protein_g: scale(n.protein_g),
+    fat_g: scale(n.fat_g),
+    carbs_g: scale(n.carbs_g),
+    sugar_g: scale(n.sugar_g),
+    fiber_g: scale(n.fiber_g),
+    sodium_mg: scale(n.sodium_mg),
+  };
+}
+
+function barometerFor(organs: DishOrganEntry[]): { score: number; label: string } {
+  const total = organs.reduce((sum, o) => sum + (o.score || 0), 0);
+  const score = Math.max(0, Math.min(100, 70 + total));
+  const label = score >= 75 ? 'Gentle' : score >= 50 ? 'Moderate' : 'Risky';
+  return { score, label };
+}
+
+/** Organ block as returned by /pipeline/organs-status (or inline when skip_organs is off) */
+export function buildMockOrgans(dishName: string): DishOrgansBlock {
+  const profile = pickProfile(dishName);
+  return {
+    ok: true,
+    tummy_barometer: barometerFor(profile.organs),
+    organs: profile.organs,
+    flags: {
+      allergens: profile.allergens.map((a) => ({ kind: a.kind, message: a.message, source: 'mock' })),
+      fodmap: { level: profile.fodmap.level, reason: profile.fodmap.reason, source: 'mock' },
+      lactose: { level: profile.lactose.level, reason: profile.lactose.reason, milk_source: null },
+      onion_garlic: profile.ingredients.some((i) => /onion|garlic/.test(i.name)),
+      spicy: false,
+      alcohol: false,
+    },
+  };
+}
+
+/** Full /pipeline/analyze-dish response for any dish name */
+export function buildMockAnalysis(payload: AnalyzeDishPayload, organsPollKey?: string): AnalyzeDishResponse {
+  const dishName = payload.dishName || 'Mystery Dish';
+  const profile = pickProfile(dishName);
+  const portionFactor = payload.portionFactor && payload.portionFactor > 0 ? payload.portionFactor : 1;
+  const nutrition = scaleNutrition(profile.nutrition, portionFactor);
+  const organs = buildMockOrgans(dishName);
+
+  const allergenFlags: AllergenFlag[] = profile.allergens.map((a) => ({ ...a, source: 'mock' }));
+  const contains = profile.allergens.filter((a) => a.present === 'yes').map((a) => a.kind);
+  const mayContain = profile.allergens.filter((a) => a.present === 'maybe').map((a) => a.kind);
+  const allergenSummary = [
+    contains.length ? `Contains ${contains.join(', ')}.` : '',
+    mayContain.length ? `May contain ${mayContain.join(', ')}.` : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  const componentId = 'c0';
+  const fodmapFlag: FodmapFlag = { ...profile.fodmap, source: 'mock' };
+  const lactoseFlag: LactoseFlag = { ...profile.lactose, source: 'mock' };
+
+  return {
+    ok: true,
+    apiVersion: 'mock-1',
+    source: 'mock',
+    dishName,
+    restaurantName: payload.restaurantName || undefined,
+    summary: {
+      tummyBarometer: organs.tummy_barometer || { score: null, label: null },
+      organs: profile.organs.map((o) => ({ organ: o.organ || null, score: o.score ?? null, level: o.level || null })),
+      keyFlags: {
+        allergens: contains,
+        fodmapLevel: profile.fodmap.level,
+        lactoseLevel: profile.lactose.level,
+        onionGarlic: !!organs.flags?.onion_garlic,
+        spicy: false,
+        alcohol: false,
+      },
+    },
+    allergen_flags: allergenFlags,
+    allergen_summary: allergenSummary || 'No common allergens detected.',
+    fodmap_flags: fodmapFlag,
+    fodmap_summary: `${profile.fodmap.level.toUpperCase()} FODMAP. ${profile.fodmap.reason}`,
+    lactose_flags: lactoseFlag,
+    nutrition_summary: nutrition,
+    nutrition_insights: {
+      summary: `About ${nutrition.energyKcal} kcal with ${nutrition.protein_g}g protein.`,
+      highlights: (nutrition.protein_g || 0) >= 30 ? ['Good source of protein'] : [],
+      cautions: (nutrition.sodium_mg || 0) >= 1500 ? ['High in sodium'] : [],
+      classifications: {
+        calories: (nutrition.energyKcal || 0) > 900 ? 'high' : (nutrition.energyKcal || 0) > 500 ? 'medium' : 'low',
+        protein: (nutrition.protein_g || 0) >= 30 ? 'high' : 'medium',
+        carbs: (nutrition.carbs_g || 0) > 90 ? 'high' : 'medium',
+        sugar: (nutrition.sugar_g || 0) > 25 ? 'high' : 'low',
+        fiber: (nutrition.fiber_g || 0) >= 10 ? 'high' : 'medium',
+        fat: (nutrition.fat_g || 0) > 45 ? 'high' : 'medium',
+        sodium: (nutrition.sodium_mg || 0) >= 1500 ? 'high' : 'medium',
+      },
+    },
+    lifestyle_tags: profile.lifestyleTags,
+    lifestyle_checks: {
+      contains_red_meat: profile.redMeat,
+      red_meat_free: profile.redMeat === 'yes' ? 'no' : profile.redMeat === 'no' ? 'yes' : 'maybe',
+      vegetarian: profile.vegetarian,
+      vegan: profile.vegan,
+    },
+    nutrition_source: 'recipe_out',
+    plate_components: [{ component_id: componentId, role: 'main', category: 'main', label: dishName, area_ratio: 1 }],
+    selection_default: {
+      componentIds: [componentId],
+      combined_nutrition: nutrition,
+      combined_allergens: allergenFlags,
+      combined_fodmap: fodmapFlag,
+      combined_lactose: lactoseFlag,
+    },
+    portion: { manual_factor: portionFactor, ai_factor: 1, effective_factor: portionFactor },
+    likely_recipe: {
+      title: dishName,
+      source: 'mock',
+      cooking_method: 'sauteed',
+      ingredients: profile.ingredients.map((i) => ({ name: i.name, quantity: i.quantity, source: 'recipe' })),
+      instructions: [
+        { text: 'Prepare and measure all ingredients.' },
+        { text: 'Cook the main components until done.' },
+        { text: 'Combine, season to taste and serve warm.' },
+      ],
+    },
+    full_recipe: payload.fullRecipe
+      ? {
+          ok: true,
+          generation_method: 'mock',
+          full_recipe: {
+            title: dishName,
+            introduction: `A restaurant-style take on ${dishName}.`,
+            servings: 2,
+            prep_time_minutes: 15,
+            cook_time_minutes: 20,
+            total_time_minutes: 35,
+            difficulty: 'Medium',
+            ingredients: profile.ingredients.map((i) => ({ amount: i.quantity, item: i.name })),
+            instructions: [
+              { step: 1, phase: 'prep', action: 'Prep', title: 'Prep', detail: 'Chop and measure all ingredients.' },
+              { step: 2, phase: 'cook', action: 'Cook', title: 'Cook', detail: 'Cook over medium heat until done.' },
+              { step: 3, phase: 'serve', action: 'Serve', title: 'Serve', detail: 'Plate and serve immediately.' },
+            ],
+          },
+        }
+      : null,
+    debug: {
+      lex_per_ingredient: {
+        perIngredient: profile.ingredients.map((i) => ({
+          ingredient: i.name,
+          hits: i.fodmap ? [{ fodmap: 'high' }] : [],
+        })),
+      },
+    },
+    ...(organsPollKey
+      ? { organs_pending: true, organs_poll_key: organsPollKey }
+      : { organs, organs_pending: false }),
+  };
+}
+
+// ------------------------------------------------------------
+// Suggestions
+// ------------------------------------------------------------
+
+export const MOCK_DISH_SUGGESTIONS: DishSuggestion[] = [
+  { id: 1, name: 'Chicken Alfredo', cuisine: 'Italian', category: 'Pasta', similarity: 1, score: 1 },
+  { id: 2, name: 'Chicken Parmesan', cuisine: 'Italian', category: 'Entree', similarity: 1, score: 1 },
+  { id: 3, name: 'Shrimp Pad Thai', cuisine: 'Thai', category: 'Noodles', similarity: 1, score: 1 },
+  { id: 4, name: 'Grilled Salmon', cuisine: 'American', category: 'Seafood', similarity: 1, score: 1 },
+  { id: 5, name: 'Carne Asada Tacos', cuisine: 'Mexican', category: 'Tacos', similarity: 1, score: 1 },
+  { id: 6, name: 'Classic Cheeseburger', cuisine: 'American', category: 'Burgers', similarity: 1, score: 1 },
+  { id: 7, name: 'Quinoa Power Bowl', cuisine: 'American', category: 'Bowls', similarity: 1, score: 1 },
+  { id: 8, name: 'Chocolate Lava Cake', cuisine: 'French', category: 'Dessert', similarity: 1, score: 1 },
+];
+
+// ------------------------------------------------------------
+// Profile & tracker
+// ------------------------------------------------------------
+
+export const MOCK_PROFILE: UserProfile = {
+  user_id: MOCK_USER_ID,
+  biological_sex: 'female',
+  birth_year: 1990,
+  height_cm: 168,
+  current_weight_kg: 64,
+  activity_level: 'moderate',
+  primary_goal: 'improve_health',
+  unit_system: 'imperial',
+};
+
+export const MOCK_TARGETS: UserDailyTargets = {
+  user_id: MOCK_USER_ID,
+  calories: 2000,
+  protein_g: 90,
+  carbs_g: 230,
+  fat_g: 70,
+  fiber_g: 28,
+  sugar_g: 50,
+  sodium_mg: 2300,
+  source: 'calculated',
+  bmr: 1400,
+  tdee: 2100,
+};
+
+export const MOCK_ALLERGEN_DEFINITIONS: AllergenDefinition[] = [
+  { allergen_code: 'gluten', display_name: 'Gluten', category: 'grain' },
+  { allergen_code: 'milk', display_name: 'Milk', category: 'dairy' },
+  { allergen_code: 'egg', display_name: 'Egg', category: 'animal' },
+  { allergen_code: 'peanut', display_name: 'Peanut', category: 'nut' },
+  { allergen_code: 'tree_nut', display_name: 'Tree Nuts', category: 'nut' },
+  { allergen_code: 'soy', display_name: 'Soy', category: 'legume' },
+  { allergen_code: 'fish', display_name: 'Fish', category: 'seafood' },
+  { allergen_code: 'shellfish', display_name: 'Shellfish', category: 'seafood' },
+  { allergen_code: 'sesame', display_name: 'Sesame', category: 'seed' },
+];
+
+export function buildMockDailySummary(date: string, meals: LoggedMeal[]): DailySummary {
+  const sum = (pick: (m: LoggedMeal) => number | null | undefined) =>
+    meals.reduce((total, m) => total + (pick(m) || 0), 0);
+  return {
+    user_id: MOCK_USER_ID,
+    date,
+    total_calories: sum((m) => m.calories),
+    total_protein_g: sum((m) => m.protein_g),
+    total_carbs_g: sum((m) => m.carbs_g),
+    total_fat_g: sum((m) => m.fat_g),
+    total_fiber_g: sum((m) => m.fiber_g),
+    total_sugar_g: sum((m) => m.sugar_g),
+    total_sodium_mg: sum((m) => m.sodium_mg),
+    meal_count: meals.length,
+    organ_scores: null,
+    daily_insight: meals.length ? 'Nice work logging today. Keep an eye on sodium.' : null,
+  };
+}
+
+// ------------------------------------------------------------
+// Google Places
+// ------------------------------------------------------------
+
+export function buildMockPlaceResult(r: MockRestaurant) {
+  return {
+    place_id: r.placeId,
+    name: r.name,
+    formatted_address: r.address,
+    vicinity: r.address,
+    geometry: { location: { lat: r.lat, lng: r.lng } },
+    rating: 4.5,
+    types: ['restaurant', 'food'],
+    photos: [],
+  };
+}
@@ -0,0 +1,582 @@
+// ============================================================
+// In-app mock backend (API_ENV=mock)
+// ============================================================
+//
+// installMockServer() swaps the global fetch for a router that answers the
+// Tummy Buddy backend and the Google Places endpoints from fixtures, so the
+// full search -> menu -> analysis -> log flow works offline. Requests to any
+// other host still go to the real network.
+
+import type {
+  AnalysisStage,
+  AnalyzeDishPayload,
+  AnalyzeDishResponse,
+  BatchDishInput,
+  DailySummary,
+  LoggedMeal,
+  SavedDish,
+  UserAllergen,
+} from '../api';
+import { MOCK_BASE_URL } from '../environment';
+import {
+  MOCK_ALLERGEN_DEFINITIONS,
+  MOCK_DISH_SUGGESTIONS,
+  MOCK_MENU_ITEMS,
+  MOCK_PROFILE,
+  MOCK_RESTAURANTS,
+  MOCK_TARGETS,
+  MOCK_USER_ID,
+  MockRestaurant,
+  buildMockAnalysis,
+  buildMockDailySummary,
+  buildMockMenuExtract,
+  buildMockOrgans,
+  buildMockPlaceResult,
+} from './fixtures';
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+  /** Set for non-JSON bodies (e.g. NDJSON streams); `body` is then sent as-is */
+  contentType?: string;
+}
+
+interface MockRequest {
+  method: string;
+  url: URL;
+  body: any;
+}
+
+const GOOGLE_MAPS_HOST = 'maps.googleapis.com';
+const MOCK_HOST = new URL(MOCK_BASE_URL).host;
+
+// Simulated server latency so loading states are visible
+const MIN_LATENCY_MS = 150;
+const MAX_LATENCY_MS = 600;
+
+// Batch jobs finished per status poll, so progress is visible on the menu
+const BATCH_JOBS_PER_POLL = 3;
+
+// ------------------------------------------------------------
+// Server state (reset on app reload or via resetMockServer)
+// ------------------------------------------------------------
+
+interface MockBatch {
+  id: string;
+  restaurantName: string;
+  /** Change-log position; each finished job records the value it bumped this to */
+  seq: number;
+  jobs: { jobId: string; dish: BatchDishInput; done: boolean; seq: number }[];
+}
+
+let nextId = 1;
+let organsKeys = new Map<string, string>();
+let batches = new Map<string, MockBatch>();
+let meals: LoggedMeal[] = [];
+let savedDishes: SavedDish[] = [];
+let userAllergens: UserAllergen[] = [];
+let profile = { ...MOCK_PROFILE };
+
+/**
+ * Clear all mock server state (meals, batches, saved dishes, profile edits).
+ */
+export function resetMockServer(): void {
+  nextId = 1;
+  organsKeys = new Map();
+  batches = new Map();
+  meals = [];
+  savedDishes = [];
+  userAllergens = [];
+  profile = { ...MOCK_PROFILE };
+}
+
+function makeId(prefix: string): string {
+  return `${prefix}-${nextId++}`;
+}
+
+function ok(body: Record<string, unknown>): MockResponse {
+  return { status: 200, body: { ok: true, ...body } };
+}
+
+function notFound(message: string): MockResponse {
+  return { status: 404, body: { ok: false, error: message } };
+}
+
+// YYYY-MM-DD in local time, matching getTodayDate() in api.ts
+function localDate(d: Date = new Date()): string {
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${month}-${day}`;
+}
+
+function findRestaurant(query: string | null): MockRestaurant {
+  const q = (query || '').toLowerCase();
+  return (
+    MOCK_RESTAURANTS.find((r) => r.placeId === query) ||
+    MOCK_RESTAURANTS.find((r) => q && r.name.toLowerCase().includes(q)) ||
+    MOCK_RESTAURANTS[0]
+  );
+}
+
+// ------------------------------------------------------------
+// Backend routes
+// ------------------------------------------------------------
+
+function handleBatchStart(body: any): MockResponse {
+  const dishes: BatchDishInput[] = Array.isArray(body?.dishes) ? body.dishes : [];
+  const batch: MockBatch = {
+    id: makeId('batch'),
+    restaurantName: body?.restaurantName || '',
+    seq: 0,
+    jobs: dishes.map((dish) => ({ jobId: makeId('job'), dish, done: false, seq: 0 })),
+  };
+
+  // Pretend the first couple of dishes were already analyzed server-side
+  finishBatchJobs(batch, 2);
+  batches.set(batch.id, batch);
+
+  return ok({
+    batchId: batch.id,
+    cursor: String(batch.seq),
+    total: batch.jobs.length,
+    cached: batch.jobs.filter((j) => j.done).length,
+    processing: batch.jobs.filter((j) => !j.done).length,
+    jobs: batch.jobs.map((j) => ({
+      jobId: j.jobId,
+      dishName: j.dish.dishName,
+      clientKey: j.dish.clientKey,
+      status: j.done ? 'cached' : 'pending',
+      result: j.done
+        ? buildMockAnalysis({ dishName: j.dish.dishName, restaurantName: batch.restaurantName })
+        : null,
+    })),
+  });
+}
+
+function finishBatchJobs(batch: MockBatch, count: number): void {
+  batch.jobs
+    .filter((j) => !j.done)
+    .slice(0, count)
+    .forEach((j) => {
+      j.done = true;
+      j.seq = ++batch.seq;
+    });
+}
+
+function batchSummary(batch: MockBatch) {
+  const completed = batch.jobs.filter((j) => j.done).length;
+  return {
+    id: batch.id,
+    status: completed === batch.jobs.length ? 'completed' : 'processing',
+    total: batch.jobs.length,
+    completed,
+    failed: 0,
+  };
+}
+
+function batchStatusJob(batch: MockBatch, job: MockBatch['jobs'][number], includeResult: boolean) {
+  return {
+    jobId: job.jobId,
+    dishName: job.dish.dishName,
+    clientKey: job.dish.clientKey,
+    status: job.done ? 'completed' : 'processing',
+    data: job.done
+      ? {
+          id: job.jobId,
+          status: 'completed',
+          result: includeResult
+            ? buildMockAnalysis({ dishName: job.dish.dishName, restaurantName: batch.restaurantName })
+            : undefined,
+        }
+      : undefined,
+  };
+}
+
+// Without `since` every job is returned (legacy); with it, only jobs finished after that cursor
+// Run one job now; it finishes in the batch too, so status and stream report it once
+function handleBatchPriority(body: any): MockResponse {
+  for (const batch of batches.values()) {
+    const job = batch.jobs.find((j) => j.jobId === body?.jobId);
+    if (job && !job.done) {
+      job.done = true;
+      job.seq = ++batch.seq;
+    }
+  }
+  return ok({
+    result: buildMockAnalysis({
+      dishName: body?.dish?.dishName,
+      restaurantName: body?.dish?.restaurantName,
+      fullRecipe: true,
+    }),
+  });
+}
+
+function handleBatchStatus(url: URL): MockResponse {
+  const batch = batches.get(url.searchParams.get('batchId') || '');
+  if (!batch) return notFound('Batch not found');
+
+  finishBatchJobs(batch, BATCH_JOBS_PER_POLL);
+  const includeResults = url.searchParams.get('results') !== '0';
+  const since = url.searchParams.get('since');
+  const jobs = since === null ? batch.jobs : batch.jobs.filter((j) => j.seq > Number(since));
+
+  return ok({
+    batch: { ...batchSummary(batch), jobs: jobs.map((j) => batchStatusJob(batch, j, includeResults)) },
+    cursor: String(batch.seq),
+  });
+}
+
+/** SSE body for /api/analyze/batch/stream: every remaining job as a `job` event, then `done` */
+function handleBatchStream(url: URL): MockResponse {
+  const batch = batches.get(url.searchParams.get('batchId') || '');
+  if (!batch) return notFound('Batch not found');
+
+  const since = Number(url.searchParams.get('since') || 0);
+  finishBatchJobs(batch, batch.jobs.length);
+  const events = batch.jobs
+    .filter((j) => j.seq > since)
+    .sort((a, b) => a.seq - b.seq)
+    .map((j) => `event: job\ndata: ${JSON.stringify({ job: batchStatusJob(batch, j, true), cursor: String(j.seq) })}\n\n`);
+  events.push(`event: done\ndata: ${JSON.stringify({ batch: batchSummary(batch), cursor: String(batch.seq) })}\n\n`);
+
+  return { status: 200, body: events.join(''), contentType: 'text/event-stream' };
+}
+
+function handleLogMeal(body: any): MockResponse {
+  const meal: LoggedMeal = {
+    id: nextId++,
+    user_id: body?.user_id || MOCK_USER_ID,
+    date: localDate(),
+    meal_type: body?.meal_type || 'lunch',
+    dish_name: body?.dish_name || 'Unknown dish',
+    dish_id: body?.dish_id ?? null,
+    restaurant_name: body?.restaurant_name ?? null,
+    portion_factor: body?.portion_factor ?? 1,
+    calories: body?.calories ?? null,
+    protein_g: body?.protein_g ?? null,
+    carbs_g: body?.carbs_g ?? null,
+    fat_g: body?.fat_g ?? null,
+    fiber_g: body?.fiber_g ?? null,
+    sugar_g: body?.sugar_g ?? null,
+    sodium_mg: body?.sodium_mg ?? null,
+    organ_impacts: body?.organ_impacts ?? null,
+    risk_flags: body?.risk_flags ?? null,
+    components_eaten: body?.components_eaten ?? null,
+    components_skipped: body?.components_skipped ?? null,
+    logged_at: new Date().toISOString(),
+  };
+  meals.push(meal);
+  return ok({ meal, duplicate: false });
+}
+
+function handleWeeklyTracker(): MockResponse {
+  const summaries: DailySummary[] = [];
+  for (let i = 6; i >= 0; i--) {
+    const date = localDate(new Date(Date.now() - i * 24 * 60 * 60 * 1000));
+    summaries.push(buildMockDailySummary(date, meals.filter((m) => m.date === date)));
+  }
+  const logged = summaries.filter((s) => s.meal_count > 0);
+  const avg = (pick: (s: DailySummary) => number) =>
+    logged.length ? Math.round(logged.reduce((t, s) => t + pick(s), 0) / logged.length) : 0;
+
+  return ok({
+    summaries,
+    weeklyAverages: {
+      avg_calories: avg((s) => s.total_calories),
+      avg_protein_g: avg((s) => s.total_protein_g),
+      avg_carbs_g: avg((s) => s.total_carbs_g),
+      avg_fat_g: avg((s) => s.total_fat_g),
+      days_logged: logged.length,
+    },
+  });
+}
+
+// Response fields carried by each stage of the analysis stream
+const STREAM_STAGE_FIELDS: Record<AnalysisStage, (keyof AnalyzeDishResponse)[]> = {
+  allergens: ['allergen_flags', 'allergen_summary', 'fodmap_flags', 'fodmap_summary', 'lactose_flags'],
+  nutrition: ['nutrition_summary', 'nutrition_badges', 'nutrition_insights', 'nutrition_source', 'lifestyle_tags'],
+  likely_recipe: ['dishName', 'likely_recipe', 'recipe_image', 'plate_components'],
+  full_recipe: ['full_recipe'],
+  organs: ['organs'],
+};
+
+/** NDJSON body for /pipeline/analyze-dish/stream: one line per stage, then `done` */
+function buildAnalysisStream(analysis: AnalyzeDishResponse): string {
+  const lines = (Object.keys(STREAM_STAGE_FIELDS) as AnalysisStage[]).map((stage) => {
+    const data: Record<string, unknown> = {};
+    for (const field of STREAM_STAGE_FIELDS[stage]) {
+      if (analysis[field] !== undefined) data[field] = analysis[field];
+    }
+    return JSON.stringify({ type: 'stage', stage, data });
+  });
+  lines.push(JSON.stringify({ type: 'done', data: analysis }));
+  return lines.join('\n') + '\n';
+}
+
+function routeBackend({ method, url, body }: MockRequest): MockResponse {
+  const path = url.pathname;
+  const params = url.searchParams;
+
+  // Restaurants & menus
+  if (path === '/restaurants/find') {
+    const query = params.get('query');
+    const matches = MOCK_RESTAURANTS.filter(
+      (r) => !query || query === 'restaurant' || r.name.toLowerCase().includes(query.toLowerCase())
+    );
+    return ok({ items: matches.length ? matches : MOCK_RESTAURANTS });
+  }
+  if (path === '/menu/extract') {
+    return { status: 200, body: buildMockMenuExtract(findRestaurant(params.get('placeId'))) };
+  }
+  if (path === '/menu/uber-test') {
+    const maxRows = Number(params.get('maxRows')) || MOCK_MENU_ITEMS.length;
+    return ok({ data: { query: params.get('query'), items: MOCK_MENU_ITEMS.slice(0, maxRows) } });
+  }
+  if (path === '/api/apify-start') {
+    return ok({ jobId: makeId('apify'), status: 'started' });
+  }
+  if (path.startsWith('/api/apify-job/')) {
+    return ok({
+      jobId: decodeURIComponent(path.slice('/api/apify-job/'.length)),
+      status: 'completed',
+      resultCount: MOCK_MENU_ITEMS.length,
+      data: MOCK_MENU_ITEMS,
+    });
+  }
+
+  // Dish analysis
+  if (path === '/pipeline/analyze-dish/stream' && method === 'POST') {
+    const analysis = buildMockAnalysis((body || {}) as AnalyzeDishPayload);
+    return { status: 200, body: buildAnalysisStream(analysis), contentType: 'application/x-ndjson' };
+  }
+  if (path === '/pipeline/analyze-dish' && method === 'POST') {
+    const payload = (body || {}) as AnalyzeDishPayload;
+    let pollKey: string | undefined;
+    if (payload.skip_organs) {
+      pollKey = makeId('organs');
+      organsKeys.set(pollKey, payload.dishName);
+    }
+    return { status: 200, body: buildMockAnalysis(payload, pollKey) };
+  }
+  if (path === '/pipeline/analyze-dish/card' && method === 'POST') {
+    const analysis = buildMockAnalysis(body || {});
+    return {
+      status: 200,
+      body: {
+        apiVersion: analysis.apiVersion,
+        dishName: analysis.dishName,
+        restaurantName: analysis.restaurantName ?? null,
+        summary: analysis.summary,
+      },
+    };
+  }
+  if (path === '/pipeline/organs-status') {
+    const dishName = organsKeys.get(params.get('key') || '');
+    if (!dishName) return notFound('Unknown organs key');
+    return ok({ ready: true, organs: buildMockOrgans(dishName) });
+  }
+  if (path === '/api/analyze/batch' && method === 'POST') return handleBatchStart(body);
+  if (path === '/api/analyze/batch/status') return handleBatchStatus(url);
+  if (path === '/api/analyze/batch/stream') return handleBatchStream(url);
+  if (path === '/api/analyze/batch/priority' && method === 'POST') return handleBatchPriority(body);
+  if (path === '/api/dish-image') {
+    return ok({ dish: params.get('dish'), provider: 'mock' });
+  }
+  if (path === '/api/upload-image' && method === 'POST') {
+    const key = makeId('upload');
+    return ok({
+      url: `${MOCK_BASE_URL}/uploads/${key}.jpg`,
+      key,
+      size: typeof body?.image === 'string' ? body.image.length : 0,
+      mimeType: body?.mimeType || 'image/jpeg',
+    });
+  }
+  if (path === '/api/dish-suggest') {
+    const q = (params.get('q') || '').toLowerCase();
+    const limit = Number(params.get('limit')) || 8;
+    const suggestions = MOCK_DISH_SUGGESTIONS.filter((s) =>
+      s.name.toLowerCase().split(' ').some((word) => q && (word.startsWith(q.slice(0, 3)) || q.includes(word)))
+    ).slice(0, limit);
+    return ok({ query: params.get('q') || '', suggestions, count: suggestions.length });
+  }
+
+  // Profile
+  if (path === '/api/profile' && method === 'GET') {
+    return ok({ profile, targets: MOCK_TARGETS, allergens: userAllergens, organPriorities: [] });
+  }
+  if (path === '/api/profile' && method === 'PUT') {
+    profile = { ...profile, ...(body || {}), updated_at: new Date().toISOString() };
+    return ok({ profile, targets: MOCK_TARGETS });
+  }
+  if (path === '/api/profile/allergens' && method === 'PUT') {
+    userAllergens = (Array.isArray(body?.allergens) ? body.allergens : []).map((a: any) => ({
+      user_id: MOCK_USER_ID,
+      allergen_code: a.allergen_code,
+      severity: a.severity || 'avoid',
+      display_name: MOCK_ALLERGEN_DEFINITIONS.find((d) => d.allergen_code === a.allergen_code)?.display_name,
+    }));
+    return ok({ allergens: userAllergens, targets: MOCK_TARGETS });
+  }
+  if (path === '/api/profile/organs' && method === 'PUT') {
+    const organs = Array.isArray(body?.organs) ? body.organs : [];
+    return ok({
+      organPriorities: organs.map((o: any) => ({
+        user_id: MOCK_USER_ID,
+        organ_code: o.organ_code,
+        priority_rank: o.priority_rank,
+        is_starred: !!o.is_starred,
+      })),
+    });
+  }
+  if (path === '/api/profile/weight' && method === 'POST') {
+    profile = { ...profile, current_weight_kg: body?.weight_kg ?? profile.current_weight_kg };
+    return ok({
+      entry: { id: nextId++, user_id: MOCK_USER_ID, weight_kg: body?.weight_kg, recorded_at: new Date().toISOString() },
+      profile,
+    });
+  }
+  if (path === '/api/allergens') {
+    return ok({ allergens: MOCK_ALLERGEN_DEFINITIONS });
+  }
+
+  // Meals & tracker
+  if (path === '/api/meals/log' && method === 'POST') return handleLogMeal(body);
+  if (path === '/api/meals' && method === 'GET') {
+    const date = params.get('date') || localDate();
+    return ok({ meals: meals.filter((m) => m.date === date) });
+  }
+  if (path.startsWith('/api/meals/') && method === 'DELETE') {
+    const id = Number(path.slice('/api/meals/'.length));
+    const before = meals.length;
+    meals = meals.filter((m) => m.id !== id);
+    return meals.length < before ? ok({}) : notFound('Meal not found');
+  }
+  if (path === '/api/tracker/daily') {
+    const date = params.get('date') || localDate();
+    const dayMeals = meals.filter((m) => m.date === date);
+    return ok({ date, summary: buildMockDailySummary(date, dayMeals), meals: dayMeals, targets: MOCK_TARGETS });
+  }
+  if (path === '/api/tracker/weekly') return handleWeeklyTracker();
+
+  // Saved dishes
+  const savedMatch = path.match(/^\/api\/user\/([^/]+)\/saved-dishes$/);
+  if (savedMatch) {
+    if (method === 'POST') {
+      const dish: SavedDish = {
+        id: nextId++,
+        user_id: decodeURIComponent(savedMatch[1]),
+        dish_name: body?.dish_name || 'Unknown dish',
+        dish_id: body?.dish_id ?? null,
+        restaurant_name: body?.restaurant_name ?? null,
+        saved_at: new Date().toISOString(),
+        full_analysis: body?.full_analysis ?? null,
+      };
+      savedDishes.push(dish);
+      return ok({ dish });
+    }
+    return ok({ dishes: savedDishes });
+  }
+
+  return notFound(`Mock route not found: ${method} ${path}`);
+}
+
+// ------------------------------------------------------------
+// Google Places routes
+// ------------------------------------------------------------
+
+function routeGooglePlaces({ url }: MockRequest): MockResponse {
+  const path = url.pathname;
+  const params = url.searchParams;
+
+  if (path.endsWith('/place/autocomplete/json')) {
+    const input = (params.get('input') || '').toLowerCase();
+    const predictions = MOCK_RESTAURANTS.filter((r) => !input || r.name.toLowerCase().includes(input)).map(
+      (r) => ({ place_id: r.placeId, description: `${r.name}, ${r.address}` })
+    );
+    return { status: 200, body: { status: 'OK', predictions } };
+  }
+  if (path.endsWith('/place/details/json')) {
+    const restaurant = findRestaurant(params.get('place_id'));
+    return { status: 200, body: { status: 'OK', result: buildMockPlaceResult(restaurant) } };
+  }
+  if (path.endsWith('/place/nearbysearch/json') || path.endsWith('/place/textsearch/json')) {
+    return { status: 200, body: { status: 'OK', results: MOCK_RESTAURANTS.map(buildMockPlaceResult) } };
+  }
+  return notFound(`Mock Google route not found: ${path}`);
+}
+
+// ------------------------------------------------------------
+// Entry points
+// ------------------------------------------------------------
+
+/**
+ * Answer a request from fixtures. Returns null for hosts the mock server
+ * does not handle, so the caller can fall through to the real network.
+ */
+export function handleMockRequest(
+  rawUrl: string,
+  init: { method?: string; body?: unknown } = {}
+): MockResponse | null {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return null;
+  }
+
+  let body: unknown = init.body;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      // Leave non-JSON bodies as-is
+    }
+  }
+
+  const request: MockRequest = { method: (init.method || 'GET').toUpperCase(), url, body };
+  if (url.host === MOCK_HOST) return routeBackend(request);
+  if (url.host === GOOGLE_MAPS_HOST) return routeGooglePlaces(request);
+  return null;
+}
+
+function delay(signal?: AbortSignal | null): Promise<void> {
+  const ms = MIN_LATENCY_MS + Math.random() * (MAX_LATENCY_MS - MIN_LATENCY_MS);
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Aborted'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted'));
+    });
+  });
+}
+
+let installed = false;
+
+/**
+ * Route global fetch through the mock server. Safe to call more than once.
+ */
+export function installMockServer(): void {
+  if (installed) return;
+  installed = true;
+
+  const realFetch = global.fetch;
+  global.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const rawUrl = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const mocked = handleMockRequest(rawUrl, { method: init?.method, body: init?.body });
+    if (!mocked) return realFetch(input, init);
+
+    await delay(init?.signal);
+    console.log(`TB mock ${init?.method || 'GET'} ${mocked.status}:`, rawUrl);
+    const isRaw = mocked.contentType !== undefined && typeof mocked.body === 'string';
+    return new Response(isRaw ? (mocked.body as string) : JSON.stringify(mocked.body), {
+      status: mocked.status,
+      headers: { 'Content-Type': mocked.contentType || 'application/json' },
+    });
+  }) as typeof fetch;
+
+  console.log('TB mock server installed');
+}
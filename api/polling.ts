@@ -0,0 +1,167 @@
+// ============================================================
+// Job polling engine
+// ============================================================
+//
+// Every async backend job (menu extraction, organs, batch analysis, Apify
+// scrapes) is polled through pollJob() so that intervals back off the same
+// way, honour the server's `retryIn` hint, stop at a hard deadline and can be
+// cancelled with an AbortSignal when the user leaves a screen.
+
+/** Result of a single status check */
+export type PollStep<T> =
+  | { done: true; value: T }
+  | {
+      done: false;
+      value?: T;
+      /** Server-suggested wait before the next check (overrides backoff) */
+      retryInMs?: number;
+    };
+
+export interface PollProgress<T> {
+  attempt: number;
+  elapsedMs: number;
+  /** Wait before the next attempt, or null when polling is about to stop */
+  nextDelayMs: number | null;
+  value?: T;
+}
+
+export interface PollJobOptions<T> {
+  /** Label used in log lines */
+  tag?: string;
+  /** Wait after the first check (default 2s) */
+  intervalMs?: number;
+  /** Upper bound for the backed-off interval (default 15s) */
+  maxIntervalMs?: number;
+  /** Interval multiplier per attempt (default 1.5) */
+  backoffFactor?: number;
+  /** Random +/- spread applied to each wait, as a ratio (default 0.2) */
+  jitterRatio?: number;
+  /** Hard limit on total polling time (default 2 minutes) */
+  deadlineMs?: number;
+  /** Optional cap on the number of checks */
+  maxAttempts?: number;
+  /** Aborting stops polling and is passed to each check */
+  signal?: AbortSignal;
+  /** Called after every check */
+  onProgress?: (progress: PollProgress<T>) => void;
+}
+
+export type PollOutcome<T> =
+  | { status: 'done'; value: T; attempts: number; elapsedMs: number }
+  | { status: 'timeout' | 'cancelled'; lastValue?: T; attempts: number; elapsedMs: number };
+
+export type PollCheck<T> = (attempt: number, signal?: AbortSignal) => Promise<PollStep<T>>;
+
+/** Options accepted by the endpoint-specific pollers in api.ts */
+export type PollerOptions<T = unknown> = Pick<
+  PollJobOptions<T>,
+  'signal' | 'intervalMs' | 'maxIntervalMs' | 'deadlineMs' | 'onProgress'
+>;
+
+const DEFAULT_INTERVAL_MS = 2000;
+const DEFAULT_MAX_INTERVAL_MS = 15000;
+const DEFAULT_BACKOFF_FACTOR = 1.5;
+const DEFAULT_JITTER_RATIO = 0.2;
+const DEFAULT_DEADLINE_MS = 120000;
+
+/**
+ * Wait before the check following `attempt` (1-based). A server hint wins
+ * over backoff; both are jittered so many clients don't poll in lockstep.
+ */
+export function computePollDelay(
+  attempt: number,
+  options: Pick<PollJobOptions<unknown>, 'intervalMs' | 'maxIntervalMs' | 'backoffFactor' | 'jitterRatio'>,
+  retryInMs?: number,
+  random: () => number = Math.random
+): number {
+  const interval = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  const maxInterval = Math.max(interval, options.maxIntervalMs ?? DEFAULT_MAX_INTERVAL_MS);
+  const factor = options.backoffFactor ?? DEFAULT_BACKOFF_FACTOR;
+  const jitter = options.jitterRatio ?? DEFAULT_JITTER_RATIO;
+
+  const base =
+    retryInMs != null && retryInMs >= 0
+      ? retryInMs
+      : Math.min(maxInterval, interval * Math.pow(factor, Math.max(0, attempt - 1)));
+
+  const spread = base * jitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(base + spread));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * Run `check` until it reports done, the deadline passes, `maxAttempts` is
+ * reached or the signal aborts. Errors thrown by `check` are logged and
+ * treated as "not done yet", so transient failures back off like any other
+ * pending state; checks that want to stop on an error should return done.
+ */
+export async function pollJob<T>(check: PollCheck<T>, options: PollJobOptions<T> = {}): Promise<PollOutcome<T>> {
+  const tag = options.tag || 'pollJob';
+  const deadlineMs = options.deadlineMs ?? DEFAULT_DEADLINE_MS;
+  const startedAt = Date.now();
+  const { signal } = options;
+
+  let attempt = 0;
+  let lastValue: T | undefined;
+
+  while (true) {
+    if (signal?.aborted) {
+      console.log(`TB ${tag}: cancelled after ${attempt} attempt(s)`);
+      return { status: 'cancelled', lastValue, attempts: attempt, elapsedMs: Date.now() - startedAt };
+    }
+
+    attempt++;
+    let step: PollStep<T>;
+    try {
+      step = await check(attempt, signal);
+    } catch (e: any) {
+      console.log(`TB ${tag}: check ${attempt} failed:`, e?.message || e);
+      step = { done: false };
+    }
+
+    const elapsedMs = Date.now() - startedAt;
+    if (step.value !== undefined) lastValue = step.value;
+
+    if (step.done) {
+      options.onProgress?.({ attempt, elapsedMs, nextDelayMs: null, value: step.value });
+      return { status: 'done', value: step.value, attempts: attempt, elapsedMs };
+    }
+
+    // Re-check after the await: an abort during the request means "stop", not "retry"
+    if (signal?.aborted) {
+      options.onProgress?.({ attempt, elapsedMs, nextDelayMs: null, value: lastValue });
+      console.log(`TB ${tag}: cancelled after ${attempt} attempt(s)`);
+      return { status: 'cancelled', lastValue, attempts: attempt, elapsedMs };
+    }
+
+    const delay = computePollDelay(attempt, options, step.retryInMs);
+    const outOfAttempts = options.maxAttempts != null && attempt >= options.maxAttempts;
+    const pastDeadline = elapsedMs + delay >= deadlineMs;
+
+    if (outOfAttempts || pastDeadline) {
+      options.onProgress?.({ attempt, elapsedMs, nextDelayMs: null, value: lastValue });
+      console.log(`TB ${tag}: gave up after ${attempt} attempt(s), ${Math.round(elapsedMs / 1000)}s`);
+      return { status: 'timeout', lastValue, attempts: attempt, elapsedMs };
+    }
+
+    options.onProgress?.({ attempt, elapsedMs, nextDelayMs: delay, value: lastValue });
+    await sleep(delay, signal);
+  }
+}
@@ -0,0 +1,297 @@
+// ============================================================
+// Streaming responses (Server-Sent Events / NDJSON)
+// ============================================================
+//
+// React Native's fetch buffers the whole body, so progressive responses are
+// read through XMLHttpRequest progress events there. Runtimes with readable
+// fetch bodies (web, Node) and the mock server use fetch instead. Either way
+// the caller gets one callback per message and a typed ApiError on failure.
+
+import { ApiError, ApiResult } from './client';
+
+/** One decoded message: an SSE event (name + joined data lines) or an NDJSON line */
+export interface StreamMessage {
+  event: string | null;
+  data: string;
+}
+
+export interface StreamRequestOptions {
+  method?: 'GET' | 'POST';
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Longest allowed silence between chunks (default 30s) */
+  idleTimeoutMs?: number;
+  signal?: AbortSignal;
+  /** Label used in log lines */
+  tag?: string;
+  /** 'auto' picks XHR when available; 'fetch' is needed for the mock server */
+  transport?: 'auto' | 'fetch' | 'xhr';
+}
+
+export interface StreamParser {
+  push: (chunk: string) => void;
+  /** Flush a trailing line / unterminated SSE event */
+  end: () => void;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30000;
+const SNIPPET_LENGTH = 200;
+const SSE_FIELD = /^(data|event|id|retry)(:|$)/;
+
+/**
+ * Incremental parser accepting both SSE (`event:` / `data:` blocks separated
+ * by a blank line) and NDJSON (one JSON document per line). Chunks may split
+ * lines anywhere.
+ */
+export function createStreamParser(onMessage: (message: StreamMessage) => void): StreamParser {
+  let buffer = '';
+  let sseEvent: string | null = null;
+  let sseData: string[] = [];
+
+  const dispatchSse = () => {
+    if (sseData.length > 0) {
+      onMessage({ event: sseEvent, data: sseData.join('\n') });
+    }
+    sseEvent = null;
+    sseData = [];
+  };
+
+  const handleLine = (rawLine: string) => {
+    const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+
+    if (line === '') {
+      dispatchSse();
+      return;
+    }
+    // SSE comment / keep-alive
+    if (line.startsWith(':')) return;
+
+    const field = SSE_FIELD.exec(line);
+    if (field) {
+      const value = line.slice(field[1].length + 1).replace(/^ /, '');
+      if (field[1] === 'data') sseData.push(value);
+      else if (field[1] === 'event') sseEvent = value || null;
+      return;
+    }
+
+    // Anything else is an NDJSON line
+    onMessage({ event: null, data: line });
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        handleLine(buffer.slice(0, newline));
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+      }
+    },
+    end() {
+      if (buffer) {
+        handleLine(buffer);
+        buffer = '';
+      }
+      dispatchSse();
+    },
+  };
+}
+
+function httpError(status: number, raw: string): ApiError {
+  let message = `HTTP ${status}`;
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof (parsed.error || parsed.message) === 'string') {
+      message = parsed.error || parsed.message;
+    }
+  } catch {
+    // Not JSON - keep the status line
+  }
+  return { kind: 'http', message, status, bodySnippet: raw.slice(0, SNIPPET_LENGTH) };
+}
+
+function requestHeaders(options: StreamRequestOptions): Record<string, string> {
+  return {
+    Accept: 'text/event-stream, application/x-ndjson',
+    ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    ...options.headers,
+  };
+}
+
+function streamWithXhr(
+  url: string,
+  parser: StreamParser,
+  options: StreamRequestOptions,
+  idleTimeoutMs: number
+): Promise<ApiResult<{ status: number }>> {
+  return new Promise((resolve) => {
+    const xhr = new XMLHttpRequest();
+    let seen = 0;
+    let settled = false;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (result: ApiResult<{ status: number }>) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(idleTimer);
+      options.signal?.removeEventListener('abort', onAbort);
+      resolve(result);
+    };
+
+    const resetIdle = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        xhr.abort();
+        finish({
+          ok: false,
+          error: {
+            kind: 'timeout',
+            message: `Stream stalled for ${Math.round(idleTimeoutMs / 1000)}s`,
+            timeoutMs: idleTimeoutMs,
+          },
+        });
+      }, idleTimeoutMs);
+    };
+
+    const drain = () => {
+      // Error bodies are read in full on load instead of being parsed as events
+      if (xhr.status < 200 || xhr.status >= 300) return;
+      const text = xhr.responseText || '';
+      if (text.length > seen) {
+        parser.push(text.slice(seen));
+        seen = text.length;
+      }
+    };
+
+    const onAbort = () => {
+      xhr.abort();
+      finish({ ok: false, error: { kind: 'aborted', message: 'Request cancelled' } });
+    };
+
+    xhr.open(options.method || 'GET', url);
+    Object.entries(requestHeaders(options)).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+
+    xhr.onprogress = () => {
+      resetIdle();
+      drain();
+    };
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        finish({ ok: false, error: httpError(xhr.status, xhr.responseText || '') });
+        return;
+      }
+      drain();
+      parser.end();
+      finish({ ok: true, status: xhr.status, data: { status: xhr.status } });
+    };
+    xhr.onerror = () => {
+      finish({ ok: false, error: { kind: 'network', message: 'Network error' } });
+    };
+
+    if (options.signal?.aborted) {
+      onAbort();
+      return;
+    }
+    options.signal?.addEventListener('abort', onAbort);
+    resetIdle();
+    xhr.send(options.body !== undefined ? JSON.stringify(options.body) : null);
+  });
+}
+
+async function streamWithFetch(
+  url: string,
+  parser: StreamParser,
+  options: StreamRequestOptions,
+  idleTimeoutMs: number
+): Promise<ApiResult<{ status: number }>> {
+  const controller = new AbortController();
+  let timedOut = false;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  const resetIdle = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, idleTimeoutMs);
+  };
+  const onCallerAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onCallerAbort);
+
+  try {
+    resetIdle();
+    const res = await fetch(url, {
+      method: options.method || 'GET',
+      headers: requestHeaders(options),
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      signal: controller.signal,
+    });
+
+    if (!res.ok) {
+      return { ok: false, error: httpError(res.status, await res.text()) };
+    }
+
+    const reader = res.body?.getReader?.();
+    if (reader && typeof TextDecoder !== 'undefined') {
+      const decoder = new TextDecoder();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        resetIdle();
+        parser.push(decoder.decode(value, { stream: true }));
+      }
+      parser.push(decoder.decode());
+    } else {
+      // No readable body on this runtime: everything arrives at once
+      parser.push(await res.text());
+    }
+    parser.end();
+    return { ok: true, status: res.status, data: { status: res.status } };
+  } catch (e: any) {
+    if (options.signal?.aborted) {
+      return { ok: false, error: { kind: 'aborted', message: 'Request cancelled' } };
+    }
+    if (timedOut) {
+      return {
+        ok: false,
+        error: {
+          kind: 'timeout',
+          message: `Stream stalled for ${Math.round(idleTimeoutMs / 1000)}s`,
+          timeoutMs: idleTimeoutMs,
+        },
+      };
+    }
+    return { ok: false, error: { kind: 'network', message: e?.message || 'Network error' } };
+  } finally {
+    clearTimeout(idleTimer);
+    options.signal?.removeEventListener('abort', onCallerAbort);
+  }
+}
+
+/**
+ * Open a streaming request and call `onMessage` for every SSE event or NDJSON
+ * line as it arrives. Resolves once the stream ends; never throws. Streams are
+ * not retried because messages may already have been delivered.
+ */
+export async function streamRequest(
+  url: string,
+  onMessage: (message: StreamMessage) => void,
+  options: StreamRequestOptions = {}
+): Promise<ApiResult<{ status: number }>> {
+  const tag = options.tag || 'streamRequest';
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+  const transport = options.transport || 'auto';
+  const useXhr = transport === 'xhr' || (transport === 'auto' && typeof XMLHttpRequest !== 'undefined');
+
+  console.log(`TB ${tag} ${options.method || 'GET'} (stream via ${useXhr ? 'xhr' : 'fetch'}):`, url);
+
+  const parser = createStreamParser(onMessage);
+  const result = useXhr
+    ? await streamWithXhr(url, parser, options, idleTimeoutMs)
+    : await streamWithFetch(url, parser, options, idleTimeoutMs);
+
+  if (!result.ok) {
+    console.error(`TB ${tag} stream failed (${result.error.kind}):`, result.error.message);
+  }
+  return result;
+}
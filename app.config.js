@@ -19,6 +19,10 @@ module.exports = {
         projectId: 'a69d0972-659c-41fe-a929-1e3c3012ae6e',
       },
       EXPO_PUBLIC_GOOGLE_MAPS_KEY: process.env.EXPO_PUBLIC_GOOGLE_MAPS_KEY,
+      // Backend selection: production (default) | staging | local | mock
+      API_ENV: process.env.EXPO_PUBLIC_API_ENV || 'production',
+      API_STAGING_URL: process.env.EXPO_PUBLIC_API_STAGING_URL,
+      API_LOCAL_URL: process.env.EXPO_PUBLIC_API_LOCAL_URL,
     },
   },
 };
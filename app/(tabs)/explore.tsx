@@ -13,6 +13,7 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useUserPrefs } from '../../context/UserPrefsContext';
 import { useRouter } from 'expo-router';
+import { mealsByOrder, orderIdFromDishId } from '../utils/orderTray';
 
 // App-wide theme colors
 const TEAL = '#14b8a6';
@@ -169,6 +170,7 @@ export default function TummyTracker() {
   // Calculate progress percentages
   const summary = todayTracker?.summary;
   const meals = todayTracker?.meals || [];
+  const orders = mealsByOrder(meals);
   const userTargets = targets || todayTracker?.targets;
 
   const caloriesConsumed = summary?.total_calories || 0;
@@ -347,6 +349,10 @@ export default function TummyTracker() {
                       .map(([k, v]) => `${k.charAt(0).toUpperCase() + k.slice(1)} ${(v as number) > 0 ? '+' : ''}${v}`)
                       .join(' · ')
                   : '';
+                const orderId = orderIdFromDishId(meal.dish_id);
+                const orderedWith = orderId
+                  ? (orders.get(orderId) ?? []).filter((m) => m.id !== meal.id).map((m) => m.dish_name)
+                  : [];
 
                 return (
                   <TouchableOpacity
@@ -364,10 +370,27 @@ export default function TummyTracker() {
                       {meal.restaurant_name && (
                         <Text style={styles.mealRestaurant}>{meal.restaurant_name}</Text>
                       )}
+                      {orderedWith.length > 0 && (
+                        <Text style={styles.mealOrder} numberOfLines={1}>
+                          Ordered with {orderedWith.join(', ')}
+                        </Text>
+                      )}
+                      {meal.components_eaten && meal.components_eaten.length > 0 && (
+                        <Text style={styles.mealComponents} numberOfLines={2}>
+                          ate: {meal.components_eaten.join(', ')}
+                          {meal.components_skipped && meal.components_skipped.length > 0
+                            ? `; skipped: ${meal.components_skipped.join(', ')}`
+                            : ''}
+                        </Text>
+                      )}
                     </View>
                     {meal.risk_flags && meal.risk_flags.length > 0 ? (
                       <View style={styles.mealWarning}>
-                        <Ionicons name="warning" size={16} color="#f59e0b" />
+                        <Ionicons
+                          name="warning"
+                          size={16}
+                          color={meal.risk_flags.some((f) => f.startsWith('avoid_allergen_')) ? '#ef4444' : '#f59e0b'}
+                        />
                       </View>
                     ) : (
                       <Text style={styles.mealTag}>Logged</Text>
@@ -600,6 +623,16 @@ const styles = StyleSheet.create({
     fontSize: 11,
     marginTop: 2,
   },
+  mealOrder: {
+    color: TEAL,
+    fontSize: 11,
+    marginTop: 2,
+  },
+  mealComponents: {
+    color: '#888',
+    fontSize: 11,
+    marginTop: 2,
+  },
   mealTag: {
     color: TEAL,
     fontSize: 12,
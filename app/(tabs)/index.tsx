@@ -31,11 +31,14 @@ import { API_BASE_URL, getDishSuggestions, DishSuggestion, uploadDishImage } fro
 import { useMenuPrefetch } from '../../context/MenuPrefetchContext';
 import {
   searchCachedDishes,
+  searchRecentDishSearches,
   getRecentDishSearches,
   addToRecentDishSearches,
-  getCachedDish,
+  getCachedDishes,
   CachedDish,
+  CachedDishResult,
   RecentDishSearch,
+  normalizeDishName,
 } from '../../utils/dishCache';
 
 async function fetchEta(origin: any, destination: any, apiKey: string | undefined) {
@@ -89,7 +92,7 @@ const DUMMY_DISH = {
 
 export default function HomeScreen() {
   const router = useRouter();
-  const { prefetchMenu, getPrefetchStatus } = useMenuPrefetch();
+  const { prefetchAround } = useMenuPrefetch();
   const [query, setQuery] = useState('');
   const [searchMode, setSearchMode] = useState<SearchMode>('restaurant');
 
@@ -115,6 +118,7 @@ export default function HomeScreen() {
   const [dishSearchResults, setDishSearchResults] = useState<CachedDish[]>([]);
   const [apiDishSuggestions, setApiDishSuggestions] = useState<DishSuggestion[]>([]);
   const [recentDishes, setRecentDishes] = useState<RecentDishSearch[]>([]);
+  const [recentDishMatches, setRecentDishMatches] = useState<RecentDishSearch[]>([]);
   const [recentDishesWithCache, setRecentDishesWithCache] = useState<CachedDish[]>([]);
   const [isDishSearching, setIsDishSearching] = useState(false);
   const [showDishDropdown, setShowDishDropdown] = useState(false);
@@ -134,14 +138,8 @@ export default function HomeScreen() {
     setRecentDishes(recent);
 
     // Load full cached data for recent dishes (for carousel with images)
-    const dishesWithCache: CachedDish[] = [];
-    for (const r of recent) {
-      const cached = await getCachedDish(r.dishName);
-      if (cached) {
-        dishesWithCache.push(cached);
-      }
-    }
-    setRecentDishesWithCache(dishesWithCache);
+    const cachedDishes = await getCachedDishes(recent.map((r) => ({ dishName: r.dishName })));
+    setRecentDishesWithCache(cachedDishes.filter((cached): cached is CachedDishResult => !!cached));
   };
 
   // Debounced dish search - searches both local cache AND API for suggestions
@@ -152,6 +150,7 @@ export default function HomeScreen() {
 
     if (!text.trim()) {
       setDishSearchResults([]);
+      setRecentDishMatches([]);
       setApiDishSuggestions([]);
       setShowDishDropdown(false); // Recent dishes now shown in carousel
       return;
@@ -165,6 +164,13 @@ export default function HomeScreen() {
         // Search local cache (instant, previously analyzed dishes)
         const cachedResults = await searchCachedDishes(text);
         setDishSearchResults(cachedResults);
+        const cachedNames = new Set(cachedResults.map(c => normalizeDishName(c.dishName)));
+
+        // Past searches that never got cached (cached ones are already listed above)
+        const recentMatches = await searchRecentDishSearches(text);
+        setRecentDishMatches(
+          recentMatches.filter(r => !r.hasCache && !cachedNames.has(r.normalizedName)).slice(0, 3)
+        );
 
         // Also fetch API suggestions for typo-tolerant matching
         // This runs in parallel and updates when complete
@@ -172,9 +178,8 @@ export default function HomeScreen() {
           const apiResponse = await getDishSuggestions(text.trim(), { limit: 8 });
           if (apiResponse.ok && apiResponse.suggestions.length > 0) {
             // Filter out suggestions that are already in cached results
-            const cachedNames = new Set(cachedResults.map(c => c.dishName.toLowerCase()));
             const newSuggestions = apiResponse.suggestions.filter(
-              s => !cachedNames.has(s.name.toLowerCase())
+              s => !cachedNames.has(normalizeDishName(s.name))
             );
             setApiDishSuggestions(newSuggestions);
           } else {
@@ -186,6 +191,7 @@ export default function HomeScreen() {
       } catch (e) {
         console.error('Dish search error:', e);
         setDishSearchResults([]);
+        setRecentDishMatches([]);
         setApiDishSuggestions([]);
       } finally {
         setIsDishSearching(false);
@@ -390,11 +396,9 @@ export default function HomeScreen() {
         lng: items[activeIndex].lng,
       });
 
-      // Start background prefetching for menu
+      // Start background prefetching for the selected menu and its neighbours
       const active = items[activeIndex];
-      if (active?.placeId && active?.name && active?.address) {
-        prefetchMenu(active.placeId, active.name, active.address);
-      }
+      prefetchAround(items, activeIndex);
 
       const activeLat = active?.lat ?? lat;
       const activeLng = active?.lng ?? lng;
@@ -930,7 +934,29 @@ export default function HomeScreen() {
                 </>
               )}
 
-              {/* Recent dishes are now shown in the carousel below - removed from dropdown */}
+              {/* Recent searches matching the query that have no cached analysis (cached ones are in the carousel) */}
+              {!isDishSearching && recentDishMatches.length > 0 && (
+                <>
+                  <Text style={styles.dishDropdownSectionTitle}>Recent Searches</Text>
+                  {recentDishMatches.map((recent, index) => (
+                    <TouchableOpacity
+                      key={`recent-${recent.normalizedName}-${index}`}
+                      style={styles.dishDropdownItem}
+                      onPress={() => handleDishSelect(recent)}
+                    >
+                      <View style={styles.dishDropdownItemContent}>
+                        <Text style={styles.dishDropdownItemName}>{recent.dishName}</Text>
+                        {recent.restaurantName && (
+                          <Text style={styles.dishDropdownAddress} numberOfLines={1}>
+                            {recent.restaurantName}
+                          </Text>
+                        )}
+                      </View>
+                      <Ionicons name="time-outline" size={16} color="#9ca3af" />
+                    </TouchableOpacity>
+                  ))}
+                </>
+              )}
 
               {/* API suggestions (typo-corrected dishes from server) */}
               {!isDishSearching && query.trim() && apiDishSuggestions.length > 0 && (
@@ -1080,10 +1106,8 @@ export default function HomeScreen() {
                         lat: r.lat,
                         lng: r.lng,
                       });
-                      // Start background prefetching for menu
-                      if (r.placeId && r.name && r.address) {
-                        prefetchMenu(r.placeId, r.name, r.address);
-                      }
+                      // Start background prefetching for the selected menu and its neighbours
+                      prefetchAround(nearbyRestaurants, index);
                     }}
                   >
                     <View style={styles.pinContainer}>
@@ -1333,10 +1357,8 @@ export default function HomeScreen() {
                   lng: item.lng,
                 });
 
-                // Start background prefetching for menu
-                if (item.placeId && item.name && item.address) {
-                  prefetchMenu(item.placeId, item.name, item.address);
-                }
+                // Start background prefetching for the selected menu and its neighbours
+                prefetchAround(nearbyRestaurants, index);
               }}
             />
           ) : recentDishesWithCache.length > 0 ? (
@@ -12,6 +12,12 @@ import {
   SafeAreaView,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import CacheDebugPanel from '../../components/CacheDebugPanel';
+import {
+  ALLERGEN_SEVERITIES,
+  ALLERGEN_SEVERITY_LABELS,
+  AllergenSeverity,
+} from '../utils/allergenSeverity';
 
 // App-wide theme color
 const TEAL = '#14b8a6';
@@ -83,8 +89,10 @@ export default function ProfileScreen() {
   const [activityLevel, setActivityLevel] = useState('moderate');
   const [selectedGoals, setSelectedGoals] = useState<string[]>(['maintain']);
   const [selectedAllergenCodes, setSelectedAllergenCodes] = useState<string[]>([]);
+  const [allergenSeverities, setAllergenSeverities] = useState<Record<string, AllergenSeverity>>({});
   const [selectedOrganCodes, setSelectedOrganCodes] = useState<string[]>(['gut', 'heart']);
   const [isPro, setIsPro] = useState(true);
+  const [showCacheDebug, setShowCacheDebug] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
 
   // Initialize form from profile
@@ -128,6 +136,7 @@ export default function ProfileScreen() {
   // Initialize allergens from context
   useEffect(() => {
     setSelectedAllergenCodes(allergens.map(a => a.allergen_code));
+    setAllergenSeverities(Object.fromEntries(allergens.map(a => [a.allergen_code, a.severity])));
   }, [allergens]);
 
   // Initialize organ priorities from context
@@ -145,8 +154,16 @@ export default function ProfileScreen() {
 
     setSelectedAllergenCodes(newCodes);
 
-    // Save to backend
-    const allergenData = newCodes.map(c => ({ allergen_code: c, severity: 'avoid' as const }));
+    // Save to backend; newly added allergens start at avoid
+    const allergenData = newCodes.map(c => ({ allergen_code: c, severity: allergenSeverities[c] ?? ('avoid' as const) }));
+    await saveAllergens(allergenData);
+  };
+
+  const changeAllergenSeverity = async (code: string, severity: AllergenSeverity) => {
+    const next = { ...allergenSeverities, [code]: severity };
+    setAllergenSeverities(next);
+
+    const allergenData = selectedAllergenCodes.map(c => ({ allergen_code: c, severity: next[c] ?? ('avoid' as const) }));
     await saveAllergens(allergenData);
   };
 
@@ -221,6 +238,10 @@ export default function ProfileScreen() {
   const fdaAllergens = allergenDefinitions.filter(a => a.category === 'fda_top_9');
   const digestiveAllergens = allergenDefinitions.filter(a => a.category === 'digestive');
   const conditionAllergens = allergenDefinitions.filter(a => a.category === 'condition');
+  // Severity applies to allergens and sensitivities, not health conditions
+  const severityAllergens = [...fdaAllergens, ...digestiveAllergens].filter(a =>
+    selectedAllergenCodes.includes(a.allergen_code)
+  );
 
   return (
     <SafeAreaView style={styles.container}>
@@ -477,6 +498,40 @@ export default function ProfileScreen() {
           })}
         </View>
 
+        {/* Severity per selected allergen */}
+        {severityAllergens.length > 0 && (
+          <>
+            <Text style={[styles.subSectionTitle, { marginTop: 16 }]}>How Strict?</Text>
+            <Text style={styles.conditionHint}>
+              Avoid hides dishes that may contain it. Limit flags dishes that contain it. Monitor just notes it.
+            </Text>
+            {severityAllergens.map(allergen => {
+              const current = allergenSeverities[allergen.allergen_code] ?? 'avoid';
+              return (
+                <View key={allergen.allergen_code} style={styles.severityRow}>
+                  <Text style={styles.severityName} numberOfLines={1}>{allergen.display_name}</Text>
+                  <View style={styles.severityOptions}>
+                    {ALLERGEN_SEVERITIES.map(severity => {
+                      const selected = current === severity;
+                      return (
+                        <TouchableOpacity
+                          key={severity}
+                          style={[styles.severityOption, selected && styles.pillSelected]}
+                          onPress={() => changeAllergenSeverity(allergen.allergen_code, severity)}
+                        >
+                          <Text style={[styles.pillText, selected && styles.pillTextSelected]}>
+                            {ALLERGEN_SEVERITY_LABELS[severity]}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              );
+            })}
+          </>
+        )}
+
         {/* Conditions */}
         <Text style={[styles.subSectionTitle, { marginTop: 16 }]}>Health Conditions</Text>
         <Text style={styles.conditionHint}>
@@ -551,8 +606,31 @@ export default function ProfileScreen() {
         </View>
         <Text style={styles.linkText}>Manage billing (coming soon)</Text>
       </View>
+
+      {/* Developer Card (dev builds only) */}
+      {__DEV__ && (
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Developer</Text>
+          <View style={styles.row}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.infoText}>Cache hit rate and measured API latencies.</Text>
+            </View>
+            <View style={styles.switchBlock}>
+              <Text style={styles.switchLabel}>Metrics</Text>
+              <Switch
+                value={showCacheDebug}
+                onValueChange={setShowCacheDebug}
+                thumbColor={showCacheDebug ? TEAL : '#888'}
+                trackColor={{ false: '#333', true: 'rgba(20, 184, 166, 0.3)' }}
+              />
+            </View>
+          </View>
+        </View>
+      )}
       </ScrollView>
 
+      <CacheDebugPanel visible={__DEV__ && showCacheDebug} />
+
       {/* Loading Overlay */}
       {isProfileLoading && (
         <View style={styles.loadingOverlay}>
@@ -853,6 +931,29 @@ const styles = StyleSheet.create({
     backgroundColor: TEAL,
     borderColor: TEAL,
   },
+  severityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  severityName: {
+    flex: 1,
+    color: '#fefefe',
+    fontSize: 13,
+    marginRight: 8,
+  },
+  severityOptions: {
+    flexDirection: 'row',
+  },
+  severityOption: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#444',
+    marginLeft: 6,
+  },
   pillCondition: {
     borderColor: '#f59e0b55',
   },
@@ -27,12 +27,16 @@ type CachedRestaurant = {
   lat?: number;
   lng?: number;
   visitedAt: number;
+  /** Set once the menu's batch analysis completed, so there is a report card */
+  batchId?: string;
 };
 
 export default function RestaurantTab() {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(true);
   const [hasNoCachedRestaurant, setHasNoCachedRestaurant] = useState(false);
+  // Shown instead of auto-navigating when the restaurant has a report card
+  const [reportRestaurant, setReportRestaurant] = useState<CachedRestaurant | null>(null);
   const hasNavigated = useRef(false);
 
   // Load cached restaurant on focus and auto-navigate if exists
@@ -47,23 +51,21 @@ export default function RestaurantTab() {
   const loadAndNavigate = async () => {
     try {
       setIsLoading(true);
+      setReportRestaurant(null);
       const stored = await AsyncStorage.getItem(LAST_RESTAURANT_KEY);
 
       if (stored && !hasNavigated.current) {
         const parsed = JSON.parse(stored) as CachedRestaurant;
-        hasNavigated.current = true;
+
+        if (parsed.batchId) {
+          // Let the user pick between the menu and the report card
+          setReportRestaurant(parsed);
+          return;
+        }
 
         // Automatically navigate to the restaurant page
-        router.push({
-          pathname: '/restaurant',
-          params: {
-            placeId: parsed.placeId,
-            restaurantName: parsed.name,
-            address: parsed.address,
-            lat: parsed.lat?.toString() || '',
-            lng: parsed.lng?.toString() || '',
-          },
-        });
+        hasNavigated.current = true;
+        openMenu(parsed);
       } else if (!stored) {
         // No cached restaurant - show empty state
         setHasNoCachedRestaurant(true);
@@ -76,6 +78,30 @@ export default function RestaurantTab() {
     }
   };
 
+  const openMenu = (saved: CachedRestaurant) => {
+    router.push({
+      pathname: '/restaurant',
+      params: {
+        placeId: saved.placeId,
+        restaurantName: saved.name,
+        address: saved.address,
+        lat: saved.lat?.toString() || '',
+        lng: saved.lng?.toString() || '',
+      },
+    });
+  };
+
+  const openReport = (saved: CachedRestaurant) => {
+    router.push({
+      pathname: '/restaurant-report',
+      params: {
+        placeId: saved.placeId,
+        restaurantName: saved.name,
+        batchId: saved.batchId || '',
+      },
+    });
+  };
+
   const handleGoToHome = () => {
     router.replace('/(tabs)');
   };
@@ -120,6 +146,38 @@ export default function RestaurantTab() {
     );
   }
 
+  if (reportRestaurant) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.emptyContainer}>
+          <View style={styles.emptyIconContainer}>
+            <Ionicons name="restaurant-outline" size={64} color={TEAL} />
+          </View>
+          <Text style={styles.emptyTitle}>{reportRestaurant.name}</Text>
+          {reportRestaurant.address ? (
+            <Text style={styles.restaurantAddress}>{reportRestaurant.address}</Text>
+          ) : null}
+
+          <Pressable
+            style={({ pressed }) => [styles.goHomeButton, pressed && { opacity: 0.8 }]}
+            onPress={() => openMenu(reportRestaurant)}
+          >
+            <Ionicons name="book-outline" size={20} color="#fff" />
+            <Text style={styles.goHomeButtonText}>View Menu</Text>
+          </Pressable>
+
+          <Pressable
+            style={({ pressed }) => [styles.reportButton, pressed && { opacity: 0.8 }]}
+            onPress={() => openReport(reportRestaurant)}
+          >
+            <Ionicons name="shield-checkmark-outline" size={20} color={TEAL} />
+            <Text style={styles.reportButtonText}>Safety Report Card</Text>
+          </Pressable>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   // This shouldn't normally be visible because we auto-navigate
   // But show a fallback loading state just in case
   return (
@@ -203,4 +261,28 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#fff',
   },
+  restaurantAddress: {
+    fontSize: 14,
+    color: TEXT_SECONDARY,
+    textAlign: 'center',
+    marginTop: -12,
+    marginBottom: 24,
+  },
+  reportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 10,
+    marginTop: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 28,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: TEAL,
+  },
+  reportButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: TEAL,
+  },
 });
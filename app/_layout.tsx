@@ -1,17 +1,37 @@
 import { Stack } from 'expo-router';
+import { useEffect } from 'react';
 import { UserPrefsProvider } from '../context/UserPrefsContext';
 import { MenuPrefetchProvider } from '../context/MenuPrefetchContext';
+import { AnalysisStreamProvider } from '../context/AnalysisStreamContext';
+import { BACKEND } from '../api/environment';
+import { installMockServer } from '../api/mock/mockServer';
+import { startDishCacheSweep } from '../utils/dishCache';
+import { loadPersistedMetrics } from '../utils/cacheMetrics';
+
+// Offline/demo mode: answer every backend and Places request from fixtures
+if (BACKEND.isMock) {
+  installMockServer();
+}
 
 export default function RootLayout() {
+  // Expired dish analyses are removed in the background rather than on read
+  useEffect(() => startDishCacheSweep(), []);
+  // Cache hit counts and API latencies carry over from earlier sessions
+  useEffect(() => {
+    loadPersistedMetrics();
+  }, []);
+
   return (
     <UserPrefsProvider>
       <MenuPrefetchProvider>
-        <Stack
-          screenOptions={{
-            headerShown: false,
-            animation: 'slide_from_right',
-          }}
-        />
+        <AnalysisStreamProvider>
+          <Stack
+            screenOptions={{
+              headerShown: false,
+              animation: 'slide_from_right',
+            }}
+          />
+        </AnalysisStreamProvider>
       </MenuPrefetchProvider>
     </UserPrefsProvider>
   );
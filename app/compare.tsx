@@ -0,0 +1,436 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useUserPrefs } from '../context/UserPrefsContext';
+import { CachedDish, getCachedDishes, searchCachedDishes } from '../utils/dishCache';
+import { normalizeDishName } from '../utils/dishNames';
+import {
+  CompareDishRef,
+  ComparedDish,
+  ComparisonGroup,
+  MAX_COMPARED_DISHES,
+  compareDishes,
+} from './utils/dishComparison';
+import { avoidAllergenNames } from './utils/menuFilters';
+
+const BG = '#020617';
+const CARD_BG = '#0f172a';
+const TEAL = '#14b8a6';
+const TEXT_PRIMARY = '#f8fafc';
+const TEXT_SECONDARY = '#94a3b8';
+const TEXT_MUTED = '#64748b';
+const DANGER = '#ef4444';
+const HIGHLIGHT_BG = 'rgba(20, 184, 166, 0.08)';
+
+const GROUP_TITLES: Record<ComparisonGroup, string> = {
+  nutrition: 'NUTRITION',
+  safety: 'ALLERGENS & DIGESTION',
+  organs: 'ORGAN IMPACT',
+};
+
+function toComparedDish(cached: CachedDish): ComparedDish {
+  return {
+    key: `${cached.normalizedName}|${cached.placeId || ''}`,
+    name: cached.dishName,
+    restaurantName: cached.restaurantName,
+    analysis: cached.analysis,
+  };
+}
+
+function parseDishRefs(raw: string | undefined): CompareDishRef[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((r) => typeof r?.dishName === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export default function CompareScreen() {
+  const router = useRouter();
+  const { dishes: dishesParam } = useLocalSearchParams();
+  const { allergens, profile, targets, organPriorities } = useUserPrefs();
+
+  const dishesValue = Array.isArray(dishesParam) ? dishesParam[0] : dishesParam;
+
+  const [dishes, setDishes] = useState<ComparedDish[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [searchResults, setSearchResults] = useState<CachedDish[]>([]);
+
+  // The dishes picked on the menu screen are read back from the dish cache
+  useEffect(() => {
+    let cancelled = false;
+    const refs = parseDishRefs(dishesValue).slice(0, MAX_COMPARED_DISHES);
+    getCachedDishes(refs).then((cached) => {
+      if (cancelled) return;
+      const found = cached.filter((c): c is NonNullable<typeof c> => !!c?.analysis?.ok);
+      if (found.length < refs.length) {
+        console.log('[Compare]', refs.length - found.length, 'dish(es) missing from the dish cache');
+      }
+      setDishes(found.map(toComparedDish));
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [dishesValue]);
+
+  // Saved dishes from any restaurant can be added as extra columns
+  useEffect(() => {
+    if (!normalizeDishName(search)) {
+      setSearchResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchCachedDishes(search).then((results) => {
+        if (!cancelled) setSearchResults(results.filter((r) => r.analysis?.ok).slice(0, 8));
+      });
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [search]);
+
+  const comparison = useMemo(
+    () =>
+      dishes.length >= 2
+        ? compareDishes(dishes, {
+            avoidAllergens: avoidAllergenNames(allergens),
+            goals: profile?.goals?.length ? profile.goals : profile?.primary_goal ? [profile.primary_goal] : [],
+            targets,
+            starredOrgans: organPriorities.filter((o) => o.is_starred).map((o) => o.organ_code),
+          })
+        : null,
+    [dishes, allergens, profile, targets, organPriorities]
+  );
+
+  const addDish = (cached: CachedDish) => {
+    const dish = toComparedDish(cached);
+    setDishes((prev) =>
+      prev.length >= MAX_COMPARED_DISHES || prev.some((d) => d.key === dish.key) ? prev : [...prev, dish]
+    );
+    setSearch('');
+  };
+
+  const removeDish = (key: string) => setDishes((prev) => prev.filter((d) => d.key !== key));
+
+  const canAdd = dishes.length < MAX_COMPARED_DISHES;
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Pressable
+          style={({ pressed }) => [styles.backRow, pressed && { opacity: 0.6 }]}
+          onPress={() => router.back()}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Ionicons name="chevron-back" size={20} color={TEAL} />
+          <Text style={styles.backText}>Back</Text>
+        </Pressable>
+
+        <Text style={styles.title}>Compare dishes</Text>
+
+        {loading && (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={TEAL} />
+          </View>
+        )}
+
+        {!loading && comparison?.best && (
+          <View style={styles.bestBanner}>
+            <Ionicons name="trophy-outline" size={18} color={TEAL} />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.bestTitle}>Best for your goals: {dishes[comparison.best.index].name}</Text>
+              {comparison.best.reasons.length > 0 && (
+                <Text style={styles.bestReasons}>{comparison.best.reasons.join(' · ')}</Text>
+              )}
+            </View>
+          </View>
+        )}
+
+        {!loading && comparison && !comparison.best && (
+          <Text style={styles.noteText}>Every dish here contains an allergen you avoid.</Text>
+        )}
+
+        {!loading && dishes.length > 0 && (
+          <View style={styles.table}>
+            {/* Column headers */}
+            <View style={styles.tableRow}>
+              <View style={styles.labelCell} />
+              {dishes.map((dish, i) => (
+                <View
+                  key={dish.key}
+                  style={[styles.headerCell, comparison?.best?.index === i && styles.headerCellBest]}
+                >
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => removeDish(dish.key)}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                  >
+                    <Ionicons name="close" size={14} color={TEXT_MUTED} />
+                  </TouchableOpacity>
+                  <Text style={styles.dishName} numberOfLines={3}>
+                    {dish.name}
+                  </Text>
+                  {dish.restaurantName ? (
+                    <Text style={styles.restaurantName} numberOfLines={1}>
+                      {dish.restaurantName}
+                    </Text>
+                  ) : null}
+                  {comparison?.ruledOut.includes(i) && <Text style={styles.ruledOutText}>Has your allergen</Text>}
+                </View>
+              ))}
+            </View>
+
+            {comparison &&
+              (Object.keys(GROUP_TITLES) as ComparisonGroup[]).map((group) => {
+                const rows = comparison.rows.filter((r) => r.group === group);
+                if (rows.length === 0) return null;
+                return (
+                  <View key={group}>
+                    <Text style={styles.groupTitle}>{GROUP_TITLES[group]}</Text>
+                    {rows.map((row) => (
+                      <View key={row.key} style={[styles.tableRow, row.highlighted && styles.tableRowHighlighted]}>
+                        <View style={styles.labelCell}>
+                          <Text style={[styles.rowLabel, row.highlighted && styles.rowLabelHighlighted]}>
+                            {row.label}
+                          </Text>
+                        </View>
+                        {row.cells.map((cell, i) => (
+                          <View key={`${row.key}-${dishes[i].key}`} style={styles.valueCell}>
+                            <Text style={[styles.valueText, row.bestIndexes.includes(i) && styles.valueTextBest]}>
+                              {cell}
+                            </Text>
+                          </View>
+                        ))}
+                      </View>
+                    ))}
+                  </View>
+                );
+              })}
+          </View>
+        )}
+
+        {!loading && dishes.length < 2 && (
+          <Text style={styles.noteText}>Add at least two analyzed dishes to compare them.</Text>
+        )}
+
+        {!loading && canAdd && (
+          <View style={styles.addSection}>
+            <Text style={styles.groupTitle}>ADD A SAVED DISH</Text>
+            <View style={styles.searchBox}>
+              <Ionicons name="search" size={16} color={TEXT_MUTED} style={{ marginRight: 8 }} />
+              <TextInput
+                style={styles.searchInput}
+                placeholder="Search dishes you've analyzed..."
+                placeholderTextColor={TEXT_MUTED}
+                value={search}
+                onChangeText={setSearch}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+            {searchResults.map((result) => (
+              <TouchableOpacity
+                key={`${result.normalizedName}|${result.placeId || ''}`}
+                style={styles.searchResult}
+                onPress={() => addDish(result)}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.searchResultName}>{result.dishName}</Text>
+                  {result.restaurantName ? (
+                    <Text style={styles.restaurantName}>{result.restaurantName}</Text>
+                  ) : null}
+                </View>
+                <Ionicons name="add-circle-outline" size={20} color={TEAL} />
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: BG,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 40,
+  },
+  backRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  backText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: TEAL,
+    marginLeft: 4,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: TEXT_PRIMARY,
+    marginBottom: 16,
+  },
+  centered: {
+    paddingVertical: 48,
+    alignItems: 'center',
+  },
+  noteText: {
+    fontSize: 14,
+    color: TEXT_SECONDARY,
+    marginVertical: 12,
+  },
+  bestBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    padding: 14,
+    marginBottom: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(20, 184, 166, 0.3)',
+    backgroundColor: HIGHLIGHT_BG,
+  },
+  bestTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: TEXT_PRIMARY,
+  },
+  bestReasons: {
+    fontSize: 13,
+    color: TEXT_SECONDARY,
+    marginTop: 4,
+  },
+  table: {
+    borderRadius: 14,
+    backgroundColor: CARD_BG,
+    paddingVertical: 8,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'stretch',
+    paddingHorizontal: 8,
+  },
+  tableRowHighlighted: {
+    backgroundColor: HIGHLIGHT_BG,
+  },
+  labelCell: {
+    width: 76,
+    paddingVertical: 8,
+    justifyContent: 'center',
+  },
+  headerCell: {
+    flex: 1,
+    padding: 6,
+    marginHorizontal: 2,
+    borderRadius: 10,
+  },
+  headerCellBest: {
+    borderWidth: 1,
+    borderColor: TEAL,
+  },
+  removeButton: {
+    alignSelf: 'flex-end',
+  },
+  dishName: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: TEXT_PRIMARY,
+  },
+  restaurantName: {
+    fontSize: 11,
+    color: TEXT_MUTED,
+    marginTop: 2,
+  },
+  ruledOutText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: DANGER,
+    marginTop: 4,
+  },
+  groupTitle: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: TEXT_MUTED,
+    letterSpacing: 1.5,
+    marginTop: 16,
+    marginBottom: 6,
+    paddingHorizontal: 8,
+  },
+  rowLabel: {
+    fontSize: 12,
+    color: TEXT_SECONDARY,
+  },
+  rowLabelHighlighted: {
+    color: TEAL,
+    fontWeight: '700',
+  },
+  valueCell: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+    justifyContent: 'center',
+  },
+  valueText: {
+    fontSize: 12,
+    color: TEXT_PRIMARY,
+  },
+  valueTextBest: {
+    color: TEAL,
+    fontWeight: '700',
+  },
+  addSection: {
+    marginTop: 8,
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: CARD_BG,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 14,
+    color: TEXT_PRIMARY,
+  },
+  searchResult: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 4,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#1e293b',
+  },
+  searchResultName: {
+    fontSize: 14,
+    color: TEXT_PRIMARY,
+  },
+});
@@ -16,11 +16,21 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 // Note: useSafeAreaInsets removed - using inline action buttons instead of sticky footer
-import { AnalyzeDishResponse, analyzeDish, fetchDishImage, pollOrgansStatus } from '../api/api';
+import {
+  ANALYSIS_STAGES,
+  AnalysisStage,
+  AnalyzeDishResponse,
+  ApiError,
+  fetchDishImage,
+} from '../api/api';
 import { buildDishViewModel, DishOrganLine } from './utils/dishViewModel';
+import { buildMealLog } from './utils/mealLog';
+import { analyzedPortionFactor, applyPortion, portionEstimate } from './utils/portion';
+import { matchAllergenTerm, ontologyEntry } from './utils/allergenOntology';
 import { cacheDishAnalysis, getCachedDish } from '../utils/dishCache';
 import { recordCacheHit, recordCacheMiss, recordCacheStore, logMetrics } from '../utils/cacheMetrics';
 import { useUserPrefs } from '../context/UserPrefsContext';
+import { useAnalysisSession, useAnalysisStream } from '../context/AnalysisStreamContext';
 import BrandTitle from '../components/BrandTitle';
 import * as Haptics from 'expo-haptics';
 
@@ -30,11 +40,13 @@ import {
   SPACING,
   DishHeader,
   NutritionSection,
+  PortionControl,
   // New v3 modules
   AllergensModule,
   DigestiveImpactModule,
   LongTermHealthModule,
   InlineActionButtons,
+  PendingSectionCard,
 } from '../components/dish';
 import type { AllergenWithSource, FodmapCategory, OrganImpact } from '../components/dish';
 
@@ -150,6 +162,33 @@ function DishLoadingScreen({ dishName, imageUrl, fromPhoto }: { dishName: string
   );
 }
 
+// User-facing message for a failed analysis, based on the typed API error
+function getAnalysisErrorMessage(apiError: ApiError | undefined, fallback?: string): string {
+  switch (apiError?.kind) {
+    case 'timeout':
+      return 'This analysis is taking longer than usual. Please try again in a moment.';
+    case 'network':
+      return 'We couldn\'t reach the server. Check your connection and try again.';
+    case 'http':
+      return apiError.status >= 500
+        ? 'Our analysis service is having trouble right now. Please try again shortly.'
+        : apiError.message;
+    case 'invalid_json':
+      return 'We received an unexpected response from the server. Please try again.';
+    default:
+      return fallback || 'Analysis failed';
+  }
+}
+
+// Progress label shown on the action row while stages are still streaming in
+const STAGE_PROGRESS_LABELS: Record<AnalysisStage, string> = {
+  allergens: 'Scanning for allergens...',
+  nutrition: 'Calculating nutrition...',
+  likely_recipe: 'Finding recipe match...',
+  full_recipe: 'Writing the full recipe...',
+  organs: 'Analyzing body impact...',
+};
+
 // Get overall body impact level from organ lines
 function getOverallBodyImpactLevel(organLines: DishOrganLine[]): 'high' | 'medium' | 'low' | null {
   if (!organLines || organLines.length === 0) return null;
@@ -163,7 +202,8 @@ function getOverallBodyImpactLevel(organLines: DishOrganLine[]): 'high' | 'mediu
 export default function DishScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
-  const { selectedAllergens = [], logMealAction } = useUserPrefs();
+  const { allergenPrefs, logMealAction } = useUserPrefs();
+  const { startAnalysis, refreshAnalysis, cancelAnalysis } = useAnalysisStream();
 
   const dishName = params.dishName as string;
   const restaurantName = params.restaurantName as string | undefined;
@@ -180,18 +220,39 @@ export default function DishScreen() {
   const [isLoggingMeal, setIsLoggingMeal] = useState(false);
   const [mealLogged, setMealLogged] = useState(false);
   const [organsLoading, setOrgansLoading] = useState(false);
+  // Portion the user says they're eating; null keeps the analyzed portion
+  const [portionFactor, setPortionFactor] = useState<number | null>(null);
+  // The analysis session outlives this screen (router.replace unmounts it) so
+  // likely-recipe can keep receiving late stages and the cache gets the organs;
+  // it is only cancelled when this screen starts a new analysis.
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const session = useAnalysisSession(sessionId);
 
   // Note: Bottom sheet modals removed - using expandable modules now
 
   useEffect(() => {
+    setPortionFactor(null);
     loadDishAnalysis();
   }, [dishName]);
 
+  // Move the streamed session into screen state once it settles
+  useEffect(() => {
+    if (!session) return;
+    if (session.status === 'failed') {
+      setError(getAnalysisErrorMessage(session.apiError, session.error || undefined));
+      setIsLoading(false);
+    } else if (session.status === 'complete' && session.analysis) {
+      setAnalysis(session.analysis);
+      setOrgansLoading(session.organsPending);
+      setIsLoading(false);
+    }
+  }, [session]);
+
   // Auto-redirect to likely-recipe screen once analysis completes
   useEffect(() => {
     if (!isLoading && analysis && analysis.ok && !error) {
       const dishImageUrl = imageUrl || analysis.recipe_image || fetchedImageUrl || '';
-      const vm = buildDishViewModel(analysis, selectedAllergens);
+      const vm = buildDishViewModel(analysis, allergenPrefs);
 
       router.replace({
         pathname: '/likely-recipe',
@@ -211,6 +272,10 @@ export default function DishScreen() {
           nutritionSource: analysis.nutrition_source || '',
           restaurantName: restaurantName || '',
           restaurantAddress: restaurantAddress || '',
+          placeId: placeId || '',
+          fromPhoto: fromPhoto ? 'true' : '',
+          analysisSession: sessionId || '',
+          ...portionParams(analysis),
         },
       });
     }
@@ -240,11 +305,51 @@ export default function DishScreen() {
       setError(null);
       setFetchedImageUrl(null);
 
+      let storedOnce = false;
+      const cacheImageUrl = imageUrl || undefined;
+      const payload = {
+        dishName,
+        restaurantName: restaurantName || null,
+        placeId: placeId || null,
+        source: fromPhoto ? 'photo_analysis' : 'standalone_dish_search',
+        imageUrl: imageUrl || null,
+        fullRecipe: true,
+        skip_organs: true,
+      };
+      // Runs for the final result and again when deferred organs arrive
+      const storeResult = async (result: AnalyzeDishResponse) => {
+        const correctedDishName = result.dishName || dishName;
+        try {
+          await cacheDishAnalysis(correctedDishName, result, {
+            restaurantName,
+            restaurantAddress,
+            placeId,
+            imageUrl: cacheImageUrl || result.recipe_image || undefined,
+            source: restaurantName ? 'restaurant' : 'standalone',
+          });
+          if (!storedOnce) {
+            storedOnce = true;
+            recordCacheStore(correctedDishName);
+            if (!imageUrl && !result.recipe_image) {
+              fetchImageIfNeeded(null);
+            }
+          }
+        } catch (cacheError) {
+          console.error('Failed to cache dish analysis:', cacheError);
+        }
+      };
+
       if (!fromPhoto) {
         const cached = await getCachedDish(dishName, placeId);
         if (cached && cached.analysis) {
           recordCacheHit(dishName);
           logMetrics(); // Log current stats
+          if (cached.stale) {
+            // Show the cached analysis now; likely-recipe picks up the refresh and what changed
+            console.log('Dish cache entry is stale, refreshing in background:', dishName);
+            if (sessionId) cancelAnalysis(sessionId);
+            setSessionId(refreshAnalysis(payload, cached.analysis, { onResult: storeResult }));
+          }
           setAnalysis(cached.analysis);
           setIsLoading(false);
           const cachedImage = cached.imageUrl || cached.analysis.recipe_image;
@@ -256,125 +361,44 @@ export default function DishScreen() {
         recordCacheMiss(dishName);
       }
 
-      const result = await analyzeDish({
-        dishName,
-        restaurantName: restaurantName || null,
-        placeId: placeId || null,
-        source: fromPhoto ? 'photo_analysis' : 'standalone_dish_search',
-        imageUrl: imageUrl || null,
-        fullRecipe: true,
-        skip_organs: true,
-      });
-
-      if (result.ok) {
-        setAnalysis(result);
-        const correctedDishName = result.dishName || dishName;
-        const cacheImageUrl = imageUrl || result.recipe_image || undefined;
-
-        // Start organs polling in background if organs are pending
-        if (result.organs_pending && result.organs_poll_key) {
-          setOrgansLoading(true);
-          pollOrgansStatus(result.organs_poll_key)
-            .then(async (organsResult) => {
-              if (organsResult.ok && organsResult.ready && organsResult.organs) {
-                // Update analysis with organs data
-                const updated = {
-                  ...result,
-                  organs: organsResult.organs,
-                  organs_pending: false,
-                  organs_poll_key: undefined,
-                };
-                setAnalysis(updated);
-                // Update cache with organs data
-                try {
-                  await cacheDishAnalysis(correctedDishName, updated, {
-                    restaurantName,
-                    restaurantAddress,
-                    placeId,
-                    imageUrl: cacheImageUrl,
-                    source: restaurantName ? 'restaurant' : 'standalone',
-                  });
-                } catch (cacheError) {
-                  console.error('Failed to cache organs update:', cacheError);
-                }
-              }
-            })
-            .catch((e) => {
-              console.error('Organs polling error:', e);
-            })
-            .finally(() => {
-              setOrgansLoading(false);
-            });
-        }
-
-        await cacheDishAnalysis(correctedDishName, result, {
-          restaurantName,
-          restaurantAddress,
-          placeId,
-          imageUrl: cacheImageUrl,
-          source: restaurantName ? 'restaurant' : 'standalone',
-        });
-        recordCacheStore(correctedDishName);
-        if (!imageUrl && !result.recipe_image) {
-          fetchImageIfNeeded(null);
-        }
-      } else {
-        setError(result.error || 'Analysis failed');
+      if (sessionId) {
+        cancelAnalysis(sessionId);
       }
+      const id = startAnalysis(payload, { onResult: storeResult });
+      setSessionId(id);
     } catch (e: any) {
       console.error('Dish analysis error:', e);
       setError(e?.message || 'Failed to analyze dish');
-    } finally {
       setIsLoading(false);
     }
   };
 
-  const viewModel = analysis && analysis.ok ? buildDishViewModel(analysis, selectedAllergens) : null;
+  // While streaming, render whatever stages have arrived; afterwards the final result
+  const streamingAnalysis =
+    session?.status === 'streaming' && session.stages.length > 0 ? session.analysis : null;
+  const current = streamingAnalysis || analysis;
+  const isStreaming = !!streamingAnalysis;
+  const isStageReady = (stage: AnalysisStage) => !isStreaming || !!session?.stages.includes(stage);
+  const nextStage = isStreaming ? ANALYSIS_STAGES.find((stage) => !isStageReady(stage)) : undefined;
+
+  const chosenPortion = current?.ok ? portionFactor ?? analyzedPortionFactor(current) : 1;
+  const displayed = current?.ok ? applyPortion(current, chosenPortion) : current;
+
+  const viewModel = displayed && displayed.ok ? buildDishViewModel(displayed, allergenPrefs) : null;
 
   const handleLogMeal = async () => {
     if (!analysis || isLoggingMeal) return;
 
     setIsLoggingMeal(true);
     try {
-      const organImpacts: Record<string, number> = {};
-      if (analysis.organs?.organs) {
-        for (const org of analysis.organs.organs) {
-          if (org.organ && typeof org.score === 'number') {
-            organImpacts[org.organ.toLowerCase()] = org.score;
-          }
-        }
-      }
-
-      const riskFlags: string[] = [];
-      if (analysis.allergen_flags) {
-        for (const flag of analysis.allergen_flags) {
-          if (flag.present === 'yes') {
-            riskFlags.push(`allergen_${flag.kind}`);
-          }
-        }
-      }
-      if (analysis.fodmap_flags?.level === 'high') {
-        riskFlags.push('high_fodmap');
-      }
-      if (analysis.nutrition_summary?.sodium_mg && analysis.nutrition_summary.sodium_mg > 1000) {
-        riskFlags.push('high_sodium');
-      }
-
-      const result = await logMealAction({
-        dish_name: analysis.dishName || dishName,
-        dish_id: `${dishName}-${Date.now()}`,
-        restaurant_name: restaurantName,
-        calories: analysis.nutrition_summary?.energyKcal || undefined,
-        protein_g: analysis.nutrition_summary?.protein_g || undefined,
-        carbs_g: analysis.nutrition_summary?.carbs_g || undefined,
-        fat_g: analysis.nutrition_summary?.fat_g || undefined,
-        fiber_g: analysis.nutrition_summary?.fiber_g || undefined,
-        sugar_g: analysis.nutrition_summary?.sugar_g || undefined,
-        sodium_mg: analysis.nutrition_summary?.sodium_mg || undefined,
-        organ_impacts: Object.keys(organImpacts).length > 0 ? organImpacts : undefined,
-        risk_flags: riskFlags.length > 0 ? riskFlags : undefined,
-        full_analysis: analysis,
+      const mealData = buildMealLog(analysis, {
+        dishName: analysis.dishName || dishName,
+        dishId: `${dishName}-${Date.now()}`,
+        restaurantName,
+        portionFactor: portionFactor ?? undefined,
+        userAllergens: allergenPrefs,
       });
+      const result = await logMealAction(mealData);
 
       if (result.success) {
         setMealLogged(true);
@@ -387,7 +411,7 @@ export default function DishScreen() {
         } else {
           Alert.alert(
             'Meal Logged!',
-            `${analysis.dishName || dishName} added to tracker.${analysis.nutrition_summary?.energyKcal ? `\n+${Math.round(analysis.nutrition_summary.energyKcal)} cal` : ''}`,
+            `${mealData.dish_name} added to tracker.${mealData.calories ? `\n+${mealData.calories} cal` : ''}`,
             [
               { text: 'View Tracker', onPress: () => router.push('/(tabs)/explore' as any) },
               { text: 'OK' },
@@ -404,6 +428,16 @@ export default function DishScreen() {
     }
   };
 
+  // The recipe screen rescales the analyzed nutrition to the chosen portion
+  const portionParams = (base: AnalyzeDishResponse) => {
+    const estimate = portionEstimate(base);
+    return {
+      analyzedPortion: String(analyzedPortionFactor(base)),
+      portionFactor: portionFactor !== null ? String(portionFactor) : '',
+      portionEstimate: estimate ? JSON.stringify(estimate) : '',
+    };
+  };
+
   const handleViewRecipe = () => {
     const dishImageUrl = imageUrl || analysis?.recipe_image || fetchedImageUrl || '';
     router.push({
@@ -422,6 +456,11 @@ export default function DishScreen() {
         fodmapSummary: analysis?.fodmap_summary || '',
         organs: analysis?.organs ? JSON.stringify(analysis.organs) : '',
         nutritionSource: analysis?.nutrition_source || '',
+        restaurantName: restaurantName || '',
+        placeId: placeId || '',
+        fromPhoto: fromPhoto ? 'true' : '',
+        analysisSession: sessionId || '',
+        ...(analysis?.ok ? portionParams(analysis) : {}),
       },
     });
   };
@@ -430,19 +469,21 @@ export default function DishScreen() {
   const organLines = viewModel?.organLines || [];
   const bodyImpactLevel = getOverallBodyImpactLevel(organLines);
   const activeNutrition = viewModel?.nutrition || null;
-  const dishImageUrl = imageUrl || analysis?.recipe_image || fetchedImageUrl || null;
-  const price = (analysis?.likely_recipe as { price?: number | string })?.price;
+  const dishImageUrl = imageUrl || current?.recipe_image || fetchedImageUrl || null;
+  const price = (current?.likely_recipe as { price?: number | string })?.price;
 
   // Build allergen data for the new AllergensModule
-  const allergensWithSource: AllergenWithSource[] = (analysis?.allergen_flags || []).map(flag => {
+  const allergensWithSource: AllergenWithSource[] = (displayed?.allergen_flags || []).map(flag => {
     // Find source from likely_recipe ingredients if available
     let source: string | null = null;
-    if (analysis?.likely_recipe?.ingredients) {
-      const ingredients = analysis.likely_recipe.ingredients as Array<{ name?: string; ingredient?: string }>;
+    if (current?.likely_recipe?.ingredients) {
+      const ingredients = current.likely_recipe.ingredients as Array<{ name?: string; ingredient?: string }>;
+      const entry = ontologyEntry(flag.kind);
       const matchingIngredients = ingredients
         .filter(ing => {
           const ingName = (ing.name || ing.ingredient || '').toLowerCase();
-          return ingName.includes(flag.kind.toLowerCase());
+          // Through the ontology, so "cashews" counts for tree_nut and "ghee" for milk
+          return entry ? matchAllergenTerm(ingName, entry) !== null : ingName.includes(flag.kind.toLowerCase());
         })
         .map(ing => ing.name || ing.ingredient)
         .filter(Boolean);
@@ -454,13 +495,14 @@ export default function DishScreen() {
     if (!source && flag.message) {
       source = flag.message;
     }
+    const pill = viewModel?.allergens?.find(a => a.name.toLowerCase() === flag.kind.toLowerCase());
     return {
       name: flag.kind,
       present: flag.present,
       source,
-      isUserAllergen: viewModel?.allergens?.some(a =>
-        a.name.toLowerCase() === flag.kind.toLowerCase() && a.isUserAllergen
-      ) || false,
+      isUserAllergen: pill?.isUserAllergen || false,
+      severity: pill?.severity ?? null,
+      risk: pill?.risk ?? null,
     };
   });
 
@@ -485,8 +527,8 @@ export default function DishScreen() {
       concern: line.sentence || `${line.severity === 'high' ? 'Significant' : 'Moderate'} impact on ${line.organLabel.toLowerCase()}`,
     }));
 
-  // LOADING STATE - Show analyzing UI (UNCHANGED)
-  if (isLoading) {
+  // LOADING STATE - Show analyzing UI until the first stage streams in
+  if (isLoading && !isStreaming) {
     return (
       <SafeAreaView style={styles.container}>
         <DishLoadingScreen dishName={dishName} imageUrl={imageUrl} fromPhoto={fromPhoto} />
@@ -532,10 +574,10 @@ export default function DishScreen() {
         {/* ZONE 1: DishHeader - hero image, dish name, description (with see more), price */}
         <DishHeader
           imageUrl={dishImageUrl}
-          dishName={analysis?.dishName || dishName}
+          dishName={current?.dishName || dishName}
           description={
-            analysis?.full_recipe?.full_recipe?.description ||
-            analysis?.full_recipe?.full_recipe?.introduction ||
+            current?.full_recipe?.full_recipe?.description ||
+            current?.full_recipe?.full_recipe?.introduction ||
             null
           }
           price={price}
@@ -544,8 +586,16 @@ export default function DishScreen() {
 
         {viewModel && (
           <>
+            <PortionControl
+              value={chosenPortion}
+              onChange={setPortionFactor}
+              estimate={current?.ok ? portionEstimate(current) : null}
+            />
+
             {/* ZONE 2: NutritionSection - Macros bar (kcal in teal, rest white) */}
-            {activeNutrition && (
+            {!isStageReady('nutrition') ? (
+              <PendingSectionCard title="Nutrition" message={STAGE_PROGRESS_LABELS.nutrition} />
+            ) : activeNutrition && (
               <NutritionSection
                 nutrition={activeNutrition}
                 insights={viewModel.nutritionInsights}
@@ -553,31 +603,40 @@ export default function DishScreen() {
               />
             )}
 
-            {/* MODULE 1: Allergens - tags always visible, sources on expand */}
-            <AllergensModule allergens={allergensWithSource} />
-
-            {/* MODULE 2: Digestive Impact - FODMAP breakdown */}
-            <DigestiveImpactModule
-              level={viewModel.fodmapLevel as 'high' | 'medium' | 'moderate' | 'low' | null}
-              categories={fodmapCategories}
-              explanation={viewModel.fodmapSentence}
-            />
+            {/* MODULES 1-2: Allergens and Digestive Impact arrive together in the allergens stage */}
+            {!isStageReady('allergens') ? (
+              <PendingSectionCard title="Allergens" message={STAGE_PROGRESS_LABELS.allergens} />
+            ) : (
+              <>
+                {/* MODULE 1: Allergens - tags always visible, sources on expand */}
+                <AllergensModule allergens={allergensWithSource} alert={viewModel.allergenAlert} />
+
+                {/* MODULE 2: Digestive Impact - FODMAP breakdown */}
+                <DigestiveImpactModule
+                  level={viewModel.fodmapLevel as 'high' | 'medium' | 'moderate' | 'low' | null}
+                  categories={fodmapCategories}
+                  explanation={viewModel.fodmapSentence}
+                />
+              </>
+            )}
 
             {/* MODULE 3: Long-term Health - Organ impacts (deduplicated) */}
             <LongTermHealthModule
               overallLevel={bodyImpactLevel === 'medium' ? 'moderate' : bodyImpactLevel}
               organImpacts={organImpacts}
-              loading={organsLoading}
+              loading={organsLoading || !isStageReady('organs')}
             />
 
             {/* ACTION BUTTONS - Inline, only shown when analysis complete */}
             <InlineActionButtons
-              isAnalysisLoading={false}
+              isAnalysisLoading={isStreaming}
+              loadingMessage={nextStage ? STAGE_PROGRESS_LABELS[nextStage] : undefined}
+              loadingProgress={session ? session.stages.length / ANALYSIS_STAGES.length : 0}
               onLogMeal={handleLogMeal}
               onViewRecipe={handleViewRecipe}
               isLoggingMeal={isLoggingMeal}
               mealLogged={mealLogged}
-              hasRecipe={!!analysis?.likely_recipe}
+              hasRecipe={!!current?.likely_recipe}
             />
           </>
         )}
@@ -1,7 +1,9 @@
 import { Ionicons } from '@expo/vector-icons';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
+  ActivityIndicator,
+  Alert,
   Image,
   Linking,
   Pressable,
@@ -14,6 +16,7 @@ import {
 } from 'react-native';
 import {
   AllergenFlag,
+  AnalyzeDishResponse,
   DishOrgansBlock,
   FodmapFlag,
   FullRecipeData,
@@ -22,7 +25,40 @@ import {
   LikelyRecipe,
   NutritionInsights,
   NutritionSummary,
+  SelectionResult,
+  analyzeDish,
 } from '../api/api';
+import { useAnalysisSession } from '../context/AnalysisStreamContext';
+import { useUserPrefs } from '../context/UserPrefsContext';
+import { getCachedDish } from '../utils/dishCache';
+import {
+  AnalysisChangesBanner,
+  ComponentBreakdownSheet,
+  ComponentSelector,
+  InlineActionButtons,
+  PortionControl,
+} from '../components/dish';
+import {
+  PortionEstimate,
+  analyzedPortionFactor,
+  applyPortion,
+  formatPortionFactor,
+  portionEstimate,
+  scaleNutrition,
+} from './utils/portion';
+import { userAllergenMatches } from './utils/allergenOntology';
+import {
+  applySelection,
+  breakdownComponents,
+  defaultComponentIds,
+  isDefaultSelection,
+  isSameSelection,
+  recomputeSelection,
+  selectableComponents,
+} from './utils/componentSelection';
+import { buildMealLog } from './utils/mealLog';
+import type { UserAllergenPref } from './utils/allergenSeverity';
+import * as Haptics from 'expo-haptics';
 
 const BG = '#020617';
 const CARD_BG = '#0f172a';
@@ -212,6 +248,7 @@ function CollapsibleSection({
 export default function LikelyRecipeScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
+  const { allergenPrefs, logMealAction } = useUserPrefs();
 
   // Collapsible state - All sections collapsed by default
   const [ingredientsExpanded, setIngredientsExpanded] = useState(false);
@@ -240,9 +277,118 @@ export default function LikelyRecipeScreen() {
   const allergensJson = params.allergens as string | undefined;
   const allergenSummary = params.allergenSummary as string | undefined;
   const fodmapJson = params.fodmap as string | undefined;
-  const fodmapSummary = params.fodmapSummary as string | undefined;
+  let fodmapSummary = params.fodmapSummary as string | undefined;
   const organsJson = params.organs as string | undefined;
   const nutritionSource = params.nutritionSource as string | undefined;
+  const restaurantName = params.restaurantName as string | undefined;
+  const placeId = params.placeId as string | undefined;
+  const fromPhoto = params.fromPhoto === 'true';
+  const analysisSessionId = params.analysisSession as string | undefined;
+  const analyzedPortionParam = Number(params.analyzedPortion) || 1;
+  const portionFactorParam = Number(params.portionFactor) || null;
+  const portionEstimateJson = params.portionEstimate as string | undefined;
+
+  // Live analysis from dish.tsx, for stages that finish after navigating here
+  const session = useAnalysisSession(analysisSessionId || null);
+  const [changesDismissed, setChangesDismissed] = useState(false);
+  const [portionFactor, setPortionFactor] = useState<number | null>(portionFactorParam);
+  const [cachedAnalysis, setCachedAnalysis] = useState<AnalyzeDishResponse | null>(null);
+  const [isLoggingMeal, setIsLoggingMeal] = useState(false);
+  const [mealLogged, setMealLogged] = useState(false);
+  // Plate components the user is eating; null for the whole plate
+  const [selectedComponentIds, setSelectedComponentIds] = useState<string[] | null>(null);
+  // Components picked in the selector while the server works out their nutrition
+  const [pendingComponentIds, setPendingComponentIds] = useState<string[] | null>(null);
+  // Server-computed selection for when the analysis lacks per-component data
+  const [serverSelection, setServerSelection] = useState<SelectionResult | null>(null);
+  const [selectionLoading, setSelectionLoading] = useState(false);
+  const [breakdownVisible, setBreakdownVisible] = useState(false);
+
+  const live = session?.analysis;
+  const hasLiveAnalysis = session?.status === 'complete' && !!live?.ok;
+
+  // Dishes served straight from the cache have no session; logging needs their full analysis
+  useEffect(() => {
+    if (!dishName || hasLiveAnalysis) return;
+    let cancelled = false;
+    getCachedDish(dishName, placeId || undefined).then((cached) => {
+      if (!cancelled && cached?.analysis.ok) setCachedAnalysis(cached.analysis);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [dishName, placeId, hasLiveAnalysis]);
+
+  const analysis = hasLiveAnalysis ? live : cachedAnalysis;
+
+  // Server-side recompute for components the analysis has no per-component data for
+  const requestSelection = useCallback(async (componentIds: string[], signal?: AbortSignal): Promise<SelectionResult | null> => {
+    if (!dishName) return null;
+    const result = await analyzeDish(
+      {
+        dishName,
+        restaurantName: restaurantName || null,
+        placeId: placeId || null,
+        source: fromPhoto ? 'photo_analysis' : 'standalone_dish_search',
+        imageUrl: imageUrl || null,
+        selection_component_ids: componentIds,
+        skip_organs: true,
+      },
+      signal
+    );
+    if (result.ok && result.selection_custom) return result.selection_custom;
+    console.log('Component selection unavailable:', result.error || 'no selection_custom');
+    return null;
+  }, [dishName, restaurantName, placeId, fromPhoto, imageUrl]);
+
+  const selectionFor = (base: AnalyzeDishResponse, componentIds: string[]): SelectionResult | null =>
+    recomputeSelection(base, componentIds) ??
+    (serverSelection && isSameSelection(serverSelection.componentIds, componentIds) ? serverSelection : null);
+
+  // Ask the server for selection_custom when the components can't be added up here. The
+  // selection only changes once it succeeds, so nutrition and logging never fall back to the whole plate.
+  useEffect(() => {
+    if (!analysis?.ok || !pendingComponentIds) return;
+
+    const controller = new AbortController();
+    setSelectionLoading(true);
+    requestSelection(pendingComponentIds, controller.signal).then((selection) => {
+      if (controller.signal.aborted) return;
+      setSelectionLoading(false);
+      setPendingComponentIds(null);
+      if (selection) {
+        setServerSelection(selection);
+        setSelectedComponentIds(pendingComponentIds);
+      } else {
+        Alert.alert('Error', 'Could not work out the nutrition for just those components. Please try again.');
+      }
+    });
+
+    return () => {
+      controller.abort();
+      setSelectionLoading(false);
+    };
+  }, [analysis, pendingComponentIds, requestSelection]);
+
+  const handleSelectComponents = (ids: string[]) => {
+    if (!analysis?.ok) return;
+    const next = isDefaultSelection(analysis, ids) ? null : ids;
+    if (next && !selectionFor(analysis, next)) {
+      setPendingComponentIds(next);
+      return;
+    }
+    setPendingComponentIds(null);
+    setSelectedComponentIds(next);
+  };
+
+  const plateComponents = useMemo(() => (analysis?.ok ? selectableComponents(analysis) : []), [analysis]);
+  const sheetComponents = useMemo(
+    () =>
+      analysis?.ok
+        ? breakdownComponents(applyPortion(analysis, portionFactor ?? analyzedPortionFactor(analysis)), allergenPrefs)
+        : [],
+    [analysis, portionFactor, allergenPrefs]
+  );
 
   let likelyRecipe: LikelyRecipe | null = null;
   let fullRecipeResponse: FullRecipeResponse | null = null;
@@ -252,6 +398,8 @@ export default function LikelyRecipeScreen() {
   let allergens: AllergenFlag[] = [];
   let fodmap: FodmapFlag | null = null;
   let organs: DishOrgansBlock | null = null;
+  let analyzedPortion = analyzedPortionParam;
+  let estimate: PortionEstimate | null = null;
 
   try {
     if (likelyRecipeJson) likelyRecipe = JSON.parse(likelyRecipeJson);
@@ -266,10 +414,115 @@ export default function LikelyRecipeScreen() {
     if (allergensJson) allergens = JSON.parse(allergensJson);
     if (fodmapJson) fodmap = JSON.parse(fodmapJson);
     if (organsJson) organs = JSON.parse(organsJson);
+    if (portionEstimateJson) estimate = JSON.parse(portionEstimateJson);
   } catch (e) {
     console.error('Error parsing likely recipe params:', e);
   }
 
+  if (live?.ok) {
+    likelyRecipe = live.likely_recipe ?? likelyRecipe;
+    nutrition = live.nutrition_summary ?? nutrition;
+    nutritionInsights = live.nutrition_insights ?? nutritionInsights;
+    allergens = live.allergen_flags ?? allergens;
+    fodmap = live.fodmap_flags ?? fodmap;
+    organs = live.organs ?? organs;
+    analyzedPortion = analyzedPortionFactor(live);
+    estimate = portionEstimate(live) ?? estimate;
+    if (live.full_recipe?.full_recipe) {
+      fullRecipe = live.full_recipe.full_recipe;
+    }
+  }
+  // Only the selected components: their nutrition and flags replace the whole plate's
+  const selection = analysis?.ok && selectedComponentIds ? selectionFor(analysis, selectedComponentIds) : null;
+  if (analysis?.ok && selection) {
+    const selected = applySelection(analysis, selection);
+    nutrition = selected.nutrition_summary ?? null;
+    allergens = selected.allergen_flags ?? [];
+    fodmap = selected.fodmap_flags ?? null;
+    fodmapSummary = undefined;
+  }
+  // Nutrition is analyzed for one portion; show it for the portion the user chose
+  const chosenPortion = portionFactor ?? analyzedPortion;
+  if (nutrition) nutrition = scaleNutrition(nutrition, chosenPortion / analyzedPortion);
+
+  const logMealWithSelection = async (eaten: SelectionResult | null) => {
+    if (!analysis?.ok || isLoggingMeal) return;
+
+    setIsLoggingMeal(true);
+    try {
+      const mealData = buildMealLog(analysis, {
+        dishName: analysis.dishName || dishName || 'Unknown Dish',
+        dishId: `${dishName}-${Date.now()}`,
+        restaurantName: restaurantName || undefined,
+        selection: eaten,
+        portionFactor: portionFactor ?? undefined,
+        userAllergens: allergenPrefs,
+      });
+      const result = await logMealAction(mealData);
+
+      if (result.success) {
+        setMealLogged(true);
+        try {
+          await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        } catch {}
+
+        if (result.duplicate) {
+          Alert.alert('Already Logged', 'This dish was already logged today.', [{ text: 'OK' }]);
+        } else {
+          Alert.alert(
+            'Meal Logged!',
+            `${mealData.dish_name} added to tracker.${mealData.calories ? `\n+${mealData.calories} cal` : ''}`,
+            [
+              { text: 'View Tracker', onPress: () => router.push('/(tabs)/explore' as any) },
+              { text: 'OK' },
+            ]
+          );
+        }
+      } else {
+        Alert.alert('Error', result.error || 'Failed to log meal.');
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Something went wrong.');
+    } finally {
+      setIsLoggingMeal(false);
+    }
+  };
+
+  // Wait for a pending selection rather than log the one the selector no longer shows
+  const handleLogMeal = () => {
+    if (pendingComponentIds) return;
+    logMealWithSelection(selection);
+  };
+
+  // From the plate breakdown sheet: log only the components the user ate
+  const handleLogSelected = async (componentIds: string[]) => {
+    if (!analysis?.ok) return;
+    if (isDefaultSelection(analysis, componentIds)) {
+      setPendingComponentIds(null);
+      setSelectedComponentIds(null);
+      await logMealWithSelection(null);
+      return;
+    }
+
+    let eaten = selectionFor(analysis, componentIds);
+    if (!eaten) {
+      setSelectionLoading(true);
+      eaten = await requestSelection(componentIds);
+      setSelectionLoading(false);
+      if (!eaten) {
+        Alert.alert('Error', 'Could not work out the nutrition for just those components. Please try again.');
+        return;
+      }
+      setServerSelection(eaten);
+    }
+    setPendingComponentIds(null);
+    setSelectedComponentIds(componentIds);
+    await logMealWithSelection(eaten);
+  };
+
+  const organsPending =
+    !!session && (session.organsPending || (session.status === 'streaming' && !session.stages.includes('organs')));
+
   // Determine if we have enhanced recipe data
   const hasFullRecipe = !!fullRecipe && (fullRecipe.instructions?.length || 0) > 0;
 
@@ -398,6 +651,15 @@ export default function LikelyRecipeScreen() {
           </View>
         )}
 
+        {/* Cached analysis being re-checked, or what the re-check changed */}
+        {session && !changesDismissed && (
+          <AnalysisChangesBanner
+            refreshing={!!session.refreshing}
+            changes={session.changes || []}
+            onDismiss={() => setChangesDismissed(true)}
+          />
+        )}
+
         {/* Title Section - Name first */}
         <View style={styles.titleSection}>
           <Text style={styles.dishName}>{recipeTitle}</Text>
@@ -470,6 +732,35 @@ export default function LikelyRecipeScreen() {
           )}
         </View>
 
+        {/* What the user is actually eating; nutrition and allergens follow the selection */}
+        {analysis?.ok && (
+          <View style={styles.componentSelector}>
+            <ComponentSelector
+              components={plateComponents}
+              selectedIds={pendingComponentIds ?? selectedComponentIds ?? defaultComponentIds(analysis)}
+              onChange={handleSelectComponents}
+              loading={selectionLoading}
+            />
+          </View>
+        )}
+        {sheetComponents.length > 1 && (
+          <TouchableOpacity style={styles.breakdownLink} onPress={() => setBreakdownVisible(true)}>
+            <Ionicons name="pie-chart-outline" size={16} color={TEAL} />
+            <Text style={styles.breakdownLinkText}>Log only what you ate</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Logs the selected components at the portion chosen under Nutrition */}
+        {analysis?.ok && (
+          <InlineActionButtons
+            isAnalysisLoading={false}
+            onLogMeal={handleLogMeal}
+            isLoggingMeal={isLoggingMeal || !!pendingComponentIds}
+            mealLogged={mealLogged}
+            hasRecipe={false}
+          />
+        )}
+
         <View style={styles.divider} />
 
         {/* COLLAPSIBLE SECTIONS */}
@@ -479,10 +770,17 @@ export default function LikelyRecipeScreen() {
           <CollapsibleSection
             title="Nutrition"
             icon="flame-outline"
-            badge={nutrition.energyKcal ? `${Math.round(nutrition.energyKcal)} kcal` : undefined}
+            badge={
+              nutrition.energyKcal
+                ? `${Math.round(nutrition.energyKcal)} kcal${chosenPortion !== 1 ? ` · ${formatPortionFactor(chosenPortion)}×` : ''}`
+                : undefined
+            }
             expanded={nutritionExpanded}
             onToggle={() => setNutritionExpanded(!nutritionExpanded)}
           >
+            <View style={styles.portionControl}>
+              <PortionControl value={chosenPortion} onChange={setPortionFactor} estimate={estimate} />
+            </View>
             <View style={styles.nutritionRow}>
               <NutritionItem label="Calories" value={nutrition.energyKcal} unit="kcal" />
               <NutritionItem label="Protein" value={nutrition.protein_g} unit="g" />
@@ -590,6 +888,20 @@ export default function LikelyRecipeScreen() {
         )}
 
         {/* 4. Long-term Health */}
+        {organsPending && organImpacts.length === 0 && (
+          <CollapsibleSection
+            title="Long-term Health"
+            icon="fitness-outline"
+            badge="Analyzing..."
+            expanded={longTermHealthExpanded}
+            onToggle={() => setLongTermHealthExpanded(!longTermHealthExpanded)}
+          >
+            <View style={styles.pendingRow}>
+              <ActivityIndicator size="small" color={TEAL} />
+              <Text style={styles.pendingText}>Analyzing organ impacts...</Text>
+            </View>
+          </CollapsibleSection>
+        )}
         {organImpacts.length > 0 && overallOrganLevel && (
           <CollapsibleSection
             title="Long-term Health"
@@ -639,6 +951,7 @@ export default function LikelyRecipeScreen() {
                           {ing.item}
                           {ing.prep_note && <Text style={styles.ingredientPrepInline}>, {ing.prep_note}</Text>}
                         </Text>
+                        <IngredientAllergenNotes text={ing.item} userAllergens={allergenPrefs} />
                       </View>
                     </View>
                   ))}
@@ -654,6 +967,7 @@ export default function LikelyRecipeScreen() {
                       {ing.item}
                       {ing.prep_note && <Text style={styles.ingredientPrepInline}>, {ing.prep_note}</Text>}
                     </Text>
+                    <IngredientAllergenNotes text={ing.item} userAllergens={allergenPrefs} />
                   </View>
                 </View>
               ))
@@ -661,7 +975,10 @@ export default function LikelyRecipeScreen() {
               likelyRecipe.ingredients.map((ing, idx) => (
                 <View key={idx} style={styles.ingredientItem}>
                   <Text style={styles.bullet}>•</Text>
-                  <Text style={styles.ingredientText}>{formatBasicIngredient(ing)}</Text>
+                  <View style={styles.ingredientContent}>
+                    <Text style={styles.ingredientText}>{formatBasicIngredient(ing)}</Text>
+                    <IngredientAllergenNotes text={ing.name} userAllergens={allergenPrefs} />
+                  </View>
                 </View>
               ))
             ) : (
@@ -878,6 +1195,13 @@ export default function LikelyRecipeScreen() {
 
         <View style={{ height: 100 }} />
       </ScrollView>
+
+      <ComponentBreakdownSheet
+        visible={breakdownVisible}
+        onClose={() => setBreakdownVisible(false)}
+        components={sheetComponents}
+        onLogSelected={handleLogSelected}
+      />
     </SafeAreaView>
   );
 }
@@ -903,6 +1227,35 @@ function NutritionItem({
   );
 }
 
+// Why an ingredient counts as one of the user's allergens, e.g. "Ghee: made from milk."
+function IngredientAllergenNotes({
+  text,
+  userAllergens,
+}: {
+  text?: string | null;
+  userAllergens: UserAllergenPref[];
+}) {
+  const matches = text ? userAllergenMatches(text, userAllergens) : [];
+  if (matches.length === 0) return null;
+
+  return (
+    <>
+      {matches.map((m) => {
+        const color =
+          m.severity === 'avoid' ? DESIGN.colors.danger : m.severity === 'limit' ? DESIGN.colors.caution : TEXT_SECONDARY;
+        return (
+          <View key={m.code} style={styles.ingredientAllergen}>
+            <Ionicons name="warning-outline" size={13} color={color} />
+            <Text style={[styles.ingredientAllergenText, { color }]}>
+              {m.explanation}
+            </Text>
+          </View>
+        );
+      })}
+    </>
+  );
+}
+
 const styles = StyleSheet.create({
   safeArea: {
     flex: 1,
@@ -1080,6 +1433,16 @@ const styles = StyleSheet.create({
     color: TEXT_MUTED,
     fontStyle: 'italic',
   },
+  ingredientAllergen: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 2,
+  },
+  ingredientAllergenText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
   ingredientGroup: {
     marginBottom: 16,
   },
@@ -1526,7 +1889,25 @@ const styles = StyleSheet.create({
     marginTop: 16,
     marginBottom: 8,
   },
+  componentSelector: {
+    marginHorizontal: -16, // ComponentSelector pads itself
+  },
+  breakdownLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingTop: 12,
+  },
+  breakdownLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: TEAL,
+  },
   // Nutrition
+  portionControl: {
+    marginHorizontal: -16, // PortionControl pads itself
+    marginBottom: 12,
+  },
   nutritionRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1632,6 +2013,16 @@ const styles = StyleSheet.create({
     lineHeight: 22,
   },
   // Long-term Health / Organ Impacts
+  pendingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  pendingText: {
+    fontSize: 14,
+    color: TEXT_SECONDARY,
+    fontStyle: 'italic',
+  },
   organImpactsList: {
     gap: 16,
   },
@@ -0,0 +1,358 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { AnalyzeDishResponse, MenuSection, getBatchStatus } from '../api/api';
+import { useUserPrefs } from '../context/UserPrefsContext';
+import { getCachedDishes } from '../utils/dishCache';
+import { getCachedMenu } from '../utils/menuCache';
+import { avoidAllergenNames } from './utils/menuFilters';
+import { analysesFromBatchJobs, buildRestaurantReport } from './utils/restaurantReport';
+
+const BG = '#020617';
+const CARD_BG = '#0f172a';
+const TEAL = '#14b8a6';
+const TEXT_PRIMARY = '#f8fafc';
+const TEXT_SECONDARY = '#94a3b8';
+const TEXT_MUTED = '#64748b';
+const DANGER = '#ef4444';
+const CAUTION = '#f59e0b';
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+export default function RestaurantReportScreen() {
+  const router = useRouter();
+  const { placeId, restaurantName, batchId } = useLocalSearchParams();
+  const { allergens } = useUserPrefs();
+
+  const placeIdValue = Array.isArray(placeId) ? placeId[0] : placeId;
+  const restaurantNameValue = Array.isArray(restaurantName) ? restaurantName[0] : restaurantName;
+  const batchIdValue = Array.isArray(batchId) ? batchId[0] : batchId;
+
+  const [sections, setSections] = useState<MenuSection[] | null>(null);
+  const [analysisByItemId, setAnalysisByItemId] = useState<Record<string, AnalyzeDishResponse>>({});
+  const [batchStatus, setBatchStatus] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Batch results first; dishes the batch no longer has come from the dish cache
+  useEffect(() => {
+    const controller = new AbortController();
+
+    async function loadReport(reportPlaceId: string) {
+      const stored = await getCachedMenu(reportPlaceId);
+      if (controller.signal.aborted) return;
+      if (!stored) {
+        setError('Open the menu for this restaurant first so its dishes can be analyzed.');
+        setLoading(false);
+        return;
+      }
+
+      const analyses: Record<string, AnalyzeDishResponse> = {};
+      if (batchIdValue) {
+        const status = await getBatchStatus(batchIdValue, true, controller.signal);
+        if (controller.signal.aborted) return;
+        if (status.ok && status.batch) {
+          Object.assign(analyses, analysesFromBatchJobs(stored.sections, status.batch.jobs));
+          setBatchStatus(status.batch.status);
+        } else {
+          console.log('[RestaurantReport] Batch status unavailable:', status.error);
+        }
+      }
+
+      const missing = stored.sections.flatMap((section) =>
+        section.items.filter((item) => !analyses[item.id]).map((item) => ({ itemId: item.id, dishName: item.name }))
+      );
+      const cached = await getCachedDishes(missing.map(({ dishName }) => ({ dishName, placeId: reportPlaceId })));
+      if (controller.signal.aborted) return;
+      cached.forEach((entry, i) => {
+        if (entry?.analysis?.ok) analyses[missing[i].itemId] = entry.analysis;
+      });
+
+      console.log('[RestaurantReport] Loaded', Object.keys(analyses).length, 'analyses for', stored.restaurant?.name);
+      setSections(stored.sections);
+      setAnalysisByItemId(analyses);
+      setLoading(false);
+    }
+
+    if (!placeIdValue) {
+      setError('No restaurant selected.');
+      setLoading(false);
+      return;
+    }
+    loadReport(placeIdValue).catch((e) => {
+      console.error('[RestaurantReport] Failed to load report:', e?.message || e);
+      setError('Could not build the report card.');
+      setLoading(false);
+    });
+
+    return () => controller.abort();
+  }, [placeIdValue, batchIdValue]);
+
+  const avoidAllergens = useMemo(() => avoidAllergenNames(allergens), [allergens]);
+  const report = useMemo(
+    () => (sections ? buildRestaurantReport(sections, analysisByItemId, avoidAllergens) : null),
+    [sections, analysisByItemId, avoidAllergens]
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <Pressable
+          style={({ pressed }) => [styles.backRow, pressed && { opacity: 0.6 }]}
+          onPress={() => router.back()}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Ionicons name="chevron-back" size={20} color={TEAL} />
+          <Text style={styles.backText}>Back</Text>
+        </Pressable>
+
+        <Text style={styles.title}>Safety report card</Text>
+        {restaurantNameValue ? <Text style={styles.subtitle}>{restaurantNameValue}</Text> : null}
+
+        {loading && (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={TEAL} />
+          </View>
+        )}
+
+        {!loading && error && <Text style={styles.emptyText}>{error}</Text>}
+
+        {!loading && report && report.analyzedCount === 0 && (
+          <Text style={styles.emptyText}>No dishes have been analyzed yet. Check back once the menu analysis finishes.</Text>
+        )}
+
+        {!loading && report && report.analyzedCount > 0 && (
+          <>
+            {(batchStatus === 'processing' || report.analyzedCount < report.totalCount) && (
+              <Text style={styles.noteText}>
+                Based on {report.analyzedCount} of {report.totalCount} dishes
+                {batchStatus === 'processing' ? ' — the rest are still being analyzed.' : '.'}
+              </Text>
+            )}
+
+            <View style={styles.statRow}>
+              <View style={styles.statTile}>
+                {avoidAllergens.length > 0 ? (
+                  <>
+                    <Text style={styles.statValue}>{percent(report.safeCount, report.analyzedCount)}%</Text>
+                    <Text style={styles.statLabel}>safe for your allergens</Text>
+                    <Text style={styles.statDetail}>
+                      {report.safeCount} of {report.analyzedCount} dishes
+                    </Text>
+                  </>
+                ) : (
+                  <>
+                    <Ionicons name="person-circle-outline" size={22} color={TEXT_MUTED} />
+                    <Text style={styles.statLabel}>Add allergens to avoid in your profile to see safe dishes</Text>
+                  </>
+                )}
+              </View>
+              <View style={styles.statTile}>
+                <Text style={styles.statValue}>{report.lowFodmapCount}</Text>
+                <Text style={styles.statLabel}>low-FODMAP dishes</Text>
+                <Text style={styles.statDetail}>
+                  {percent(report.lowFodmapCount, report.analyzedCount)}% of analyzed
+                </Text>
+              </View>
+            </View>
+
+            {report.bestPicks.length > 0 && (
+              <View style={styles.card}>
+                <Text style={styles.sectionTitle}>BEST PICKS</Text>
+                {report.bestPicks.map((goal) => (
+                  <View key={goal.goal} style={styles.goalBlock}>
+                    <Text style={styles.goalLabel}>{goal.label}</Text>
+                    {goal.picks.map((pick) => (
+                      <View key={pick.itemId} style={styles.row}>
+                        <View style={{ flex: 1 }}>
+                          <Text style={styles.rowTitle} numberOfLines={1}>
+                            {pick.name}
+                          </Text>
+                          <Text style={styles.rowDetail}>{pick.sectionName}</Text>
+                        </View>
+                        <Text style={styles.rowValue}>
+                          {pick.value} {goal.unit}
+                        </Text>
+                      </View>
+                    ))}
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {report.commonAllergens.length > 0 && (
+              <View style={styles.card}>
+                <Text style={styles.sectionTitle}>MOST COMMON ALLERGENS</Text>
+                {report.commonAllergens.map((allergen) => (
+                  <View key={allergen.name} style={styles.row}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.rowTitle}>{allergen.name}</Text>
+                      <Text style={styles.rowDetail} numberOfLines={1}>
+                        {allergen.sectionNames.join(', ')}
+                      </Text>
+                    </View>
+                    <Text style={styles.rowValue}>
+                      {allergen.count} dish{allergen.count === 1 ? '' : 'es'}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {report.sectionsToAvoid.length > 0 && (
+              <View style={styles.card}>
+                <Text style={styles.sectionTitle}>SECTIONS TO AVOID</Text>
+                {report.sectionsToAvoid.map((section) => (
+                  <View key={section.sectionId} style={styles.row}>
+                    <Ionicons
+                      name="warning-outline"
+                      size={18}
+                      color={section.unsafeCount === section.analyzedCount ? DANGER : CAUTION}
+                      style={{ marginRight: 10 }}
+                    />
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.rowTitle}>{section.sectionName}</Text>
+                      <Text style={styles.rowDetail} numberOfLines={2}>
+                        {section.unsafeCount} of {section.analyzedCount} dishes contain {section.allergens.join(', ')}
+                      </Text>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: BG,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 40,
+  },
+  backRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  backText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: TEAL,
+    marginLeft: 4,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: TEXT_PRIMARY,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: TEXT_SECONDARY,
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  centered: {
+    paddingVertical: 48,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: TEXT_SECONDARY,
+    lineHeight: 22,
+    marginTop: 24,
+  },
+  noteText: {
+    fontSize: 13,
+    color: TEXT_MUTED,
+    marginBottom: 12,
+  },
+  statRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  statTile: {
+    flex: 1,
+    padding: 16,
+    gap: 4,
+    borderRadius: 14,
+    backgroundColor: CARD_BG,
+  },
+  statValue: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: TEAL,
+  },
+  statLabel: {
+    fontSize: 14,
+    color: TEXT_PRIMARY,
+  },
+  statDetail: {
+    fontSize: 12,
+    color: TEXT_MUTED,
+  },
+  card: {
+    padding: 16,
+    marginBottom: 16,
+    borderRadius: 14,
+    backgroundColor: CARD_BG,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: TEXT_MUTED,
+    letterSpacing: 1.5,
+    marginBottom: 12,
+  },
+  goalBlock: {
+    marginBottom: 12,
+  },
+  goalLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: TEAL,
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  rowTitle: {
+    fontSize: 15,
+    color: TEXT_PRIMARY,
+  },
+  rowDetail: {
+    fontSize: 12,
+    color: TEXT_MUTED,
+    marginTop: 2,
+  },
+  rowValue: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+    marginLeft: 12,
+  },
+});
@@ -5,6 +5,7 @@ import { useFocusEffect } from '@react-navigation/native';
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   Animated,
   Easing,
   Image,
@@ -24,14 +25,61 @@ import {
   analyzeDish,
   fetchMenuWithRetry,
   fetchMenuFast,
+  priorityAnalyzeDish,
   startBatchAnalysis,
-  getBatchStatus,
+  subscribeBatch,
+  BatchDelta,
   BatchDishInput,
+  MenuItem,
+  MenuResponse,
 } from '../api/api';
 import { fetchPlaceDetails } from '../api/places';
 import { useUserPrefs } from '../context/UserPrefsContext';
 import { useMenuPrefetch } from '../context/MenuPrefetchContext';
+import { cacheDishAnalysis, getCachedDishes } from '../utils/dishCache';
+import {
+  MenuDiff,
+  cacheMenu,
+  cachedMenuToResponse,
+  diffMenus,
+  getCachedMenu,
+  hasMenuChanges,
+  menuItemKey,
+  summarizeMenuDiff,
+} from '../utils/menuCache';
+import { PrefetchStatus } from '../utils/prefetchQueue';
+import { ComponentBreakdownSheet } from '../components/dish';
 import { buildDishViewModel } from './utils/dishViewModel';
+import { CompareDishRef, MAX_COMPARED_DISHES } from './utils/dishComparison';
+import { breakdownComponents, isDefaultSelection, recomputeSelection } from './utils/componentSelection';
+import { buildMealLog } from './utils/mealLog';
+import {
+  MealType,
+  ORDER_PORTION_FACTORS,
+  OrderTrayEntry,
+  mealTypeForTime,
+  orderMealPayloads,
+  summarizeOrder,
+} from './utils/orderTray';
+import {
+  DEFAULT_MENU_FILTERS,
+  MENU_CALORIE_LIMITS,
+  MENU_SORT_LABELS,
+  MenuDietFilter,
+  MenuFilters,
+  MenuSort,
+  filterAndSortMenu,
+  hasActiveMenuFilters,
+} from './utils/menuFilters';
+import { ALLERGEN_SEVERITY_LABELS, AllergenRisk } from './utils/allergenSeverity';
+import {
+  BatchJobIndex,
+  BatchJobMismatch,
+  BatchJobRef,
+  createBatchJobIndex,
+  describeBatchJobMismatch,
+  resolveBatchJob,
+} from './utils/batchJobMatching';
 
 // Enable LayoutAnimation on Android
 if (Platform.OS === 'android' && UIManager.setLayoutAnimationEnabledExperimental) {
@@ -40,6 +88,104 @@ if (Platform.OS === 'android' && UIManager.setLayoutAnimationEnabledExperimental
 
 const LAST_RESTAURANT_KEY = '@restaurant_ai_last_restaurant';
 
+// Lets the Restaurant tab offer the report card for the last visited restaurant
+async function rememberCompletedBatch(placeId: string, batchId: string) {
+  try {
+    const stored = await AsyncStorage.getItem(LAST_RESTAURANT_KEY);
+    const saved = stored ? JSON.parse(stored) : null;
+    if (saved?.placeId !== placeId) return;
+    await AsyncStorage.setItem(LAST_RESTAURANT_KEY, JSON.stringify({ ...saved, batchId }));
+  } catch (e) {
+    console.log('[RestaurantScreen] Failed to remember batch:', e);
+  }
+}
+
+// Batch results carry only the analysis; the dish name and image come from the request
+function toPersistedAnalyses(
+  index: BatchJobIndex,
+  analysesByItemId: Record<string, AnalyzeDishResponse>
+): PersistedAnalysis[] {
+  return Object.entries(analysesByItemId).map(([itemId, analysis]) => ({
+    dishName: index.dishesByKey[itemId]?.dishName || analysis.dishName || '',
+    analysis,
+    imageUrl: index.dishesByKey[itemId]?.imageUrl,
+  }));
+}
+
+// Loading-screen note about the home screen's background prefetch of this menu
+function describePrefetchStatus(status: PrefetchStatus | undefined, position: number | null): string | null {
+  switch (status) {
+    case 'queued':
+      return position ? `Queued for background loading (#${position} in line)` : 'Queued for background loading';
+    case 'starting':
+    case 'running':
+      return 'Already loading in the background';
+    case 'completed':
+      return 'Loaded in the background, almost ready';
+    default:
+      return null;
+  }
+}
+
+// "5 min ago", "3 h ago", "2 days ago"
+function formatAge(timestamp: number): string {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.round(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+}
+
+interface PersistedAnalysis {
+  dishName: string;
+  analysis: AnalyzeDishResponse;
+  imageUrl?: string | null;
+}
+
+/**
+ * Write analyses from this screen through to the dish cache, so they survive
+ * navigation and show up in standalone dish search. A cached full analysis is
+ * never replaced by a batch result that lacks the full recipe.
+ */
+async function persistRestaurantAnalyses(
+  entries: PersistedAnalysis[],
+  restaurant: { placeId?: string; restaurantName?: string; restaurantAddress?: string }
+): Promise<void> {
+  const storable = entries.filter((e) => e.dishName && e.analysis?.ok);
+  const existing = await getCachedDishes(storable.map((e) => ({ dishName: e.dishName, placeId: restaurant.placeId })));
+  for (const [i, { dishName, analysis, imageUrl }] of storable.entries()) {
+    if (existing[i]?.analysis.full_recipe && !analysis.full_recipe) continue;
+    await cacheDishAnalysis(dishName, analysis, {
+      ...restaurant,
+      imageUrl: imageUrl || analysis.recipe_image || undefined,
+      source: 'restaurant',
+    });
+  }
+}
+
+// Resolve batch jobs to menu items, logging any job that can't be trusted
+function assignBatchJobs<J extends BatchJobRef>(index: BatchJobIndex, jobs: J[]): { itemId: string; job: J }[] {
+  const assigned: { itemId: string; job: J }[] = [];
+  const mismatches: BatchJobMismatch[] = [];
+  for (const job of jobs) {
+    const resolution = resolveBatchJob(index, job);
+    if ('itemId' in resolution) {
+      assigned.push({ itemId: resolution.itemId, job });
+    } else {
+      mismatches.push(resolution.mismatch);
+    }
+  }
+  if (mismatches.length > 0) {
+    console.warn(
+      `[RestaurantScreen] Ignoring ${mismatches.length} batch job(s) that don't match a menu item:`,
+      mismatches.slice(0, 5).map(describeBatchJobMismatch)
+    );
+  }
+  return assigned;
+}
+
 const BG = '#020617';
 const TEAL = '#14b8a6';
 const ORANGE = '#f97316';
@@ -65,6 +211,8 @@ const COLORS = {
   tagBorder: '#475569',
 };
 
+const ORDER_MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
 // Loading status messages - cycle through these to keep users engaged
 const LOADING_MESSAGES = [
   { icon: 'search-outline', text: 'Discovering menu items...', phase: 1 },
@@ -265,10 +413,12 @@ function MenuLoadingScreen({
   restaurantName,
   restaurantAddress,
   heroImageUrl,
+  prefetchNote,
 }: {
   restaurantName?: string;
   restaurantAddress?: string;
   heroImageUrl?: string;
+  prefetchNote?: string | null;
 }) {
   const [messageIndex, setMessageIndex] = useState(0);
   const [tipIndex, setTipIndex] = useState(0);
@@ -386,6 +536,7 @@ function MenuLoadingScreen({
             />
             <Text style={loadingStyles.messageText}>{currentMessage.text}</Text>
           </View>
+          {prefetchNote ? <Text style={loadingStyles.prefetchNote}>{prefetchNote}</Text> : null}
 
           {/* Progress dots */}
           <View style={loadingStyles.progressRow}>
@@ -539,6 +690,13 @@ const loadingStyles = StyleSheet.create({
     gap: 10,
     paddingHorizontal: 16,
   },
+  prefetchNote: {
+    marginTop: -12,
+    marginBottom: 20,
+    fontSize: 13,
+    color: '#94a3b8',
+    textAlign: 'center',
+  },
   messageText: {
     fontSize: 18,
     fontWeight: '600',
@@ -635,9 +793,15 @@ const loadingStyles = StyleSheet.create({
   },
 });
 
-// Get allergen pill color - teal-only design (all allergens use same teal styling)
-const getAllergenPillColors = (_present: string, _isUserAllergen: boolean) => {
-  // Teal-only design: all allergens use the same styling regardless of severity
+// Get allergen pill color - teal-only design; a high-risk allergen for the user gets a solid fill
+const getAllergenPillColors = (risk: AllergenRisk | null | undefined) => {
+  if (risk === 'high') {
+    return {
+      bg: COLORS.brandTeal,
+      border: COLORS.brandTeal,
+      text: '#020617',
+    };
+  }
   return {
     bg: 'rgba(20, 184, 166, 0.15)',
     border: COLORS.brandTeal,
@@ -675,35 +839,6 @@ const getFodmapLevelBorderColor = (level?: string | null) => {
   return '#4b5563';
 };
 
-type MenuResponse = {
-  restaurant?: {
-    id?: string | number;
-    name?: string;
-    address?: string;
-    imageUrl?: string | null;
-    imageRef?: string | null;
-  };
-  sections?: Array<{
-    id?: string | number;
-    name?: string;
-    items?: Array<MenuItem>;
-  }>;
-};
-
-type MenuItem = {
-  id?: string | number;
-  name?: string;
-  description?: string;
-  menuDescription?: string;
-  subtitle?: string;
-  shortDescription?: string;
-  rawDescription?: string;
-  priceText?: string;
-  restaurantCalories?: number | null;
-  imageUrl?: string | null;
-  [key: string]: any;
-};
-
 function buildPhotoUrl(photoRef?: string | null) {
   if (!photoRef) return null;
   const params = new URLSearchParams({
@@ -717,8 +852,8 @@ function buildPhotoUrl(photoRef?: string | null) {
 export default function RestaurantScreen() {
   const router = useRouter();
   const { placeId, restaurantName, address, lat, lng } = useLocalSearchParams();
-  const { selectedAllergens } = useUserPrefs();
-  const { getPrefetchedMenu, isMenuReady, getPrefetchStatus } = useMenuPrefetch();
+  const { allergenPrefs, targets, todayTracker, logMealAction } = useUserPrefs();
+  const { getPrefetchedMenu, getPrefetchStatus, getQueuePosition, queue } = useMenuPrefetch();
   const scrollViewRef = useRef<ScrollView | null>(null);
   const itemLayouts = useRef<Record<string, number>>({});
   const lastViewedItemId = useRef<string | null>(null);
@@ -735,11 +870,40 @@ export default function RestaurantScreen() {
   );
   const [googlePhotoRef, setGooglePhotoRef] = useState<string | null>(null);
   const [menuSearch, setMenuSearch] = useState('');
+  const [menuFilters, setMenuFilters] = useState<MenuFilters>(DEFAULT_MENU_FILTERS);
+  const [menuSort, setMenuSort] = useState<MenuSort>('menu');
+  // Analyzed dishes picked for side-by-side comparison, in the order they were picked
+  const [compareItemIds, setCompareItemIds] = useState<string[]>([]);
+  // Analyzed dishes combined into one meal, each with its own portion
+  const [orderTray, setOrderTray] = useState<OrderTrayEntry[]>([]);
+  const [orderTrayOpen, setOrderTrayOpen] = useState(false);
+  // Minted on the first log attempt and kept through retries, so every item lands in the same order
+  const [orderId, setOrderId] = useState<string | null>(null);
+  const [orderMealType, setOrderMealType] = useState<MealType>(() => mealTypeForTime(new Date()));
+  const [isLoggingOrder, setIsLoggingOrder] = useState(false);
+  // Dish whose plate breakdown sheet is open, to log only the components eaten
+  const [breakdownTarget, setBreakdownTarget] = useState<{ item: MenuItem; sectionName: string } | null>(null);
+  const [loggingItemId, setLoggingItemId] = useState<string | null>(null);
+  // What changed since the stored menu from the last visit
+  const [menuChanges, setMenuChanges] = useState<MenuDiff | null>(null);
+  const [menuChangesDismissed, setMenuChangesDismissed] = useState(false);
+  // Set when showing the stored menu because a fresh one couldn't be fetched
+  const [offlineMenuFetchedAt, setOfflineMenuFetchedAt] = useState<number | null>(null);
+  // The fetch has replaced (or given up on replacing) the stored or prefetched menu
+  const [menuSettled, setMenuSettled] = useState(false);
 
   // Batch analysis state
   const [batchId, setBatchId] = useState<string | null>(null);
-  const [jobIdByItemId, setJobIdByItemId] = useState<Record<string, string>>({});
+  // Change-log position after the cached results, so the subscription only receives new jobs
+  const batchCursorRef = useRef<string | undefined>(undefined);
+  // Which job belongs to which menu item, matched by the clientKey each job echoes
+  const batchJobIndexRef = useRef<BatchJobIndex | null>(null);
+  const [batchJobStatusByItemId, setBatchJobStatusByItemId] = useState<Record<string, string>>({});
   const [batchPollingActive, setBatchPollingActive] = useState(false);
+  // Every dish has been through the batch, so the report card has something to show
+  const [batchCompleted, setBatchCompleted] = useState(false);
+  // One analysis request per dish at a time, whether priority or full
+  const analysisInFlightRef = useRef<Partial<Record<string, Promise<AnalyzeDishResponse | null>>>>({});
 
   const placeIdValue = Array.isArray(placeId) ? placeId[0] : placeId;
   const restaurantNameValue = Array.isArray(restaurantName) ? restaurantName[0] : restaurantName;
@@ -751,60 +915,115 @@ export default function RestaurantScreen() {
   const latValue = latValueRaw ?? undefined;
   const lngValue = lngValueRaw ?? undefined;
 
+  // Where analyses from this screen are filed in the dish cache
+  const dishCacheContext = useMemo(
+    () => ({
+      placeId: placeIdValue || undefined,
+      restaurantName: restaurant?.name || restaurantNameValue || undefined,
+      restaurantAddress: addressValue || undefined,
+    }),
+    [placeIdValue, restaurant?.name, restaurantNameValue, addressValue]
+  );
+
   useEffect(() => {
-    async function loadMenu() {
+    const controller = new AbortController();
+
+    async function loadMenu(menuPlaceId: string) {
       setError(null);
-      setLoading(true);
+      setMenuChanges(null);
+      setMenuChangesDismissed(false);
+      setOfflineMenuFetchedAt(null);
+      setMenuSettled(false);
+
+      // Show the menu stored on the last visit right away; the fetch below refreshes it
+      const stored = await getCachedMenu(menuPlaceId);
+      if (controller.signal.aborted) return;
+      // Otherwise a menu prefetched from the home screen can stand in while the fetch runs
+      const prefetched = getPrefetchedMenu(menuPlaceId)?.menu;
+      const standIn = !stored && prefetched?.ok && prefetched.sections.length > 0 ? prefetched : null;
+      if (stored) {
+        console.log('[RestaurantScreen] Showing stored menu from', new Date(stored.fetchedAt).toISOString());
+        setMenu(cachedMenuToResponse(stored));
+        setRestaurant(stored.restaurant ?? null);
+        setLoading(false);
+      } else if (standIn) {
+        console.log('[RestaurantScreen] Showing prefetched menu while fetching');
+        setMenu(standIn);
+        setRestaurant(standIn.restaurant ?? null);
+        setLoading(false);
+      } else {
+        setLoading(true);
+      }
+
       try {
-        let data: any = null;
+        let data: MenuResponse | null = null;
 
         // FAST PATH: Use fetchMenuFast first - it's the fastest (~10-30s)
         const searchAddress = addressValue || restaurantNameValue || '';
         if (restaurantNameValue && searchAddress) {
           console.log('[RestaurantScreen] Using fetchMenuFast (FAST PATH) with:', restaurantNameValue, searchAddress);
-          data = await fetchMenuFast(restaurantNameValue, searchAddress, 50);
+          data = await fetchMenuFast(restaurantNameValue, searchAddress, 50, controller.signal);
+          if (controller.signal.aborted) return;
         }
 
         // Fall back to fetchMenuWithRetry only if fast method fails
         if ((!data || !data.ok) && placeIdValue) {
           console.log('[RestaurantScreen] fetchMenuFast failed, using fetchMenuWithRetry fallback');
-          data = await fetchMenuWithRetry(placeIdValue);
+          data = await fetchMenuWithRetry(placeIdValue, { signal: controller.signal });
         }
 
+        if (controller.signal.aborted) return;
+
+        // Both fetchers return decoded menus, so item descriptions are already coalesced
         console.log('MENU RAW DATA:', JSON.stringify(data, null, 2).slice(0, 500));
-        const normalizedSections = Array.isArray((data as any)?.sections)
-          ? (data as any).sections.map((section: any) => ({
-              ...section,
-              items: Array.isArray(section?.items)
-                ? section.items.map((item: any) => ({
-                    ...item,
-                    description: item?.description ?? item?.menuDescription ?? '',
-                    menuDescription: item?.menuDescription ?? item?.description ?? '',
-                    imageUrl: item?.imageUrl ?? null,
-                  }))
-                : [],
-            }))
-          : [];
-
-        console.log('MENU NORMALIZED SECTIONS LENGTH:', normalizedSections.length);
-        setMenu({
-          ...(data as any),
-          sections: normalizedSections,
-        });
-        setRestaurant((data as any)?.restaurant ?? null);
+        console.log('MENU NORMALIZED SECTIONS LENGTH:', data?.sections.length ?? 0);
+
+        if ((stored || standIn) && !(data?.ok && data.sections.length > 0)) {
+          // Keep the menu on screen rather than replacing it with an error
+          console.log('[RestaurantScreen] Menu fetch failed, keeping the menu on screen');
+          if (stored) setOfflineMenuFetchedAt(stored.fetchedAt);
+          if (standIn) cacheMenu(menuPlaceId, standIn);
+          return;
+        }
+        if (stored && data) {
+          const changes = diffMenus(stored.sections, data.sections);
+          if (hasMenuChanges(changes)) {
+            console.log(
+              `[RestaurantScreen] Menu changed: ${changes.added.length} new, ${changes.removed.length} removed, ${changes.repriced.length} re-priced`
+            );
+            setMenuChanges(changes);
+          }
+        }
+        if (data) cacheMenu(menuPlaceId, data);
+        setMenu(data);
+        setRestaurant(data?.restaurant ?? null);
       } catch (e: any) {
+        if (controller.signal.aborted) return;
         console.log('MENU ERROR:', e);
-        setError("We couldn't load this menu right now. Please try again.");
+        if (stored) {
+          setOfflineMenuFetchedAt(stored.fetchedAt);
+        } else if (standIn) {
+          cacheMenu(menuPlaceId, standIn);
+        } else {
+          setError("We couldn't load this menu right now. Please try again.");
+        }
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+          setMenuSettled(true);
+        }
       }
     }
     if (placeIdValue) {
-      loadMenu();
+      loadMenu(placeIdValue);
     } else {
       setError("We couldn't load this menu right now. Please try again.");
       setLoading(false);
     }
+
+    return () => {
+      controller.abort();
+    };
   }, [placeIdValue, restaurantNameValue, addressValue, latValue, lngValue, getPrefetchedMenu, getPrefetchStatus]);
 
   // Fetch Google Places photo reference for restaurant hero image
@@ -857,7 +1076,7 @@ export default function RestaurantScreen() {
     descriptionText,
   }: {
     itemId: string;
-    item: any;
+    item: MenuItem;
     sectionName?: string;
     descriptionText: string;
   }): Promise<AnalyzeDishResponse | null> => {
@@ -865,17 +1084,18 @@ export default function RestaurantScreen() {
 
     try {
       const result = await analyzeDish({
-        dishName: item?.name,
+        dishName: item.name,
+        dishId: item.id,
         restaurantName: restaurant?.name || restaurantNameValue || null,
         // Send both menuDescription and description so the backend can rely on either
         menuDescription: descriptionText,
         description: descriptionText,
         menuSection: sectionName || '',
-        priceText: item?.priceText || '',
+        priceText: item.price?.text || '',
         placeId: placeIdValue || null,
         source: 'edamam_recipe_card',
-        restaurantCalories: item?.restaurantCalories,
-        imageUrl: item?.imageUrl ?? null,
+        restaurantCalories: item.calories ?? undefined,
+        imageUrl: item.imageUrl,
         fullRecipe: true,
       });
 
@@ -883,6 +1103,7 @@ export default function RestaurantScreen() {
         ...prev,
         [itemId]: result,
       }));
+      persistRestaurantAnalyses([{ dishName: item.name, analysis: result, imageUrl: item.imageUrl }], dishCacheContext);
       return result;
     } catch (err) {
       console.error('Error calling analyzeDish', err);
@@ -900,42 +1121,87 @@ export default function RestaurantScreen() {
     }
   };
 
-  // Start batch analysis when menu loads
+  // Promote a still-queued batch job so the tapped dish is analyzed next
+  const prioritizeBatchItem = async ({
+    itemId,
+    jobId,
+    item,
+    descriptionText,
+  }: {
+    itemId: string;
+    jobId: string;
+    item: MenuItem;
+    descriptionText: string;
+  }): Promise<AnalyzeDishResponse | null> => {
+    const response = await priorityAnalyzeDish(jobId, {
+      dishName: item.name,
+      restaurantName: restaurant?.name || restaurantNameValue || undefined,
+      description: descriptionText,
+    });
+    const result = response.result;
+    if (!response.ok || !result?.ok) {
+      console.log('[RestaurantScreen] Priority analysis failed:', response.error || result?.error);
+      return null;
+    }
+
+    // The job is done server-side; record it so batch deltas don't replace this result
+    setBatchJobStatusByItemId((prev) => ({ ...prev, [itemId]: 'completed' }));
+    setAnalysisByItemId((prev) => ({ ...prev, [itemId]: result }));
+    persistRestaurantAnalyses([{ dishName: item.name, analysis: result, imageUrl: item.imageUrl }], dishCacheContext);
+    return result;
+  };
+
+  // Show analyses cached on earlier visits right away; the batch fills in the rest
+  useEffect(() => {
+    if (!menu?.sections?.length || !placeIdValue) return;
+    let cancelled = false;
+
+    const items = menu.sections.flatMap((section) =>
+      section.items.map((item) => ({ itemId: item.id, dishName: item.name }))
+    );
+
+    getCachedDishes(items.map(({ dishName }) => ({ dishName, placeId: placeIdValue }))).then((cachedDishes) => {
+      if (cancelled) return;
+      const restored: Record<string, AnalyzeDishResponse> = {};
+      cachedDishes.forEach((cached, i) => {
+        if (cached?.analysis?.ok) restored[items[i].itemId] = cached.analysis;
+      });
+      if (Object.keys(restored).length === 0) return;
+
+      console.log('[RestaurantScreen] Restored', Object.keys(restored).length, 'analyses from dish cache');
+      setAnalysisByItemId((prev) => {
+        const next = { ...prev };
+        for (const [itemId, analysis] of Object.entries(restored)) {
+          if (!next[itemId]?.ok) next[itemId] = analysis;
+        }
+        return next;
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [menu, placeIdValue]);
+
+  // Start batch analysis once the fresh menu is in, so dishes it adds are analyzed too
   useEffect(() => {
+    if (!menuSettled) return;
     if (!menu || !menu.sections || menu.sections.length === 0) return;
     if (batchId) return; // Already started batch
 
     const restName = restaurant?.name || restaurantNameValue || '';
     if (!restName) return;
 
-    // Build list of dishes for batch analysis
-    const dishes: BatchDishInput[] = [];
-    const itemIdToJobIdMap: Record<string, string> = {};
-
-    for (const section of menu.sections) {
-      const sectionName = section.name || '';
-      const items = Array.isArray(section.items) ? section.items : [];
-
-      for (let index = 0; index < items.length; index++) {
-        const item = items[index];
-        const itemId = `${section.id || section.name || 'section'}-${item?.id || item?.name || index}`;
-
-        const descriptionText =
-          item?.menuDescription ??
-          item?.description ??
-          item?.subtitle ??
-          item?.shortDescription ??
-          item?.rawDescription ??
-          '';
-
-        dishes.push({
-          dishName: item?.name || '',
-          description: descriptionText,
-          section: sectionName,
-          imageUrl: item?.imageUrl ?? null,
-        });
-      }
-    }
+    // Build list of dishes for batch analysis, keyed by menu item id (unique within a menu)
+    const dishes: BatchDishInput[] = menu.sections.flatMap((section) =>
+      section.items.map((item) => ({
+        dishName: item.name,
+        clientKey: item.id,
+        description: item.description,
+        section: section.name,
+        imageUrl: item.imageUrl,
+      }))
+    );
 
     if (dishes.length === 0) return;
 
@@ -955,106 +1221,107 @@ export default function RestaurantScreen() {
         processing: response.processing,
       });
 
+      batchCursorRef.current = response.cursor;
       setBatchId(response.batchId);
 
-      // Map jobIds to itemIds and store cached results
+      // Map jobs to menu items by the echoed clientKey and store cached results
       if (response.jobs) {
-        const newJobIdMap: Record<string, string> = {};
+        const index = createBatchJobIndex(dishes);
+        batchJobIndexRef.current = index;
         const newAnalyses: Record<string, AnalyzeDishResponse> = {};
+        const statuses: Record<string, string> = {};
 
-        // Match jobs to menu items by dish name
-        let jobIndex = 0;
-        for (const section of menu.sections || []) {
-          const items = Array.isArray(section.items) ? section.items : [];
-          for (let index = 0; index < items.length; index++) {
-            const item = items[index];
-            const itemId = `${section.id || section.name || 'section'}-${item?.id || item?.name || index}`;
-
-            if (jobIndex < response.jobs.length) {
-              const job = response.jobs[jobIndex];
-              newJobIdMap[itemId] = job.jobId;
-
-              // Store cached results immediately
-              if (job.status === 'cached' && job.result) {
-                newAnalyses[itemId] = job.result;
-              }
-            }
-            jobIndex++;
+        for (const { itemId, job } of assignBatchJobs(index, response.jobs)) {
+          statuses[itemId] = job.status;
+          if (job.status === 'cached' && job.result) {
+            newAnalyses[itemId] = job.result;
           }
         }
 
-        setJobIdByItemId(newJobIdMap);
+        setBatchJobStatusByItemId(statuses);
+
         if (Object.keys(newAnalyses).length > 0) {
-          setAnalysisByItemId((prev) => ({ ...prev, ...newAnalyses }));
+          // Keep analyses restored from the dish cache; they may include the full recipe
+          setAnalysisByItemId((prev) => {
+            const next = { ...prev };
+            for (const [itemId, analysis] of Object.entries(newAnalyses)) {
+              if (!next[itemId]?.ok) next[itemId] = analysis;
+            }
+            return next;
+          });
           console.log('[RestaurantScreen] Loaded', Object.keys(newAnalyses).length, 'cached analyses');
+          persistRestaurantAnalyses(toPersistedAnalyses(index, newAnalyses), dishCacheContext);
         }
 
         // Start polling if there are pending dishes
         if ((response.processing || 0) > 0) {
           setBatchPollingActive(true);
+        } else {
+          setBatchCompleted(true);
+          if (placeIdValue) rememberCompletedBatch(placeIdValue, response.batchId);
         }
       }
     });
-  }, [menu, restaurant, restaurantNameValue, batchId]);
+  }, [menuSettled, menu, restaurant, restaurantNameValue, batchId, dishCacheContext, placeIdValue]);
 
-  // Poll for batch completion
+  // Follow batch progress via pushed per-job deltas (aborted when the screen unmounts)
   useEffect(() => {
     if (!batchPollingActive || !batchId) return;
 
-    let cancelled = false;
-    const pollInterval = 2500; // 2.5 seconds
+    const controller = new AbortController();
+    const index = batchJobIndexRef.current;
+    if (!index) return;
 
-    const poll = async () => {
-      while (!cancelled) {
-        const status = await getBatchStatus(batchId, true);
+    const applyDelta = (delta: BatchDelta) => {
+      // Remember the position so a restarted subscription resumes instead of replaying
+      if (delta.cursor) batchCursorRef.current = delta.cursor;
 
-        if (!status.ok || !status.batch) {
-          console.log('[RestaurantScreen] Batch polling error:', status.error);
-          setBatchPollingActive(false);
-          return;
+      const newAnalyses: Record<string, AnalyzeDishResponse> = {};
+      const statuses: Record<string, string> = {};
+      for (const { itemId, job } of assignBatchJobs(index, delta.jobs)) {
+        statuses[itemId] = job.status;
+        if (job.status === 'completed' && job.data?.result) {
+          newAnalyses[itemId] = job.data.result;
         }
+      }
+      if (Object.keys(statuses).length > 0) {
+        setBatchJobStatusByItemId((prev) => ({ ...prev, ...statuses }));
+      }
+      if (Object.keys(newAnalyses).length === 0) return;
 
-        // Process completed jobs
-        if (status.batch.jobs) {
-          const newAnalyses: Record<string, AnalyzeDishResponse> = {};
-
-          for (const job of status.batch.jobs) {
-            if (job.status === 'completed' && job.data?.result) {
-              // Find the itemId for this job
-              const itemId = Object.entries(jobIdByItemId).find(
-                ([_, jId]) => jId === job.jobId
-              )?.[0];
-
-              if (itemId && !analysisByItemId[itemId]) {
-                newAnalyses[itemId] = job.data.result;
-              }
-            }
-          }
-
-          if (Object.keys(newAnalyses).length > 0) {
-            setAnalysisByItemId((prev) => ({ ...prev, ...newAnalyses }));
-            console.log('[RestaurantScreen] Batch update:', Object.keys(newAnalyses).length, 'new analyses');
-          }
+      persistRestaurantAnalyses(toPersistedAnalyses(index, newAnalyses), dishCacheContext);
+      setAnalysisByItemId((prev) => {
+        const added: Record<string, AnalyzeDishResponse> = {};
+        for (const [itemId, analysis] of Object.entries(newAnalyses)) {
+          if (!prev[itemId]) added[itemId] = analysis;
         }
+        if (Object.keys(added).length === 0) return prev;
+        console.log('[RestaurantScreen] Batch update:', Object.keys(added).length, 'new analyses');
+        return { ...prev, ...added };
+      });
+    };
 
-        // Stop polling when complete
-        if (status.batch.status === 'completed' || status.batch.status === 'failed') {
-          console.log('[RestaurantScreen] Batch completed:', status.batch.status);
-          setBatchPollingActive(false);
-          return;
+    subscribeBatch(batchId, applyDelta, {
+      since: batchCursorRef.current,
+      signal: controller.signal,
+    }).then((final) => {
+      if (controller.signal.aborted) return;
+      if (final.ok) {
+        console.log('[RestaurantScreen] Batch completed:', final.status, `(via ${final.transport})`);
+        if (final.status === 'completed') {
+          setBatchCompleted(true);
+          if (placeIdValue) rememberCompletedBatch(placeIdValue, batchId);
         }
-
-        // Wait before next poll
-        await new Promise((resolve) => setTimeout(resolve, pollInterval));
+      } else {
+        console.log('[RestaurantScreen] Batch updates stopped:', final.error);
       }
-    };
-
-    poll();
+      setBatchPollingActive(false);
+    });
 
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [batchPollingActive, batchId, jobIdByItemId, analysisByItemId]);
+  }, [batchPollingActive, batchId, dishCacheContext, placeIdValue]);
 
   // Scroll to last viewed item when returning from recipe page
   useFocusEffect(
@@ -1070,13 +1337,13 @@ export default function RestaurantScreen() {
   );
 
   // Navigate to recipe page (when dish is already analyzed)
-  const navigateToRecipe = (itemId: string, item: any, analysis: AnalyzeDishResponse) => {
+  const navigateToRecipe = (itemId: string, item: MenuItem, analysis: AnalyzeDishResponse) => {
     lastViewedItemId.current = itemId;
-    const recipeImageUrl = item?.imageUrl || analysis?.recipe_image || '';
+    const recipeImageUrl = item.imageUrl || analysis?.recipe_image || '';
     router.push({
       pathname: '/likely-recipe',
       params: {
-        dishName: item?.name || 'Unknown Dish',
+        dishName: item.name || 'Unknown Dish',
         imageUrl: recipeImageUrl,
         likelyRecipe: analysis?.likely_recipe
           ? JSON.stringify(analysis.likely_recipe)
@@ -1107,7 +1374,7 @@ export default function RestaurantScreen() {
   };
 
   // Handle "Show Analysis" button press
-  const handleShowAnalysis = async (itemId: string, item: any, sectionName?: string) => {
+  const handleShowAnalysis = async (itemId: string, item: MenuItem, sectionName?: string) => {
     if (!itemId) return;
 
     const existingAnalysis = analysisByItemId[itemId];
@@ -1123,57 +1390,283 @@ export default function RestaurantScreen() {
     }
 
     // If already loading, do nothing
-    if (isLoading) return;
+    if (isLoading || analysisInFlightRef.current[itemId]) return;
 
-    const descriptionText =
-      item?.menuDescription ??
-      item?.description ??
-      item?.subtitle ??
-      item?.shortDescription ??
-      item?.rawDescription ??
-      '';
+    const descriptionText = item.description;
 
     setExpandedItemId(itemId);
     setAnalysisLoadingByItemId((prev) => ({ ...prev, [itemId]: true }));
 
-    // Always use full analysis to get full_recipe data (batch results don't include it)
-    // This ensures we have description, wine pairing, storage tips, chef's notes, etc.
-    console.log('[RestaurantScreen] Fetching full analysis for:', item?.name);
-    const result = await runAnalysisForItem({
-      itemId,
-      item,
-      sectionName,
-      descriptionText,
-    });
+    // A dish still queued in the batch is promoted instead of analyzed a second time
+    const jobId = batchJobIndexRef.current?.jobIdByItemId[itemId];
+    const jobStatus = batchJobStatusByItemId[itemId];
+    const jobPending = !!jobId && (jobStatus === 'pending' || jobStatus === 'processing');
+
+    const request = (async () => {
+      if (jobId && jobPending) {
+        console.log('[RestaurantScreen] Prioritizing batch job for:', item.name);
+        const prioritized = await prioritizeBatchItem({ itemId, jobId, item, descriptionText });
+        if (prioritized) return prioritized;
+      }
+
+      // Always use full analysis to get full_recipe data (batch results don't include it)
+      // This ensures we have description, wine pairing, storage tips, chef's notes, etc.
+      console.log('[RestaurantScreen] Fetching full analysis for:', item.name);
+      return runAnalysisForItem({
+        itemId,
+        item,
+        sectionName,
+        descriptionText,
+      });
+    })();
+
+    analysisInFlightRef.current[itemId] = request;
+    let result: AnalyzeDishResponse | null;
+    try {
+      result = await request;
+    } finally {
+      delete analysisInFlightRef.current[itemId];
+    }
 
     // After analysis completes, navigate to recipe if successful
     if (result && result.ok) {
       setExpandedItemId(null); // Collapse the loader
       navigateToRecipe(itemId, item, result);
-    } else {
-      setAnalysisLoadingByItemId((prev) => ({ ...prev, [itemId]: false }));
     }
+    setAnalysisLoadingByItemId((prev) => ({ ...prev, [itemId]: false }));
   };
 
   // Hero image priority: Google photo ref (fetched from place details) > menu API imageRef > menu API imageUrl
   const heroUrl = buildPhotoUrl(googlePhotoRef) || buildPhotoUrl(restaurant?.imageRef) || restaurant?.imageUrl || undefined;
 
   // Filter menu sections/items based on search query
-  const filteredSections = useMemo(() => {
+  const searchedSections = useMemo(() => {
     if (!menuSearch.trim()) return menu?.sections || [];
     const query = menuSearch.toLowerCase();
     return (menu?.sections || [])
       .map((section) => ({
         ...section,
-        items: section.items?.filter(
-          (item: any) =>
-            item.name?.toLowerCase().includes(query) ||
-            item.description?.toLowerCase().includes(query)
+        items: section.items.filter(
+          (item) =>
+            item.name.toLowerCase().includes(query) ||
+            item.description.toLowerCase().includes(query)
         ),
       }))
       .filter((section) => section.items && section.items.length > 0);
   }, [menu?.sections, menuSearch]);
 
+
+  // Personal filters and sorts, from the batch analyses that have arrived so far
+  const filteredMenu = useMemo(
+    () =>
+      filterAndSortMenu(searchedSections, {
+        analysisByItemId,
+        filters: menuFilters,
+        sort: menuSort,
+        userAllergens: allergenPrefs,
+      }),
+    [searchedSections, analysisByItemId, menuFilters, menuSort, allergenPrefs]
+  );
+  const filteredSections = filteredMenu.sections;
+  const filtersActive = hasActiveMenuFilters(menuFilters);
+
+  const toggleDietFilter = (diet: MenuDietFilter) =>
+    setMenuFilters((prev) => ({ ...prev, diet: prev.diet === diet ? 'any' : diet }));
+
+  // Cycles no limit -> each calorie ceiling -> no limit
+  const cycleCalorieLimit = () =>
+    setMenuFilters((prev) => {
+      const index = prev.maxCalories === null ? -1 : MENU_CALORIE_LIMITS.indexOf(prev.maxCalories);
+      const next = MENU_CALORIE_LIMITS[index + 1];
+      return { ...prev, maxCalories: next ?? null };
+    });
+
+  const toggleCompare = (itemId: string) =>
+    setCompareItemIds((prev) =>
+      prev.includes(itemId)
+        ? prev.filter((id) => id !== itemId)
+        : prev.length < MAX_COMPARED_DISHES
+        ? [...prev, itemId]
+        : prev
+    );
+
+  // The compare screen reads analyses from the dish cache, so make sure the picked ones are in it
+  const openCompare = async () => {
+    const items = (menu?.sections || []).flatMap((section) => section.items);
+    const picked = compareItemIds.flatMap((itemId) => {
+      const item = items.find((i) => i.id === itemId);
+      const analysis = analysisByItemId[itemId];
+      return item && analysis?.ok ? [{ item, analysis }] : [];
+    });
+    await persistRestaurantAnalyses(
+      picked.map(({ item, analysis }) => ({ dishName: item.name, analysis, imageUrl: item.imageUrl })),
+      dishCacheContext
+    );
+    const refs: CompareDishRef[] = picked.map(({ item }) => ({ dishName: item.name, placeId: placeIdValue || undefined }));
+    router.push({ pathname: '/compare', params: { dishes: JSON.stringify(refs) } });
+  };
+
+  const toggleOrderItem = (itemId: string, name: string, analysis: AnalyzeDishResponse) =>
+    setOrderTray((prev) =>
+      prev.some((entry) => entry.itemId === itemId)
+        ? prev.filter((entry) => entry.itemId !== itemId)
+        : [...prev, { itemId, name, analysis, portionFactor: 1 }]
+    );
+
+  const cycleOrderPortion = (itemId: string) =>
+    setOrderTray((prev) =>
+      prev.map((entry) => {
+        if (entry.itemId !== itemId) return entry;
+        const next = ORDER_PORTION_FACTORS[(ORDER_PORTION_FACTORS.indexOf(entry.portionFactor) + 1) % ORDER_PORTION_FACTORS.length];
+        return { ...entry, portionFactor: next };
+      })
+    );
+
+  // Clearing the tray, by logging it or by hand, starts a new order
+  useEffect(() => {
+    if (orderTray.length === 0) setOrderId(null);
+  }, [orderTray.length]);
+
+  const orderSummary = useMemo(
+    () =>
+      summarizeOrder(orderTray, {
+        userAllergens: allergenPrefs,
+        targets: todayTracker?.targets ?? targets,
+        loggedToday: todayTracker?.summary,
+      }),
+    [orderTray, allergenPrefs, targets, todayTracker]
+  );
+
+  // Every item becomes its own tracker entry; the shared order id in dish_id links them
+  const handleLogOrder = async () => {
+    if (orderTray.length === 0 || isLoggingOrder) return;
+    setIsLoggingOrder(true);
+    const id = orderId ?? Date.now().toString(36);
+    setOrderId(id);
+    const payloads = orderMealPayloads(orderTray, {
+      orderId: id,
+      mealType: orderMealType,
+      restaurantName: restaurant?.name || restaurantNameValue || undefined,
+      userAllergens: allergenPrefs,
+    });
+    // Payloads line up with the tray entries
+    const failed: OrderTrayEntry[] = [];
+    try {
+      for (const [index, payload] of payloads.entries()) {
+        const result = await logMealAction(payload);
+        if (!result.success) failed.push(orderTray[index]);
+      }
+    } finally {
+      setIsLoggingOrder(false);
+    }
+
+    if (failed.length === 0) {
+      console.log('[RestaurantScreen] Logged order of', payloads.length, 'items as', orderMealType);
+      setOrderTray([]);
+      setOrderTrayOpen(false);
+      Alert.alert(
+        'Order Logged!',
+        `${payloads.length} item${payloads.length === 1 ? '' : 's'} added to ${orderMealType}.\n+${Math.round(orderSummary.nutrition.calories)} cal`,
+        [
+          { text: 'View Tracker', onPress: () => router.push('/(tabs)/explore') },
+          { text: 'OK' },
+        ]
+      );
+    } else {
+      // Keep only what didn't make it, so retrying can't log anything twice
+      const failedIds = new Set(failed.map((entry) => entry.itemId));
+      setOrderTray((prev) => prev.filter((entry) => failedIds.has(entry.itemId)));
+      Alert.alert('Error', `Could not log ${failed.map((entry) => entry.name).join(', ')}. Try again.`);
+    }
+  };
+
+  const breakdownAnalysis = breakdownTarget ? analysisByItemId[breakdownTarget.item.id] : null;
+  const breakdownSheetComponents = useMemo(
+    () => (breakdownAnalysis?.ok ? breakdownComponents(breakdownAnalysis, allergenPrefs) : []),
+    [breakdownAnalysis, allergenPrefs]
+  );
+
+  // Logs the whole dish, or only the listed plate components
+  const logMenuItem = async (item: MenuItem, sectionName: string, componentIds: string[] | null) => {
+    const analysis = analysisByItemId[item.id];
+    if (!analysis?.ok || loggingItemId) return;
+    setLoggingItemId(item.id);
+    try {
+      let selection = componentIds && !isDefaultSelection(analysis, componentIds)
+        ? recomputeSelection(analysis, componentIds)
+        : null;
+      if (componentIds && !selection && !isDefaultSelection(analysis, componentIds)) {
+        // No per-component data in the analysis: the server recomputes the subset
+        const result = await analyzeDish({
+          dishName: item.name,
+          dishId: item.id,
+          restaurantName: restaurant?.name || restaurantNameValue || null,
+          menuDescription: item.description || '',
+          menuSection: sectionName,
+          placeId: placeIdValue || null,
+          source: 'edamam_recipe_card',
+          selection_component_ids: componentIds,
+          skip_organs: true,
+        });
+        selection = result.ok ? result.selection_custom ?? null : null;
+        if (!selection) {
+          console.log('[RestaurantScreen] Component selection unavailable:', result.error || 'no selection_custom');
+          Alert.alert('Error', 'Could not work out the nutrition for just those components. Please try again.');
+          return;
+        }
+      }
+
+      const mealData = buildMealLog(analysis, {
+        dishName: item.name,
+        dishId: `${item.id}-${Date.now()}`,
+        restaurantName: restaurant?.name || restaurantNameValue || undefined,
+        selection,
+        userAllergens: allergenPrefs,
+      });
+      const result = await logMealAction(mealData);
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to log meal.');
+      } else if (result.duplicate) {
+        Alert.alert('Already Logged', 'This dish was already logged today.', [{ text: 'OK' }]);
+      } else {
+        Alert.alert(
+          'Meal Logged!',
+          `${item.name} added to tracker.${mealData.calories ? `\n+${mealData.calories} cal` : ''}`,
+          [
+            { text: 'View Tracker', onPress: () => router.push('/(tabs)/explore') },
+            { text: 'OK' },
+          ]
+        );
+      }
+    } finally {
+      setLoggingItemId(null);
+    }
+  };
+
+  // Plates with several components open the breakdown sheet; the rest log straight away
+  const handleLogMenuItem = (item: MenuItem, sectionName: string) => {
+    const analysis = analysisByItemId[item.id];
+    if (analysis?.ok && breakdownComponents(analysis, []).length > 1) {
+      setBreakdownTarget({ item, sectionName });
+    } else {
+      logMenuItem(item, sectionName, null);
+    }
+  };
+
+  const cycleMenuSort = () => {
+    const sorts = Object.keys(MENU_SORT_LABELS) as MenuSort[];
+    setMenuSort((prev) => sorts[(sorts.indexOf(prev) + 1) % sorts.length]);
+  };
+
+  // Items the latest fetch added or re-priced, by menuItemKey
+  const menuChangeByItemKey = useMemo(() => {
+    const byKey: Record<string, { isNew?: boolean; priceFrom?: string }> = {};
+    if (!menuChanges) return byKey;
+    for (const added of menuChanges.added) byKey[menuItemKey(added)] = { isNew: true };
+    for (const repriced of menuChanges.repriced) byKey[menuItemKey(repriced)] = { priceFrom: repriced.from };
+    return byKey;
+  }, [menuChanges]);
+
   if (loading) {
     // Compute early hero URL from available sources (googlePhotoRef may be set from a parallel fetch)
     const earlyHeroUrl = buildPhotoUrl(googlePhotoRef) || buildPhotoUrl(restaurant?.imageRef) || restaurant?.imageUrl || undefined;
@@ -1182,6 +1675,10 @@ export default function RestaurantScreen() {
         restaurantName={restaurantNameValue || undefined}
         restaurantAddress={addressValue || undefined}
         heroImageUrl={earlyHeroUrl}
+        prefetchNote={describePrefetchStatus(
+          queue.find((entry) => entry.placeId === placeIdValue)?.status,
+          placeIdValue ? getQueuePosition(placeIdValue) : null
+        )}
       />
     );
   }
@@ -1195,13 +1692,13 @@ export default function RestaurantScreen() {
   }
 
   if (!menu?.sections || menu.sections.length === 0) {
-    const src = (menu as any)?.source || 'unknown';
-    const backendError = (menu as any)?.error || (menu as any)?.uberDebug?.error || null;
+    const src = menu?.source || 'unknown';
+    const backendError = menu?.error || menu?.uberDebug?.error || null;
 
     console.log('MENU EMPTY SECTIONS DEBUG:', {
       source: src,
       backendError,
-      ok: (menu as any)?.ok,
+      ok: menu?.ok,
     });
 
     return (
@@ -1277,6 +1774,26 @@ export default function RestaurantScreen() {
             </View>
           )}
 
+          {batchId && batchCompleted && placeIdValue && (
+            <TouchableOpacity
+              style={styles.reportCardLink}
+              onPress={() =>
+                router.push({
+                  pathname: '/restaurant-report',
+                  params: {
+                    placeId: placeIdValue,
+                    restaurantName: restaurant?.name || restaurantNameValue || '',
+                    batchId,
+                  },
+                })
+              }
+            >
+              <Ionicons name="shield-checkmark-outline" size={18} color={COLORS.brandTealLight} />
+              <Text style={styles.reportCardLinkText}>See this restaurant&apos;s safety report card</Text>
+              <Ionicons name="chevron-forward" size={16} color={COLORS.textSecondary} />
+            </TouchableOpacity>
+          )}
+
           {/* Menu Search Bar */}
           <View style={styles.menuSearchContainer}>
             <Ionicons name="search" size={18} color="#666" style={{ marginRight: 8 }} />
@@ -1296,23 +1813,134 @@ export default function RestaurantScreen() {
             ) : null}
           </View>
 
-          {menuSearch && filteredSections.length === 0 && (
+          {/* Personal filters and sort */}
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.menuFilterRow}
+          >
+            <TouchableOpacity
+              style={[styles.menuFilterChip, menuSort !== 'menu' && styles.menuFilterChipActive]}
+              onPress={cycleMenuSort}
+            >
+              <Ionicons
+                name="swap-vertical"
+                size={14}
+                color={menuSort !== 'menu' ? COLORS.brandTealLight : COLORS.textSecondary}
+              />
+              <Text style={[styles.menuFilterChipText, menuSort !== 'menu' && styles.menuFilterChipTextActive]}>
+                {MENU_SORT_LABELS[menuSort]}
+              </Text>
+            </TouchableOpacity>
+            {allergenPrefs.some((a) => a.severity !== 'monitor') && (
+              <TouchableOpacity
+                style={[styles.menuFilterChip, menuFilters.avoidAllergens && styles.menuFilterChipActive]}
+                onPress={() => setMenuFilters((prev) => ({ ...prev, avoidAllergens: !prev.avoidAllergens }))}
+              >
+                <Text
+                  style={[styles.menuFilterChipText, menuFilters.avoidAllergens && styles.menuFilterChipTextActive]}
+                >
+                  Hide my allergens
+                </Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.menuFilterChip, menuFilters.lowFodmap && styles.menuFilterChipActive]}
+              onPress={() => setMenuFilters((prev) => ({ ...prev, lowFodmap: !prev.lowFodmap }))}
+            >
+              <Text style={[styles.menuFilterChipText, menuFilters.lowFodmap && styles.menuFilterChipTextActive]}>
+                Low FODMAP
+              </Text>
+            </TouchableOpacity>
+            {(['vegetarian', 'vegan'] as const).map((diet) => (
+              <TouchableOpacity
+                key={diet}
+                style={[styles.menuFilterChip, menuFilters.diet === diet && styles.menuFilterChipActive]}
+                onPress={() => toggleDietFilter(diet)}
+              >
+                <Text style={[styles.menuFilterChipText, menuFilters.diet === diet && styles.menuFilterChipTextActive]}>
+                  {diet === 'vegan' ? 'Vegan' : 'Vegetarian'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity
+              style={[styles.menuFilterChip, menuFilters.maxCalories !== null && styles.menuFilterChipActive]}
+              onPress={cycleCalorieLimit}
+            >
+              <Text
+                style={[styles.menuFilterChipText, menuFilters.maxCalories !== null && styles.menuFilterChipTextActive]}
+              >
+                {menuFilters.maxCalories !== null ? `Under ${menuFilters.maxCalories} kcal` : 'Any calories'}
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
+
+          {filtersActive && filteredMenu.hiddenCount > 0 && (
+            <Text style={styles.menuFilterSummary}>
+              {filteredMenu.hiddenCount} item{filteredMenu.hiddenCount === 1 ? '' : 's'} hidden by your filters
+            </Text>
+          )}
+
+          {offlineMenuFetchedAt !== null && (
+            <View style={styles.menuNotice}>
+              <View style={styles.menuNoticeHeader}>
+                <Ionicons name="cloud-offline-outline" size={16} color={COLORS.textSecondary} />
+                <Text style={styles.menuNoticeText}>
+                  Couldn&apos;t refresh this menu. Showing the one saved {formatAge(offlineMenuFetchedAt)}.
+                </Text>
+              </View>
+            </View>
+          )}
+
+          {hasMenuChanges(menuChanges) && !menuChangesDismissed && (
+            <View style={[styles.menuNotice, styles.menuChangesNotice]}>
+              <View style={styles.menuNoticeHeader}>
+                <Ionicons name="sparkles-outline" size={16} color={COLORS.brandTealLight} />
+                <Text style={styles.menuNoticeTitle}>Menu updated since your last visit</Text>
+                <TouchableOpacity
+                  onPress={() => setMenuChangesDismissed(true)}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <Ionicons name="close" size={16} color={COLORS.textSecondary} />
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.menuNoticeText}>{summarizeMenuDiff(menuChanges)}</Text>
+              {menuChanges.removed.length > 0 && (
+                <Text style={styles.menuNoticeText} numberOfLines={2}>
+                  No longer listed: {menuChanges.removed.map((r) => r.name).join(', ')}
+                </Text>
+              )}
+            </View>
+          )}
+
+          {menuSearch && searchedSections.length === 0 && (
             <Text style={styles.noResultsText}>No items found for &quot;{menuSearch}&quot;</Text>
           )}
 
+          {searchedSections.length > 0 && filteredSections.length === 0 && (
+            <Text style={styles.noResultsText}>No items match your filters</Text>
+          )}
+
           {filteredSections.map((section) => (
-            <View key={section.id || section.name} style={{ marginTop: 16 }}>
+            <View key={section.id} style={{ marginTop: 16 }}>
               {section.name ? <Text style={styles.sectionTitle}>{section.name}</Text> : null}
 
-              {section.items?.map((item: any, index: number) => {
-                // Always include section in itemId to ensure uniqueness across menu sections
-                const itemId = `${section.id || section.name || 'section'}-${item?.id || item?.name || index}`;
+              {section.items.map((item) => {
+                const itemId = item.id;
                 const isExpanded = expandedItemId === itemId;
 
                 const analysis = analysisByItemId[itemId];
                 const isAnalysisLoading = !!analysisLoadingByItemId[itemId];
+                const menuChange = menuChangeByItemKey[menuItemKey(item)];
+                // Still waiting on analysis for an active filter: never presented as a match
+                const filterEvaluation = filtersActive ? filteredMenu.evaluationByItemId[itemId] : undefined;
+                const batchStatus = batchJobStatusByItemId[itemId];
+                const analysisPending =
+                  isAnalysisLoading || batchStatus === 'pending' || batchStatus === 'processing';
+                const isComparing = compareItemIds.includes(itemId);
+                const isInOrder = orderTray.some((entry) => entry.itemId === itemId);
                 const viewModel =
-                  analysis && analysis.ok ? buildDishViewModel(analysis, selectedAllergens) : null;
+                  analysis && analysis.ok ? buildDishViewModel(analysis, allergenPrefs) : null;
                 const organLines = viewModel?.organLines || [];
 
                 const organOverallLevel: 'high' | 'medium' | 'low' | null = organLines.length
@@ -1362,13 +1990,7 @@ export default function RestaurantScreen() {
                   viewModel?.nutrition && typeof viewModel.nutrition.calories === 'number'
                     ? Math.round(viewModel.nutrition.calories)
                     : null;
-                const descriptionText =
-                  item?.menuDescription ??
-                  item?.description ??
-                  item?.subtitle ??
-                  item?.shortDescription ??
-                  item?.rawDescription ??
-                  '';
+                const descriptionText = item.description;
 
                 if (item?.name && item.name.toLowerCase().includes('egg mcmuffin')) {
                   console.log('DEBUG MENU ITEM – Egg McMuffin', item, Object.keys(item || {}));
@@ -1382,14 +2004,33 @@ export default function RestaurantScreen() {
                       itemLayouts.current[itemId] = e.nativeEvent.layout.y;
                     }}
                   >
-                    {item?.imageUrl ? (
+                    {item.imageUrl ? (
                       <Image source={{ uri: item.imageUrl }} style={styles.itemImage} />
                     ) : null}
 
+                    {menuChange && (
+                      <View style={styles.menuChangeBadge}>
+                        <Text style={styles.menuChangeBadgeText}>
+                          {menuChange.isNew ? 'New' : `Was ${menuChange.priceFrom} · now ${item.price?.text}`}
+                        </Text>
+                      </View>
+                    )}
+
                     <Text style={styles.itemName} numberOfLines={2}>
-                      {item?.name}
+                      {item.name}
                     </Text>
 
+                    {filterEvaluation?.verdict === 'unknown' && (
+                      <View style={styles.filterUnknownBadge}>
+                        <Ionicons name="help-circle-outline" size={13} color={COLORS.fat} />
+                        <Text style={styles.filterUnknownBadgeText}>
+                          {analysisPending && filterEvaluation.reasons[0] === 'Not analyzed yet'
+                            ? 'Unknown · analysis pending'
+                            : `Unknown · ${filterEvaluation.reasons.join(', ')}`}
+                        </Text>
+                      </View>
+                    )}
+
                     {descriptionText ? (
                       <Text style={styles.dishDescription} numberOfLines={3}>
                         {descriptionText}
@@ -1399,15 +2040,24 @@ export default function RestaurantScreen() {
                     {/* Allergen & FODMAP pills - shown when dish has been analyzed */}
                     {viewModel && (
                       <View style={styles.inlineWarningBadges}>
-                        {/* Allergen badges - teal styling */}
-                        {viewModel.allergens.filter(a => a.present === 'yes').slice(0, 4).map((allergen, idx) => (
-                          <View
-                            key={`inline-allergen-${idx}`}
-                            style={styles.inlineBadgeTeal}
-                          >
-                            <Text style={styles.inlineBadgeTextTeal}>{allergen.name}</Text>
-                          </View>
-                        ))}
+                        {/* Allergen badges - teal styling; the user's high-risk ones first, "maybe" included */}
+                        {viewModel.allergens
+                          .filter(a => a.present === 'yes' || a.risk === 'high')
+                          .sort((a, b) => Number(b.risk === 'high') - Number(a.risk === 'high'))
+                          .slice(0, 4)
+                          .map((allergen, idx) => {
+                            const pillColors = getAllergenPillColors(allergen.risk);
+                            return (
+                              <View
+                                key={`inline-allergen-${idx}`}
+                                style={[styles.inlineBadgeTeal, { backgroundColor: pillColors.bg, borderColor: pillColors.border }]}
+                              >
+                                <Text style={[styles.inlineBadgeTextTeal, { color: pillColors.text }]}>
+                                  {allergen.present === 'maybe' ? `${allergen.name}?` : allergen.name}
+                                </Text>
+                              </View>
+                            );
+                          })}
                         {/* FODMAP badge - teal styling */}
                         {viewModel.fodmapLevel && (viewModel.fodmapLevel === 'high' || viewModel.fodmapLevel === 'medium') && (
                           <View style={styles.inlineBadgeTeal}>
@@ -1419,18 +2069,65 @@ export default function RestaurantScreen() {
                       </View>
                     )}
 
-                    <TouchableOpacity
-                      onPress={() => handleShowAnalysis(String(itemId), item, section.name || '')}
-                    >
-                      <Text style={styles.showMoreText}>
-                        {isAnalysisLoading ? 'Analyzing…' : 'Show analysis'}
-                      </Text>
-                    </TouchableOpacity>
+                    <View style={styles.cardActions}>
+                      <TouchableOpacity
+                        onPress={() => handleShowAnalysis(String(itemId), item, section.name || '')}
+                      >
+                        <Text style={styles.showMoreText}>
+                          {isAnalysisLoading ? 'Analyzing…' : 'Show analysis'}
+                        </Text>
+                      </TouchableOpacity>
+                      {viewModel && analysis && (
+                        <View style={styles.cardToggles}>
+                          <TouchableOpacity
+                            style={styles.compareToggle}
+                            onPress={() => handleLogMenuItem(item, section.name || '')}
+                            disabled={!!loggingItemId}
+                          >
+                            <Ionicons
+                              name="add-circle-outline"
+                              size={16}
+                              color={COLORS.textSecondary}
+                            />
+                            <Text style={styles.compareToggleText}>
+                              {loggingItemId === itemId ? 'Logging…' : 'Log'}
+                            </Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            style={styles.compareToggle}
+                            onPress={() => toggleOrderItem(itemId, item.name, analysis)}
+                          >
+                            <Ionicons
+                              name={isInOrder ? 'bag-check' : 'bag-add-outline'}
+                              size={16}
+                              color={isInOrder ? COLORS.brandTealLight : COLORS.textSecondary}
+                            />
+                            <Text style={[styles.compareToggleText, isInOrder && styles.compareToggleTextActive]}>
+                              {isInOrder ? 'In order' : 'Add to order'}
+                            </Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            style={styles.compareToggle}
+                            onPress={() => toggleCompare(itemId)}
+                            disabled={!isComparing && compareItemIds.length >= MAX_COMPARED_DISHES}
+                          >
+                            <Ionicons
+                              name={isComparing ? 'checkbox' : 'square-outline'}
+                              size={16}
+                              color={isComparing ? COLORS.brandTealLight : COLORS.textSecondary}
+                            />
+                            <Text style={[styles.compareToggleText, isComparing && styles.compareToggleTextActive]}>
+                              Compare
+                            </Text>
+                          </TouchableOpacity>
+                        </View>
+                      )}
+                    </View>
 
                     {/* Show loader only when analysis is in progress */}
                     {isExpanded && isAnalysisLoading && (
                       <View style={styles.expandedVerdictContainer}>
-                        <DishAnalysisLoader dishName={item?.name || 'this dish'} />
+                        <DishAnalysisLoader dishName={item.name} />
                       </View>
                     )}
 
@@ -1449,6 +2146,152 @@ export default function RestaurantScreen() {
           ))}
         </ScrollView>
 
+        <ComponentBreakdownSheet
+          visible={!!breakdownTarget}
+          onClose={() => setBreakdownTarget(null)}
+          components={breakdownSheetComponents}
+          onLogSelected={(componentIds) => {
+            if (breakdownTarget) logMenuItem(breakdownTarget.item, breakdownTarget.sectionName, componentIds);
+          }}
+        />
+
+        {orderTray.length > 0 && (
+          <View style={styles.orderTray}>
+            {orderTrayOpen && (
+              <ScrollView style={styles.orderTrayBody} contentContainerStyle={{ paddingBottom: 8 }}>
+                {orderTray.map((entry) => (
+                  <View key={entry.itemId} style={styles.orderTrayItem}>
+                    <Text style={styles.orderTrayItemName} numberOfLines={1}>
+                      {entry.name}
+                    </Text>
+                    <TouchableOpacity style={styles.orderPortionChip} onPress={() => cycleOrderPortion(entry.itemId)}>
+                      <Text style={styles.orderPortionChipText}>{entry.portionFactor}×</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => toggleOrderItem(entry.itemId, entry.name, entry.analysis)}
+                      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                    >
+                      <Ionicons name="close" size={18} color={COLORS.textSecondary} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+
+                <Text style={styles.orderTrayHeading}>COMBINED</Text>
+                <Text style={styles.orderTrayText}>
+                  {Math.round(orderSummary.nutrition.calories)} kcal · {Math.round(orderSummary.nutrition.protein)}g protein ·{' '}
+                  {Math.round(orderSummary.nutrition.carbs)}g carbs · {Math.round(orderSummary.nutrition.fat)}g fat ·{' '}
+                  {Math.round(orderSummary.nutrition.sodium)}mg sodium
+                </Text>
+                {orderSummary.incompleteItemNames.length > 0 && (
+                  <Text style={styles.orderTrayNote}>
+                    Missing some nutrition for {orderSummary.incompleteItemNames.join(', ')}
+                  </Text>
+                )}
+                <Text style={styles.orderTrayText}>
+                  FODMAP: {orderSummary.fodmapLevel ? orderSummary.fodmapLevel.charAt(0).toUpperCase() + orderSummary.fodmapLevel.slice(1) : 'Unknown'}
+                </Text>
+                {orderSummary.allergens.length > 0 ? (
+                  <View style={styles.orderAllergenRow}>
+                    <Text style={styles.orderTrayText}>Allergens:</Text>
+                    {orderSummary.allergens.map((a) => {
+                      const pillColors = getAllergenPillColors(a.risk);
+                      return (
+                        <View
+                          key={a.name}
+                          style={[styles.inlineBadgeTeal, { backgroundColor: pillColors.bg, borderColor: pillColors.border }]}
+                        >
+                          <Text style={[styles.inlineBadgeTextTeal, { color: pillColors.text }]}>
+                            {a.present === 'maybe' ? `${a.name}?` : a.name}
+                            {a.severity ? ` · ${ALLERGEN_SEVERITY_LABELS[a.severity].toLowerCase()}` : ''}
+                          </Text>
+                        </View>
+                      );
+                    })}
+                  </View>
+                ) : (
+                  <Text style={styles.orderTrayText}>Allergens: None found</Text>
+                )}
+
+                {orderSummary.targetShares.length > 0 && (
+                  <>
+                    <Text style={styles.orderTrayHeading}>OF WHAT&apos;S LEFT TODAY</Text>
+                    {orderSummary.targetShares.map((target) => (
+                      <View key={target.key} style={styles.orderTargetRow}>
+                        <Text style={styles.orderTargetLabel}>{target.label}</Text>
+                        <Text
+                          style={[
+                            styles.orderTargetValue,
+                            (target.share === null || target.share > 1) && { color: COLORS.calories },
+                          ]}
+                        >
+                          {target.share === null
+                            ? 'Target already reached'
+                            : `${Math.round(target.share * 100)}% of ${Math.round(target.remaining)} ${target.unit}`}
+                        </Text>
+                      </View>
+                    ))}
+                  </>
+                )}
+
+                <View style={styles.orderMealTypes}>
+                  {ORDER_MEAL_TYPES.map((mealType) => (
+                    <TouchableOpacity
+                      key={mealType}
+                      style={[styles.menuFilterChip, orderMealType === mealType && styles.menuFilterChipActive]}
+                      onPress={() => setOrderMealType(mealType)}
+                    >
+                      <Text style={[styles.menuFilterChipText, orderMealType === mealType && styles.menuFilterChipTextActive]}>
+                        {mealType.charAt(0).toUpperCase() + mealType.slice(1)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </ScrollView>
+            )}
+
+            <View style={styles.compareBar}>
+              <TouchableOpacity style={{ flex: 1 }} onPress={() => setOrderTrayOpen((open) => !open)}>
+                <Text style={styles.compareBarText}>
+                  {orderTray.length} item{orderTray.length === 1 ? '' : 's'} · {Math.round(orderSummary.nutrition.calories)} kcal{' '}
+                  <Ionicons name={orderTrayOpen ? 'chevron-down' : 'chevron-up'} size={13} color={COLORS.textSecondary} />
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setOrderTray([])}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                disabled={isLoggingOrder}
+              >
+                <Text style={styles.compareBarClear}>Clear</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.compareBarButton, isLoggingOrder && { opacity: 0.5 }]}
+                onPress={handleLogOrder}
+                disabled={isLoggingOrder}
+              >
+                <Text style={styles.compareBarButtonText}>{isLoggingOrder ? 'Logging…' : 'Log order'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {compareItemIds.length > 0 && (
+          <View style={styles.compareBar}>
+            <Text style={styles.compareBarText}>
+              {compareItemIds.length} of {MAX_COMPARED_DISHES} selected
+            </Text>
+            <TouchableOpacity onPress={() => setCompareItemIds([])} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+              <Text style={styles.compareBarClear}>Clear</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.compareBarButton, compareItemIds.length < 2 && { opacity: 0.5 }]}
+              onPress={openCompare}
+              disabled={compareItemIds.length < 2}
+            >
+              <Text style={styles.compareBarButtonText}>Compare</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Bottom Navigation */}
         <View style={styles.bottomNav}>
           <TouchableOpacity style={styles.bottomNavItem} onPress={() => router.push('/')}>
@@ -2109,6 +2952,243 @@ const styles = StyleSheet.create({
     marginTop: 24,
     marginBottom: 16,
   },
+  menuNotice: {
+    marginTop: 12,
+    padding: 12,
+    gap: 4,
+    borderRadius: 10,
+    backgroundColor: COLORS.cardBg,
+    borderWidth: 1,
+    borderColor: COLORS.cardBorder,
+  },
+  menuChangesNotice: {
+    borderColor: COLORS.brandTeal,
+  },
+  menuNoticeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  menuNoticeTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  menuNoticeText: {
+    flexShrink: 1,
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  compareToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 8,
+  },
+  compareToggleText: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  compareToggleTextActive: {
+    color: COLORS.brandTealLight,
+    fontWeight: '600',
+  },
+  cardToggles: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+  },
+  orderTray: {
+    backgroundColor: COLORS.cardBg,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.cardBorder,
+  },
+  orderTrayBody: {
+    maxHeight: 320,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  orderTrayItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  orderTrayItemName: {
+    flex: 1,
+    fontSize: 14,
+    color: COLORS.textPrimary,
+  },
+  orderPortionChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.tagBorder,
+  },
+  orderPortionChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.brandTealLight,
+  },
+  orderTrayHeading: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1.2,
+    color: COLORS.textMuted,
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  orderTrayText: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    lineHeight: 19,
+  },
+  orderAllergenRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 2,
+  },
+  orderTrayNote: {
+    fontSize: 12,
+    color: COLORS.textMuted,
+    marginBottom: 2,
+  },
+  orderTargetRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 2,
+  },
+  orderTargetLabel: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  orderTargetValue: {
+    fontSize: 13,
+    color: COLORS.textPrimary,
+  },
+  orderMealTypes: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  compareBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: COLORS.cardBg,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.cardBorder,
+  },
+  compareBarText: {
+    flex: 1,
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  compareBarClear: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  compareBarButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: COLORS.brandTeal,
+  },
+  compareBarButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  reportCardLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(20, 184, 166, 0.3)',
+    backgroundColor: 'rgba(20, 184, 166, 0.08)',
+  },
+  reportCardLinkText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.brandTealLight,
+  },
+  menuFilterRow: {
+    gap: 8,
+    paddingTop: 12,
+  },
+  menuFilterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.tagBorder,
+    backgroundColor: COLORS.tagBg,
+  },
+  menuFilterChipActive: {
+    borderColor: COLORS.brandTeal,
+    backgroundColor: 'rgba(20, 184, 166, 0.15)',
+  },
+  menuFilterChipText: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  menuFilterChipTextActive: {
+    color: COLORS.brandTealLight,
+    fontWeight: '600',
+  },
+  menuFilterSummary: {
+    marginTop: 8,
+    fontSize: 12,
+    color: COLORS.textMuted,
+  },
+  filterUnknownBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    marginTop: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: 'rgba(234, 179, 8, 0.12)',
+  },
+  filterUnknownBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: COLORS.fat,
+  },
+  menuChangeBadge: {
+    alignSelf: 'flex-start',
+    marginBottom: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: 'rgba(20, 184, 166, 0.15)',
+  },
+  menuChangeBadgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: COLORS.brandTealLight,
+  },
   // New design system styles
   analysisCard: {
     backgroundColor: '#1e293b',
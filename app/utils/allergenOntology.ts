@@ -0,0 +1,280 @@
+import type { AllergenPrefInput, AllergenSeverity } from "./allergenSeverity";
+import { toAllergenPref } from "./allergenSeverity";
+
+/** Bump when terms change meaning, so cached match explanations can be told apart */
+export const ALLERGEN_ONTOLOGY_VERSION = 1;
+
+/** What a matched word is to the allergen */
+export type AllergenTermKind = "term" | "derivative" | "hidden_source";
+
+export interface AllergenOntologyEntry {
+  /** `AllergenDefinition.allergen_code` */
+  code: string;
+  /** How explanations name the allergen */
+  label: string;
+  /** The allergen itself, other names for it and the foods it covers */
+  terms: string[];
+  /** Ingredients made from it */
+  derivatives: string[];
+  /** Dishes and condiments that usually contain it without saying so */
+  hiddenSources: string[];
+  /** Phrases that contain a term but not the allergen, e.g. "peanut butter" for milk */
+  exclusions?: string[];
+}
+
+export const ALLERGEN_ONTOLOGY: AllergenOntologyEntry[] = [
+  {
+    code: "gluten",
+    label: "gluten",
+    terms: ["gluten", "wheat", "barley", "rye", "spelt", "semolina", "durum", "farro", "triticale", "kamut"],
+    derivatives: ["seitan", "malt", "bulgur", "couscous", "breadcrumb", "panko", "farina"],
+    hiddenSources: ["soy sauce", "beer", "roux", "teriyaki"],
+    exclusions: ["gluten free"],
+  },
+  {
+    code: "milk",
+    label: "milk",
+    terms: ["milk", "dairy"],
+    derivatives: [
+      "butter",
+      "buttermilk",
+      "ghee",
+      "cream",
+      "cheese",
+      "yogurt",
+      "yoghurt",
+      "casein",
+      "caseinate",
+      "whey",
+      "lactose",
+      "paneer",
+      "ricotta",
+      "mozzarella",
+      "parmesan",
+      "mascarpone",
+      "kefir",
+    ],
+    hiddenSources: ["bechamel", "béchamel", "alfredo", "custard", "nougat", "ranch dressing"],
+    exclusions: [
+      "peanut butter",
+      "almond butter",
+      "cashew butter",
+      "nut butter",
+      "cocoa butter",
+      "shea butter",
+      "apple butter",
+      "coconut milk",
+      "coconut cream",
+      "almond milk",
+      "oat milk",
+      "soy milk",
+      "rice milk",
+      "cream of tartar",
+      "dairy free",
+    ],
+  },
+  {
+    code: "egg",
+    label: "egg",
+    terms: ["egg"],
+    derivatives: ["albumin", "mayonnaise", "mayo", "meringue", "aioli"],
+    hiddenSources: ["hollandaise", "custard", "carbonara", "brioche"],
+    exclusions: ["egg free"],
+  },
+  {
+    code: "peanut",
+    label: "peanut",
+    terms: ["peanut", "groundnut", "monkey nut"],
+    derivatives: ["arachis oil"],
+    hiddenSources: ["satay", "kung pao"],
+  },
+  {
+    code: "tree_nut",
+    label: "tree nuts",
+    terms: [
+      "tree nut",
+      "almond",
+      "cashew",
+      "pistachio",
+      "walnut",
+      "pecan",
+      "hazelnut",
+      "filbert",
+      "macadamia",
+      "brazil nut",
+      "pine nut",
+    ],
+    derivatives: ["marzipan", "praline", "frangipane", "gianduja", "nutella", "amaretto"],
+    hiddenSources: ["pesto", "baklava", "nougat", "romesco"],
+  },
+  {
+    code: "soy",
+    label: "soy",
+    terms: ["soy", "soya", "soybean", "edamame"],
+    derivatives: ["tofu", "tempeh", "miso", "tamari", "natto", "lecithin"],
+    hiddenSources: ["teriyaki", "hoisin"],
+  },
+  {
+    code: "fish",
+    label: "fish",
+    terms: [
+      "fish",
+      "salmon",
+      "tuna",
+      "cod",
+      "anchovy",
+      "sardine",
+      "trout",
+      "halibut",
+      "tilapia",
+      "catfish",
+      "mackerel",
+      "haddock",
+      "snapper",
+      "swordfish",
+    ],
+    derivatives: ["bonito", "dashi", "fish sauce", "nam pla"],
+    hiddenSources: ["worcestershire", "caesar dressing"],
+  },
+  {
+    code: "shellfish",
+    label: "shellfish",
+    terms: [
+      "shellfish",
+      "crustacean",
+      "shrimp",
+      "prawn",
+      "crab",
+      "lobster",
+      "crayfish",
+      "crawfish",
+      "langoustine",
+      "scallop",
+      "clam",
+      "mussel",
+      "oyster",
+    ],
+    derivatives: ["shrimp paste", "oyster sauce"],
+    hiddenSources: ["bouillabaisse", "paella", "cioppino", "gumbo"],
+  },
+  {
+    code: "sesame",
+    label: "sesame",
+    terms: ["sesame", "benne"],
+    derivatives: ["tahini", "gomasio", "halva", "halvah"],
+    hiddenSources: ["hummus", "za'atar", "baba ganoush"],
+  },
+];
+
+export interface AllergenTermMatch {
+  code: string;
+  label: string;
+  /** The word in the text that matched */
+  term: string;
+  kind: AllergenTermKind;
+  /** Why it matched, e.g. "Ghee: made from milk." */
+  explanation: string;
+}
+
+const KIND_ORDER: AllergenTermKind[] = ["term", "derivative", "hidden_source"];
+
+const normalize = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[_-]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Simple plurals too: "almonds", "anchovies", "breadcrumbs"
+function termStem(term: string): string {
+  const t = normalize(term);
+  return t.endsWith("y") ? `${escapeRegExp(t.slice(0, -1))}(?:y|ies)` : `${escapeRegExp(t)}(?:e?s)?`;
+}
+
+// Whole words only, so "egg" doesn't match "eggplant" nor "fish" "shellfish"
+const mentions = (text: string, term: string): boolean =>
+  new RegExp(`(?:^|[^a-z])${termStem(term)}(?![a-z])`).test(text);
+
+const isTerm = (text: string, term: string): boolean => new RegExp(`^${termStem(term)}$`).test(text);
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+function explain(entry: AllergenOntologyEntry, term: string, kind: AllergenTermKind): string {
+  if (kind === "term" && isTerm(normalize(entry.label), term)) return `${capitalize(entry.label)}: one of your allergens.`;
+  if (kind === "term") return `${capitalize(term)}: counts as ${entry.label}.`;
+  if (kind === "derivative") return `${capitalize(term)}: made from ${entry.label}.`;
+  return `${capitalize(term)}: often contains ${entry.label}.`;
+}
+
+/**
+ * The entry for a user allergen or flag kind, by code ("tree_nut"), label
+ * ("Tree Nuts") or any of its terms ("dairy", "wheat").
+ */
+export function ontologyEntry(nameOrCode: string): AllergenOntologyEntry | null {
+  const name = normalize(nameOrCode);
+  if (!name) return null;
+  return (
+    ALLERGEN_ONTOLOGY.find((e) => isTerm(name, e.code) || isTerm(name, e.label)) ??
+    ALLERGEN_ONTOLOGY.find((e) => e.terms.some((t) => isTerm(name, t))) ??
+    null
+  );
+}
+
+/**
+ * Whether `text` (an ingredient, flag kind or menu description) mentions the
+ * allergen, and why. Terms win over derivatives, derivatives over hidden sources.
+ */
+export function matchAllergenTerm(text: string, entry: AllergenOntologyEntry): AllergenTermMatch | null {
+  let haystack = normalize(text);
+  for (const phrase of entry.exclusions ?? []) {
+    haystack = haystack.split(normalize(phrase)).join(" ");
+  }
+  if (!haystack.trim()) return null;
+
+  const lists: Record<AllergenTermKind, string[]> = {
+    term: entry.terms,
+    derivative: entry.derivatives,
+    hidden_source: entry.hiddenSources,
+  };
+  for (const kind of KIND_ORDER) {
+    // Longest first, so "soy sauce" explains the match rather than "soy"
+    const terms = [...lists[kind]].sort((a, b) => b.length - a.length);
+    const term = terms.find((t) => mentions(haystack, t));
+    if (term) return { code: entry.code, label: entry.label, term, kind, explanation: explain(entry, term, kind) };
+  }
+  return null;
+}
+
+export interface UserAllergenMatch extends AllergenTermMatch {
+  /** The user's allergen as they named it */
+  allergen: string;
+  severity: AllergenSeverity;
+}
+
+/**
+ * The user's allergens that `text` mentions. Allergens outside the ontology
+ * only match by name.
+ */
+export function userAllergenMatches(text: string, userAllergens: AllergenPrefInput[]): UserAllergenMatch[] {
+  const matches: UserAllergenMatch[] = [];
+  for (const pref of userAllergens.map(toAllergenPref)) {
+    const entry = ontologyEntry(pref.name);
+    if (entry) {
+      const match = matchAllergenTerm(text, entry);
+      if (match) matches.push({ ...match, allergen: pref.name, severity: pref.severity });
+    } else if (mentions(normalize(text), pref.name)) {
+      matches.push({
+        code: normalize(pref.name),
+        label: pref.name,
+        term: pref.name,
+        kind: "term",
+        explanation: `${capitalize(pref.name)}: one of your allergens.`,
+        allergen: pref.name,
+        severity: pref.severity,
+      });
+    }
+  }
+  return matches;
+}
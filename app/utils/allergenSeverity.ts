@@ -0,0 +1,75 @@
+import type { UserAllergen } from "../../api/api";
+
+export type AllergenSeverity = UserAllergen["severity"];
+
+/** How much a flagged allergen matters to this user */
+export type AllergenRisk = "high" | "medium" | "low";
+
+export interface UserAllergenPref {
+  name: string;
+  severity: AllergenSeverity;
+}
+
+/** A bare name is an allergen the user avoids, as before severities were carried through */
+export type AllergenPrefInput = string | UserAllergenPref;
+
+export const ALLERGEN_SEVERITIES: AllergenSeverity[] = ["avoid", "limit", "monitor"];
+
+export const ALLERGEN_SEVERITY_LABELS: Record<AllergenSeverity, string> = {
+  avoid: "Avoid",
+  limit: "Limit",
+  monitor: "Monitor",
+};
+
+const RISK_RANK: Record<AllergenRisk, number> = { low: 0, medium: 1, high: 2 };
+
+export function toAllergenPref(input: AllergenPrefInput): UserAllergenPref {
+  return typeof input === "string" ? { name: input, severity: "avoid" } : input;
+}
+
+/** The profile's allergens as the name/severity pairs the view model matches on */
+export function userAllergenPrefs(allergens: UserAllergen[]): UserAllergenPref[] {
+  return allergens.map((a) => ({
+    name: a.display_name || a.allergen_code.replace(/_/g, " "),
+    severity: a.severity,
+  }));
+}
+
+/**
+ * An avoided allergen is high risk even when it only may be present; a limited
+ * one is medium when present; anything monitored, or a limited "maybe", is low.
+ * Null when the allergen isn't flagged as present at all.
+ */
+export function allergenRisk(present: string | null | undefined, severity: AllergenSeverity): AllergenRisk | null {
+  const p = (present || "").toLowerCase();
+  if (p !== "yes" && p !== "maybe") return null;
+  if (severity === "avoid") return "high";
+  if (severity === "limit" && p === "yes") return "medium";
+  return "low";
+}
+
+export function maxAllergenRisk(risks: (AllergenRisk | null | undefined)[]): AllergenRisk | null {
+  let max: AllergenRisk | null = null;
+  for (const risk of risks) {
+    if (risk && (max === null || RISK_RANK[risk] > RISK_RANK[max])) max = risk;
+  }
+  return max;
+}
+
+/**
+ * Meal risk flags for a dish's allergens: `allergen_<kind>` for anything it
+ * contains, plus `avoid_allergen_<kind>` / `limit_allergen_<kind>` when the
+ * user's severity makes it high or medium risk.
+ */
+export function allergenRiskFlags(
+  allergens: { kind?: string; present?: string; severity?: AllergenSeverity | null; risk?: AllergenRisk | null }[]
+): string[] {
+  const flags: string[] = [];
+  for (const allergen of allergens) {
+    if (!allergen.kind) continue;
+    if (allergen.present === "yes") flags.push(`allergen_${allergen.kind}`);
+    if (allergen.risk === "high") flags.push(`avoid_allergen_${allergen.kind}`);
+    else if (allergen.risk === "medium") flags.push(`limit_allergen_${allergen.kind}`);
+  }
+  return flags;
+}
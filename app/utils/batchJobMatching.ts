@@ -0,0 +1,99 @@
+import type { BatchDishInput } from "../../api/api";
+
+/** Minimal job shape shared by batch start responses, status polls and pushed deltas */
+export interface BatchJobRef {
+  jobId: string;
+  dishName: string;
+  clientKey?: string;
+}
+
+export type BatchJobMismatch =
+  | { kind: "unknown_key"; jobId: string; clientKey: string; dishName: string }
+  | { kind: "missing_key"; jobId: string; dishName: string }
+  | { kind: "name_mismatch"; jobId: string; clientKey: string; expected: string; received: string }
+  | { kind: "duplicate_key"; jobId: string; clientKey: string; otherJobId: string };
+
+export interface BatchJobIndex {
+  /** Requested dishes by clientKey (the menu item id) */
+  dishesByKey: Record<string, BatchDishInput>;
+  /** Accepted job -> item assignments */
+  itemIdByJobId: Record<string, string>;
+  jobIdByItemId: Record<string, string>;
+}
+
+export type BatchJobResolution = { itemId: string } | { mismatch: BatchJobMismatch };
+
+function normalizeDishName(name: string): string {
+  return name.normalize("NFKC").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function createBatchJobIndex(dishes: BatchDishInput[]): BatchJobIndex {
+  const dishesByKey: Record<string, BatchDishInput> = {};
+  for (const dish of dishes) {
+    if (dish.clientKey) dishesByKey[dish.clientKey] = dish;
+  }
+  return { dishesByKey, itemIdByJobId: {}, jobIdByItemId: {} };
+}
+
+/**
+ * Work out which menu item a batch job belongs to, using the clientKey the
+ * backend echoes. The echoed dish name must also match what was sent, so a
+ * wrong key never attaches another dish's analysis. Jobs from backends that
+ * predate clientKey fall back to an exact, unambiguous dish-name match.
+ * Accepted assignments are recorded in `index`.
+ */
+export function resolveBatchJob(index: BatchJobIndex, job: BatchJobRef): BatchJobResolution {
+  const known = index.itemIdByJobId[job.jobId];
+  if (known) return { itemId: known };
+
+  let itemId: string | undefined;
+  if (job.clientKey) {
+    const dish = index.dishesByKey[job.clientKey];
+    if (!dish) {
+      return { mismatch: { kind: "unknown_key", jobId: job.jobId, clientKey: job.clientKey, dishName: job.dishName } };
+    }
+    if (job.dishName && normalizeDishName(job.dishName) !== normalizeDishName(dish.dishName)) {
+      return {
+        mismatch: {
+          kind: "name_mismatch",
+          jobId: job.jobId,
+          clientKey: job.clientKey,
+          expected: dish.dishName,
+          received: job.dishName,
+        },
+      };
+    }
+    itemId = job.clientKey;
+  } else {
+    const wanted = normalizeDishName(job.dishName || "");
+    const candidates = Object.entries(index.dishesByKey).filter(
+      ([key, dish]) => normalizeDishName(dish.dishName) === wanted && !index.jobIdByItemId[key]
+    );
+    if (!wanted || candidates.length !== 1) {
+      return { mismatch: { kind: "missing_key", jobId: job.jobId, dishName: job.dishName } };
+    }
+    itemId = candidates[0][0];
+  }
+
+  const otherJobId = index.jobIdByItemId[itemId];
+  if (otherJobId && otherJobId !== job.jobId) {
+    return { mismatch: { kind: "duplicate_key", jobId: job.jobId, clientKey: itemId, otherJobId } };
+  }
+
+  index.itemIdByJobId[job.jobId] = itemId;
+  index.jobIdByItemId[itemId] = job.jobId;
+  return { itemId };
+}
+
+export function describeBatchJobMismatch(mismatch: BatchJobMismatch): string {
+  switch (mismatch.kind) {
+    case "unknown_key":
+      return `job ${mismatch.jobId} ("${mismatch.dishName}") has unknown clientKey ${mismatch.clientKey}`;
+    case "missing_key":
+      return `job ${mismatch.jobId} ("${mismatch.dishName}") has no clientKey and no unique name match`;
+    case "name_mismatch":
+      return `job ${mismatch.jobId} for ${mismatch.clientKey} is "${mismatch.received}", expected "${mismatch.expected}"`;
+    case "duplicate_key":
+      return `job ${mismatch.jobId} repeats ${mismatch.clientKey} (already job ${mismatch.otherJobId})`;
+  }
+}
@@ -0,0 +1,238 @@
+import type {
+  AllergenFlag,
+  AnalyzeDishResponse,
+  FodmapFlag,
+  LactoseFlag,
+  NutritionSummary,
+  PlateComponent,
+  SelectionNutritionRow,
+  SelectionResult,
+} from "../../api/api";
+import { userAllergenMatches } from "./allergenOntology";
+import { AllergenPrefInput, allergenRisk } from "./allergenSeverity";
+
+export interface SelectableComponent {
+  id: string;
+  name: string;
+  role?: string;
+}
+
+const NUTRIENT_KEYS: (keyof NutritionSummary)[] = [
+  "energyKcal",
+  "protein_g",
+  "fat_g",
+  "carbs_g",
+  "sugar_g",
+  "fiber_g",
+  "sodium_mg",
+];
+
+const PRESENCE_RANK: Record<AllergenFlag["present"], number> = { no: 0, maybe: 1, yes: 2 };
+const FODMAP_LEVELS: FodmapFlag["level"][] = ["low", "medium", "high"];
+const LACTOSE_LEVELS: LactoseFlag["level"][] = ["none", "trace", "low", "medium", "high"];
+
+function componentName(component: PlateComponent, index: number): string {
+  return component.label || component.component || component.name || `Component ${index + 1}`;
+}
+
+/** Plate components a user can include or skip; ones without an id can't be selected */
+export function selectableComponents(analysis: AnalyzeDishResponse): SelectableComponent[] {
+  return (analysis.plate_components ?? []).flatMap((component, index) =>
+    component.component_id
+      ? [{ id: component.component_id, name: componentName(component, index), role: component.role ?? undefined }]
+      : []
+  );
+}
+
+/** Same components, in any order */
+export function isSameSelection(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id) => b.includes(id));
+}
+
+/** The ids the whole-plate analysis covers */
+export function defaultComponentIds(analysis: AnalyzeDishResponse): string[] {
+  const fromDefault = analysis.selection_default?.componentIds ?? [];
+  return fromDefault.length > 0 ? fromDefault : selectableComponents(analysis).map((c) => c.id);
+}
+
+function rowNutrition(row: SelectionNutritionRow): NutritionSummary {
+  return {
+    energyKcal: row.energyKcal ?? null,
+    protein_g: row.protein_g ?? null,
+    fat_g: row.fat_g ?? null,
+    carbs_g: row.carbs_g ?? null,
+    sugar_g: row.sugar_g ?? null,
+    fiber_g: row.fiber_g ?? null,
+    sodium_mg: row.sodium_mg ?? null,
+  };
+}
+
+interface ComponentData {
+  nutrition: NutritionSummary;
+  rows: SelectionNutritionRow[];
+  allergens: AllergenFlag[];
+  fodmap: FodmapFlag | null;
+  lactose: LactoseFlag | null;
+}
+
+// Per-component data from selection_components, else the older breakdown arrays
+function componentData(analysis: AnalyzeDishResponse, id: string): ComponentData | null {
+  const selection = analysis.selection_components?.[id];
+  const row = analysis.nutrition_breakdown?.find((r) => r.component_id === id);
+  const breakdown = analysis.allergen_breakdown?.find((b) => b.component_id === id);
+
+  const nutrition = selection?.combined_nutrition ?? (row ? rowNutrition(row) : null);
+  const allergens = selection?.combined_allergens ?? breakdown?.allergen_flags;
+  if (!nutrition || !allergens) return null;
+
+  return {
+    nutrition,
+    rows: selection?.nutrition ?? (row ? [row] : []),
+    allergens,
+    fodmap: selection?.combined_fodmap ?? breakdown?.fodmap_flags ?? null,
+    lactose: selection?.combined_lactose ?? breakdown?.lactose_flags ?? null,
+  };
+}
+
+// A nutrient is only summed when every component reports it
+function sumNutrition(parts: NutritionSummary[]): NutritionSummary {
+  const total = {} as NutritionSummary;
+  for (const key of NUTRIENT_KEYS) {
+    const values = parts.map((p) => p[key]);
+    total[key] = values.every((v): v is number => typeof v === "number" && Number.isFinite(v))
+      ? values.reduce((sum, v) => sum + v, 0)
+      : null;
+  }
+  return total;
+}
+
+/** One flag per allergen, keeping the strongest presence across components */
+export function mergeAllergenFlags(flagLists: AllergenFlag[][]): AllergenFlag[] {
+  const merged = new Map<string, AllergenFlag>();
+  for (const flag of flagLists.flat()) {
+    const key = flag.kind.toLowerCase();
+    const existing = merged.get(key);
+    if (!existing || PRESENCE_RANK[flag.present] > PRESENCE_RANK[existing.present]) {
+      merged.set(key, { ...flag });
+    } else if (flag.present === existing.present && flag.message && !existing.message.includes(flag.message)) {
+      existing.message = existing.message ? `${existing.message} ${flag.message}` : flag.message;
+    }
+  }
+  return Array.from(merged.values());
+}
+
+function worstLevel<T extends { level: string; reason: string }>(flags: (T | null)[], levels: string[]): T | null {
+  const known = flags.filter((f): f is T => !!f && levels.includes(f.level));
+  if (known.length === 0) return null;
+  const worst = Math.max(...known.map((f) => levels.indexOf(f.level)));
+  const atWorst = known.filter((f) => levels.indexOf(f.level) === worst);
+  const reasons = Array.from(new Set(atWorst.map((f) => f.reason).filter(Boolean)));
+  return { ...atWorst[0], reason: reasons.join(" ") };
+}
+
+/** One row of the plate breakdown sheet */
+export interface BreakdownComponent {
+  id: string;
+  name: string;
+  role?: string;
+  shareRatio?: number;
+  calories?: number | null;
+  protein?: number | null;
+  carbs?: number | null;
+  fat?: number | null;
+  allergens?: string[];
+  fodmapLevel?: "high" | "medium" | "low" | null;
+  /** False when one of the user's allergens is high or medium risk in it; unset without data */
+  isSafe?: boolean;
+}
+
+/** The selectable components with whatever per-component data the analysis has */
+export function breakdownComponents(
+  analysis: AnalyzeDishResponse,
+  userAllergens: AllergenPrefInput[]
+): BreakdownComponent[] {
+  // Through the ontology, so a "wheat" flag counts for gluten and a "ghee" component for milk
+  const isRisky = (text: string, present: AllergenFlag["present"]) =>
+    userAllergenMatches(text, userAllergens).some((m) => {
+      const risk = allergenRisk(present, m.severity);
+      return risk === "high" || risk === "medium";
+    });
+  const plate = analysis.plate_components ?? [];
+  return selectableComponents(analysis).map((component) => {
+    const data = componentData(analysis, component.id);
+    const row = data?.rows.find((r) => r.share_ratio != null);
+    const shareRatio = row?.share_ratio ?? plate.find((c) => c.component_id === component.id)?.area_ratio ?? undefined;
+    const present = (data?.allergens ?? []).filter((a) => a.present === "yes" || a.present === "maybe");
+    return {
+      ...component,
+      shareRatio: shareRatio ?? undefined,
+      calories: data?.nutrition.energyKcal ?? null,
+      protein: data?.nutrition.protein_g ?? null,
+      carbs: data?.nutrition.carbs_g ?? null,
+      fat: data?.nutrition.fat_g ?? null,
+      allergens: present.map((a) => a.kind),
+      fodmapLevel: data?.fodmap?.level ?? null,
+      isSafe: isRisky(component.name, "yes")
+        ? false
+        : data
+          ? !present.some((a) => isRisky(a.kind, a.present))
+          : undefined,
+    };
+  });
+}
+
+/** True when the ids are exactly what the whole-plate analysis covers */
+export function isDefaultSelection(analysis: AnalyzeDishResponse, componentIds: string[]): boolean {
+  return isSameSelection(componentIds, defaultComponentIds(analysis));
+}
+
+/**
+ * Recompute a dish for a subset of its plate components on the client. Returns
+ * the matching server selection when there is one, and null when a component
+ * lacks the data to add up, in which case ask the server for `selection_custom`.
+ */
+export function recomputeSelection(analysis: AnalyzeDishResponse, componentIds: string[]): SelectionResult | null {
+  if (analysis.selection_default && isDefaultSelection(analysis, componentIds)) {
+    return analysis.selection_default;
+  }
+  if (analysis.selection_custom && isSameSelection(componentIds, analysis.selection_custom.componentIds)) {
+    return analysis.selection_custom;
+  }
+  if (componentIds.length === 0) return null;
+
+  const parts: ComponentData[] = [];
+  for (const id of componentIds) {
+    const data = componentData(analysis, id);
+    if (!data) return null;
+    parts.push(data);
+  }
+
+  return {
+    componentIds,
+    components: (analysis.plate_components ?? []).filter((c) => !!c.component_id && componentIds.includes(c.component_id)),
+    nutrition: parts.flatMap((p) => p.rows),
+    combined_nutrition: sumNutrition(parts.map((p) => p.nutrition)),
+    combined_allergens: mergeAllergenFlags(parts.map((p) => p.allergens)),
+    combined_fodmap: worstLevel(parts.map((p) => p.fodmap), FODMAP_LEVELS),
+    combined_lactose: worstLevel(parts.map((p) => p.lactose), LACTOSE_LEVELS),
+  };
+}
+
+/**
+ * The analysis as if the plate only had the selected components, so the view
+ * model and meal logging pick up the recomputed values. Whole-dish summaries
+ * no longer apply and are dropped.
+ */
+export function applySelection(analysis: AnalyzeDishResponse, selection: SelectionResult): AnalyzeDishResponse {
+  if (selection === analysis.selection_default) return analysis;
+  return {
+    ...analysis,
+    selection_default: selection,
+    nutrition_summary: selection.combined_nutrition ?? null,
+    allergen_flags: selection.combined_allergens ?? [],
+    allergen_summary: null,
+    fodmap_flags: selection.combined_fodmap ?? null,
+    fodmap_summary: null,
+    lactose_flags: selection.combined_lactose ?? null,
+  };
+}
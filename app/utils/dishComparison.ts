@@ -0,0 +1,301 @@
+import type { AnalyzeDishResponse, UserDailyTargets } from "../../api/api";
+import { DishViewModel, buildDishViewModel } from "./dishViewModel";
+
+export const MAX_COMPARED_DISHES = 4;
+// Rows whose values differ by at least this share are candidates for highlighting
+const HIGHLIGHT_SPREAD = 0.3;
+const MAX_HIGHLIGHTED_ROWS = 4;
+
+/** A dish for the compare screen, looked up in the dish cache (its `dishes` param is a JSON list) */
+export interface CompareDishRef {
+  dishName: string;
+  placeId?: string;
+}
+
+export interface ComparedDish {
+  key: string;
+  name: string;
+  restaurantName?: string;
+  analysis: AnalyzeDishResponse;
+}
+
+export interface ComparisonPrefs {
+  avoidAllergens: string[];
+  /** Profile goal keys, e.g. "lose_weight", "gut_health" */
+  goals?: string[];
+  targets?: UserDailyTargets | null;
+  /** Organ keys the user starred, e.g. "gut" */
+  starredOrgans?: string[];
+}
+
+export type ComparisonGroup = "nutrition" | "safety" | "organs";
+
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  group: ComparisonGroup;
+  /** One display value per dish, in dish order */
+  cells: string[];
+  /** 0 when every dish agrees, up to 1 for the largest differences */
+  spread: number;
+  highlighted: boolean;
+  /** Dishes with the best value in this row; empty when no direction is better */
+  bestIndexes: number[];
+}
+
+export interface DishComparison {
+  rows: ComparisonRow[];
+  /** The dish that suits the user's goals best, or null if none qualifies */
+  best: { index: number; reasons: string[] } | null;
+  /** Dishes left out of the pick because they contain an avoided allergen */
+  ruledOut: number[];
+}
+
+const FODMAP_RANK: Record<string, number> = { low: 0, medium: 0.5, high: 1 };
+const LACTOSE_RANK: Record<string, number> = { none: 0, trace: 0.25, low: 0.5, medium: 0.75, high: 1 };
+
+type Direction = "lower" | "higher" | null;
+
+interface RowSpec {
+  key: string;
+  label: string;
+  group: ComparisonGroup;
+  /** Compared values; null when a dish has no value */
+  values: (number | null)[];
+  cells: string[];
+  direction: Direction;
+}
+
+function capitalize(value: string): string {
+  return value ? value.charAt(0).toUpperCase() + value.slice(1) : value;
+}
+
+function spreadOf(values: (number | null)[]): number {
+  const known = values.filter((v): v is number => v !== null);
+  if (known.length < 2) return 0;
+  const max = Math.max(...known);
+  const min = Math.min(...known);
+  return (max - min) / Math.max(Math.abs(max), Math.abs(min), 1);
+}
+
+function bestIndexesOf(values: (number | null)[], direction: Direction): number[] {
+  const known = values.filter((v): v is number => v !== null);
+  if (!direction || known.length < 2 || spreadOf(values) === 0) return [];
+  const target = direction === "lower" ? Math.min(...known) : Math.max(...known);
+  return values.flatMap((v, i) => (v === target ? [i] : []));
+}
+
+// 1 for the best dish on a measure, 0 for the worst; missing values score 0
+function normalized(values: (number | null)[], direction: "lower" | "higher"): number[] {
+  const known = values.filter((v): v is number => v !== null);
+  const max = Math.max(...known);
+  const min = Math.min(...known);
+  return values.map((v) => {
+    if (v === null) return 0;
+    if (max === min) return 1;
+    return direction === "lower" ? (max - v) / (max - min) : (v - min) / (max - min);
+  });
+}
+
+function lactoseLevel(analysis: AnalyzeDishResponse): string | null {
+  return analysis.lactose_flags?.level || analysis.selection_default?.combined_lactose?.level || null;
+}
+
+function nutrientRow(
+  models: DishViewModel[],
+  key: keyof NonNullable<DishViewModel["nutrition"]>,
+  label: string,
+  unit: string,
+  direction: Direction
+): RowSpec {
+  const values = models.map((m) => {
+    const value = m.nutrition?.[key];
+    return typeof value === "number" && Number.isFinite(value) ? Math.round(value) : null;
+  });
+  return {
+    key,
+    label,
+    group: "nutrition",
+    values,
+    cells: values.map((v) => (v === null ? "—" : `${v} ${unit}`)),
+    direction,
+  };
+}
+
+/**
+ * Line up several analyzed dishes row by row and pick the one that suits the
+ * user best. Dishes with an avoided allergen are never picked.
+ */
+export function compareDishes(dishes: ComparedDish[], prefs: ComparisonPrefs): DishComparison {
+  const models = dishes.map((d) => buildDishViewModel(d.analysis, prefs.avoidAllergens));
+  const avoided = models.map((m) => m.allergens.filter((a) => a.isUserAllergen && a.present === "yes"));
+
+  const specs: RowSpec[] = [
+    nutrientRow(models, "calories", "Calories", "kcal", "lower"),
+    nutrientRow(models, "protein", "Protein", "g", "higher"),
+    nutrientRow(models, "carbs", "Carbs", "g", null),
+    nutrientRow(models, "fat", "Fat", "g", "lower"),
+    nutrientRow(models, "sugar", "Sugar", "g", "lower"),
+    nutrientRow(models, "fiber", "Fiber", "g", "higher"),
+    nutrientRow(models, "sodium", "Sodium", "mg", "lower"),
+    {
+      key: "allergens",
+      label: "Allergens",
+      group: "safety",
+      values: avoided.map((a) => a.length),
+      cells: models.map((m) => {
+        const present = m.allergens
+          .filter((a) => a.present === "yes")
+          .map((a) => (a.isUserAllergen ? `${a.name} (avoid)` : a.name));
+        return present.length > 0 ? present.join(", ") : "None found";
+      }),
+      direction: "lower",
+    },
+    {
+      key: "fodmap",
+      label: "FODMAP",
+      group: "safety",
+      values: models.map((m) => (m.fodmapLevel ? FODMAP_RANK[m.fodmapLevel.toLowerCase()] ?? null : null)),
+      cells: models.map((m) => capitalize(m.fodmapLevel || "—")),
+      direction: "lower",
+    },
+    {
+      key: "lactose",
+      label: "Lactose",
+      group: "safety",
+      values: dishes.map((d) => LACTOSE_RANK[lactoseLevel(d.analysis) || ""] ?? null),
+      cells: dishes.map((d) => capitalize(lactoseLevel(d.analysis) || "—")),
+      direction: "lower",
+    },
+  ];
+
+  // Organs only where at least one dish has a non-neutral line
+  const organKeys = models[0]?.organLines.map((l) => l.organKey) ?? [];
+  for (const organKey of organKeys) {
+    const lines = models.map((m) => m.organLines.find((l) => l.organKey === organKey));
+    if (!lines.some((l) => l && l.severity !== "neutral")) continue;
+    specs.push({
+      key: `organ:${organKey}`,
+      label: lines.find(Boolean)?.organLabel || capitalize(organKey),
+      group: "organs",
+      values: lines.map((l) => (typeof l?.score === "number" ? l.score : null)),
+      cells: lines.map((l) => (l?.levelRaw ? capitalize(l.levelRaw) : "Neutral")),
+      direction: "higher",
+    });
+  }
+
+  const rows: ComparisonRow[] = specs.map((spec) => ({
+    key: spec.key,
+    label: spec.label,
+    group: spec.group,
+    cells: spec.cells,
+    spread: spreadOf(spec.values),
+    highlighted: false,
+    bestIndexes: bestIndexesOf(spec.values, spec.direction),
+  }));
+  rows
+    .filter((r) => r.spread >= HIGHLIGHT_SPREAD)
+    .sort((a, b) => b.spread - a.spread)
+    .slice(0, MAX_HIGHLIGHTED_ROWS)
+    .forEach((r) => {
+      r.highlighted = true;
+    });
+
+  const ruledOut = avoided.flatMap((a, i) => (a.length > 0 ? [i] : []));
+  return { rows, best: pickBest(dishes, models, specs, prefs, ruledOut), ruledOut };
+}
+
+function pickBest(
+  dishes: ComparedDish[],
+  models: DishViewModel[],
+  specs: RowSpec[],
+  prefs: ComparisonPrefs,
+  ruledOut: number[]
+): DishComparison["best"] {
+  const valuesOf = (key: string) => specs.find((s) => s.key === key)?.values ?? dishes.map(() => null);
+  const calories = valuesOf("calories");
+  const protein = valuesOf("protein");
+  const measures: { label: string; values: (number | null)[]; direction: "lower" | "higher"; weight: number }[] = [];
+
+  const sugar = { label: "Least sugar", values: valuesOf("sugar"), direction: "lower" as const, weight: 1 };
+  const sodium = { label: "Least sodium", values: valuesOf("sodium"), direction: "lower" as const, weight: 1 };
+  const goals = prefs.goals && prefs.goals.length > 0 ? prefs.goals : ["maintain"];
+
+  for (const goal of new Set(goals)) {
+    switch (goal) {
+      case "lose_weight":
+        measures.push({ label: "Fewest calories", values: calories, direction: "lower", weight: 2 }, sugar);
+        break;
+      case "build_muscle":
+        measures.push(
+          {
+            label: "Most protein per calorie",
+            values: protein.map((p, i) => (p !== null && calories[i] ? p / calories[i]! : null)),
+            direction: "higher",
+            weight: 2,
+          },
+          { label: "Most protein", values: protein, direction: "higher", weight: 1 }
+        );
+        break;
+      case "gut_health":
+        measures.push(
+          { label: "Lowest FODMAP", values: valuesOf("fodmap"), direction: "lower", weight: 2 },
+          { label: "Most fiber", values: valuesOf("fiber"), direction: "higher", weight: 1 }
+        );
+        break;
+      case "reduce_inflammation":
+      case "improve_health":
+      case "manage_condition":
+        measures.push(sugar, sodium);
+        break;
+      default: {
+        // Maintaining: closest to a third of the daily calorie target
+        const mealTarget = prefs.targets?.calories ? prefs.targets.calories / 3 : null;
+        measures.push(
+          mealTarget
+            ? {
+                label: "Closest to your meal calories",
+                values: calories.map((c) => (c === null ? null : Math.abs(c - mealTarget))),
+                direction: "lower",
+                weight: 1,
+              }
+            : { label: "Fewest calories", values: calories, direction: "lower", weight: 1 },
+          { label: "Most protein", values: protein, direction: "higher", weight: 1 }
+        );
+      }
+    }
+  }
+
+  for (const organ of prefs.starredOrgans ?? []) {
+    const label = models[0]?.organLines.find((l) => l.organKey === organ)?.organLabel || organ;
+    measures.push({
+      label: `Kindest to your ${label.toLowerCase()}`,
+      values: models.map((m) => m.organLines.find((l) => l.organKey === organ)?.score ?? null),
+      direction: "higher",
+      weight: 1,
+    });
+  }
+
+  // Measures that don't separate the dishes are skipped; one shared by two goals counts once
+  const usable = measures.filter(
+    (m, i) => spreadOf(m.values) > 0 && measures.findIndex((o) => o.label === m.label) === i
+  );
+  const scores = dishes.map(() => 0);
+  const scored = usable.map((m) => normalized(m.values, m.direction));
+  scored.forEach((normalizedValues, mi) => {
+    normalizedValues.forEach((value, i) => {
+      scores[i] += value * usable[mi].weight;
+    });
+  });
+
+  let best = -1;
+  for (let i = 0; i < dishes.length; i++) {
+    if (ruledOut.includes(i)) continue;
+    if (best === -1 || scores[i] > scores[best]) best = i;
+  }
+  if (best === -1) return null;
+
+  const reasons = usable.filter((_, mi) => scored[mi][best] === 1).map((m) => m.label);
+  if (prefs.avoidAllergens.length > 0) reasons.push("None of your avoided allergens");
+  return { index: best, reasons };
+}
@@ -4,8 +4,20 @@ import {
   DishSummary,
   NutritionInsights,
   LikelyRecipe,
+  NutritionSummary,
+  SelectionNutritionRow,
 } from "../../api/api";
 import type { AllergenFlag, FodmapFlag, LactoseFlag } from "../../api/api";
+import {
+  AllergenPrefInput,
+  AllergenRisk,
+  AllergenSeverity,
+  UserAllergenPref,
+  allergenRisk,
+  maxAllergenRisk,
+  toAllergenPref,
+} from "./allergenSeverity";
+import { ontologyEntry, userAllergenMatches } from "./allergenOntology";
 
 export interface DishOrganLine {
   organKey: string;
@@ -17,21 +29,23 @@ export interface DishOrganLine {
 }
 
 export interface DishViewModel {
-  allergens: { name: string; kind?: string; isUserAllergen: boolean; present?: string }[];
+  allergens: AllergenPill[];
   allergenSentence: string | null;
+  /** The user's own allergens in this dish, worded by their severity */
+  allergenAlert: { risk: AllergenRisk; message: string } | null;
   fodmapPills: string[];
   fodmapLevel: string | null;
   fodmapSentence: string | null;
   organLines: DishOrganLine[];
   nutrition: {
-    calories?: number;
-    protein?: number;
-    carbs?: number;
-    fat?: number;
-    sugar?: number;
-    fiber?: number;
-    sodium?: number;
-  };
+    calories?: number | null;
+    protein?: number | null;
+    carbs?: number | null;
+    fat?: number | null;
+    sugar?: number | null;
+    fiber?: number | null;
+    sodium?: number | null;
+  } | null;
   dietTags?: string[];
   nutritionInsights?: NutritionInsights | null;
   nutritionSource?: string | null;
@@ -108,7 +122,17 @@ type PlateComponentVM = {
   sodium_mg?: number;
 };
 
-type AllergenPill = { name: string; kind?: string; isUserAllergen: boolean; present?: string };
+export type AllergenPill = {
+  name: string;
+  kind?: string;
+  isUserAllergen: boolean;
+  present?: string;
+  /** The user's severity for this allergen, when it is theirs */
+  severity?: AllergenSeverity | null;
+  risk?: AllergenRisk | null;
+  /** Why it counts as the user's allergen, e.g. "Cashew: counts as tree nuts." */
+  matchReason?: string | null;
+};
 
 type ComponentAllergenVM = {
   component: string;
@@ -144,30 +168,59 @@ function mapNutritionSourceToLabel(source: string | null | undefined): string |
   return "Estimated from recipe and ingredient analysis.";
 }
 
-function buildUserAllergenMatcher(userAllergens: string[]) {
-  const lower = userAllergens.map((a) => a.toLowerCase());
-
-  return (hitName: string) => {
-    const h = hitName.toLowerCase();
-
-    if (lower.includes(h)) return true;
-
-    if (h === "milk" && lower.includes("dairy")) return true;
-    if (h === "dairy" && lower.includes("milk")) return true;
-
-    if (h === "peanut" && lower.includes("peanuts")) return true;
-    if (h === "peanuts" && lower.includes("peanut")) return true;
+const SEVERITY_RANK: Record<AllergenSeverity, number> = { monitor: 0, limit: 1, avoid: 2 };
 
-    if (h === "tree nut" && lower.includes("tree nuts")) return true;
-    if (h === "tree nuts" && lower.includes("tree nut")) return true;
+type UserAllergenMatcher = (hitName: string) => { severity: AllergenSeverity; reason: string } | null;
 
-    if (h === "gluten" && lower.includes("wheat")) return true;
-    if (h === "wheat" && lower.includes("gluten")) return true;
+// Matches through the allergen ontology, so "dairy" covers milk and "gluten" covers barley.
+// The strictest severity wins when several of the user's allergens match.
+function buildUserAllergenMatcher(userAllergens: UserAllergenPref[]): UserAllergenMatcher {
+  return (hitName) => {
+    let best: ReturnType<UserAllergenMatcher> = null;
+    for (const m of userAllergenMatches(hitName, userAllergens)) {
+      if (best === null || SEVERITY_RANK[m.severity] > SEVERITY_RANK[best.severity]) {
+        best = { severity: m.severity, reason: m.explanation };
+      }
+    }
+    return best;
+  };
+}
 
-    return false;
+function userAllergenPill(
+  pill: { name: string; kind?: string; present?: string },
+  matchUserAllergen: UserAllergenMatcher
+): AllergenPill {
+  const match = matchUserAllergen(pill.kind || pill.name);
+  return {
+    ...pill,
+    isUserAllergen: match !== null,
+    severity: match?.severity ?? null,
+    risk: match ? allergenRisk(pill.present, match.severity) : null,
+    matchReason: match?.reason ?? null,
   };
 }
 
+// "Contains peanut and may contain milk, which you avoid." One sentence per severity.
+function buildAllergenAlert(pills: AllergenPill[]): DishViewModel["allergenAlert"] {
+  const flagged = pills.filter((p) => p.severity && p.risk);
+  const risk = maxAllergenRisk(flagged.map((p) => p.risk));
+  if (!risk) return null;
+
+  const sentences: string[] = [];
+  for (const severity of ["avoid", "limit", "monitor"] as AllergenSeverity[]) {
+    const group = flagged.filter((p) => p.severity === severity);
+    const contains = group.filter((p) => p.present === "yes").map((p) => p.name);
+    const mayContain = group.filter((p) => p.present !== "yes").map((p) => p.name);
+    const parts: string[] = [];
+    if (contains.length) parts.push(`contains ${contains.join(", ")}`);
+    if (mayContain.length) parts.push(`may contain ${mayContain.join(", ")}`);
+    if (parts.length === 0) continue;
+    const text = parts.join(" and ");
+    sentences.push(`${text.charAt(0).toUpperCase()}${text.slice(1)}, which you ${severity}.`);
+  }
+  return { risk, message: sentences.join(" ") };
+}
+
 function severityFromLevel(levelRaw?: string | null): OrganSeverity {
   const l = (levelRaw || "").toLowerCase();
   if (!l || l === "neutral") return "neutral";
@@ -241,11 +294,7 @@ function chooseAllergenFlags(
   summary: DishSummary | null | undefined,
   flags: DishOrganFlags | undefined
 ): AllergenFlag[] {
-  const selectionDefault: any = (analysis as any)?.selection_default;
-  const combinedFromSelection: AllergenFlag[] | undefined =
-    selectionDefault && Array.isArray(selectionDefault.combined_allergens)
-      ? (selectionDefault.combined_allergens as AllergenFlag[])
-      : undefined;
+  const combinedFromSelection = analysis.selection_default?.combined_allergens;
 
   if (combinedFromSelection && combinedFromSelection.length > 0) {
     return combinedFromSelection;
@@ -262,10 +311,8 @@ function chooseFodmapFlag(
   flags: DishOrganFlags | undefined,
   summary: DishSummary | null | undefined
 ): FodmapFlag | undefined {
-  const selectionDefault: any = (analysis as any)?.selection_default;
-  if (selectionDefault && selectionDefault.combined_fodmap) {
-    return selectionDefault.combined_fodmap as FodmapFlag;
-  }
+  const selectionFodmap = analysis.selection_default?.combined_fodmap;
+  if (selectionFodmap) return selectionFodmap;
   if (analysis.fodmap_flags) return analysis.fodmap_flags;
   if (flags?.fodmap) return flags.fodmap as FodmapFlag;
   if (summary?.keyFlags?.fodmapLevel) {
@@ -280,7 +327,7 @@ function chooseFodmapFlag(
 
 function buildAllergenPillsFromFlags(
   flags: AllergenFlag[],
-  matchesUserAllergen: (name: string) => boolean,
+  matchUserAllergen: UserAllergenMatcher,
 ): AllergenPill[] {
   const pills: AllergenPill[] = [];
   for (const flag of flags) {
@@ -288,12 +335,7 @@ function buildAllergenPillsFromFlags(
     if (present !== "yes" && present !== "maybe") continue;
     const label = flag.kind || "";
     if (!label) continue;
-    pills.push({
-      name: label,
-      kind: flag.kind,
-      isUserAllergen: matchesUserAllergen(flag.kind),
-      present: flag.present,
-    });
+    pills.push(userAllergenPill({ name: label, kind: flag.kind, present: flag.present }, matchUserAllergen));
   }
   const seen = new Set<string>();
   const deduped: AllergenPill[] = [];
@@ -306,34 +348,34 @@ function buildAllergenPillsFromFlags(
   return deduped;
 }
 
+/**
+ * `userAllergens` carries the user's severity per allergen; bare names are
+ * treated as allergens to avoid.
+ */
 export function buildDishViewModel(
   analysis: AnalyzeDishResponse,
-  userAllergens: string[]
+  userAllergens: AllergenPrefInput[]
 ): DishViewModel {
   const summary: DishSummary | null | undefined = analysis.summary ?? null;
   const organsBlock = analysis.organs;
   const flags: DishOrganFlags | undefined = organsBlock?.flags;
-  const lexDebug = (analysis.debug as any)?.lex_per_ingredient;
-  const perIngredients = Array.isArray(lexDebug?.perIngredient) ? lexDebug.perIngredient : [];
-  let dietTags: any[] = Array.isArray(summary?.edamamLabels) ? summary?.edamamLabels : [];
-  const selectionDefault: any = (analysis as any)?.selection_default || null;
-  const selectionComponents: Record<string, any> | null =
-    ((analysis as any)?.selection_components as Record<string, any> | null) || null;
+  const perIngredients = analysis.debug?.lex_per_ingredient?.perIngredient ?? [];
+  let dietTags: string[] = summary?.edamamLabels ? [...summary.edamamLabels] : [];
+  const selectionDefault = analysis.selection_default ?? null;
+  const selectionComponents = analysis.selection_components ?? null;
 
   const fodmapTriggerSet = new Set<string>();
   for (const entry of perIngredients) {
-    const ingredientName = entry?.ingredient;
+    const ingredientName = entry.ingredient;
     if (!ingredientName) continue;
-    const hits = Array.isArray(entry?.hits) ? entry.hits : [];
-    const hasFodmapHit = hits.some((h: any) => !!h?.fodmap);
+    const hasFodmapHit = entry.hits.some((h) => !!h.fodmap);
     if (hasFodmapHit) {
       fodmapTriggerSet.add(String(ingredientName));
     }
   }
   const fodmapPills = Array.from(fodmapTriggerSet);
 
-  const debugAny: any = (analysis as any)?.debug || {};
-  const rawPortionVision: any = debugAny?.portion_vision || null;
+  const rawPortionVision = analysis.debug?.portion_vision ?? null;
   let portionVision: DishViewModel["portionVision"] = null;
   if (rawPortionVision && rawPortionVision.ok) {
     portionVision = {
@@ -355,8 +397,8 @@ export function buildDishViewModel(
     };
   }
 
-  const analysisAny: any = (analysis as any)?.analysis || (analysis as any)?.result || (analysis as any);
-  const rawPortionBlock: any = (analysisAny && analysisAny.portion) || (analysis as any)?.portion || null;
+  // Legacy `analysis.portion` / `result.portion` blocks are hoisted by the decoder
+  const rawPortionBlock = analysis.portion ?? null;
   let portion: DishViewModel["portion"] = null;
   if (rawPortionBlock) {
     const manual =
@@ -379,27 +421,26 @@ export function buildDishViewModel(
     };
   }
 
-  const plateComponentsRaw = (analysis as any)?.plate_components || [];
-  const nutritionBreakdownRaw = (analysis as any)?.nutrition_breakdown || [];
-  const allergenBreakdownRaw = (analysis as any)?.allergen_breakdown || [];
+  const plateComponentsRaw = analysis.plate_components ?? [];
+  const nutritionBreakdownRaw = analysis.nutrition_breakdown ?? [];
   let plateComponents: PlateComponentVM[] | undefined;
   let plateComponentsSummary: string | undefined;
 
-  if (Array.isArray(plateComponentsRaw) && plateComponentsRaw.length > 0) {
-    plateComponents = plateComponentsRaw.map((comp: any, idx: number) => {
-      const componentId = typeof comp?.component_id === "string" ? comp.component_id : undefined;
-      let breakdown: any = null;
+  if (plateComponentsRaw.length > 0) {
+    plateComponents = plateComponentsRaw.map((comp, idx) => {
+      const componentId = comp.component_id;
+      let breakdown: (SelectionNutritionRow & Partial<NutritionSummary>) | null = null;
 
-      if (selectionComponents && componentId && selectionComponents[componentId]) {
-        const sel = selectionComponents[componentId];
-        if (Array.isArray(sel?.nutrition) && sel.nutrition.length > 0) {
+      const sel = componentId ? selectionComponents?.[componentId] : undefined;
+      if (sel) {
+        if (sel.nutrition && sel.nutrition.length > 0) {
           breakdown = sel.nutrition[0];
-        } else if (sel?.combined_nutrition) {
+        } else if (sel.combined_nutrition) {
           breakdown = { ...sel.combined_nutrition };
         }
       }
 
-      if (!breakdown && Array.isArray(nutritionBreakdownRaw)) {
+      if (!breakdown) {
         breakdown = nutritionBreakdownRaw[idx] || null;
       }
 
@@ -411,14 +452,17 @@ export function buildDishViewModel(
           : 0;
 
       const baseLabel =
-        (comp && (comp.label || comp.component || comp.name)) ||
-        (breakdown && (breakdown.component || breakdown.name)) ||
+        comp.label ||
+        comp.component ||
+        comp.name ||
+        breakdown?.component ||
+        breakdown?.name ||
         `Component ${idx + 1}`;
 
       return {
         component: baseLabel,
-        role: (comp && comp.role) || (breakdown && breakdown.role) || "unknown",
-        category: (comp && comp.category) || (breakdown && breakdown.category) || "other",
+        role: comp.role || breakdown?.role || "unknown",
+        category: comp.category || breakdown?.category || "other",
         shareRatio,
         energyKcal:
           typeof breakdown?.energyKcal === "number" ? breakdown.energyKcal : undefined,
@@ -447,76 +491,57 @@ export function buildDishViewModel(
 
   // 1. Allergens: prefer LLM flags, fallback to legacy
   const allergenFlags = chooseAllergenFlags(analysis, summary, flags);
-  const matchesUserAllergen = buildUserAllergenMatcher(userAllergens);
+  const matchUserAllergen = buildUserAllergenMatcher(userAllergens.map(toAllergenPref));
   let allergenPills: AllergenPill[] = [];
 
   if (allergenFlags.length > 0) {
-    allergenPills = buildAllergenPillsFromFlags(allergenFlags, matchesUserAllergen);
+    allergenPills = buildAllergenPillsFromFlags(allergenFlags, matchUserAllergen);
   } else {
     // Legacy fallback to summary.keyFlags
     const allergenNames = summary?.keyFlags?.allergens ?? [];
-    allergenPills = allergenNames.map((name) => ({
-      name,
-      kind: name,
-      isUserAllergen: matchesUserAllergen(name),
-      present: "yes",
-    }));
+    allergenPills = allergenNames.map((name) => userAllergenPill({ name, kind: name, present: "yes" }, matchUserAllergen));
   }
+  const allergenAlert = buildAllergenAlert(allergenPills);
 
   // Lactose pill when high and user cares about milk/dairy
   const selectionLactose: LactoseFlag | null =
-    (analysis as any)?.lactose_flags ||
-    (selectionDefault && selectionDefault.combined_lactose) ||
-    null;
-  const caresAboutMilk = userAllergens.map((a) => a.toLowerCase()).includes("milk");
-  if (selectionLactose && selectionLactose.level === "high" && caresAboutMilk) {
+    analysis.lactose_flags || selectionDefault?.combined_lactose || null;
+  const milkSeverity = userAllergens.map(toAllergenPref).find((a) => ontologyEntry(a.name)?.code === "milk")?.severity;
+  if (selectionLactose && selectionLactose.level === "high" && milkSeverity) {
     allergenPills.push({
       name: "High lactose",
       isUserAllergen: true,
+      severity: milkSeverity,
     });
   }
 
   // Build per-component allergens/FODMAP/lactose from selection_components.
   // Always emit an entry for each plate component; if the backend reports none,
   // allergenPills stays empty (no fallback to whole-plate).
-  const componentAllergens: ComponentAllergenVM[] | undefined = Array.isArray(plateComponentsRaw)
-    ? plateComponentsRaw.map((comp: any, idx: number) => {
-        const componentId = typeof comp?.component_id === "string" ? comp.component_id : undefined;
-        const sel = componentId ? selectionComponents?.[componentId] : null;
-
-        const flags: AllergenFlag[] = Array.isArray(sel?.combined_allergens)
-          ? (sel.combined_allergens as AllergenFlag[])
-          : [];
-
-        const entryFodmapLevel =
-          sel && sel.combined_fodmap && sel.combined_fodmap.level
-            ? String(sel.combined_fodmap.level)
-            : undefined;
-
-        const entryLactoseLevel =
-          sel && sel.combined_lactose && sel.combined_lactose.level
-            ? String(sel.combined_lactose.level)
-            : undefined;
-
-        const vmBase = plateComponents?.[idx];
-
-        const componentLabel =
-          (comp && (comp.label || comp.component || comp.name)) ||
-          vmBase?.component ||
-          `Component ${idx + 1}`;
-        const role = (comp && comp.role) || vmBase?.role || "unknown";
-        const category = (comp && comp.category) || vmBase?.category || "other";
-
-        return {
-          component: componentLabel,
-          role,
-          category,
-          allergenPills: buildAllergenPillsFromFlags(flags, matchesUserAllergen),
-          fodmapLevel: entryFodmapLevel,
-          lactoseLevel: entryLactoseLevel,
-        };
-      })
-    : undefined;
+  const componentAllergens: ComponentAllergenVM[] = plateComponentsRaw.map((comp, idx) => {
+    const componentId = comp.component_id;
+    const sel = componentId ? selectionComponents?.[componentId] : undefined;
+
+    const flags: AllergenFlag[] = sel?.combined_allergens ?? [];
+    const entryFodmapLevel = sel?.combined_fodmap?.level || undefined;
+    const entryLactoseLevel = sel?.combined_lactose?.level || undefined;
+
+    const vmBase = plateComponents?.[idx];
+
+    const componentLabel =
+      comp.label || comp.component || comp.name || vmBase?.component || `Component ${idx + 1}`;
+    const role = comp.role || vmBase?.role || "unknown";
+    const category = comp.category || vmBase?.category || "other";
+
+    return {
+      component: componentLabel,
+      role,
+      category,
+      allergenPills: buildAllergenPillsFromFlags(flags, matchUserAllergen),
+      fodmapLevel: entryFodmapLevel,
+      lactoseLevel: entryLactoseLevel,
+    };
+  });
 
   // Allergen smart sentence - prefer backend's allergen_summary (includes lactose levels)
   let allergenSentence: string | null = null;
@@ -576,16 +601,14 @@ export function buildDishViewModel(
     if (!key) continue;
     summaryOrganMap.set(key, { score: o.score ?? null, levelRaw: o.level ?? null });
   }
-  const rawOrgansArray = Array.isArray(analysis.organs?.organs)
-    ? analysis.organs!.organs
-    : [];
+  const rawOrgansArray = analysis.organs?.organs ?? [];
   const rawOrganMap = new Map<string, { score: number | null; level: string | null; reasons: string[] }>();
   for (const o of rawOrgansArray) {
-    const key = (o as any).organ ? String((o as any).organ).toLowerCase() : "";
+    const key = o.organ ? o.organ.toLowerCase() : "";
     if (!key) continue;
-    const reasons = Array.isArray((o as any).reasons) ? (o as any).reasons : [];
-    const score = typeof (o as any).score === "number" ? (o as any).score : null;
-    const level = (o as any).level ? String((o as any).level) : null;
+    const reasons = o.reasons ?? [];
+    const score = typeof o.score === "number" ? o.score : null;
+    const level = o.level || null;
     rawOrganMap.set(key, { score, level, reasons });
   }
 
@@ -613,11 +636,8 @@ export function buildDishViewModel(
   });
 
   // 4. Nutrition – prefer selection_default.combined_nutrition, fallback to legacy nutrition_summary
-  const ns =
-    (selectionDefault && selectionDefault.combined_nutrition) ||
-    analysis.nutrition_summary ||
-    null;
-  let nutrition: any = null;
+  const ns = selectionDefault?.combined_nutrition || analysis.nutrition_summary || null;
+  let nutrition: DishViewModel["nutrition"] = null;
   if (ns) {
     nutrition = {
       calories: ns.energyKcal ?? null,
@@ -635,23 +655,12 @@ export function buildDishViewModel(
   const lifestyleChecks = analysis.lifestyle_checks || null;
 
   const removeTag = (labelToRemove: string) => {
-    dietTags = dietTags.filter((t) => {
-      const tagLabel = typeof t === "string" ? t : t?.label;
-      return tagLabel !== labelToRemove;
-    });
+    dietTags = dietTags.filter((t) => t !== labelToRemove);
   };
 
   const ensureTag = (labelToAdd: string) => {
-    const exists = dietTags.some((t) => {
-      const tagLabel = typeof t === "string" ? t : t?.label;
-      return tagLabel === labelToAdd;
-    });
-    if (!exists) {
-      if (dietTags.length === 0 || typeof dietTags[0] === "string") {
-        dietTags.push(labelToAdd);
-      } else {
-        dietTags.push({ label: labelToAdd });
-      }
+    if (!dietTags.includes(labelToAdd)) {
+      dietTags.push(labelToAdd);
     }
   };
 
@@ -675,26 +684,13 @@ export function buildDishViewModel(
   for (const code of lifestyleTags) {
     const label = LIFESTYLE_TAG_LABELS[code];
     if (!label) continue;
-    const exists = dietTags.some((t) => {
-      const tagLabel = typeof t === "string" ? t : t?.label;
-      return tagLabel === label;
-    });
-    if (!exists) {
-      if (dietTags.length === 0 || typeof dietTags[0] === "string") {
-        dietTags.push(label);
-      } else {
-        dietTags.push({ label });
-      }
-    }
+    ensureTag(label);
   }
 
-  if (Array.isArray(dietTags) && dietTags.length > 0) {
-    const getLabel = (t: any) => (typeof t === "string" ? t : t?.label);
-    dietTags.sort((a: any, b: any) => {
-      const aLabel = getLabel(a);
-      const bLabel = getLabel(b);
-      const aIndex = PRIORITY_LIFESTYLE_LABELS.indexOf(aLabel);
-      const bIndex = PRIORITY_LIFESTYLE_LABELS.indexOf(bLabel);
+  if (dietTags.length > 0) {
+    dietTags.sort((a, b) => {
+      const aIndex = PRIORITY_LIFESTYLE_LABELS.indexOf(a);
+      const bIndex = PRIORITY_LIFESTYLE_LABELS.indexOf(b);
       const aPriority = aIndex === -1 ? Number.POSITIVE_INFINITY : aIndex;
       const bPriority = bIndex === -1 ? Number.POSITIVE_INFINITY : bIndex;
       if (aPriority !== bPriority) return aPriority - bPriority;
@@ -722,6 +718,7 @@ export function buildDishViewModel(
   return {
     allergens: allergenPills,
     allergenSentence,
+    allergenAlert,
     fodmapPills,
     fodmapLevel,
     fodmapSentence,
@@ -729,8 +726,8 @@ export function buildDishViewModel(
     nutrition,
     dietTags,
     nutritionInsights: analysis.nutrition_insights || null,
-    nutritionSource: (analysis as any)?.nutrition_source || null,
-    nutritionSourceLabel: mapNutritionSourceToLabel((analysis as any)?.nutrition_source || null),
+    nutritionSource: analysis.nutrition_source || null,
+    nutritionSourceLabel: mapNutritionSourceToLabel(analysis.nutrition_source || null),
     portionVision,
     portion,
     plateComponents,
@@ -0,0 +1,88 @@
+import type { AnalyzeDishResponse, LogMealInput, SelectionResult } from "../../api/api";
+import { AllergenPrefInput, allergenRiskFlags } from "./allergenSeverity";
+import { applySelection, defaultComponentIds, isDefaultSelection, selectableComponents } from "./componentSelection";
+import { buildDishViewModel } from "./dishViewModel";
+import { analyzedPortionFactor, applyPortion } from "./portion";
+
+/**
+ * Share of the plate the selection makes up: by calories when both totals are
+ * known, else by the components' plate area. The whole plate is 1.
+ */
+export function eatenShare(analysis: AnalyzeDishResponse, selection: SelectionResult): number {
+  if (isDefaultSelection(analysis, selection.componentIds)) return 1;
+
+  const eatenKcal = selection.combined_nutrition?.energyKcal;
+  const fullKcal = (analysis.selection_default?.combined_nutrition ?? analysis.nutrition_summary)?.energyKcal;
+  if (typeof eatenKcal === "number" && typeof fullKcal === "number" && fullKcal > 0) {
+    return Math.min(1, Math.max(0, eatenKcal / fullKcal));
+  }
+
+  const components = analysis.plate_components ?? [];
+  const area = (ids: string[]) =>
+    components
+      .filter((c) => c.component_id && ids.includes(c.component_id))
+      .reduce((sum, c) => sum + (c.area_ratio ?? 0), 0);
+  const fullArea = area(defaultComponentIds(analysis));
+  return fullArea > 0 ? Math.min(1, area(selection.componentIds) / fullArea) : 1;
+}
+
+/**
+ * The `logMeal` payload for a dish, or for just the selected plate components.
+ * Organ scores only exist for the whole analyzed plate, so a selection or a
+ * different portion scales them by how much of that plate was eaten.
+ */
+export function buildMealLog(
+  analysis: AnalyzeDishResponse,
+  options: {
+    dishName: string;
+    dishId?: string;
+    restaurantName?: string;
+    selection?: SelectionResult | null;
+    /** Portion the user ate; defaults to the analyzed portion */
+    portionFactor?: number;
+    /** The user's allergens, so risk flags reflect their severity */
+    userAllergens?: AllergenPrefInput[];
+  }
+): LogMealInput {
+  const selection =
+    options.selection && !isDefaultSelection(analysis, options.selection.componentIds) ? options.selection : null;
+  const portionFactor = options.portionFactor ?? analyzedPortionFactor(analysis);
+  const logged = applyPortion(selection ? applySelection(analysis, selection) : analysis, portionFactor);
+  const share = (selection ? eatenShare(analysis, selection) : 1) * (portionFactor / analyzedPortionFactor(analysis));
+  const viewModel = buildDishViewModel(logged, options.userAllergens ?? []);
+  const nutrition = viewModel.nutrition;
+
+  const organImpacts: Record<string, number> = {};
+  for (const org of analysis.organs?.organs ?? []) {
+    if (org.organ && typeof org.score === "number") {
+      organImpacts[org.organ.toLowerCase()] = Math.round(org.score * share);
+    }
+  }
+
+  const riskFlags = allergenRiskFlags(viewModel.allergens);
+  if (logged.fodmap_flags?.level === "high") riskFlags.push("high_fodmap");
+  if (nutrition?.sodium && nutrition.sodium > 1000) riskFlags.push("high_sodium");
+
+  const components = selectableComponents(analysis);
+  const eatenIds = selection?.componentIds ?? [];
+  const round = (value: number | null | undefined) => (value ? Math.round(value) : undefined);
+
+  return {
+    dish_name: options.dishName,
+    dish_id: options.dishId,
+    restaurant_name: options.restaurantName,
+    portion_factor: options.portionFactor,
+    calories: round(nutrition?.calories),
+    protein_g: round(nutrition?.protein),
+    carbs_g: round(nutrition?.carbs),
+    fat_g: round(nutrition?.fat),
+    fiber_g: round(nutrition?.fiber),
+    sugar_g: round(nutrition?.sugar),
+    sodium_mg: round(nutrition?.sodium),
+    organ_impacts: Object.keys(organImpacts).length > 0 ? organImpacts : undefined,
+    risk_flags: riskFlags.length > 0 ? riskFlags : undefined,
+    components_eaten: selection ? components.filter((c) => eatenIds.includes(c.id)).map((c) => c.name) : undefined,
+    components_skipped: selection ? components.filter((c) => !eatenIds.includes(c.id)).map((c) => c.name) : undefined,
+    full_analysis: logged,
+  };
+}
@@ -0,0 +1,261 @@
+import type { AnalyzeDishResponse, MenuItem, MenuSection, UserAllergen } from "../../api/api";
+import type { AllergenPrefInput, AllergenRisk, AllergenSeverity } from "./allergenSeverity";
+import { userAllergenMatches } from "./allergenOntology";
+import { buildDishViewModel } from "./dishViewModel";
+
+export type MenuDietFilter = "any" | "vegetarian" | "vegan";
+
+export interface MenuFilters {
+  /**
+   * Hide dishes that contain (or may contain) an allergen set to "avoid", or
+   * contain one set to "limit"
+   */
+  avoidAllergens: boolean;
+  lowFodmap: boolean;
+  diet: MenuDietFilter;
+  /** Calorie ceiling, or null for no limit */
+  maxCalories: number | null;
+}
+
+export type MenuSort = "menu" | "calories" | "protein_per_calorie" | "sodium" | "tummy";
+
+/** Calorie ceilings offered on the menu screen */
+export const MENU_CALORIE_LIMITS: number[] = [400, 600, 800];
+
+export const DEFAULT_MENU_FILTERS: MenuFilters = {
+  avoidAllergens: false,
+  lowFodmap: false,
+  diet: "any",
+  maxCalories: null,
+};
+
+export const MENU_SORT_LABELS: Record<MenuSort, string> = {
+  menu: "Menu order",
+  calories: "Fewest calories",
+  protein_per_calorie: "Most protein per calorie",
+  sodium: "Least sodium",
+  tummy: "Gentlest on the tummy",
+};
+
+/**
+ * match: passes every active filter. excluded: fails one. unknown: there isn't
+ * enough analysis yet to tell, which is never treated as safe.
+ */
+export type MenuFilterVerdict = "match" | "excluded" | "unknown";
+
+export interface MenuItemEvaluation {
+  verdict: MenuFilterVerdict;
+  /** Why the item was excluded, or what is still unknown */
+  reasons: string[];
+}
+
+/** What the filters and sorts read from an item and its analysis */
+export interface MenuItemFacts {
+  analyzed: boolean;
+  calories: number | null;
+  protein: number | null;
+  sodium: number | null;
+  tummyScore: number | null;
+  fodmapLevel: string | null;
+  vegetarian: "yes" | "no" | "maybe" | null;
+  vegan: "yes" | "no" | "maybe" | null;
+  /** Every allergen flagged as present */
+  allergens: string[];
+  /** The user's allergens at high or medium risk for this dish */
+  avoidedAllergens: { name: string; present: string; risk: AllergenRisk }[];
+  /**
+   * The user's avoided or limited allergens the item's name or description
+   * mentions, e.g. "cashew" for tree nuts, with why each one matched
+   */
+  mentionedAllergens: { label: string; term: string; severity: AllergenSeverity; explanation: string }[];
+}
+
+export function hasActiveMenuFilters(filters: MenuFilters): boolean {
+  return filters.avoidAllergens || filters.lowFodmap || filters.diet !== "any" || filters.maxCalories !== null;
+}
+
+/**
+ * Names of the allergens the user avoids outright; "limit" and "monitor" ones
+ * don't hide dishes
+ */
+export function avoidAllergenNames(allergens: UserAllergen[]): string[] {
+  return allergens
+    .filter((a) => a.severity === "avoid")
+    .map((a) => a.display_name || a.allergen_code.replace(/_/g, " "));
+}
+
+const finite = (value: number | null | undefined): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+/**
+ * Collect the facts for one menu item. Listed menu calories stand in until the
+ * analysis provides its own estimate.
+ */
+export function menuItemFacts(
+  item: MenuItem,
+  analysis: AnalyzeDishResponse | null | undefined,
+  userAllergens: AllergenPrefInput[]
+): MenuItemFacts {
+  const mentionedAllergens = userAllergenMatches(`${item.name} ${item.description ?? ""}`, userAllergens)
+    .filter((m) => m.severity !== "monitor")
+    .map(({ label, term, severity, explanation }) => ({ label, term, severity, explanation }));
+
+  if (!analysis || !analysis.ok) {
+    return {
+      analyzed: false,
+      calories: finite(item.calories),
+      protein: null,
+      sodium: null,
+      tummyScore: null,
+      fodmapLevel: null,
+      vegetarian: null,
+      vegan: null,
+      allergens: [],
+      avoidedAllergens: [],
+      mentionedAllergens,
+    };
+  }
+
+  const viewModel = buildDishViewModel(analysis, userAllergens);
+  const checks = analysis.lifestyle_checks ?? null;
+  return {
+    analyzed: true,
+    calories: finite(viewModel.nutrition?.calories) ?? finite(item.calories),
+    protein: finite(viewModel.nutrition?.protein),
+    sodium: finite(viewModel.nutrition?.sodium),
+    tummyScore: finite(analysis.organs?.tummy_barometer?.score) ?? finite(analysis.summary?.tummyBarometer?.score),
+    fodmapLevel: viewModel.fodmapLevel ? viewModel.fodmapLevel.toLowerCase() : null,
+    vegetarian: checks?.vegetarian ?? null,
+    vegan: checks?.vegan ?? null,
+    allergens: viewModel.allergens.filter((a) => a.present === "yes").map((a) => a.name),
+    avoidedAllergens: viewModel.allergens.flatMap((a) =>
+      a.risk === "high" || a.risk === "medium" ? [{ name: a.name, present: a.present as string, risk: a.risk }] : []
+    ),
+    mentionedAllergens,
+  };
+}
+
+/**
+ * Check one item against the filters. An item fails as soon as any filter
+ * rules it out; otherwise anything the filters need but the analysis doesn't
+ * have yet makes it unknown.
+ */
+export function evaluateMenuItem(facts: MenuItemFacts, filters: MenuFilters): MenuItemEvaluation {
+  const excluded: string[] = [];
+  const unknown: string[] = [];
+
+  if (filters.maxCalories !== null) {
+    if (facts.calories === null) unknown.push("Calories unknown");
+    else if (facts.calories > filters.maxCalories) excluded.push(`${Math.round(facts.calories)} kcal`);
+  }
+
+  if (!facts.analyzed) {
+    // The menu text is all there is to go on; the analysis supersedes it once it arrives
+    if (filters.avoidAllergens) {
+      for (const m of facts.mentionedAllergens) {
+        excluded.push(`Mentions ${m.term} (${m.severity === "limit" ? `${m.label}, limit` : m.label})`);
+      }
+    }
+    const needsAnalysis = filters.avoidAllergens || filters.lowFodmap || filters.diet !== "any";
+    if (needsAnalysis) unknown.unshift("Not analyzed yet");
+    return excluded.length > 0
+      ? { verdict: "excluded", reasons: excluded }
+      : { verdict: unknown.length > 0 ? "unknown" : "match", reasons: unknown };
+  }
+
+  if (filters.avoidAllergens) {
+    for (const allergen of facts.avoidedAllergens) {
+      if (allergen.risk === "medium") excluded.push(`Contains ${allergen.name} (limit)`);
+      else excluded.push(allergen.present === "yes" ? `Contains ${allergen.name}` : `May contain ${allergen.name}`);
+    }
+  }
+
+  if (filters.lowFodmap) {
+    if (!facts.fodmapLevel) unknown.push("FODMAP level unknown");
+    else if (facts.fodmapLevel !== "low") excluded.push(`${facts.fodmapLevel === "high" ? "High" : "Moderate"} FODMAP`);
+  }
+
+  if (filters.diet !== "any") {
+    const check = filters.diet === "vegan" ? facts.vegan : facts.vegetarian;
+    const label = filters.diet === "vegan" ? "Vegan" : "Vegetarian";
+    if (check === "no") excluded.push(`Not ${label.toLowerCase()}`);
+    else if (check !== "yes") unknown.push(`${label} unconfirmed`);
+  }
+
+  if (excluded.length > 0) return { verdict: "excluded", reasons: excluded };
+  if (unknown.length > 0) return { verdict: "unknown", reasons: unknown };
+  return { verdict: "match", reasons: [] };
+}
+
+// Sort key for an item; null sorts after every known value
+function sortValue(facts: MenuItemFacts, sort: MenuSort): number | null {
+  switch (sort) {
+    case "calories":
+      return facts.calories;
+    case "protein_per_calorie":
+      // Negated so the most protein per calorie comes first
+      return facts.protein !== null && facts.calories ? -(facts.protein / facts.calories) : null;
+    case "sodium":
+      return facts.sodium;
+    case "tummy":
+      // Higher barometer scores are gentler
+      return facts.tummyScore !== null ? -facts.tummyScore : null;
+    case "menu":
+      return 0;
+  }
+}
+
+export interface FilteredMenu {
+  sections: MenuSection[];
+  evaluationByItemId: Record<string, MenuItemEvaluation>;
+  factsByItemId: Record<string, MenuItemFacts>;
+  /** Items hidden by the filters */
+  hiddenCount: number;
+}
+
+/**
+ * Filter and sort a menu using whatever analyses have arrived. Excluded items
+ * are dropped; unknown ones stay visible so the screen can mark them. Sorting
+ * happens within each section, with items missing the sort value last.
+ */
+export function filterAndSortMenu(
+  sections: MenuSection[],
+  options: {
+    analysisByItemId: Record<string, AnalyzeDishResponse | null | undefined>;
+    filters: MenuFilters;
+    sort: MenuSort;
+    /** The user's allergens with their severity; bare names are avoided */
+    userAllergens: AllergenPrefInput[];
+  }
+): FilteredMenu {
+  const { analysisByItemId, filters, sort, userAllergens } = options;
+  const evaluationByItemId: Record<string, MenuItemEvaluation> = {};
+  const factsByItemId: Record<string, MenuItemFacts> = {};
+  let hiddenCount = 0;
+
+  const result = sections
+    .map((section) => {
+      const kept = section.items.filter((item) => {
+        const facts = menuItemFacts(item, analysisByItemId[item.id], userAllergens);
+        const evaluation = evaluateMenuItem(facts, filters);
+        factsByItemId[item.id] = facts;
+        evaluationByItemId[item.id] = evaluation;
+        if (evaluation.verdict === "excluded") hiddenCount++;
+        return evaluation.verdict !== "excluded";
+      });
+
+      if (sort === "menu") return { ...section, items: kept };
+
+      // Array.prototype.sort is stable, so ties keep menu order
+      const items = [...kept].sort((a, b) => {
+        const av = sortValue(factsByItemId[a.id], sort);
+        const bv = sortValue(factsByItemId[b.id], sort);
+        if (av === null || bv === null) return av === null ? (bv === null ? 0 : 1) : -1;
+        return av - bv;
+      });
+      return { ...section, items };
+    })
+    .filter((section) => section.items.length > 0);
+
+  return { sections: result, evaluationByItemId, factsByItemId, hiddenCount };
+}
@@ -0,0 +1,220 @@
+import type { AnalyzeDishResponse, DailySummary, LogMealInput, UserDailyTargets } from "../../api/api";
+import { AllergenPrefInput, AllergenRisk, AllergenSeverity, maxAllergenRisk } from "./allergenSeverity";
+import { DishViewModel, buildDishViewModel } from "./dishViewModel";
+import { buildMealLog } from "./mealLog";
+import { analyzedPortionFactor } from "./portion";
+
+export type MealType = "breakfast" | "lunch" | "dinner" | "snack";
+
+/** Portion sizes offered per tray item */
+export const ORDER_PORTION_FACTORS: number[] = [0.5, 1, 1.5, 2];
+
+// Logged meals from one order share this dish_id prefix, followed by the order id
+const ORDER_DISH_ID_PREFIX = "order:";
+
+export interface OrderTrayEntry {
+  itemId: string;
+  name: string;
+  analysis: AnalyzeDishResponse;
+  /** 1 for the menu portion, 0.5 for half, 2 for double */
+  portionFactor: number;
+}
+
+export type OrderNutrientKey = keyof NonNullable<DishViewModel["nutrition"]>;
+
+export interface OrderAllergen {
+  name: string;
+  isUserAllergen: boolean;
+  /** "yes" when any item contains it, otherwise "maybe" */
+  present: "yes" | "maybe";
+  /** The user's severity for it, when it is theirs */
+  severity: AllergenSeverity | null;
+  /** The highest risk across the items that have it */
+  risk: AllergenRisk | null;
+  itemNames: string[];
+}
+
+export interface OrderTargetShare {
+  key: OrderNutrientKey;
+  label: string;
+  unit: string;
+  amount: number;
+  /** What today's target leaves after the meals already logged */
+  remaining: number;
+  /** Share of `remaining` the order uses; null once nothing remains */
+  share: number | null;
+}
+
+export interface OrderSummary {
+  nutrition: Record<OrderNutrientKey, number>;
+  /** Items whose analysis lacks some nutrients, so the totals run low */
+  incompleteItemNames: string[];
+  allergens: OrderAllergen[];
+  /** The highest FODMAP level of any item, or null when none is known */
+  fodmapLevel: "low" | "medium" | "high" | null;
+  /** Empty without daily targets */
+  targetShares: OrderTargetShare[];
+}
+
+const NUTRIENTS: { key: OrderNutrientKey; label: string; unit: string; target: keyof UserDailyTargets; logged: keyof DailySummary }[] = [
+  { key: "calories", label: "Calories", unit: "kcal", target: "calories", logged: "total_calories" },
+  { key: "protein", label: "Protein", unit: "g", target: "protein_g", logged: "total_protein_g" },
+  { key: "carbs", label: "Carbs", unit: "g", target: "carbs_g", logged: "total_carbs_g" },
+  { key: "fat", label: "Fat", unit: "g", target: "fat_g", logged: "total_fat_g" },
+  { key: "sugar", label: "Sugar", unit: "g", target: "sugar_g", logged: "total_sugar_g" },
+  { key: "fiber", label: "Fiber", unit: "g", target: "fiber_g", logged: "total_fiber_g" },
+  { key: "sodium", label: "Sodium", unit: "mg", target: "sodium_mg", logged: "total_sodium_mg" },
+];
+
+const FODMAP_LEVELS = ["low", "medium", "high"] as const;
+
+const RISK_ORDER: (AllergenRisk | null)[] = ["high", "medium", "low", null];
+
+const finite = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+/** A sensible meal type for the time of day */
+export function mealTypeForTime(date: Date): MealType {
+  const hour = date.getHours();
+  if (hour < 11) return "breakfast";
+  if (hour < 16) return "lunch";
+  if (hour < 22) return "dinner";
+  return "snack";
+}
+
+/** The dish_id shared by every meal logged from one order */
+export function orderDishId(orderId: string, itemId: string): string {
+  return `${ORDER_DISH_ID_PREFIX}${orderId}:${itemId}`;
+}
+
+/** The order a logged meal came from, or null for a meal logged on its own */
+export function orderIdFromDishId(dishId: string | null | undefined): string | null {
+  if (!dishId || !dishId.startsWith(ORDER_DISH_ID_PREFIX)) return null;
+  const rest = dishId.slice(ORDER_DISH_ID_PREFIX.length);
+  const end = rest.indexOf(":");
+  return end > 0 ? rest.slice(0, end) : null;
+}
+
+/** Logged meals grouped by the order they came from; meals logged on their own are left out */
+export function mealsByOrder<T extends { dish_id?: string | null }>(meals: T[]): Map<string, T[]> {
+  const orders = new Map<string, T[]>();
+  for (const meal of meals) {
+    const orderId = orderIdFromDishId(meal.dish_id);
+    if (orderId) orders.set(orderId, [...(orders.get(orderId) ?? []), meal]);
+  }
+  return orders;
+}
+
+function scaledNutrition(viewModel: DishViewModel, portionFactor: number): Partial<Record<OrderNutrientKey, number>> {
+  const scaled: Partial<Record<OrderNutrientKey, number>> = {};
+  for (const { key } of NUTRIENTS) {
+    const value = viewModel.nutrition?.[key];
+    if (finite(value)) scaled[key] = value * portionFactor;
+  }
+  return scaled;
+}
+
+/**
+ * Combine the tray into one meal: nutrition scaled by each item's portion, the
+ * union of allergens, the worst FODMAP level and how much of today's remaining
+ * targets it would use.
+ */
+export function summarizeOrder(
+  entries: OrderTrayEntry[],
+  options: {
+    userAllergens: AllergenPrefInput[];
+    targets?: UserDailyTargets | null;
+    loggedToday?: DailySummary | null;
+  }
+): OrderSummary {
+  const nutrition = Object.fromEntries(NUTRIENTS.map(({ key }) => [key, 0])) as Record<OrderNutrientKey, number>;
+  const incompleteItemNames: string[] = [];
+  const allergens = new Map<string, OrderAllergen>();
+  let fodmapRank = -1;
+
+  for (const entry of entries) {
+    const viewModel = buildDishViewModel(entry.analysis, options.userAllergens);
+    const scaled = scaledNutrition(viewModel, entry.portionFactor);
+    for (const { key } of NUTRIENTS) nutrition[key] += scaled[key] ?? 0;
+    if (Object.keys(scaled).length < NUTRIENTS.length) incompleteItemNames.push(entry.name);
+
+    for (const allergen of viewModel.allergens) {
+      if (allergen.present !== "yes" && allergen.present !== "maybe") continue;
+      const id = allergen.name.toLowerCase();
+      const existing = allergens.get(id) ?? {
+        name: allergen.name,
+        isUserAllergen: allergen.isUserAllergen,
+        present: allergen.present,
+        severity: allergen.severity ?? null,
+        risk: null,
+        itemNames: [],
+      };
+      if (allergen.present === "yes") existing.present = "yes";
+      existing.risk = maxAllergenRisk([existing.risk, allergen.risk]);
+      if (!existing.itemNames.includes(entry.name)) existing.itemNames.push(entry.name);
+      allergens.set(id, existing);
+    }
+
+    const rank = FODMAP_LEVELS.indexOf((viewModel.fodmapLevel || "").toLowerCase() as (typeof FODMAP_LEVELS)[number]);
+    fodmapRank = Math.max(fodmapRank, rank);
+  }
+
+  const targetShares: OrderTargetShare[] = [];
+  if (options.targets) {
+    for (const { key, label, unit, target, logged } of NUTRIENTS) {
+      const daily = options.targets[target];
+      if (!finite(daily) || daily <= 0) continue;
+      const consumed = options.loggedToday?.[logged];
+      const remaining = Math.max(0, daily - (finite(consumed) ? consumed : 0));
+      targetShares.push({
+        key,
+        label,
+        unit,
+        amount: nutrition[key],
+        remaining,
+        share: remaining > 0 ? nutrition[key] / remaining : null,
+      });
+    }
+  }
+
+  return {
+    nutrition,
+    incompleteItemNames,
+    // Highest risk first, then the user's other allergens, then the rest in tray order
+    allergens: Array.from(allergens.values()).sort(
+      (a, b) => RISK_ORDER.indexOf(a.risk) - RISK_ORDER.indexOf(b.risk) || Number(b.isUserAllergen) - Number(a.isUserAllergen)
+    ),
+    fodmapLevel: fodmapRank >= 0 ? FODMAP_LEVELS[fodmapRank] : null,
+    targetShares,
+  };
+}
+
+export interface OrderMealPayload extends LogMealInput {
+  dish_id: string;
+  meal_type: MealType;
+}
+
+/**
+ * One `logMeal` payload per tray item, linked by a shared order id in
+ * `dish_id`. Built like a single logged dish, at the item's portion, so
+ * organ impacts and risk flags are logged the same way.
+ */
+export function orderMealPayloads(
+  entries: OrderTrayEntry[],
+  options: { orderId: string; mealType: MealType; restaurantName?: string; userAllergens?: AllergenPrefInput[] }
+): OrderMealPayload[] {
+  return entries.map((entry) => {
+    const dishId = orderDishId(options.orderId, entry.itemId);
+    return {
+      ...buildMealLog(entry.analysis, {
+        dishName: entry.name,
+        dishId,
+        restaurantName: options.restaurantName,
+        // Tray portions are relative to the menu portion the analysis describes
+        portionFactor: entry.portionFactor * analyzedPortionFactor(entry.analysis),
+        userAllergens: options.userAllergens,
+      }),
+      dish_id: dishId,
+      meal_type: options.mealType,
+    };
+  });
+}
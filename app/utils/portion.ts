@@ -0,0 +1,115 @@
+import type { AnalyzeDishResponse, NutritionSummary, SelectionNutritionRow, SelectionResult } from "../../api/api";
+
+/** Portion presets offered on the dish and recipe screens */
+export const PORTION_PRESETS: number[] = [0.25, 0.5, 1, 1.5, 2];
+export const MIN_PORTION_FACTOR = 0.1;
+export const MAX_PORTION_FACTOR = 5;
+
+const FRACTION_LABELS: Record<string, string> = { "0.25": "¼", "0.5": "½", "0.75": "¾" };
+
+/** The AI's guess at the portion, from the photo when there was one */
+export interface PortionEstimate {
+  factor: number;
+  /** 0-1, or null when the backend didn't say */
+  confidence: number | null;
+  fromPhoto: boolean;
+}
+
+const finite = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+/** "½", "¾", "1.5" — without the "×" */
+export function formatPortionFactor(factor: number): string {
+  const rounded = String(Math.round(factor * 100) / 100);
+  return FRACTION_LABELS[rounded] ?? rounded;
+}
+
+/**
+ * Read a custom portion typed by the user: "0.75", "0,75", "3/4" or "¾".
+ * Null when it isn't a number within the allowed range.
+ */
+export function parsePortionFactor(text: string): number | null {
+  const trimmed = text.trim().replace(/[x×]$/i, "").trim();
+  const fromLabel = Object.entries(FRACTION_LABELS).find(([, label]) => label === trimmed)?.[0];
+  let value: number;
+  if (fromLabel) {
+    value = Number(fromLabel);
+  } else if (/^\d+(?:[.,]\d+)?\s*\/\s*\d+(?:[.,]\d+)?$/.test(trimmed)) {
+    const [num, den] = trimmed.split("/").map((part) => Number(part.trim().replace(",", ".")));
+    value = num / den;
+  } else if (/^\d*(?:[.,]\d+)?$/.test(trimmed) && trimmed !== "") {
+    value = Number(trimmed.replace(",", "."));
+  } else {
+    return null;
+  }
+  return finite(value) && value >= MIN_PORTION_FACTOR && value <= MAX_PORTION_FACTOR ? value : null;
+}
+
+/** The portion the analysis numbers already reflect; 1 unless the backend applied one */
+export function analyzedPortionFactor(analysis: AnalyzeDishResponse): number {
+  const effective = analysis.portion?.effective_factor;
+  return finite(effective) && effective > 0 ? effective : 1;
+}
+
+export function portionEstimate(analysis: AnalyzeDishResponse): PortionEstimate | null {
+  const vision = analysis.debug?.portion_vision;
+  if (vision?.ok && finite(vision.portionFactor)) {
+    return {
+      factor: vision.portionFactor,
+      confidence: finite(vision.confidence) ? vision.confidence : null,
+      fromPhoto: !!vision.input?.hasImage,
+    };
+  }
+  const ai = analysis.portion?.ai_factor;
+  return finite(ai) && ai !== 1 ? { factor: ai, confidence: null, fromPhoto: false } : null;
+}
+
+export function scaleNutrition(nutrition: NutritionSummary, scale: number): NutritionSummary;
+export function scaleNutrition(nutrition: NutritionSummary | null | undefined, scale: number): NutritionSummary | null;
+export function scaleNutrition(nutrition: NutritionSummary | null | undefined, scale: number): NutritionSummary | null {
+  if (!nutrition) return null;
+  const scaled = { ...nutrition };
+  for (const key of Object.keys(scaled) as (keyof NutritionSummary)[]) {
+    const value = scaled[key];
+    if (finite(value)) scaled[key] = value * scale;
+  }
+  return scaled;
+}
+
+function scaleRow(row: SelectionNutritionRow, scale: number): SelectionNutritionRow {
+  const scaled = { ...row };
+  for (const key of ["energyKcal", "protein_g", "fat_g", "carbs_g", "sugar_g", "fiber_g", "sodium_mg"] as const) {
+    const value = scaled[key];
+    if (finite(value)) scaled[key] = value * scale;
+  }
+  return scaled;
+}
+
+function scaleSelection<T extends SelectionResult | null | undefined>(selection: T, scale: number): T {
+  if (!selection) return selection;
+  return {
+    ...selection,
+    nutrition: selection.nutrition?.map((row) => scaleRow(row, scale)),
+    combined_nutrition: scaleNutrition(selection.combined_nutrition, scale),
+  };
+}
+
+/**
+ * The analysis with every nutrition figure, whole-plate and per-component,
+ * rescaled from the analyzed portion to `factor`.
+ */
+export function applyPortion(analysis: AnalyzeDishResponse, factor: number): AnalyzeDishResponse {
+  const scale = factor / analyzedPortionFactor(analysis);
+  if (!analysis.ok || Math.abs(scale - 1) < 1e-9) return analysis;
+
+  const components = analysis.selection_components;
+  return {
+    ...analysis,
+    nutrition_summary: scaleNutrition(analysis.nutrition_summary, scale),
+    nutrition_breakdown: analysis.nutrition_breakdown?.map((row) => scaleRow(row, scale)),
+    selection_default: scaleSelection(analysis.selection_default, scale),
+    selection_custom: scaleSelection(analysis.selection_custom, scale),
+    selection_components: components
+      ? Object.fromEntries(Object.entries(components).map(([id, selection]) => [id, scaleSelection(selection, scale)]))
+      : components,
+  };
+}
@@ -0,0 +1,158 @@
+import type { AnalyzeDishResponse, BatchStatusJob, MenuSection } from "../../api/api";
+import { createBatchJobIndex, resolveBatchJob } from "./batchJobMatching";
+import { MenuItemFacts, menuItemFacts } from "./menuFilters";
+
+export type ReportGoal = "high_protein" | "low_sodium" | "low_calorie" | "gentle";
+
+export interface ReportPick {
+  itemId: string;
+  name: string;
+  sectionName: string;
+  /** The value the pick was ranked by, already rounded for display */
+  value: number;
+}
+
+export interface ReportAllergen {
+  name: string;
+  /** Analyzed dishes that contain it */
+  count: number;
+  sectionNames: string[];
+}
+
+export interface ReportSection {
+  sectionId: string;
+  sectionName: string;
+  analyzedCount: number;
+  /** Dishes with an avoided allergen */
+  unsafeCount: number;
+  /** Avoided allergens found in the section, most frequent first */
+  allergens: string[];
+}
+
+export interface RestaurantReport {
+  totalCount: number;
+  analyzedCount: number;
+  /** Analyzed dishes with none of the avoided allergens, not even "maybe" */
+  safeCount: number;
+  lowFodmapCount: number;
+  /** Top dishes per goal; goals without data are left out */
+  bestPicks: { goal: ReportGoal; label: string; unit: string; picks: ReportPick[] }[];
+  commonAllergens: ReportAllergen[];
+  sectionsToAvoid: ReportSection[];
+}
+
+const PICKS_PER_GOAL = 3;
+const MAX_COMMON_ALLERGENS = 5;
+// A section is flagged when at least this share of its analyzed dishes is unsafe
+const AVOID_SECTION_SHARE = 0.5;
+
+const GOALS: {
+  goal: ReportGoal;
+  label: string;
+  unit: string;
+  value: (facts: MenuItemFacts) => number | null;
+  higherIsBetter: boolean;
+}[] = [
+  { goal: "high_protein", label: "High protein", unit: "g protein", value: (f) => f.protein, higherIsBetter: true },
+  { goal: "low_sodium", label: "Low sodium", unit: "mg sodium", value: (f) => f.sodium, higherIsBetter: false },
+  { goal: "low_calorie", label: "Light", unit: "kcal", value: (f) => f.calories, higherIsBetter: false },
+  { goal: "gentle", label: "Gentle on the tummy", unit: "/ 100", value: (f) => f.tummyScore, higherIsBetter: true },
+];
+
+/**
+ * Attach batch status jobs to menu items, by the clientKey each job echoes
+ * (or an unambiguous dish name on older backends). Only finished jobs count.
+ */
+export function analysesFromBatchJobs(
+  sections: MenuSection[],
+  jobs: BatchStatusJob[]
+): Record<string, AnalyzeDishResponse> {
+  const index = createBatchJobIndex(
+    sections.flatMap((section) => section.items.map((item) => ({ dishName: item.name, clientKey: item.id })))
+  );
+  const analyses: Record<string, AnalyzeDishResponse> = {};
+  for (const job of jobs) {
+    const result = job.data?.result;
+    if (!result?.ok) continue;
+    const resolution = resolveBatchJob(index, job);
+    if ("itemId" in resolution) analyses[resolution.itemId] = result;
+  }
+  return analyses;
+}
+
+/**
+ * Summarize a restaurant from its menu and whatever dishes have been analyzed.
+ * Dishes without an analysis only count towards `totalCount`.
+ */
+export function buildRestaurantReport(
+  sections: MenuSection[],
+  analysisByItemId: Record<string, AnalyzeDishResponse | null | undefined>,
+  avoidAllergens: string[]
+): RestaurantReport {
+  const analyzed: { itemId: string; name: string; sectionId: string; sectionName: string; facts: MenuItemFacts }[] = [];
+  let totalCount = 0;
+
+  for (const section of sections) {
+    for (const item of section.items) {
+      totalCount++;
+      const facts = menuItemFacts(item, analysisByItemId[item.id], avoidAllergens);
+      if (facts.analyzed) {
+        analyzed.push({ itemId: item.id, name: item.name, sectionId: section.id, sectionName: section.name, facts });
+      }
+    }
+  }
+
+  const bestPicks = GOALS.map(({ goal, label, unit, value, higherIsBetter }) => {
+    const picks = analyzed
+      .filter((d) => d.facts.avoidedAllergens.length === 0)
+      .map((d) => ({ itemId: d.itemId, name: d.name, sectionName: d.sectionName, value: value(d.facts) }))
+      .filter((p): p is ReportPick => p.value !== null)
+      .sort((a, b) => (higherIsBetter ? b.value - a.value : a.value - b.value))
+      .slice(0, PICKS_PER_GOAL)
+      .map((p) => ({ ...p, value: Math.round(p.value) }));
+    return { goal, label, unit, picks };
+  }).filter((g) => g.picks.length > 0);
+
+  const allergenMap = new Map<string, ReportAllergen>();
+  for (const dish of analyzed) {
+    for (const name of new Set(dish.facts.allergens.map((a) => a.toLowerCase()))) {
+      const entry = allergenMap.get(name) ?? { name, count: 0, sectionNames: [] };
+      entry.count++;
+      if (!entry.sectionNames.includes(dish.sectionName)) entry.sectionNames.push(dish.sectionName);
+      allergenMap.set(name, entry);
+    }
+  }
+
+  const sectionsToAvoid: ReportSection[] = [];
+  for (const section of sections) {
+    const dishes = analyzed.filter((d) => d.sectionId === section.id);
+    const unsafe = dishes.filter((d) => d.facts.avoidedAllergens.length > 0);
+    if (dishes.length === 0 || unsafe.length / dishes.length < AVOID_SECTION_SHARE) continue;
+
+    const counts = new Map<string, number>();
+    for (const dish of unsafe) {
+      for (const a of dish.facts.avoidedAllergens) counts.set(a.name, (counts.get(a.name) ?? 0) + 1);
+    }
+    sectionsToAvoid.push({
+      sectionId: section.id,
+      sectionName: section.name,
+      analyzedCount: dishes.length,
+      unsafeCount: unsafe.length,
+      allergens: Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .map(([name]) => name),
+    });
+  }
+
+  return {
+    totalCount,
+    analyzedCount: analyzed.length,
+    safeCount: analyzed.filter((d) => d.facts.avoidedAllergens.length === 0).length,
+    lowFodmapCount: analyzed.filter((d) => d.facts.fodmapLevel === "low").length,
+    bestPicks,
+    commonAllergens: Array.from(allergenMap.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_COMMON_ALLERGENS),
+    sectionsToAvoid: sectionsToAvoid.sort((a, b) => b.unsafeCount / b.analyzedCount - a.unsafeCount / a.analyzedCount),
+  };
+}
@@ -1,13 +1,14 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   getCacheMetrics,
   getCacheHitRate,
   resetMetrics,
   getRecentOperations,
+  getLatencyStats,
+  LatencyStats,
 } from '../utils/cacheMetrics';
-import { clearDishCache, searchCachedDishes } from '../utils/dishCache';
+import { clearDishCache, getDishCacheStats } from '../utils/dishCache';
 
 interface CacheDebugPanelProps {
   visible?: boolean;
@@ -18,36 +19,23 @@ interface CacheDebugPanelProps {
  * Add this component to any screen during development to monitor cache behavior
  *
  * Usage: <CacheDebugPanel visible={__DEV__} />
+ * (the Profile tab has a dev-only switch for it)
  */
 export default function CacheDebugPanel({ visible = true }: CacheDebugPanelProps) {
   const [metrics, setMetrics] = useState(getCacheMetrics());
   const [cachedDishes, setCachedDishes] = useState<string[]>([]);
   const [storageSize, setStorageSize] = useState<string>('0 KB');
+  const [latencyStats, setLatencyStats] = useState<LatencyStats[]>([]);
   const [expanded, setExpanded] = useState(false);
 
   const refreshMetrics = async () => {
     setMetrics(getCacheMetrics());
+    setLatencyStats(getLatencyStats());
 
-    // Get all cached dishes
-    const dishes = await searchCachedDishes('');
-    setCachedDishes(dishes.map((d) => d.dishName));
-
-    // Estimate storage size
-    try {
-      const keys = await AsyncStorage.getAllKeys();
-      const dishKeys = keys.filter((k) => k.startsWith('@dish_cache_'));
-      let totalSize = 0;
-      for (const key of dishKeys) {
-        const value = await AsyncStorage.getItem(key);
-        if (value) {
-          totalSize += value.length * 2; // Rough estimate (UTF-16)
-        }
-      }
-      const sizeKB = (totalSize / 1024).toFixed(1);
-      setStorageSize(`${sizeKB} KB`);
-    } catch (e) {
-      setStorageSize('Unknown');
-    }
+    // Cached dishes (most recently used first) and sizes come from the cache index
+    const stats = await getDishCacheStats();
+    setCachedDishes(stats.dishNames);
+    setStorageSize(`${(stats.bytes / 1024).toFixed(1)} / ${(stats.maxBytes / 1024).toFixed(0)} KB`);
   };
 
   useEffect(() => {
@@ -99,6 +87,24 @@ export default function CacheDebugPanel({ visible = true }: CacheDebugPanelProps
             </View>
           </View>
 
+          <Text style={styles.sectionTitle}>
+            API Latency (p50 / p90 / p95, avg analysis {metrics.avgApiCallTimeMs}ms):
+          </Text>
+          <ScrollView style={styles.operationsList}>
+            {latencyStats.length === 0 && <Text style={styles.operationDish}>No calls measured yet</Text>}
+            {latencyStats.map((stat) => (
+              <View key={stat.endpoint} style={styles.operationItem}>
+                <Text style={styles.latencyEndpoint} numberOfLines={1}>
+                  {stat.endpoint}
+                </Text>
+                <Text style={styles.operationDish}>
+                  {stat.p50Ms} / {stat.p90Ms} / {stat.p95Ms}ms · {stat.count} calls
+                  {stat.errors > 0 ? ` · ${stat.errors} failed` : ''}
+                </Text>
+              </View>
+            ))}
+          </ScrollView>
+
           <Text style={styles.sectionTitle}>Recent Operations:</Text>
           <ScrollView style={styles.operationsList}>
             {recentOps.map((op, i) => (
@@ -226,6 +232,12 @@ const styles = StyleSheet.create({
     fontSize: 10,
     flex: 1,
   },
+  latencyEndpoint: {
+    color: '#fff',
+    fontSize: 10,
+    width: 120,
+    marginRight: 8,
+  },
   dishesList: {
     maxHeight: 30,
   },
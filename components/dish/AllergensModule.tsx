@@ -2,6 +2,7 @@ import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { COLORS, SPACING } from './designSystem';
 import { ExpandableCard } from './ExpandableCard';
+import type { AllergenRisk, AllergenSeverity } from '../../app/utils/allergenSeverity';
 
 export type AllergenWithSource = {
   /** Allergen name (e.g., "Gluten", "Milk") */
@@ -12,14 +13,32 @@ export type AllergenWithSource = {
   source?: string | null;
   /** Whether this is a user's allergen */
   isUserAllergen?: boolean;
+  /** The user's severity for it (avoid, limit, monitor) */
+  severity?: AllergenSeverity | null;
+  /** How much it matters given that severity; drives the tag color */
+  risk?: AllergenRisk | null;
 };
 
 type Props = {
   /** List of allergens with their sources */
   allergens: AllergenWithSource[];
+  /** Severity-worded message about the user's own allergens */
+  alert?: { risk: AllergenRisk; message: string } | null;
 };
 
-export function AllergensModule({ allergens }: Props) {
+const RISK_TAG_STYLES = {
+  high: { backgroundColor: COLORS.severityHighBg, borderColor: COLORS.severityHigh },
+  medium: { backgroundColor: COLORS.severityModerateBg, borderColor: COLORS.severityModerate },
+  low: { backgroundColor: COLORS.severityLowBg, borderColor: COLORS.severityLow },
+};
+
+const RISK_TEXT_COLORS = {
+  high: COLORS.severityHigh,
+  medium: COLORS.severityModerate,
+  low: COLORS.severityLow,
+};
+
+export function AllergensModule({ allergens, alert }: Props) {
   // Filter to only show detected allergens (yes or maybe)
   const detectedAllergens = allergens.filter(a => a.present === 'yes' || a.present === 'maybe');
 
@@ -29,17 +48,24 @@ export function AllergensModule({ allergens }: Props) {
 
   // Build allergen tags for always-visible section
   const allergenTags = (
-    <View style={styles.tagsRow}>
-      {detectedAllergens.map((allergen, idx) => {
-        const displayName = allergen.present === 'maybe'
-          ? `${allergen.name}?`
-          : allergen.name;
-        return (
-          <View key={idx} style={styles.tag}>
-            <Text style={styles.tagText}>{displayName}</Text>
-          </View>
-        );
-      })}
+    <View>
+      {alert && (
+        <Text style={[styles.alertText, { color: RISK_TEXT_COLORS[alert.risk] }]}>{alert.message}</Text>
+      )}
+      <View style={styles.tagsRow}>
+        {detectedAllergens.map((allergen, idx) => {
+          const displayName = allergen.present === 'maybe'
+            ? `${allergen.name}?`
+            : allergen.name;
+          return (
+            <View key={idx} style={[styles.tag, allergen.risk && RISK_TAG_STYLES[allergen.risk]]}>
+              <Text style={[styles.tagText, allergen.risk && { color: RISK_TEXT_COLORS[allergen.risk] }]}>
+                {displayName}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
     </View>
   );
 
@@ -48,7 +74,10 @@ export function AllergensModule({ allergens }: Props) {
     <View style={styles.detailsList}>
       {detectedAllergens.map((allergen, idx) => (
         <View key={idx} style={styles.detailRow}>
-          <Text style={styles.detailAllergen}>{allergen.name}</Text>
+          <Text style={styles.detailAllergen}>
+            {allergen.name}
+            {allergen.severity ? <Text style={styles.detailSeverity}> · you {allergen.severity}</Text> : null}
+          </Text>
           {allergen.source ? (
             <Text style={styles.detailSource}>{allergen.source}</Text>
           ) : allergen.present === 'maybe' ? (
@@ -72,6 +101,11 @@ export function AllergensModule({ allergens }: Props) {
 }
 
 const styles = StyleSheet.create({
+  alertText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: SPACING.sm,
+  },
   tagsRow: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -104,6 +138,11 @@ const styles = StyleSheet.create({
     color: COLORS.textPrimary,
     flex: 1,
   },
+  detailSeverity: {
+    fontSize: 13,
+    fontWeight: '400',
+    color: COLORS.textMuted,
+  },
   detailSource: {
     fontSize: 14,
     color: COLORS.textSecondary,
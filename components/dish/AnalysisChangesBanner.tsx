@@ -0,0 +1,94 @@
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, SPACING, RADIUS, FONT_SIZES } from './designSystem';
+import { AnalysisChange, describeAnalysisChange } from '../../utils/analysisDiff';
+
+type Props = {
+  /** A fresh analysis is still being fetched for the cached one on screen */
+  refreshing: boolean;
+  /** What the fresh analysis changed; empty when nothing notable did */
+  changes: AnalysisChange[];
+  onDismiss?: () => void;
+};
+
+/**
+ * Shown over a cached analysis: a quiet note while it is being re-checked,
+ * then the list of changes if the fresh result differs.
+ */
+export function AnalysisChangesBanner({ refreshing, changes, onDismiss }: Props) {
+  if (refreshing) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.row}>
+          <ActivityIndicator size="small" color={COLORS.brandTeal} />
+          <Text style={styles.message}>Checking for an updated analysis...</Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (changes.length === 0) return null;
+
+  return (
+    <View style={[styles.container, styles.updated]}>
+      <View style={styles.header}>
+        <Ionicons name="refresh-circle-outline" size={18} color={COLORS.severityModerate} />
+        <Text style={styles.title}>This analysis was updated</Text>
+        {onDismiss && (
+          <TouchableOpacity onPress={onDismiss} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Ionicons name="close" size={18} color={COLORS.textMuted} />
+          </TouchableOpacity>
+        )}
+      </View>
+      {changes.map((change, i) => (
+        <Text key={i} style={styles.change}>
+          • {describeAnalysisChange(change)}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: SPACING.lg,
+    marginTop: SPACING.md,
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    gap: SPACING.xs,
+    backgroundColor: COLORS.cardSurface,
+    borderRadius: RADIUS.lg,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  updated: {
+    borderColor: COLORS.severityModerate,
+    backgroundColor: COLORS.severityModerateBg,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  title: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  message: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    fontStyle: 'italic',
+  },
+  change: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+});
@@ -1,5 +1,6 @@
 import React from 'react';
 import {
+  ActivityIndicator,
   View,
   Text,
   TouchableOpacity,
@@ -16,22 +17,38 @@ type PlateComponent = {
 
 type Props = {
   components: PlateComponent[];
-  selectedIndex: number | null; // null = "Whole Plate"
-  onSelect: (index: number | null) => void;
+  selectedIds: string[]; // every id = "Whole Plate"
+  onChange: (selectedIds: string[]) => void;
+  loading?: boolean; // recomputing on the server
 };
 
 export const ComponentSelector: React.FC<Props> = ({
   components,
-  selectedIndex,
-  onSelect,
+  selectedIds,
+  onChange,
+  loading = false,
 }) => {
   if (components.length <= 1) {
     return null; // Don't show selector for single component dishes
   }
 
+  const wholePlate = components.every((comp) => selectedIds.includes(comp.id));
+
+  // At least one component always stays on the plate
+  const toggle = (id: string) => {
+    if (!selectedIds.includes(id)) {
+      onChange([...selectedIds, id]);
+    } else if (selectedIds.length > 1) {
+      onChange(selectedIds.filter((selectedId) => selectedId !== id));
+    }
+  };
+
   return (
     <View style={styles.container}>
-      <Text style={styles.label}>Analyze by</Text>
+      <View style={styles.labelRow}>
+        <Text style={styles.label}>On your plate</Text>
+        {loading && <ActivityIndicator size="small" color={COLORS.brandTeal} />}
+      </View>
       <ScrollView
         horizontal
         showsHorizontalScrollIndicator={false}
@@ -41,38 +58,42 @@ export const ComponentSelector: React.FC<Props> = ({
         <TouchableOpacity
           style={[
             styles.segment,
-            selectedIndex === null && styles.segmentActive,
+            wholePlate && styles.segmentActive,
           ]}
-          onPress={() => onSelect(null)}
+          onPress={() => onChange(components.map((comp) => comp.id))}
           activeOpacity={0.7}
         >
           <Text style={[
             styles.segmentText,
-            selectedIndex === null && styles.segmentTextActive,
+            wholePlate && styles.segmentTextActive,
           ]}>
             Whole Plate
           </Text>
         </TouchableOpacity>
 
         {/* Individual components */}
-        {components.map((comp, index) => (
-          <TouchableOpacity
-            key={comp.id}
-            style={[
-              styles.segment,
-              selectedIndex === index && styles.segmentActive,
-            ]}
-            onPress={() => onSelect(index)}
-            activeOpacity={0.7}
-          >
-            <Text style={[
-              styles.segmentText,
-              selectedIndex === index && styles.segmentTextActive,
-            ]} numberOfLines={1}>
-              {comp.name}
-            </Text>
-          </TouchableOpacity>
-        ))}
+        {components.map((comp) => {
+          const selected = selectedIds.includes(comp.id);
+          return (
+            <TouchableOpacity
+              key={comp.id}
+              style={[
+                styles.segment,
+                selected && !wholePlate && styles.segmentActive,
+              ]}
+              onPress={() => toggle(comp.id)}
+              activeOpacity={0.7}
+            >
+              <Text style={[
+                styles.segmentText,
+                selected && !wholePlate && styles.segmentTextActive,
+                !selected && styles.segmentTextSkipped,
+              ]} numberOfLines={1}>
+                {comp.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
       </ScrollView>
     </View>
   );
@@ -85,9 +106,14 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: COLORS.border,
   },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
   label: {
     ...TYPOGRAPHY.label,
-    marginBottom: SPACING.sm,
   },
   scrollContent: {
     flexDirection: 'row',
@@ -115,6 +141,9 @@ const styles = StyleSheet.create({
     color: COLORS.brandTeal,
     fontWeight: '600',
   },
+  segmentTextSkipped: {
+    textDecorationLine: 'line-through',
+  },
 });
 
 export default ComponentSelector;
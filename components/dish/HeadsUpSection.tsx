@@ -7,9 +7,12 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { COLORS, TYPOGRAPHY, SPACING, RADIUS } from './designSystem';
+import type { AllergenRisk } from '../../app/utils/allergenSeverity';
 
 type Props = {
   allergenSummary?: string | null;
+  allergenRisk?: AllergenRisk | null; // from the user's severity; high turns the header red
+  allergenAlert?: string | null; // the view model's allergenAlert message
   fodmapSummary?: string | null;
   hasFixableIssues?: boolean;
   safeComponentCount?: number;
@@ -19,6 +22,8 @@ type Props = {
 
 export function HeadsUpSection({
   allergenSummary,
+  allergenRisk = null,
+  allergenAlert,
   fodmapSummary,
   hasFixableIssues = false,
   safeComponentCount = 0,
@@ -27,6 +32,7 @@ export function HeadsUpSection({
 }: Props) {
   // Combine summaries into one message
   const concerns: string[] = [];
+  if (allergenAlert) concerns.push(allergenAlert);
   if (allergenSummary) concerns.push(allergenSummary);
   if (fodmapSummary) concerns.push(fodmapSummary);
 
@@ -41,8 +47,12 @@ export function HeadsUpSection({
     <View style={styles.container}>
       {/* Header */}
       <View style={styles.header}>
-        <Ionicons name="warning" size={20} color={COLORS.severityModerate} />
-        <Text style={styles.headerText}>Heads Up</Text>
+        <Ionicons
+          name="warning"
+          size={20}
+          color={allergenRisk === 'high' ? COLORS.severityHigh : COLORS.severityModerate}
+        />
+        <Text style={styles.headerText}>{allergenRisk === 'high' ? 'Allergen you avoid' : 'Heads Up'}</Text>
       </View>
 
       {/* Combined concern message */}
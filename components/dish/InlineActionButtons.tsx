@@ -18,8 +18,8 @@ type Props = {
   loadingProgress?: number;
   /** Called when Log Meal button is pressed */
   onLogMeal: () => void;
-  /** Called when Recipe button is pressed */
-  onViewRecipe: () => void;
+  /** Called when Recipe button is pressed; omitted on the recipe screen itself */
+  onViewRecipe?: () => void;
   /** Whether meal is currently being logged */
   isLoggingMeal: boolean;
   /** Whether meal has been logged */
@@ -90,7 +90,7 @@ export function InlineActionButtons({
         </TouchableOpacity>
 
         {/* Secondary: Recipe */}
-        {hasRecipe && (
+        {hasRecipe && onViewRecipe && (
           <TouchableOpacity
             style={styles.secondaryButton}
             onPress={onViewRecipe}
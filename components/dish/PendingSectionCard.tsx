@@ -0,0 +1,55 @@
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { COLORS, SPACING, RADIUS, FONT_SIZES } from './designSystem';
+
+type Props = {
+  /** Section title, matching the card that will replace this one */
+  title: string;
+  /** What the pipeline is doing for this section */
+  message: string;
+};
+
+/**
+ * Placeholder shown in place of a dish section whose analysis stage
+ * hasn't streamed in yet.
+ */
+export function PendingSectionCard({ title, message }: Props) {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{title}</Text>
+      <View style={styles.row}>
+        <ActivityIndicator size="small" color={COLORS.brandTeal} />
+        <Text style={styles.message}>{message}</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: SPACING.lg,
+    marginTop: SPACING.lg,
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    gap: SPACING.sm,
+    backgroundColor: COLORS.cardSurface,
+    borderRadius: RADIUS.lg,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  title: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+  },
+  message: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    fontStyle: 'italic',
+  },
+});
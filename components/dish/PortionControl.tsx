@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+} from 'react-native';
+import { COLORS, TYPOGRAPHY, SPACING, RADIUS } from './designSystem';
+import {
+  PORTION_PRESETS,
+  PortionEstimate,
+  formatPortionFactor,
+  parsePortionFactor,
+} from '../../app/utils/portion';
+
+type Props = {
+  value: number; // 1 = the standard portion
+  onChange: (factor: number) => void;
+  estimate?: PortionEstimate | null; // AI vision estimate, shown next to the choice
+};
+
+export const PortionControl: React.FC<Props> = ({ value, onChange, estimate }) => {
+  const isPreset = PORTION_PRESETS.includes(value);
+  const [customOpen, setCustomOpen] = useState(false);
+  const [customText, setCustomText] = useState('');
+  const [customInvalid, setCustomInvalid] = useState(false);
+
+  const showCustom = customOpen || !isPreset;
+
+  const submitCustom = () => {
+    const factor = parsePortionFactor(customText);
+    setCustomInvalid(factor === null);
+    if (factor !== null) {
+      onChange(factor);
+      setCustomOpen(false);
+    }
+  };
+
+  const choosePreset = (factor: number) => {
+    setCustomOpen(false);
+    setCustomInvalid(false);
+    onChange(factor);
+  };
+
+  const estimateMatches = !!estimate && Math.abs(estimate.factor - value) < 0.01;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.labelRow}>
+        <Text style={styles.label}>Portion</Text>
+        <Text style={styles.current}>{formatPortionFactor(value)}×</Text>
+      </View>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.scrollContent}
+      >
+        {PORTION_PRESETS.map((factor) => {
+          const selected = !customOpen && value === factor;
+          return (
+            <TouchableOpacity
+              key={factor}
+              style={[styles.segment, selected && styles.segmentActive]}
+              onPress={() => choosePreset(factor)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.segmentText, selected && styles.segmentTextActive]}>
+                {formatPortionFactor(factor)}×
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity
+          style={[styles.segment, showCustom && styles.segmentActive]}
+          onPress={() => {
+            setCustomText(isPreset ? '' : formatPortionFactor(value));
+            setCustomOpen(true);
+          }}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.segmentText, showCustom && styles.segmentTextActive]}>
+            {!isPreset && !customOpen ? `${formatPortionFactor(value)}×` : 'Custom'}
+          </Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {customOpen && (
+        <View style={styles.customRow}>
+          <TextInput
+            style={[styles.customInput, customInvalid && styles.customInputInvalid]}
+            value={customText}
+            onChangeText={(text) => {
+              setCustomText(text);
+              setCustomInvalid(false);
+            }}
+            onSubmitEditing={submitCustom}
+            placeholder="e.g. 0.75 or 3/4"
+            placeholderTextColor={COLORS.textMuted}
+            keyboardType="decimal-pad"
+            returnKeyType="done"
+            autoFocus
+          />
+          <TouchableOpacity style={styles.applyButton} onPress={submitCustom} activeOpacity={0.7}>
+            <Text style={styles.applyText}>Apply</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      {customInvalid && <Text style={styles.invalidText}>Enter a portion between 0.1× and 5×.</Text>}
+
+      {estimate && (
+        <View style={styles.estimateRow}>
+          <Text style={styles.estimateText}>
+            {estimate.fromPhoto ? 'From your photo' : 'AI estimate'}: {formatPortionFactor(estimate.factor)}×
+            {estimate.confidence !== null ? ` · ${Math.round(estimate.confidence * 100)}% confident` : ''}
+          </Text>
+          {!estimateMatches && (
+            <TouchableOpacity onPress={() => choosePreset(Math.round(estimate.factor * 100) / 100)} activeOpacity={0.7}>
+              <Text style={styles.estimateAction}>Use</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: SPACING.md,
+    paddingHorizontal: SPACING.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: SPACING.sm,
+  },
+  label: {
+    ...TYPOGRAPHY.label,
+  },
+  current: {
+    ...TYPOGRAPHY.secondary,
+    color: COLORS.brandTeal,
+    fontWeight: '600',
+  },
+  scrollContent: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  segment: {
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.sm,
+    borderRadius: RADIUS.full,
+    backgroundColor: COLORS.cardSurface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    minWidth: 56,
+    alignItems: 'center',
+  },
+  segmentActive: {
+    backgroundColor: 'rgba(24, 214, 198, 0.15)',
+    borderColor: COLORS.brandTeal,
+  },
+  segmentText: {
+    ...TYPOGRAPHY.secondary,
+    color: COLORS.textMuted,
+  },
+  segmentTextActive: {
+    color: COLORS.brandTeal,
+    fontWeight: '600',
+  },
+  customRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginTop: SPACING.sm,
+  },
+  customInput: {
+    flex: 1,
+    ...TYPOGRAPHY.secondary,
+    color: COLORS.textPrimary,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderRadius: RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.cardSurface,
+  },
+  customInputInvalid: {
+    borderColor: COLORS.severityHigh,
+  },
+  applyButton: {
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.sm,
+    borderRadius: RADIUS.full,
+    backgroundColor: COLORS.brandTeal,
+  },
+  applyText: {
+    ...TYPOGRAPHY.secondary,
+    color: COLORS.background,
+    fontWeight: '600',
+  },
+  invalidText: {
+    ...TYPOGRAPHY.secondary,
+    color: COLORS.severityHigh,
+    marginTop: SPACING.xs,
+  },
+  estimateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: SPACING.sm,
+  },
+  estimateText: {
+    ...TYPOGRAPHY.secondary,
+    color: COLORS.textMuted,
+  },
+  estimateAction: {
+    ...TYPOGRAPHY.secondary,
+    color: COLORS.brandTeal,
+    fontWeight: '600',
+  },
+});
+
+export default PortionControl;
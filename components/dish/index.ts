@@ -5,6 +5,7 @@ export * from './designSystem';
 export { DishHeader } from './DishHeader';
 export { StatusChipsRow } from './StatusChipsRow';
 export { ComponentSelector } from './ComponentSelector';
+export { PortionControl } from './PortionControl';
 export { InsightAccordionCard } from './InsightAccordionCard';
 export { FodmapCard } from './FodmapCard';
 export { AllergensCard } from './AllergensCard';
@@ -33,3 +34,5 @@ export type { FodmapCategory } from './DigestiveImpactModule';
 export { LongTermHealthModule } from './LongTermHealthModule';
 export type { OrganImpact } from './LongTermHealthModule';
 export { InlineActionButtons } from './InlineActionButtons';
+export { PendingSectionCard } from './PendingSectionCard';
+export { AnalysisChangesBanner } from './AnalysisChangesBanner';
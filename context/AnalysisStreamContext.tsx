@@ -0,0 +1,274 @@
+import React, { createContext, useContext, useRef, useCallback, useEffect, useState, ReactNode } from 'react';
+import {
+  AnalysisStage,
+  AnalyzeDishPayload,
+  AnalyzeDishResponse,
+  ANALYSIS_STAGES,
+  ApiError,
+  analyzeDish,
+  analyzeDishStream,
+  pollOrgansStatus,
+} from '../api/api';
+import { AnalysisChange, diffAnalyses } from '../utils/analysisDiff';
+
+export interface AnalysisSession {
+  id: string;
+  dishName: string;
+  status: 'streaming' | 'complete' | 'failed';
+  /** Partial while streaming, final once complete */
+  analysis: AnalyzeDishResponse | null;
+  stages: AnalysisStage[];
+  /** Organs are still being polled after the main result arrived */
+  organsPending: boolean;
+  error: string | null;
+  apiError?: ApiError;
+  /** A cached analysis is shown while a fresh one is fetched in the background */
+  refreshing?: boolean;
+  /** What the fresh analysis changed compared to the cached one the user saw */
+  changes?: AnalysisChange[];
+}
+
+interface StartAnalysisOptions {
+  /** Called with the final result, and again once deferred organs are merged in */
+  onResult?: (analysis: AnalyzeDishResponse) => void | Promise<void>;
+}
+
+interface AnalysisStreamContextValue {
+  startAnalysis: (payload: AnalyzeDishPayload, options?: StartAnalysisOptions) => string;
+  refreshAnalysis: (
+    payload: AnalyzeDishPayload,
+    previous: AnalyzeDishResponse,
+    options?: StartAnalysisOptions
+  ) => string;
+  cancelAnalysis: (sessionId: string) => void;
+  getSession: (sessionId: string) => AnalysisSession | null;
+  subscribe: (sessionId: string, listener: (session: AnalysisSession) => void) => () => void;
+}
+
+interface SessionEntry {
+  session: AnalysisSession;
+  controller: AbortController;
+  listeners: Set<(session: AnalysisSession) => void>;
+}
+
+// Finished sessions are kept so a screen opened later can still read them
+const MAX_SESSIONS = 10;
+
+const AnalysisStreamContext = createContext<AnalysisStreamContextValue | null>(null);
+
+let sessionCounter = 0;
+
+export function AnalysisStreamProvider({ children }: { children: ReactNode }) {
+  const sessionsRef = useRef<Map<string, SessionEntry>>(new Map());
+
+  const update = useCallback((sessionId: string, patch: Partial<AnalysisSession>) => {
+    const entry = sessionsRef.current.get(sessionId);
+    if (!entry || entry.controller.signal.aborted) return;
+    entry.session = { ...entry.session, ...patch };
+    entry.listeners.forEach((listener) => listener(entry.session));
+  }, []);
+
+  const prune = useCallback(() => {
+    const sessions = sessionsRef.current;
+    for (const [id, entry] of sessions) {
+      if (sessions.size <= MAX_SESSIONS) break;
+      if (entry.session.status !== 'streaming' && !entry.session.organsPending && !entry.session.refreshing) {
+        sessions.delete(id);
+      }
+    }
+  }, []);
+
+  const startAnalysis = useCallback((payload: AnalyzeDishPayload, options: StartAnalysisOptions = {}) => {
+    const id = `analysis-${Date.now()}-${++sessionCounter}`;
+    const controller = new AbortController();
+    sessionsRef.current.set(id, {
+      session: {
+        id,
+        dishName: payload.dishName,
+        status: 'streaming',
+        analysis: null,
+        stages: [],
+        organsPending: false,
+        error: null,
+      },
+      controller,
+      listeners: new Set(),
+    });
+    prune();
+
+    const run = async () => {
+      const result = await analyzeDishStream(payload, {
+        signal: controller.signal,
+        onStage: ({ stage, partial, stages }) => {
+          console.log(`[AnalysisStream] ${payload.dishName}: ${stage} ready`);
+          update(id, { analysis: partial, stages });
+        },
+      });
+
+      if (!result.ok) {
+        update(id, { status: 'failed', error: result.error || 'Analysis failed', apiError: result.apiError });
+        return;
+      }
+
+      const organsPending = !!(result.organs_pending && result.organs_poll_key);
+      update(id, { status: 'complete', analysis: result, organsPending });
+      await options.onResult?.(result);
+
+      // Backends without the stream endpoint defer organs; poll them in as a late stage
+      if (organsPending && result.organs_poll_key) {
+        const organsResult = await pollOrgansStatus(result.organs_poll_key, undefined, {
+          signal: controller.signal,
+        });
+        if (controller.signal.aborted) return;
+
+        const entry = sessionsRef.current.get(id);
+        if (organsResult.ok && organsResult.ready && organsResult.organs) {
+          const withOrgans: AnalyzeDishResponse = {
+            ...result,
+            organs: organsResult.organs,
+            organs_pending: false,
+            organs_poll_key: undefined,
+          };
+          const stages = entry?.session.stages || [];
+          update(id, {
+            analysis: withOrgans,
+            organsPending: false,
+            stages: stages.includes('organs') ? stages : [...stages, 'organs'],
+          });
+          await options.onResult?.(withOrgans);
+        } else {
+          update(id, { organsPending: false });
+        }
+      }
+    };
+
+    run().catch((e) => {
+      console.error('[AnalysisStream] Session error:', e);
+      update(id, { status: 'failed', error: e?.message || 'Analysis failed', organsPending: false });
+    });
+
+    return id;
+  }, [prune, update]);
+
+  // Serve a cached analysis right away and swap in a fresh one when it arrives
+  const refreshAnalysis = useCallback(
+    (payload: AnalyzeDishPayload, previous: AnalyzeDishResponse, options: StartAnalysisOptions = {}) => {
+      const id = `refresh-${Date.now()}-${++sessionCounter}`;
+      const controller = new AbortController();
+      sessionsRef.current.set(id, {
+        session: {
+          id,
+          dishName: payload.dishName,
+          status: 'complete',
+          analysis: previous,
+          stages: [...ANALYSIS_STAGES],
+          organsPending: false,
+          error: null,
+          refreshing: true,
+          changes: [],
+        },
+        controller,
+        listeners: new Set(),
+      });
+      prune();
+
+      const run = async () => {
+        // Organs come back inline so the refreshed result is complete in one step
+        const result = await analyzeDish({ ...payload, skip_organs: undefined }, controller.signal);
+        if (!result.ok) {
+          // Keep showing the cached analysis
+          console.log('[AnalysisStream] Refresh failed for', payload.dishName, result.error);
+          update(id, { refreshing: false });
+          return;
+        }
+
+        const changes = diffAnalyses(previous, result);
+        console.log(`[AnalysisStream] ${payload.dishName}: refreshed, ${changes.length} change(s)`);
+        update(id, { analysis: result, refreshing: false, changes });
+        await options.onResult?.(result);
+      };
+
+      run().catch((e) => {
+        console.error('[AnalysisStream] Refresh error:', e);
+        update(id, { refreshing: false });
+      });
+
+      return id;
+    },
+    [prune, update]
+  );
+
+  const cancelAnalysis = useCallback((sessionId: string) => {
+    const entry = sessionsRef.current.get(sessionId);
+    if (!entry) return;
+    entry.controller.abort();
+    entry.listeners.clear();
+    sessionsRef.current.delete(sessionId);
+  }, []);
+
+  const getSession = useCallback((sessionId: string): AnalysisSession | null => {
+    return sessionsRef.current.get(sessionId)?.session || null;
+  }, []);
+
+  const subscribe = useCallback((sessionId: string, listener: (session: AnalysisSession) => void) => {
+    const entry = sessionsRef.current.get(sessionId);
+    if (!entry) return () => {};
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  }, []);
+
+  // Abort everything still running when the provider unmounts
+  useEffect(() => {
+    const sessions = sessionsRef.current;
+    return () => {
+      sessions.forEach((entry) => entry.controller.abort());
+      sessions.clear();
+    };
+  }, []);
+
+  return (
+    <AnalysisStreamContext.Provider
+      value={{
+        startAnalysis,
+        refreshAnalysis,
+        cancelAnalysis,
+        getSession,
+        subscribe,
+      }}
+    >
+      {children}
+    </AnalysisStreamContext.Provider>
+  );
+}
+
+export function useAnalysisStream() {
+  const context = useContext(AnalysisStreamContext);
+  if (!context) {
+    throw new Error('useAnalysisStream must be used within AnalysisStreamProvider');
+  }
+  return context;
+}
+
+/**
+ * Current state of an analysis session, re-rendering as stages arrive.
+ * Returns null for an unknown or missing session id.
+ */
+export function useAnalysisSession(sessionId: string | null | undefined): AnalysisSession | null {
+  const { getSession, subscribe } = useAnalysisStream();
+  const [session, setSession] = useState<AnalysisSession | null>(() =>
+    sessionId ? getSession(sessionId) : null
+  );
+
+  useEffect(() => {
+    if (!sessionId) {
+      setSession(null);
+      return;
+    }
+    setSession(getSession(sessionId));
+    return subscribe(sessionId, setSession);
+  }, [sessionId, getSession, subscribe]);
+
+  return session;
+}
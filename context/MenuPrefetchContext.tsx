@@ -1,26 +1,48 @@
-import React, { createContext, useContext, useRef, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useRef, useCallback, useEffect, useState, ReactNode } from 'react';
 import {
   startApifyScrape,
-  getApifyJobStatus,
-  ApifyJobStatusResponse,
+  pollApifyJob,
+  MenuResponse,
 } from '../api/api';
-
-interface PrefetchState {
+import { adaptApifyMenu } from '../api/menuAdapters';
+import { cachedMenuToResponse, getCachedMenu, MENU_FRESH_MS } from '../utils/menuCache';
+import {
+  PREFETCH_PRIORITY,
+  PrefetchQueueEntry,
+  PrefetchStatus,
+  carouselPriorities,
+  nextPrefetches,
+  overflowPrefetches,
+  queuePosition,
+} from '../utils/prefetchQueue';
+
+interface PrefetchState extends PrefetchQueueEntry {
   restaurantName: string;
   address: string;
-  placeId: string;
   jobId: string;
-  status: 'idle' | 'starting' | 'running' | 'completed' | 'failed';
-  data?: any[];
-  startedAt: number;
+  /** The prefetched menu, adapted from the scrape results */
+  menu?: MenuResponse;
+  startedAt?: number;
+}
+
+export interface PrefetchTarget {
+  placeId: string;
+  name: string;
+  address: string;
 }
 
 interface MenuPrefetchContextValue {
-  prefetchMenu: (placeId: string, restaurantName: string, address: string) => Promise<PrefetchState>;
+  prefetchMenu: (placeId: string, restaurantName: string, address: string, priority?: number) => Promise<PrefetchState>;
+  /** Queue the selected carousel card first, then its neighbours */
+  prefetchAround: (restaurants: PrefetchTarget[], selectedIndex: number) => void;
   getPrefetchedMenu: (placeId: string) => PrefetchState | null;
   isMenuReady: (placeId: string) => boolean;
-  getPrefetchStatus: (placeId: string) => PrefetchState['status'];
+  getPrefetchStatus: (placeId: string) => PrefetchStatus;
+  /** 1-based place in line while queued, otherwise null */
+  getQueuePosition: (placeId: string) => number | null;
   clearCache: (placeId: string) => void;
+  /** Every known prefetch; changes whenever one is queued, started or finishes */
+  queue: PrefetchQueueEntry[];
 }
 
 const MenuPrefetchContext = createContext<MenuPrefetchContextValue | null>(null);
@@ -31,141 +53,174 @@ interface MenuPrefetchCache {
 
 export function MenuPrefetchProvider({ children }: { children: ReactNode }) {
   const cacheRef = useRef<MenuPrefetchCache>({});
-  const activePollingRef = useRef<{ [jobId: string]: boolean }>({});
-  const currentPrefetchRef = useRef<string | null>(null);
-
-  const pollJobInBackground = useCallback(async (placeId: string, jobId: string) => {
-    const maxWaitMs = 90000;
-    const pollIntervalMs = 3000;
-    const startTime = Date.now();
-
-    while (Date.now() - startTime < maxWaitMs) {
-      if (!activePollingRef.current[jobId]) {
-        console.log(`[MenuPrefetch] Polling cancelled for job ${jobId}`);
-        return;
-      }
+  const activePollingRef = useRef<{ [jobId: string]: AbortController }>({});
+  const pumpRef = useRef<() => void>(() => {});
+  const [queue, setQueue] = useState<PrefetchQueueEntry[]>([]);
+
+  const publish = useCallback(() => {
+    setQueue(
+      Object.values(cacheRef.current).map(({ placeId, status, priority, enqueuedAt }) => ({
+        placeId,
+        status,
+        priority,
+        enqueuedAt,
+      }))
+    );
+  }, []);
 
-      if (currentPrefetchRef.current !== placeId) {
-        console.log(`[MenuPrefetch] Different restaurant selected, stopping poll`);
-        return;
-      }
+  const stopPolling = useCallback((jobId: string) => {
+    activePollingRef.current[jobId]?.abort();
+    delete activePollingRef.current[jobId];
+  }, []);
 
-      try {
-        const result = await getApifyJobStatus(jobId);
-
-        if (result.status === 'completed') {
-          console.log(`[MenuPrefetch] Job completed with ${result.resultCount || result.data?.length || 0} results`);
-          const state = cacheRef.current[placeId];
-          if (state) {
-            state.status = 'completed';
-            state.data = result.data;
-          }
-          activePollingRef.current[jobId] = false;
-          return;
-        }
-
-        if (result.status === 'failed' || result.status === 'not_found') {
-          console.log(`[MenuPrefetch] Job failed: ${result.error || 'unknown'}`);
-          const state = cacheRef.current[placeId];
-          if (state) {
-            state.status = 'failed';
-          }
-          activePollingRef.current[jobId] = false;
-          return;
-        }
-
-        await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
-      } catch (e) {
-        console.error(`[MenuPrefetch] Poll error:`, e);
-        await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
-      }
+  const pollJob = useCallback(async (state: PrefetchState) => {
+    const controller = new AbortController();
+    activePollingRef.current[state.jobId] = controller;
+
+    const result = await pollApifyJob(state.jobId, undefined, {
+      signal: controller.signal,
+      intervalMs: 3000,
+      deadlineMs: 90000,
+    });
+
+    if (activePollingRef.current[state.jobId] === controller) {
+      delete activePollingRef.current[state.jobId];
+    }
+    if (controller.signal.aborted) {
+      console.log(`[MenuPrefetch] Polling cancelled for job ${state.jobId}`);
+      return;
     }
 
-    console.log(`[MenuPrefetch] Job timed out`);
-    const state = cacheRef.current[placeId];
-    if (state) {
-      state.status = 'failed';
+    if (result.status === 'completed') {
+      console.log(`[MenuPrefetch] Job completed with ${result.resultCount || result.data?.length || 0} results`);
+      state.status = 'completed';
+      state.menu = adaptApifyMenu(result.data, { restaurantName: state.restaurantName, address: state.address });
+      return;
     }
-    activePollingRef.current[jobId] = false;
+
+    console.log(`[MenuPrefetch] Job failed: ${result.error || 'unknown'}`);
+    state.status = 'failed';
   }, []);
 
-  const prefetchMenu = useCallback(async (
-    placeId: string,
-    restaurantName: string,
-    address: string
-  ): Promise<PrefetchState> => {
-    // If same restaurant is already being prefetched, skip
-    if (currentPrefetchRef.current === placeId) {
-      const existing = cacheRef.current[placeId];
-      if (existing && (existing.status === 'running' || existing.status === 'completed')) {
-        console.log(`[MenuPrefetch] Already prefetching/prefetched ${restaurantName}`);
-        return existing;
-      }
-    }
+  // Runs one prefetch to completion; its slot frees up for the next queued one afterwards
+  const startPrefetch = useCallback(async (state: PrefetchState) => {
+    console.log(`[MenuPrefetch] Starting prefetch for ${state.restaurantName} at ${state.address}`);
+    state.status = 'starting';
+    state.startedAt = Date.now();
+
+    try {
+      const result = await startApifyScrape(state.restaurantName, state.address, 5);
 
-    // Cancel any previous prefetch tracking
-    if (currentPrefetchRef.current && currentPrefetchRef.current !== placeId) {
-      const prevId = currentPrefetchRef.current;
-      const prevState = cacheRef.current[prevId];
-      if (prevState?.jobId) {
-        console.log(`[MenuPrefetch] Cancelling tracking for previous restaurant`);
-        activePollingRef.current[prevState.jobId] = false;
+      if (!result.ok || !result.jobId) {
+        console.log(`[MenuPrefetch] Failed to start: ${result.message}`);
+        state.status = 'failed';
+      } else if (result.status === 'already_cached' && result.data) {
+        // If already cached on server
+        console.log(`[MenuPrefetch] Server had cached data`);
+        state.jobId = result.jobId;
+        state.status = 'completed';
+        state.menu = adaptApifyMenu(result.data, { restaurantName: state.restaurantName, address: state.address });
+      } else {
+        state.jobId = result.jobId;
+        state.status = 'running';
+        publish();
+        await pollJob(state);
       }
+    } catch (e: any) {
+      console.error(`[MenuPrefetch] Error:`, e?.message || e);
+      state.status = 'failed';
     }
 
-    currentPrefetchRef.current = placeId;
+    pumpRef.current();
+  }, [pollJob, publish]);
 
-    // Check if we already have completed data
-    const cached = cacheRef.current[placeId];
-    if (cached?.status === 'completed' && cached.data?.length) {
-      console.log(`[MenuPrefetch] Using cached data for ${restaurantName}`);
-      return cached;
+  // Drop queued work over the limit and start whatever fits in the free slots
+  const pump = useCallback(() => {
+    for (const dropped of overflowPrefetches(Object.values(cacheRef.current))) {
+      console.log(`[MenuPrefetch] Dropping queued prefetch for ${cacheRef.current[dropped.placeId]?.restaurantName}`);
+      delete cacheRef.current[dropped.placeId];
     }
+    for (const next of nextPrefetches(Object.values(cacheRef.current))) {
+      const state = cacheRef.current[next.placeId];
+      if (state) startPrefetch(state);
+    }
+    publish();
+  }, [publish, startPrefetch]);
+  pumpRef.current = pump;
+
+  // Stop all background polling when the provider unmounts
+  useEffect(() => {
+    const active = activePollingRef.current;
+    return () => {
+      Object.values(active).forEach((controller) => controller.abort());
+    };
+  }, []);
 
-    console.log(`[MenuPrefetch] Starting prefetch for ${restaurantName} at ${address}`);
+  const prefetchMenu = useCallback(async (
+    placeId: string,
+    restaurantName: string,
+    address: string,
+    priority: number = PREFETCH_PRIORITY.selected
+  ): Promise<PrefetchState> => {
+    // Already known: only its place in line can change. Started jobs keep running.
+    const existing = cacheRef.current[placeId];
+    if (existing && existing.status !== 'failed') {
+      if (existing.priority !== priority) {
+        existing.priority = priority;
+        pump();
+      }
+      return existing;
+    }
 
     const state: PrefetchState = {
+      placeId,
       restaurantName,
       address,
-      placeId,
       jobId: '',
-      status: 'starting',
-      startedAt: Date.now(),
+      status: 'idle',
+      priority,
+      enqueuedAt: Date.now(),
     };
     cacheRef.current[placeId] = state;
 
-    try {
-      const result = await startApifyScrape(restaurantName, address, 5);
-
-      if (!result.ok || !result.jobId) {
-        console.log(`[MenuPrefetch] Failed to start: ${result.message}`);
-        state.status = 'failed';
-        return state;
-      }
+    // A recently stored menu opens instantly, so there's nothing to warm up
+    const stored = await getCachedMenu(placeId);
+    if (stored && Date.now() - stored.fetchedAt < MENU_FRESH_MS) {
+      console.log(`[MenuPrefetch] Stored menu for ${restaurantName} is fresh, skipping scrape`);
+      state.status = 'completed';
+      state.menu = cachedMenuToResponse(stored);
+      state.startedAt = stored.fetchedAt;
+      publish();
+      return state;
+    }
 
-      state.jobId = result.jobId;
+    // Cleared while the stored menu was being read
+    if (cacheRef.current[placeId] !== state) return state;
 
-      // If already cached on server
-      if (result.status === 'already_cached' && result.data) {
-        console.log(`[MenuPrefetch] Server had cached data`);
-        state.status = 'completed';
-        state.data = result.data;
-        return state;
-      }
+    console.log(`[MenuPrefetch] Queued ${restaurantName} (priority ${state.priority})`);
+    state.status = 'queued';
+    pump();
+    return state;
+  }, [pump, publish]);
 
-      state.status = 'running';
-      activePollingRef.current[result.jobId] = true;
+  const prefetchAround = useCallback((restaurants: PrefetchTarget[], selectedIndex: number) => {
+    const wanted = carouselPriorities(restaurants.map((r) => r.placeId), selectedIndex);
+    const wantedIds = new Set(wanted.map((w) => w.placeId));
 
-      // Start background polling
-      pollJobInBackground(placeId, result.jobId);
+    // Cards the user has swiped away from wait behind the ones around the selection
+    for (const state of Object.values(cacheRef.current)) {
+      if (state.status === 'queued' && !wantedIds.has(state.placeId)) {
+        state.priority = PREFETCH_PRIORITY.background;
+      }
+    }
 
-      return state;
-    } catch (e: any) {
-      console.error(`[MenuPrefetch] Error:`, e?.message || e);
-      state.status = 'failed';
-      return state;
+    for (const { placeId, priority } of wanted) {
+      const restaurant = restaurants.find((r) => r.placeId === placeId);
+      if (restaurant?.name && restaurant.address) {
+        prefetchMenu(placeId, restaurant.name, restaurant.address, priority);
+      }
     }
-  }, [pollJobInBackground]);
+  }, [prefetchMenu]);
 
   const getPrefetchedMenu = useCallback((placeId: string): PrefetchState | null => {
     return cacheRef.current[placeId] || null;
@@ -173,29 +228,37 @@ export function MenuPrefetchProvider({ children }: { children: ReactNode }) {
 
   const isMenuReady = useCallback((placeId: string): boolean => {
     const state = cacheRef.current[placeId];
-    return state?.status === 'completed' && Boolean(state.data?.length);
+    return state?.status === 'completed' && Boolean(state.menu?.sections.length);
   }, []);
 
-  const getPrefetchStatus = useCallback((placeId: string): PrefetchState['status'] => {
+  const getPrefetchStatus = useCallback((placeId: string): PrefetchStatus => {
     return cacheRef.current[placeId]?.status || 'idle';
   }, []);
 
+  const getQueuePosition = useCallback((placeId: string): number | null => {
+    return queuePosition(Object.values(cacheRef.current), placeId);
+  }, []);
+
   const clearCache = useCallback((placeId: string) => {
     const state = cacheRef.current[placeId];
     if (state?.jobId) {
-      activePollingRef.current[state.jobId] = false;
+      stopPolling(state.jobId);
     }
     delete cacheRef.current[placeId];
-  }, []);
+    pump();
+  }, [pump, stopPolling]);
 
   return (
     <MenuPrefetchContext.Provider
       value={{
         prefetchMenu,
+        prefetchAround,
         getPrefetchedMenu,
         isMenuReady,
         getPrefetchStatus,
+        getQueuePosition,
         clearCache,
+        queue,
       }}
     >
       {children}
@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react";
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from "react";
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   UserProfile,
@@ -8,6 +8,7 @@ import {
   LoggedMeal,
   DailySummary,
   AllergenDefinition,
+  LogMealInput,
   getUserProfile,
   updateUserProfile,
   setUserAllergens,
@@ -20,6 +21,7 @@ import {
   getAllergenDefinitions,
   getTodayDate,
 } from '../api/api';
+import { UserAllergenPref, userAllergenPrefs } from '../app/utils/allergenSeverity';
 
 // Generate a unique user ID if not exists
 async function getOrCreateUserId(): Promise<string> {
@@ -76,6 +78,9 @@ interface UserPrefsContextValue {
   isProfileLoading: boolean;
   isTrackerLoading: boolean;
 
+  // Allergen names with the user's severity, for matching against dishes
+  allergenPrefs: UserAllergenPref[];
+
   // Legacy compatibility
   selectedAllergens: string[];
   setSelectedAllergens: (next: string[]) => void;
@@ -90,23 +95,7 @@ interface UserPrefsContextValue {
   // Tracker actions
   loadDailyTracker: (date?: string) => Promise<void>;
   loadWeeklyTracker: () => Promise<void>;
-  logMealAction: (mealData: {
-    dish_name: string;
-    dish_id?: string;
-    restaurant_name?: string;
-    meal_type?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-    portion_factor?: number;
-    calories?: number;
-    protein_g?: number;
-    carbs_g?: number;
-    fat_g?: number;
-    fiber_g?: number;
-    sugar_g?: number;
-    sodium_mg?: number;
-    organ_impacts?: Record<string, number>;
-    risk_flags?: string[];
-    full_analysis?: any;
-  }) => Promise<{ success: boolean; duplicate?: boolean; error?: string }>;
+  logMealAction: (mealData: LogMealInput) => Promise<{ success: boolean; duplicate?: boolean; error?: string }>;
   deleteMealAction: (mealId: number) => Promise<boolean>;
 
   // Refresh all data
@@ -135,6 +124,8 @@ export function UserPrefsProvider({ children }: { children: ReactNode }) {
   const [isProfileLoading, setIsProfileLoading] = useState(false);
   const [isTrackerLoading, setIsTrackerLoading] = useState(false);
 
+  const allergenPrefs = useMemo(() => userAllergenPrefs(allergens), [allergens]);
+
   // Legacy compatibility: derived from allergens
   const selectedAllergens = allergens.map(a => a.display_name || a.allergen_code);
 
@@ -148,15 +139,16 @@ export function UserPrefsProvider({ children }: { children: ReactNode }) {
       return def?.allergen_code || name.toLowerCase().replace(/\s+/g, '_');
     });
 
+    // Keep the severity of allergens the user already has; new ones start at avoid
     const newAllergens = allergenCodes.map(code => ({
       allergen_code: code,
-      severity: 'avoid' as const,
+      severity: allergens.find(a => a.allergen_code === code)?.severity ?? ('avoid' as const),
     }));
 
     if (userId) {
       await saveAllergens(newAllergens);
     }
-  }, [userId, allergenDefinitions]);
+  }, [userId, allergenDefinitions, allergens]);
 
   // Initialize user ID on mount
   useEffect(() => {
@@ -321,23 +313,7 @@ export function UserPrefsProvider({ children }: { children: ReactNode }) {
     }
   }, [userId]);
 
-  const logMealAction = useCallback(async (mealData: {
-    dish_name: string;
-    dish_id?: string;
-    restaurant_name?: string;
-    meal_type?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-    portion_factor?: number;
-    calories?: number;
-    protein_g?: number;
-    carbs_g?: number;
-    fat_g?: number;
-    fiber_g?: number;
-    sugar_g?: number;
-    sodium_mg?: number;
-    organ_impacts?: Record<string, number>;
-    risk_flags?: string[];
-    full_analysis?: any;
-  }): Promise<{ success: boolean; duplicate?: boolean; error?: string }> => {
+  const logMealAction = useCallback(async (mealData: LogMealInput): Promise<{ success: boolean; duplicate?: boolean; error?: string }> => {
     if (!userId) {
       console.error('logMealAction: No userId available');
       return { success: false, error: 'No user ID' };
@@ -396,6 +372,7 @@ export function UserPrefsProvider({ children }: { children: ReactNode }) {
       allergens,
       organPriorities,
       allergenDefinitions,
+      allergenPrefs,
       todayTracker,
       weeklyData,
       isLoading,
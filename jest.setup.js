@@ -21,6 +21,19 @@ jest.mock('@react-native-async-storage/async-storage', () => ({
       resolve(null);
     });
   }),
+  multiGet: jest.fn((keys) => {
+    return new Promise((resolve) => {
+      resolve(keys.map((key) => [key, mockStorage[key] || null]));
+    });
+  }),
+  multiSet: jest.fn((pairs) => {
+    return new Promise((resolve) => {
+      pairs.forEach(([key, value]) => {
+        mockStorage[key] = value;
+      });
+      resolve(null);
+    });
+  }),
   getAllKeys: jest.fn(() => {
     return new Promise((resolve) => {
       resolve(Object.keys(mockStorage));
@@ -40,6 +53,12 @@ jest.mock('@react-native-async-storage/async-storage', () => ({
   }),
 }));
 
+// App config as seen by expo-constants (no extra => production backend)
+jest.mock('expo-constants', () => ({
+  __esModule: true,
+  default: { expoConfig: { extra: {} } },
+}));
+
 // Reset mock storage before each test
 beforeEach(() => {
   mockStorage = {};
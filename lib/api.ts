@@ -1,37 +1,22 @@
-const RESTAURANT_API_BASE = "https://api.rrginvestment.com";
-// or use production:
-// const RESTAURANT_API_BASE = "https://tb-restaurant-core-production.tummybuddy.workers.dev";
+import { apiRequest, unwrap } from "../api/client";
+import { API_BASE_URL } from "../api/api";
 
-const DISH_API_BASE = "https://api.rrginvestment.com";
+const RESTAURANT_API_BASE = API_BASE_URL;
 
-async function doPost(base: string, path: string, body: any) {
+const DISH_API_BASE = API_BASE_URL;
+
+async function doPost(base: string, path: string, body: any, signal?: AbortSignal) {
   const url = `${base}${path}`;
   console.log("Calling API:", url, "with body:", body);
 
-  try {
-    const res = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!res.ok) {
-      throw new Error(`API error ${res.status}`);
-    }
-
-    return await res.json();
-  } catch (error) {
-    console.error("API error:", error);
-    throw error;
-  }
+  // Throws ApiRequestError (with a typed `kind`) on any failure
+  return unwrap(await apiRequest(url, { method: "POST", body, tag: "doPost", signal }));
 }
 
-export function postRestaurant(path: string, body: any) {
-  return doPost(RESTAURANT_API_BASE, path, body);
+export function postRestaurant(path: string, body: any, signal?: AbortSignal) {
+  return doPost(RESTAURANT_API_BASE, path, body, signal);
 }
 
-export function postDish(path: string, body: any) {
-  return doPost(DISH_API_BASE, path, body);
+export function postDish(path: string, body: any, signal?: AbortSignal) {
+  return doPost(DISH_API_BASE, path, body, signal);
 }
@@ -0,0 +1,95 @@
+/**
+ * What changed between two analyses of the same dish, limited to the parts a
+ * user acts on: allergens, FODMAP level and calories.
+ */
+import { AllergenFlag, AnalyzeDishResponse } from '../api/api';
+
+export type AnalysisChange =
+  | { kind: 'allergen_added'; allergen: string; present: 'yes' | 'maybe' }
+  | { kind: 'allergen_removed'; allergen: string }
+  | { kind: 'allergen_changed'; allergen: string; from: 'yes' | 'maybe'; to: 'yes' | 'maybe' }
+  | { kind: 'fodmap_level'; from: string | null; to: string | null }
+  | { kind: 'calories'; from: number; to: number };
+
+// Calorie estimates wobble between runs; only report moves users would notice
+const MIN_CALORIE_CHANGE = 50;
+const MIN_CALORIE_CHANGE_RATIO = 0.15;
+
+function presentAllergens(flags: AllergenFlag[] | undefined): Map<string, 'yes' | 'maybe'> {
+  const present = new Map<string, 'yes' | 'maybe'>();
+  for (const flag of flags || []) {
+    if (flag.present === 'yes' || flag.present === 'maybe') {
+      present.set(flag.kind.toLowerCase(), flag.present);
+    }
+  }
+  return present;
+}
+
+/**
+ * Compare the analysis the user saw with a newer one. Returns an empty list
+ * when nothing worth mentioning changed.
+ */
+export function diffAnalyses(before: AnalyzeDishResponse, after: AnalyzeDishResponse): AnalysisChange[] {
+  const changes: AnalysisChange[] = [];
+
+  const beforeAllergens = presentAllergens(before.allergen_flags);
+  const afterAllergens = presentAllergens(after.allergen_flags);
+  for (const [allergen, present] of afterAllergens) {
+    const previous = beforeAllergens.get(allergen);
+    if (!previous) {
+      changes.push({ kind: 'allergen_added', allergen, present });
+    } else if (previous !== present) {
+      changes.push({ kind: 'allergen_changed', allergen, from: previous, to: present });
+    }
+  }
+  for (const allergen of beforeAllergens.keys()) {
+    if (!afterAllergens.has(allergen)) {
+      changes.push({ kind: 'allergen_removed', allergen });
+    }
+  }
+
+  const beforeFodmap = before.fodmap_flags?.level ?? null;
+  const afterFodmap = after.fodmap_flags?.level ?? null;
+  if (beforeFodmap !== afterFodmap && afterFodmap) {
+    changes.push({ kind: 'fodmap_level', from: beforeFodmap, to: afterFodmap });
+  }
+
+  const beforeKcal = before.nutrition_summary?.energyKcal;
+  const afterKcal = after.nutrition_summary?.energyKcal;
+  if (typeof beforeKcal === 'number' && typeof afterKcal === 'number') {
+    const delta = Math.abs(afterKcal - beforeKcal);
+    if (delta >= MIN_CALORIE_CHANGE && delta >= beforeKcal * MIN_CALORIE_CHANGE_RATIO) {
+      changes.push({ kind: 'calories', from: Math.round(beforeKcal), to: Math.round(afterKcal) });
+    }
+  }
+
+  return changes;
+}
+
+function label(allergen: string): string {
+  return allergen.charAt(0).toUpperCase() + allergen.slice(1);
+}
+
+/**
+ * One-line, user-facing description of a change
+ */
+export function describeAnalysisChange(change: AnalysisChange): string {
+  switch (change.kind) {
+    case 'allergen_added':
+      return change.present === 'yes'
+        ? `Now contains ${label(change.allergen)}`
+        : `May now contain ${label(change.allergen)}`;
+    case 'allergen_removed':
+      return `${label(change.allergen)} no longer flagged`;
+    case 'allergen_changed':
+      return change.to === 'yes'
+        ? `${label(change.allergen)} confirmed (was possible)`
+        : `${label(change.allergen)} now only possible (was confirmed)`;
+    case 'fodmap_level':
+      return change.from
+        ? `FODMAP level ${change.from} → ${change.to}`
+        : `FODMAP level now ${change.to}`;
+    case 'calories':
+      return `Calories ${change.from} → ${change.to} kcal`;
+  }
+}
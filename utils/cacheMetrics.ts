@@ -1,6 +1,17 @@
 /**
- * Cache performance metrics for testing and debugging
+ * Cache performance metrics for testing and debugging.
+ * Counters and measured API latencies persist across restarts; the
+ * operation log is in-memory only.
  */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const METRICS_STORAGE_KEY = '@cache_metrics';
+// Used for "time saved" until an analysis call has actually been measured
+const DEFAULT_API_CALL_TIME_MS = 2000;
+// Latest samples kept per endpoint for percentiles
+const MAX_LATENCY_SAMPLES = 100;
+// A cache hit saves one of these calls
+const ANALYSIS_ENDPOINTS = ['analyzeDish', 'analyzeDishStream'];
 
 interface CacheMetrics {
   hits: number;
@@ -10,6 +21,31 @@ interface CacheMetrics {
   cacheOperations: CacheOperation[];
 }
 
+interface LatencyRecord {
+  /** Durations of successful calls, oldest first */
+  samples: number[];
+  count: number;
+  errors: number;
+}
+
+export interface LatencyStats {
+  endpoint: string;
+  count: number;
+  errors: number;
+  avgMs: number;
+  p50Ms: number;
+  p90Ms: number;
+  p95Ms: number;
+}
+
+interface PersistedMetrics {
+  version: 1;
+  hits: number;
+  misses: number;
+  totalTimesSavedMs: number;
+  latency: Record<string, LatencyRecord>;
+}
+
 interface CacheOperation {
   type: 'hit' | 'miss' | 'store';
   dishName: string;
@@ -18,21 +54,138 @@ interface CacheOperation {
   details?: string;
 }
 
-// In-memory metrics (reset on app restart)
 let metrics: CacheMetrics = {
   hits: 0,
   misses: 0,
   totalTimesSavedMs: 0,
-  avgApiCallTimeMs: 2000, // Estimated average API call time
+  avgApiCallTimeMs: DEFAULT_API_CALL_TIME_MS,
   cacheOperations: [],
 };
+let latency: Record<string, LatencyRecord> = {};
 
 const MAX_OPERATIONS_LOG = 50;
 
+// ============================================
+// Persistence
+// ============================================
+
+let persistQueue: Promise<void> = Promise.resolve();
+// Until the stored history is merged in, a write would replace it with this session's counts
+let persistedLoaded = false;
+
+function persistMetrics(): void {
+  if (!persistedLoaded) return;
+  const snapshot: PersistedMetrics = {
+    version: 1,
+    hits: metrics.hits,
+    misses: metrics.misses,
+    totalTimesSavedMs: metrics.totalTimesSavedMs,
+    latency,
+  };
+  persistQueue = persistQueue
+    .then(() => AsyncStorage.setItem(METRICS_STORAGE_KEY, JSON.stringify(snapshot)))
+    .catch((e) => console.log('📊 Failed to persist cache metrics:', e));
+}
+
+/**
+ * Restore counters and latencies saved by earlier sessions. Anything recorded
+ * before this resolves is kept, added on top, and saved once it's merged.
+ */
+export async function loadPersistedMetrics(): Promise<void> {
+  try {
+    const stored = await AsyncStorage.getItem(METRICS_STORAGE_KEY);
+    if (!stored) return;
+    const saved = JSON.parse(stored) as PersistedMetrics;
+    if (saved?.version !== 1) return;
+
+    metrics.hits += saved.hits || 0;
+    metrics.misses += saved.misses || 0;
+    metrics.totalTimesSavedMs += saved.totalTimesSavedMs || 0;
+    for (const [endpoint, record] of Object.entries(saved.latency || {})) {
+      const current = latency[endpoint];
+      latency[endpoint] = {
+        samples: [...record.samples, ...(current?.samples || [])].slice(-MAX_LATENCY_SAMPLES),
+        count: record.count + (current?.count || 0),
+        errors: record.errors + (current?.errors || 0),
+      };
+    }
+    metrics.avgApiCallTimeMs = getAverageLatencyMs(ANALYSIS_ENDPOINTS) ?? DEFAULT_API_CALL_TIME_MS;
+  } catch (e) {
+    console.log('📊 Failed to load cache metrics:', e);
+  } finally {
+    persistedLoaded = true;
+    persistMetrics();
+  }
+}
+
+// ============================================
+// API latency
+// ============================================
+
+/**
+ * Record how long an API call took. Failed calls are counted but left out of
+ * the percentiles.
+ */
+export function recordLatency(endpoint: string, durationMs: number, ok: boolean): void {
+  const record = latency[endpoint] || { samples: [], count: 0, errors: 0 };
+  record.count++;
+  if (ok) {
+    record.samples.push(Math.round(durationMs));
+    if (record.samples.length > MAX_LATENCY_SAMPLES) record.samples.shift();
+  } else {
+    record.errors++;
+  }
+  latency[endpoint] = record;
+
+  if (ok && ANALYSIS_ENDPOINTS.includes(endpoint)) {
+    metrics.avgApiCallTimeMs = getAverageLatencyMs(ANALYSIS_ENDPOINTS) ?? DEFAULT_API_CALL_TIME_MS;
+  }
+  persistMetrics();
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+/**
+ * Mean of the successful calls to any of `endpoints`, or null if none were measured
+ */
+export function getAverageLatencyMs(endpoints: string[]): number | null {
+  const samples = endpoints.flatMap((e) => latency[e]?.samples || []);
+  if (samples.length === 0) return null;
+  return Math.round(samples.reduce((sum, ms) => sum + ms, 0) / samples.length);
+}
+
+/**
+ * Per-endpoint latency percentiles, slowest median first
+ */
+export function getLatencyStats(): LatencyStats[] {
+  return Object.entries(latency)
+    .map(([endpoint, record]) => {
+      const sorted = [...record.samples].sort((a, b) => a - b);
+      return {
+        endpoint,
+        count: record.count,
+        errors: record.errors,
+        avgMs: getAverageLatencyMs([endpoint]) ?? 0,
+        p50Ms: percentile(sorted, 50),
+        p90Ms: percentile(sorted, 90),
+        p95Ms: percentile(sorted, 95),
+      };
+    })
+    .sort((a, b) => b.p50Ms - a.p50Ms);
+}
+
+// ============================================
+// Cache operations
+// ============================================
+
 /**
- * Record a cache hit
+ * Record a cache hit. Time saved defaults to the measured average analysis latency.
  */
-export function recordCacheHit(dishName: string, estimatedApiTimeMs: number = 2000): void {
+export function recordCacheHit(dishName: string, estimatedApiTimeMs: number = metrics.avgApiCallTimeMs): void {
   metrics.hits++;
   metrics.totalTimesSavedMs += estimatedApiTimeMs;
 
@@ -50,6 +203,7 @@ export function recordCacheHit(dishName: string, estimatedApiTimeMs: number = 20
   }
 
   console.log(`📦 CACHE HIT: "${dishName}" - saved ~${estimatedApiTimeMs}ms`);
+  persistMetrics();
 }
 
 /**
@@ -70,6 +224,7 @@ export function recordCacheMiss(dishName: string): void {
   }
 
   console.log(`❌ CACHE MISS: "${dishName}" - calling API`);
+  persistMetrics();
 }
 
 /**
@@ -121,7 +276,7 @@ Total lookups: ${total}
 Cache hits: ${metrics.hits}
 Cache misses: ${metrics.misses}
 Hit rate: ${hitRate}%
-Est. time saved: ${timeSavedSec}s
+Time saved: ${timeSavedSec}s (avg analysis ${metrics.avgApiCallTimeMs}ms)
 ────────────────────`;
 }
 
@@ -140,9 +295,11 @@ export function resetMetrics(): void {
     hits: 0,
     misses: 0,
     totalTimesSavedMs: 0,
-    avgApiCallTimeMs: 2000,
+    avgApiCallTimeMs: DEFAULT_API_CALL_TIME_MS,
     cacheOperations: [],
   };
+  latency = {};
+  persistMetrics();
   console.log('📊 Cache metrics reset');
 }
 
@@ -1,10 +1,24 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AnalyzeDishResponse } from '../api/api';
+import { decodeAnalyzeDishResponse, logDecodeIssues } from '../api/decoders';
+import { normalizeDishName, rankByDishName } from './dishNames';
+
+export { normalizeDishName } from './dishNames';
 
 const DISH_CACHE_PREFIX = '@dish_cache_';
+// ':' never appears in a normalized dish name, so this can't collide with an entry key
+const DISH_CACHE_INDEX_KEY = '@dish_cache:index';
 const RECENT_DISHES_KEY = '@recent_dish_searches';
 const MAX_RECENT_DISHES = 10;
 const CACHE_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+// Older entries are still served, but callers should refresh them in the background
+const CACHE_STALE_AFTER_MS = 24 * 60 * 60 * 1000; // 1 day
+// Bump when the shape of CachedDish changes, and add a step to migrateCachedDish
+const CACHE_SCHEMA_VERSION = 2;
+// Bump when normalizeDishName changes, so existing entries move to their new keys
+const DISH_KEY_VERSION = 2;
+const DEFAULT_MAX_CACHE_BYTES = 5 * 1024 * 1024; // 5 MB
+const DEFAULT_SWEEP_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
 
 export interface CachedDish {
   dishName: string;
@@ -16,6 +30,19 @@ export interface CachedDish {
   imageUrl?: string;
   source: 'restaurant' | 'standalone';
   cachedAt: number;
+  /** Layout of this record; entries without one predate versioning */
+  schemaVersion?: number;
+  /** Backend `apiVersion` that produced the analysis */
+  apiVersion?: string;
+}
+
+/** A cached dish as returned by lookups */
+export interface CachedDishResult extends CachedDish {
+  /**
+   * Old enough, from an older backend, or from an older schema: fine to show,
+   * but a fresh analysis should be fetched in the background
+   */
+  stale: boolean;
 }
 
 export interface RecentDishSearch {
@@ -27,15 +54,46 @@ export interface RecentDishSearch {
   searchedAt: number;
 }
 
+/** Per-entry metadata kept in the index, so lookups never deserialize analyses */
+export interface DishCacheIndexEntry {
+  key: string;
+  dishName: string;
+  normalizedName: string;
+  placeId?: string;
+  restaurantName?: string;
+  source: 'restaurant' | 'standalone';
+  cachedAt: number;
+  lastAccessedAt: number;
+  bytes: number;
+  apiVersion?: string;
+}
+
+interface DishCacheIndex {
+  version: 1;
+  entries: Record<string, DishCacheIndexEntry>;
+  /** Most recent backend `apiVersion` seen; entries from any other version are stale */
+  latestApiVersion?: string;
+  /** normalizeDishName generation the entry keys were built with; absent means 1 */
+  keyVersion?: number;
+}
+
+export interface DishCacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  dishNames: string[];
+}
+
+let maxCacheBytes = DEFAULT_MAX_CACHE_BYTES;
+
 /**
- * Normalize dish name for cache key (lowercase, trim, remove special chars)
+ * Set the byte budget for cached analyses. Least recently used entries are
+ * evicted once the total goes over it.
  */
-export function normalizeDishName(name: string): string {
-  return name
-    .toLowerCase()
-    .trim()
-    .replace(/[^a-z0-9\s]/g, '')
-    .replace(/\s+/g, '_');
+export function configureDishCache(options: { maxBytes?: number }): void {
+  if (options.maxBytes !== undefined && options.maxBytes > 0) {
+    maxCacheBytes = options.maxBytes;
+  }
 }
 
 /**
@@ -49,6 +107,188 @@ function buildCacheKey(dishName: string, placeId?: string): string {
   return `${DISH_CACHE_PREFIX}${normalized}`;
 }
 
+// Rough estimate (UTF-16), matching how the debug panel has always sized entries
+function estimateBytes(value: string): number {
+  return value.length * 2;
+}
+
+function isExpired(cachedAt: number, now: number = Date.now()): boolean {
+  return now - cachedAt > CACHE_EXPIRY_MS;
+}
+
+function isStale(entry: DishCacheIndexEntry, index: DishCacheIndex, now: number): boolean {
+  if (now - entry.cachedAt > CACHE_STALE_AFTER_MS) return true;
+  return !!index.latestApiVersion && entry.apiVersion !== index.latestApiVersion;
+}
+
+/**
+ * Bring a stored record up to CACHE_SCHEMA_VERSION. Returns null for records
+ * that can't be used (unparseable, or written by a newer build).
+ */
+export function migrateCachedDish(raw: unknown): CachedDish | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as Partial<CachedDish>;
+  if (!record.analysis || typeof record.cachedAt !== 'number' || !record.dishName) return null;
+
+  const version = typeof record.schemaVersion === 'number' ? record.schemaVersion : 1;
+  if (version > CACHE_SCHEMA_VERSION) return null;
+  if (version === CACHE_SCHEMA_VERSION) return record as CachedDish;
+
+  // v1 -> v2: stamp versions; v1 records could be written without a source or normalized name
+  return {
+    ...(record as CachedDish),
+    normalizedName: record.normalizedName || normalizeDishName(record.dishName),
+    source: record.source || 'standalone',
+    schemaVersion: CACHE_SCHEMA_VERSION,
+    apiVersion: record.analysis.apiVersion,
+  };
+}
+
+function buildIndexEntry(key: string, cached: CachedDish, bytes: number): DishCacheIndexEntry {
+  return {
+    key,
+    dishName: cached.dishName,
+    normalizedName: cached.normalizedName,
+    placeId: cached.placeId,
+    restaurantName: cached.restaurantName,
+    source: cached.source,
+    cachedAt: cached.cachedAt,
+    lastAccessedAt: cached.cachedAt,
+    bytes,
+    apiVersion: cached.apiVersion ?? cached.analysis.apiVersion,
+  };
+}
+
+// ============================================
+// Index
+// ============================================
+
+/**
+ * Index the entries written before the index existed. Runs once, the first
+ * time the index is missing; entries that don't parse are dropped.
+ */
+async function rebuildIndex(): Promise<DishCacheIndex> {
+  const index: DishCacheIndex = { version: 1, entries: {} };
+  const allKeys = await AsyncStorage.getAllKeys();
+  const dishKeys = allKeys.filter((k) => k.startsWith(DISH_CACHE_PREFIX));
+  if (dishKeys.length === 0) return index;
+
+  const invalid: string[] = [];
+  for (const [key, stored] of await AsyncStorage.multiGet(dishKeys)) {
+    try {
+      const cached = stored ? (JSON.parse(stored) as CachedDish) : null;
+      if (cached && typeof cached.cachedAt === 'number') {
+        index.entries[key] = buildIndexEntry(key, cached, estimateBytes(stored || ''));
+      } else {
+        invalid.push(key);
+      }
+    } catch {
+      invalid.push(key);
+    }
+  }
+  if (invalid.length > 0) await AsyncStorage.multiRemove(invalid);
+  console.log('Dish cache index rebuilt:', Object.keys(index.entries).length, 'entries');
+  return index;
+}
+
+/**
+ * Move entries whose keys were built by an older normalizeDishName (e.g.
+ * "crme_brle" -> "creme_brulee"). When two entries land on the same key the
+ * newer one wins.
+ */
+async function migrateIndexKeys(index: DishCacheIndex): Promise<void> {
+  const moves = Object.values(index.entries)
+    .map((entry) => ({ entry, to: buildCacheKey(entry.dishName, entry.placeId) }))
+    .filter(({ entry, to }) => entry.key !== to)
+    .sort((a, b) => b.entry.cachedAt - a.entry.cachedAt);
+  index.keyVersion = DISH_KEY_VERSION;
+  if (moves.length === 0) return;
+
+  const stored = new Map(await AsyncStorage.multiGet(moves.map((m) => m.entry.key)));
+  for (const { entry } of moves) delete index.entries[entry.key];
+
+  const writes: [string, string][] = [];
+  for (const { entry, to } of moves) {
+    const value = stored.get(entry.key);
+    if (!value || index.entries[to]) continue;
+    try {
+      const normalizedName = normalizeDishName(entry.dishName);
+      const moved = JSON.stringify({ ...JSON.parse(value), normalizedName });
+      writes.push([to, moved]);
+      index.entries[to] = { ...entry, key: to, normalizedName, bytes: estimateBytes(moved) };
+    } catch {
+      // Unreadable entries are simply dropped
+    }
+  }
+
+  if (writes.length > 0) await AsyncStorage.multiSet(writes);
+  const written = new Set(writes.map(([key]) => key));
+  await AsyncStorage.multiRemove(moves.map((m) => m.entry.key).filter((key) => !written.has(key)));
+  console.log('Dish cache moved', writes.length, 'entries to new keys');
+}
+
+async function loadIndex(): Promise<{ index: DishCacheIndex; rebuilt: boolean }> {
+  let index: DishCacheIndex | null = null;
+  const stored = await AsyncStorage.getItem(DISH_CACHE_INDEX_KEY);
+  if (stored) {
+    try {
+      const parsed = JSON.parse(stored) as DishCacheIndex;
+      if (parsed?.version === 1 && parsed.entries) index = parsed;
+    } catch {
+      // Fall through and rebuild from the entries themselves
+    }
+  }
+
+  const rebuilt = !index;
+  if (!index) index = await rebuildIndex();
+  if ((index.keyVersion ?? 1) < DISH_KEY_VERSION) {
+    await migrateIndexKeys(index);
+    return { index, rebuilt: true };
+  }
+  return { index, rebuilt };
+}
+
+// Index updates are read-modify-write, so they run one at a time
+let indexQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run `fn` against the current index. The index is written back when `fn`
+ * reports a change, or when it had to be rebuilt.
+ */
+function withIndex<T>(fn: (index: DishCacheIndex) => Promise<{ result: T; changed: boolean }>): Promise<T> {
+  const run = indexQueue.then(async () => {
+    const { index, rebuilt } = await loadIndex();
+    const { result, changed } = await fn(index);
+    if (changed || rebuilt) {
+      await AsyncStorage.setItem(DISH_CACHE_INDEX_KEY, JSON.stringify(index));
+    }
+    return result;
+  });
+  indexQueue = run.catch(() => undefined);
+  return run;
+}
+
+// Drop least recently used entries (never `keep`) until the total fits the budget
+function evictOverBudget(index: DishCacheIndex, keep: string): string[] {
+  const entries = Object.values(index.entries);
+  let total = entries.reduce((sum, e) => sum + e.bytes, 0);
+  if (total <= maxCacheBytes) return [];
+
+  const evicted: string[] = [];
+  for (const entry of entries.sort((a, b) => a.lastAccessedAt - b.lastAccessedAt)) {
+    if (total <= maxCacheBytes) break;
+    if (entry.key === keep) continue;
+    total -= entry.bytes;
+    evicted.push(entry.key);
+    delete index.entries[entry.key];
+  }
+  return evicted;
+}
+
+// ============================================
+// Entries
+// ============================================
+
 /**
  * Save dish analysis to cache
  */
@@ -74,10 +314,23 @@ export async function cacheDishAnalysis(
     imageUrl: options?.imageUrl,
     source: options?.source || 'standalone',
     cachedAt: Date.now(),
+    schemaVersion: CACHE_SCHEMA_VERSION,
+    apiVersion: analysis.apiVersion,
   };
 
   try {
-    await AsyncStorage.setItem(key, JSON.stringify(cached));
+    const value = JSON.stringify(cached);
+    await withIndex(async (index) => {
+      await AsyncStorage.setItem(key, value);
+      index.entries[key] = buildIndexEntry(key, cached, estimateBytes(value));
+      if (analysis.apiVersion) index.latestApiVersion = analysis.apiVersion;
+      const evicted = evictOverBudget(index, key);
+      if (evicted.length > 0) {
+        await AsyncStorage.multiRemove(evicted);
+        console.log('Dish cache evicted', evicted.length, 'least recently used entries');
+      }
+      return { result: undefined, changed: true };
+    });
     console.log('Dish cached:', dishName, key);
   } catch (e) {
     console.error('Failed to cache dish:', e);
@@ -85,76 +338,182 @@ export async function cacheDishAnalysis(
 }
 
 /**
- * Get cached dish analysis
+ * Get several cached analyses with one batched read. Results line up with
+ * `requests`; misses and expired entries come back as null. Records from an
+ * older schema are upgraded in place.
  */
-export async function getCachedDish(
-  dishName: string,
-  placeId?: string
-): Promise<CachedDish | null> {
-  const key = buildCacheKey(dishName, placeId);
+export async function getCachedDishes(
+  requests: { dishName: string; placeId?: string }[]
+): Promise<(CachedDishResult | null)[]> {
+  if (requests.length === 0) return [];
+  const keys = requests.map((r) => buildCacheKey(r.dishName, r.placeId));
 
   try {
-    const stored = await AsyncStorage.getItem(key);
-    if (!stored) return null;
+    return await withIndex(async (index) => {
+      const now = Date.now();
+      const wanted = Array.from(new Set(keys.filter((key) => index.entries[key])));
+      const found = new Map<string, CachedDishResult>();
+      const removed: string[] = [];
+      const upgraded: [string, string][] = [];
 
-    const cached = JSON.parse(stored) as CachedDish;
+      if (wanted.length > 0) {
+        for (const [key, stored] of await AsyncStorage.multiGet(wanted)) {
+          const entry = index.entries[key];
+          if (!stored || isExpired(entry.cachedAt, now)) {
+            removed.push(key);
+            continue;
+          }
+          try {
+            const raw = JSON.parse(stored);
+            const cached = migrateCachedDish(raw);
+            if (!cached) {
+              removed.push(key);
+              continue;
+            }
+            // Entries may predate the current payload shape, so run them through the decoder too
+            const decoded = decodeAnalyzeDishResponse(cached.analysis);
+            logDecodeIssues('getCachedDish', decoded.issues);
+            const wasUpgraded = cached.schemaVersion !== raw.schemaVersion;
+            if (wasUpgraded) {
+              const value = JSON.stringify({ ...cached, analysis: decoded.value });
+              upgraded.push([key, value]);
+              entry.bytes = estimateBytes(value);
+              entry.apiVersion = cached.apiVersion;
+            }
+            found.set(key, {
+              ...cached,
+              analysis: decoded.value,
+              stale: wasUpgraded || isStale(entry, index, now),
+            });
+            entry.lastAccessedAt = now;
+          } catch {
+            removed.push(key);
+          }
+        }
+      }
 
-    // Check if cache has expired
-    if (Date.now() - cached.cachedAt > CACHE_EXPIRY_MS) {
-      await AsyncStorage.removeItem(key);
-      return null;
-    }
+      for (const key of removed) delete index.entries[key];
+      if (removed.length > 0) await AsyncStorage.multiRemove(removed);
+      if (upgraded.length > 0) {
+        await AsyncStorage.multiSet(upgraded);
+        console.log('Dish cache upgraded', upgraded.length, 'entries to schema', CACHE_SCHEMA_VERSION);
+      }
 
-    return cached;
+      return {
+        result: keys.map((key) => found.get(key) ?? null),
+        changed: found.size > 0 || removed.length > 0,
+      };
+    });
   } catch (e) {
     console.error('Failed to get cached dish:', e);
-    return null;
+    return requests.map(() => null);
   }
 }
 
 /**
- * Search for cached dishes matching a query
+ * Get cached dish analysis
+ */
+export async function getCachedDish(
+  dishName: string,
+  placeId?: string
+): Promise<CachedDishResult | null> {
+  const [cached] = await getCachedDishes([{ dishName, placeId }]);
+  return cached;
+}
+
+/**
+ * Search for cached dishes matching a query, tolerating accents and typos.
+ * Best matches come first, then the most recently cached. Matching runs on the
+ * index; only the matching entries are read.
  */
 export async function searchCachedDishes(query: string): Promise<CachedDish[]> {
-  const normalizedQuery = normalizeDishName(query);
-  if (!normalizedQuery) return [];
+  if (!normalizeDishName(query)) return [];
 
   try {
-    const allKeys = await AsyncStorage.getAllKeys();
-    const dishKeys = allKeys.filter((k) => k.startsWith(DISH_CACHE_PREFIX));
-
-    const matches: CachedDish[] = [];
+    const now = Date.now();
+    const matches = await withIndex(async (index) => {
+      const candidates = Object.values(index.entries)
+        .filter((e) => !isExpired(e.cachedAt, now))
+        .sort((a, b) => b.cachedAt - a.cachedAt);
+      return {
+        result: rankByDishName(query, candidates, (e) => e.dishName).map((r) => r.item),
+        changed: false,
+      };
+    });
+    if (matches.length === 0) return [];
 
-    for (const key of dishKeys) {
-      const stored = await AsyncStorage.getItem(key);
+    const results: CachedDish[] = [];
+    for (const [, stored] of await AsyncStorage.multiGet(matches.map((e) => e.key))) {
       if (!stored) continue;
-
       try {
-        const cached = JSON.parse(stored) as CachedDish;
-
-        // Check expiry
-        if (Date.now() - cached.cachedAt > CACHE_EXPIRY_MS) {
-          await AsyncStorage.removeItem(key);
-          continue;
-        }
-
-        // Match against normalized name
-        if (cached.normalizedName.includes(normalizedQuery)) {
-          matches.push(cached);
-        }
+        const cached = migrateCachedDish(JSON.parse(stored));
+        if (cached) results.push(cached);
       } catch {
         // Skip invalid entries
       }
     }
-
-    // Sort by most recent first
-    return matches.sort((a, b) => b.cachedAt - a.cachedAt);
+    return results;
   } catch (e) {
     console.error('Failed to search cached dishes:', e);
     return [];
   }
 }
 
+/**
+ * Remove expired entries. Returns how many were removed.
+ */
+export async function sweepExpiredDishes(): Promise<number> {
+  try {
+    return await withIndex(async (index) => {
+      const now = Date.now();
+      const expired = Object.values(index.entries)
+        .filter((e) => isExpired(e.cachedAt, now))
+        .map((e) => e.key);
+      for (const key of expired) delete index.entries[key];
+      if (expired.length > 0) {
+        await AsyncStorage.multiRemove(expired);
+        console.log('Dish cache sweep removed', expired.length, 'expired entries');
+      }
+      return { result: expired.length, changed: expired.length > 0 };
+    });
+  } catch (e) {
+    console.error('Failed to sweep dish cache:', e);
+    return 0;
+  }
+}
+
+/**
+ * Sweep expired entries now and then every `intervalMs`. Returns a stop function.
+ */
+export function startDishCacheSweep(intervalMs: number = DEFAULT_SWEEP_INTERVAL_MS): () => void {
+  sweepExpiredDishes();
+  const timer = setInterval(sweepExpiredDishes, intervalMs);
+  return () => clearInterval(timer);
+}
+
+/**
+ * Entry count, total size and budget, read from the index
+ */
+export async function getDishCacheStats(): Promise<DishCacheStats> {
+  try {
+    return await withIndex(async (index) => {
+      const entries = Object.values(index.entries).sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+      return {
+        result: {
+          entries: entries.length,
+          bytes: entries.reduce((sum, e) => sum + e.bytes, 0),
+          maxBytes: maxCacheBytes,
+          dishNames: entries.map((e) => e.dishName),
+        },
+        changed: false,
+      };
+    });
+  } catch (e) {
+    console.error('Failed to read dish cache stats:', e);
+    return { entries: 0, bytes: 0, maxBytes: maxCacheBytes, dishNames: [] };
+  }
+}
+
 /**
  * Add dish to recent searches
  */
@@ -172,8 +531,8 @@ export async function addToRecentDishSearches(
 
     const normalizedName = normalizeDishName(dishName);
 
-    // Remove existing entry for same dish
-    recent = recent.filter((r) => r.normalizedName !== normalizedName);
+    // Remove existing entry for same dish (re-normalized, older entries may predate accent folding)
+    recent = recent.filter((r) => normalizeDishName(r.dishName) !== normalizedName);
 
     // Add new entry at the beginning
     recent.unshift({
@@ -204,29 +563,42 @@ export async function getRecentDishSearches(): Promise<RecentDishSearch[]> {
 
     const recent = JSON.parse(stored) as RecentDishSearch[];
 
-    // Update hasCache status for each
-    const updated = await Promise.all(
-      recent.map(async (r) => {
-        const cached = await getCachedDish(r.dishName);
-        return { ...r, hasCache: !!cached };
-      })
-    );
-
-    return updated;
+    // Update hasCache status for each from the index
+    const now = Date.now();
+    const indexed = await withIndex(async (index) => ({ result: index.entries, changed: false }));
+    return recent.map((r) => {
+      const entry = indexed[buildCacheKey(r.dishName)];
+      return {
+        ...r,
+        normalizedName: normalizeDishName(r.dishName),
+        hasCache: !!entry && !isExpired(entry.cachedAt, now),
+      };
+    });
   } catch (e) {
     console.error('Failed to get recent dish searches:', e);
     return [];
   }
 }
 
+/**
+ * Recent searches matching a query, best match first
+ */
+export async function searchRecentDishSearches(query: string): Promise<RecentDishSearch[]> {
+  if (!normalizeDishName(query)) return [];
+  const recent = await getRecentDishSearches();
+  return rankByDishName(query, recent, (r) => r.dishName).map((r) => r.item);
+}
+
 /**
  * Clear all dish cache
  */
 export async function clearDishCache(): Promise<void> {
   try {
-    const allKeys = await AsyncStorage.getAllKeys();
-    const dishKeys = allKeys.filter((k) => k.startsWith(DISH_CACHE_PREFIX));
-    await AsyncStorage.multiRemove(dishKeys);
+    await withIndex(async (index) => {
+      await AsyncStorage.multiRemove(Object.keys(index.entries));
+      index.entries = {};
+      return { result: undefined, changed: true };
+    });
     await AsyncStorage.removeItem(RECENT_DISHES_KEY);
     console.log('Dish cache cleared');
   } catch (e) {
@@ -0,0 +1,125 @@
+/**
+ * Dish name normalization and fuzzy matching for local search.
+ * Mirrors the backend's dish-suggest ranking closely enough that local and
+ * server results order the same way.
+ */
+
+// Letters that don't decompose under NFKD but have a conventional ASCII spelling
+const TRANSLITERATIONS: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  œ: 'oe',
+  ø: 'o',
+  đ: 'd',
+  ð: 'd',
+  ł: 'l',
+  þ: 'th',
+  ı: 'i',
+};
+
+// Combining marks left behind by NFKD (accents, Vietnamese horns and hooks, ...)
+const COMBINING_MARKS = /[\u0300-\u036f\u1ab0-\u1aff\u1dc0-\u1dff\u20d0-\u20ff\ufe20-\ufe2f]/g;
+// Anything that isn't a letter, digit or space. Non-Latin scripts (Greek,
+// Cyrillic, Arabic, Thai, CJK, Hangul, ...) are kept as-is.
+const NON_WORD = /[^a-z0-9\s\u0370-\u03ff\u0400-\u052f\u0590-\u06ff\u0e00-\u0e7f\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g;
+
+// Query tokens shorter than this only match by prefix, never by edit distance
+const MIN_FUZZY_TOKEN_LENGTH = 4;
+// Below this a result isn't shown at all
+export const MIN_DISH_SIMILARITY = 0.6;
+
+/**
+ * Lowercase, strip accents and transliterate, keeping word breaks:
+ * "Crème Brûlée" -> "creme brulee", "Phở" -> "pho"
+ */
+export function foldDishName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(COMBINING_MARKS, '')
+    // Put back what NFKD split apart that isn't an accent, e.g. Hangul jamo into syllables
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/./g, (ch) => TRANSLITERATIONS[ch] ?? ch)
+    .replace(NON_WORD, '')
+    .trim()
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * Normalize dish name for cache keys: folded, with words joined by underscores
+ */
+export function normalizeDishName(name: string): string {
+  return foldDishName(name).replace(/ /g, '_');
+}
+
+export function tokenizeDishName(name: string): string[] {
+  const folded = foldDishName(name);
+  return folded ? folded.split(' ') : [];
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// How well one query token matches one name token, 0..1
+function tokenSimilarity(query: string, token: string): number {
+  if (query === token) return 1;
+  if (token.startsWith(query)) return 0.9;
+  if (query.length < MIN_FUZZY_TOKEN_LENGTH) return 0;
+
+  // Compare against the same-length prefix too, so "chiken" still finds "chickens"
+  const distance = Math.min(levenshtein(query, token), levenshtein(query, token.slice(0, query.length)));
+  const allowed = query.length >= 8 ? 2 : 1;
+  if (distance > allowed) return 0;
+  return 0.85 - 0.1 * (distance - 1);
+}
+
+/**
+ * Similarity between a search query and a dish name, 0..1. Every query token
+ * has to match some name token (exactly, by prefix, or within a typo or two);
+ * names that also contain the whole query verbatim rank slightly higher.
+ */
+export function dishNameSimilarity(query: string, dishName: string): number {
+  const queryTokens = tokenizeDishName(query);
+  const nameTokens = tokenizeDishName(dishName);
+  if (queryTokens.length === 0 || nameTokens.length === 0) return 0;
+
+  let total = 0;
+  for (const q of queryTokens) {
+    const best = Math.max(...nameTokens.map((t) => tokenSimilarity(q, t)));
+    if (best === 0) return 0;
+    total += best;
+  }
+  const score = total / queryTokens.length;
+  const verbatim = foldDishName(dishName).includes(foldDishName(query));
+  return Math.min(1, verbatim ? score + 0.05 : score);
+}
+
+/**
+ * Keep the items whose name matches `query`, best match first. Ties keep
+ * their incoming order.
+ */
+export function rankByDishName<T>(
+  query: string,
+  items: T[],
+  getName: (item: T) => string,
+  minSimilarity: number = MIN_DISH_SIMILARITY
+): { item: T; similarity: number }[] {
+  return items
+    .map((item) => ({ item, similarity: dishNameSimilarity(query, getName(item)) }))
+    .filter((r) => r.similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity);
+}
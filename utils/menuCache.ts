@@ -0,0 +1,227 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MenuItem, MenuPrice, MenuResponse, MenuRestaurant, MenuSection } from '../api/api';
+import { decodeMenuResponse } from '../api/decoders';
+import { normalizeDishName } from './dishNames';
+
+/**
+ * Durable per-restaurant menu store. Menus are kept by placeId so a restaurant
+ * opens instantly (and offline) on the next visit, and fresh fetches can be
+ * compared with what the user saw last time.
+ */
+
+const MENU_CACHE_PREFIX = '@menu_cache_';
+// placeId -> fetchedAt for every stored menu, used to drop the oldest
+const MENU_CACHE_INDEX_KEY = '@menu_cache:index';
+const MAX_CACHED_MENUS = 25;
+// Bump when the stored layout changes; older menus are re-decoded on read
+const CACHED_MENU_VERSION = 2;
+// Menus older than this are still shown, but a prefetch should scrape again
+export const MENU_FRESH_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+export interface CachedMenu {
+  placeId: string;
+  restaurant?: MenuRestaurant;
+  source?: string;
+  sections: MenuSection[];
+  fetchedAt: number;
+  /** Stored layout; menus without one predate the Menu model */
+  version?: number;
+}
+
+export interface MenuItemChange {
+  name: string;
+  sectionName?: string;
+}
+
+export interface MenuItemPriceChange extends MenuItemChange {
+  from: string;
+  to: string;
+}
+
+/** What changed between the stored menu and a fresh fetch */
+export interface MenuDiff {
+  added: MenuItemChange[];
+  removed: MenuItemChange[];
+  repriced: MenuItemPriceChange[];
+}
+
+type MenuCacheIndex = Record<string, number>;
+
+// Serializes index updates so concurrent saves don't drop each other's entries
+let indexQueue: Promise<unknown> = Promise.resolve();
+
+function menuKey(placeId: string): string {
+  return `${MENU_CACHE_PREFIX}${placeId}`;
+}
+
+async function updateIndex(fn: (index: MenuCacheIndex) => Promise<void>): Promise<void> {
+  const run = indexQueue.then(async () => {
+    const stored = await AsyncStorage.getItem(MENU_CACHE_INDEX_KEY);
+    let index: MenuCacheIndex = {};
+    try {
+      index = stored ? (JSON.parse(stored) as MenuCacheIndex) : {};
+    } catch {
+      // A corrupt index only loses track of old menus; start over
+    }
+    await fn(index);
+    await AsyncStorage.setItem(MENU_CACHE_INDEX_KEY, JSON.stringify(index));
+  });
+  indexQueue = run.catch(() => undefined);
+  return run;
+}
+
+// ============================================
+// Store
+// ============================================
+
+/**
+ * The menu stored for a restaurant, or null if it was never saved
+ */
+export async function getCachedMenu(placeId: string): Promise<CachedMenu | null> {
+  try {
+    const stored = await AsyncStorage.getItem(menuKey(placeId));
+    if (!stored) return null;
+    const cached = JSON.parse(stored) as CachedMenu;
+    if (!Array.isArray(cached?.sections)) return null;
+    if (cached.version === CACHED_MENU_VERSION) return cached;
+
+    // Saved before the Menu model: the decoder still reads the old item fields
+    const { value } = decodeMenuResponse({ ok: true, sections: cached.sections });
+    return { ...cached, sections: value.sections, version: CACHED_MENU_VERSION };
+  } catch (e) {
+    console.error('Failed to read cached menu:', e);
+    return null;
+  }
+}
+
+/**
+ * Store a successfully fetched menu. Empty or failed responses are ignored so
+ * they never replace a good menu.
+ */
+export async function cacheMenu(placeId: string, menu: MenuResponse): Promise<CachedMenu | null> {
+  if (!menu.ok || !menu.sections?.some((section) => section.items?.length)) return null;
+
+  const cached: CachedMenu = {
+    placeId,
+    restaurant: menu.restaurant,
+    source: menu.source,
+    sections: menu.sections,
+    fetchedAt: Date.now(),
+    version: CACHED_MENU_VERSION,
+  };
+
+  try {
+    await updateIndex(async (index) => {
+      await AsyncStorage.setItem(menuKey(placeId), JSON.stringify(cached));
+      index[placeId] = cached.fetchedAt;
+
+      const overflow = Object.entries(index)
+        .sort((a, b) => b[1] - a[1])
+        .slice(MAX_CACHED_MENUS)
+        .map(([id]) => id);
+      for (const id of overflow) delete index[id];
+      if (overflow.length > 0) await AsyncStorage.multiRemove(overflow.map(menuKey));
+    });
+    return cached;
+  } catch (e) {
+    console.error('Failed to cache menu:', e);
+    return null;
+  }
+}
+
+/**
+ * The stored menu as a MenuResponse, for rendering before (or instead of) a fetch
+ */
+export function cachedMenuToResponse(cached: CachedMenu): MenuResponse {
+  return {
+    ok: true,
+    source: cached.source,
+    restaurant: cached.restaurant,
+    sections: cached.sections,
+  };
+}
+
+/**
+ * Drop every stored menu
+ */
+export async function clearMenuCache(): Promise<void> {
+  try {
+    await updateIndex(async (index) => {
+      await AsyncStorage.multiRemove(Object.keys(index).map(menuKey));
+      for (const id of Object.keys(index)) delete index[id];
+    });
+  } catch (e) {
+    console.error('Failed to clear menu cache:', e);
+  }
+}
+
+// ============================================
+// Change detection
+// ============================================
+
+/**
+ * Identity of a menu item across fetches. Item ids and section order aren't
+ * stable between scrapes, so items are matched by their folded name.
+ */
+export function menuItemKey(item: Pick<MenuItem, 'name'>): string {
+  return normalizeDishName(item.name || '');
+}
+
+function collectItems(sections: MenuSection[]): Map<string, { item: MenuItem; sectionName?: string }> {
+  const items = new Map<string, { item: MenuItem; sectionName?: string }>();
+  for (const section of sections) {
+    for (const item of Array.isArray(section.items) ? section.items : []) {
+      const key = menuItemKey(item);
+      if (key && !items.has(key)) items.set(key, { item, sectionName: section.name });
+    }
+  }
+  return items;
+}
+
+function samePrice(a: MenuPrice, b: MenuPrice): boolean {
+  if (a.amount !== null && b.amount !== null) return a.amount === b.amount;
+  return a.text.replace(/\s+/g, '').toLowerCase() === b.text.replace(/\s+/g, '').toLowerCase();
+}
+
+/**
+ * Compare a fresh menu with the stored one. Prices only count as changed when
+ * both menus list one.
+ */
+export function diffMenus(previous: MenuSection[], next: MenuSection[]): MenuDiff {
+  const before = collectItems(previous);
+  const after = collectItems(next);
+  const diff: MenuDiff = { added: [], removed: [], repriced: [] };
+
+  for (const [key, { item, sectionName }] of after) {
+    const old = before.get(key);
+    if (!old) {
+      diff.added.push({ name: item.name, sectionName });
+      continue;
+    }
+    const from = old.item.price;
+    const to = item.price;
+    if (from && to && !samePrice(from, to)) {
+      diff.repriced.push({ name: item.name, sectionName, from: from.text, to: to.text });
+    }
+  }
+  for (const [key, { item, sectionName }] of before) {
+    if (!after.has(key)) diff.removed.push({ name: item.name, sectionName });
+  }
+
+  return diff;
+}
+
+export function hasMenuChanges(diff: MenuDiff | null | undefined): diff is MenuDiff {
+  return !!diff && diff.added.length + diff.removed.length + diff.repriced.length > 0;
+}
+
+/**
+ * Short summary for a banner: "2 new items · 1 price change · 1 removed"
+ */
+export function summarizeMenuDiff(diff: MenuDiff): string {
+  const parts: string[] = [];
+  if (diff.added.length) parts.push(`${diff.added.length} new item${diff.added.length === 1 ? '' : 's'}`);
+  if (diff.repriced.length) parts.push(`${diff.repriced.length} price change${diff.repriced.length === 1 ? '' : 's'}`);
+  if (diff.removed.length) parts.push(`${diff.removed.length} removed`);
+  return parts.join(' · ');
+}
@@ -0,0 +1,98 @@
+/**
+ * Scheduling for menu prefetches: which queued restaurants to start next and
+ * how the home carousel maps to priorities. Kept free of React so the
+ * MenuPrefetch provider stays a thin wrapper around it.
+ */
+
+export type PrefetchStatus = 'idle' | 'queued' | 'starting' | 'running' | 'completed' | 'failed';
+
+/** Lower runs first */
+export const PREFETCH_PRIORITY = {
+  selected: 0,
+  neighbour: 1,
+  nearby: 2,
+  background: 10,
+} as const;
+
+export const MAX_CONCURRENT_PREFETCHES = 2;
+// Queued (not yet started) prefetches beyond this are dropped, lowest priority first
+export const MAX_QUEUED_PREFETCHES = 6;
+
+export interface PrefetchQueueEntry {
+  placeId: string;
+  status: PrefetchStatus;
+  priority: number;
+  enqueuedAt: number;
+}
+
+function byPriority(a: PrefetchQueueEntry, b: PrefetchQueueEntry): number {
+  return a.priority - b.priority || a.enqueuedAt - b.enqueuedAt;
+}
+
+export function isActivePrefetch(entry: PrefetchQueueEntry): boolean {
+  return entry.status === 'starting' || entry.status === 'running';
+}
+
+/**
+ * Queued entries to start now, best first, given how many slots are free
+ */
+export function nextPrefetches(
+  entries: PrefetchQueueEntry[],
+  maxConcurrent: number = MAX_CONCURRENT_PREFETCHES
+): PrefetchQueueEntry[] {
+  const free = maxConcurrent - entries.filter(isActivePrefetch).length;
+  if (free <= 0) return [];
+  return entries
+    .filter((e) => e.status === 'queued')
+    .sort(byPriority)
+    .slice(0, free);
+}
+
+/**
+ * Queued entries over the limit, worst first. Started jobs are never dropped.
+ */
+export function overflowPrefetches(
+  entries: PrefetchQueueEntry[],
+  maxQueued: number = MAX_QUEUED_PREFETCHES
+): PrefetchQueueEntry[] {
+  return entries
+    .filter((e) => e.status === 'queued')
+    .sort(byPriority)
+    .slice(maxQueued)
+    .reverse();
+}
+
+/**
+ * 1-based position among queued entries, or null when not queued
+ */
+export function queuePosition(entries: PrefetchQueueEntry[], placeId: string): number | null {
+  const queued = entries.filter((e) => e.status === 'queued').sort(byPriority);
+  const index = queued.findIndex((e) => e.placeId === placeId);
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Priorities for the carousel around the selected card: the selection, then
+ * its direct neighbours, then the next ones out. Cards further away are left out.
+ */
+export function carouselPriorities(
+  placeIds: string[],
+  selectedIndex: number,
+  radius: number = 2
+): { placeId: string; priority: number }[] {
+  const result: { placeId: string; priority: number }[] = [];
+  for (let distance = 0; distance <= radius; distance++) {
+    const priority =
+      distance === 0
+        ? PREFETCH_PRIORITY.selected
+        : distance === 1
+        ? PREFETCH_PRIORITY.neighbour
+        : PREFETCH_PRIORITY.nearby;
+    const indexes = distance === 0 ? [selectedIndex] : [selectedIndex - distance, selectedIndex + distance];
+    for (const index of indexes) {
+      const placeId = placeIds[index];
+      if (placeId) result.push({ placeId, priority });
+    }
+  }
+  return result;
+}